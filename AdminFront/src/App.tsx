@@ -3,10 +3,14 @@ import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-d
 import Login from './pages/Login';
 import Dashboard from './pages/Dashboard';
 import RoutesPage from './pages/Routes';
+import Stops from './pages/Stops';
+import Timetables from './pages/Timetables';
 import Drivers from './pages/Drivers';
+import Roster from './pages/Roster';
 import Buses from './pages/Buses';
 import Reports from './pages/Reports';
 import LiveTracking from './pages/LiveTracking';
+import TripPlayback from './pages/TripPlayback';
 import Settings from './pages/Settings';
 import Layout from './components/Layout';
 import ProtectedRoute from './components/ProtectedRoute';
@@ -35,6 +39,22 @@ function App() {
           </ProtectedRoute>
         } />
         
+        <Route path="/stops" element={
+          <ProtectedRoute>
+            <Layout>
+              <Stops />
+            </Layout>
+          </ProtectedRoute>
+        } />
+        
+        <Route path="/timetables" element={
+          <ProtectedRoute>
+            <Layout>
+              <Timetables />
+            </Layout>
+          </ProtectedRoute>
+        } />
+        
         <Route path="/drivers" element={
           <ProtectedRoute>
             <Layout>
@@ -43,6 +63,14 @@ function App() {
           </ProtectedRoute>
         } />
         
+        <Route path="/roster" element={
+          <ProtectedRoute>
+            <Layout>
+              <Roster />
+            </Layout>
+          </ProtectedRoute>
+        } />
+        
         <Route path="/buses" element={
           <ProtectedRoute>
             <Layout>
@@ -59,6 +87,14 @@ function App() {
           </ProtectedRoute>
         } />
         
+        <Route path="/trip-playback" element={
+          <ProtectedRoute>
+            <Layout>
+              <TripPlayback />
+            </Layout>
+          </ProtectedRoute>
+        } />
+        
         <Route path="/reports" element={
           <ProtectedRoute>
             <Layout>
@@ -0,0 +1,254 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { AlertTriangle, Plus, X } from 'lucide-react';
+import { isAxiosError } from 'axios';
+import { Diversion, Route } from '../types';
+import { routesAPI } from '../services/api';
+
+interface DiversionPanelProps {
+  route: Route;
+}
+
+interface DiversionFormData {
+  reason: string;
+  closedStopIds: string[];
+  startsAt: string; // datetime-local; empty means now
+  endsAt: string;
+  geometry: string; // GeoJSON LineString or [[lng, lat], ...] as text
+}
+
+const emptyForm: DiversionFormData = { reason: '', closedStopIds: [], startsAt: '', endsAt: '', geometry: '' };
+
+const formatDate = (value: string) => new Date(value).toLocaleString();
+
+// Current and upcoming diversions of a route, with a form to add one
+const DiversionPanel: React.FC<DiversionPanelProps> = ({ route }) => {
+  const routeId = route._id || route.routeId;
+  const [diversions, setDiversions] = useState<Diversion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState<DiversionFormData>(emptyForm);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchDiversions = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await routesAPI.getDiversions(routeId);
+      setDiversions(response.success ? response.diversions : []);
+    } catch (err) {
+      console.error('Error fetching diversions:', err);
+      setError('Failed to load diversions.');
+    } finally {
+      setLoading(false);
+    }
+  }, [routeId]);
+
+  useEffect(() => {
+    fetchDiversions();
+  }, [fetchDiversions]);
+
+  const stopName = (stopId: string) => route.stops.find(stop => stop.stopId === stopId)?.name || stopId;
+
+  const toggleStop = (stopId: string) => {
+    setFormData(prev => ({
+      ...prev,
+      closedStopIds: prev.closedStopIds.includes(stopId)
+        ? prev.closedStopIds.filter(id => id !== stopId)
+        : [...prev.closedStopIds, stopId]
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    let geometry: unknown;
+    if (formData.geometry.trim()) {
+      try {
+        geometry = JSON.parse(formData.geometry);
+      } catch {
+        setError('Alternate path must be valid JSON (GeoJSON LineString or [[lng, lat], ...]).');
+        return;
+      }
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await routesAPI.createDiversion(routeId, {
+        reason: formData.reason,
+        closedStopIds: formData.closedStopIds,
+        geometry,
+        startsAt: formData.startsAt ? new Date(formData.startsAt).toISOString() : undefined,
+        endsAt: new Date(formData.endsAt).toISOString()
+      });
+      if (response.success) {
+        setFormData(emptyForm);
+        setShowForm(false);
+        await fetchDiversions();
+      } else {
+        setError(response.message || 'Failed to create diversion');
+      }
+    } catch (err) {
+      console.error('Error creating diversion:', err);
+      const message = isAxiosError(err) ? err.response?.data?.message : null;
+      setError(message || 'Failed to create diversion. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleEnd = async (diversion: Diversion) => {
+    const upcoming = new Date(diversion.startsAt).getTime() > Date.now();
+    if (!window.confirm(upcoming ? 'Cancel this upcoming diversion?' : 'End this diversion now?')) return;
+    try {
+      await routesAPI.endDiversion(routeId, diversion._id);
+      await fetchDiversions();
+    } catch (err) {
+      console.error('Error ending diversion:', err);
+      const message = isAxiosError(err) ? err.response?.data?.message : null;
+      alert(message || 'Failed to end diversion. Please try again.');
+    }
+  };
+
+  return (
+    <>
+      <div className="bg-neutral-100 px-4 py-2 border-y border-neutral-200 flex items-center justify-between">
+        <div className="flex items-center">
+          <AlertTriangle size={16} className="mr-2 text-neutral-600" />
+          <h4 className="text-neutral-800 font-semibold">Diversions</h4>
+        </div>
+        <button
+          type="button"
+          onClick={() => setShowForm(!showForm)}
+          className="flex items-center px-3 py-1 text-sm font-semibold text-info-700 hover:bg-info-100 rounded-lg"
+        >
+          {showForm ? <X size={14} className="mr-1" /> : <Plus size={14} className="mr-1" />}
+          {showForm ? 'Cancel' : 'Add Diversion'}
+        </button>
+      </div>
+
+      {error && <p className="px-4 pt-3 text-sm text-red-600">{error}</p>}
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="px-4 py-3 space-y-3 border-b border-neutral-200">
+          <div>
+            <label className="block text-xs text-neutral-600 mb-1">Reason</label>
+            <input
+              type="text"
+              value={formData.reason}
+              onChange={(e) => setFormData(prev => ({ ...prev, reason: e.target.value }))}
+              className="w-full px-3 py-2 bg-white border border-neutral-300 rounded-lg text-sm focus:outline-none focus:border-info-400 focus:ring-2 focus:ring-info-200"
+              placeholder="e.g. Road works on MG Road"
+              required
+            />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs text-neutral-600 mb-1">From (empty = now)</label>
+              <input
+                type="datetime-local"
+                value={formData.startsAt}
+                onChange={(e) => setFormData(prev => ({ ...prev, startsAt: e.target.value }))}
+                className="w-full px-3 py-2 bg-white border border-neutral-300 rounded-lg text-sm focus:outline-none focus:border-info-400 focus:ring-2 focus:ring-info-200"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-neutral-600 mb-1">Until</label>
+              <input
+                type="datetime-local"
+                value={formData.endsAt}
+                onChange={(e) => setFormData(prev => ({ ...prev, endsAt: e.target.value }))}
+                className="w-full px-3 py-2 bg-white border border-neutral-300 rounded-lg text-sm focus:outline-none focus:border-info-400 focus:ring-2 focus:ring-info-200"
+                required
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs text-neutral-600 mb-1">Closed stops</label>
+            <div className="flex flex-wrap gap-2">
+              {route.stops.map(stop => stop.stopId && (
+                <label
+                  key={stop.stopId}
+                  className={`flex items-center space-x-1 px-2 py-1 rounded-lg border text-sm cursor-pointer ${
+                    formData.closedStopIds.includes(stop.stopId)
+                      ? 'bg-error-100 border-error-300 text-error-700'
+                      : 'bg-white border-neutral-300 text-neutral-700'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={formData.closedStopIds.includes(stop.stopId)}
+                    onChange={() => toggleStop(stop.stopId as string)}
+                    className="rounded border-neutral-300"
+                  />
+                  <span>{stop.name}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs text-neutral-600 mb-1">
+              Alternate path (optional, GeoJSON LineString or [[lng, lat], ...] from the first to the last stop)
+            </label>
+            <textarea
+              value={formData.geometry}
+              onChange={(e) => setFormData(prev => ({ ...prev, geometry: e.target.value }))}
+              rows={3}
+              className="w-full px-3 py-2 bg-white border border-neutral-300 rounded-lg text-xs font-mono focus:outline-none focus:border-info-400 focus:ring-2 focus:ring-info-200"
+              placeholder='{"type": "LineString", "coordinates": [[77.21, 28.63], [77.23, 28.62]]}'
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="px-4 py-2 bg-info-500 text-white rounded-lg text-sm font-semibold hover:bg-info-600 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? 'Saving...' : 'Create Diversion'}
+          </button>
+        </form>
+      )}
+
+      {loading ? (
+        <p className="px-4 py-3 text-sm text-neutral-500">Loading diversions...</p>
+      ) : diversions.length === 0 ? (
+        <p className="px-4 py-3 text-sm text-neutral-500">No current or upcoming diversions</p>
+      ) : (
+        <ul className="divide-y divide-neutral-200">
+          {diversions.map(diversion => {
+            const upcoming = new Date(diversion.startsAt).getTime() > Date.now();
+            return (
+              <li key={diversion._id} className="px-4 py-3 flex items-start justify-between">
+                <div className="text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold text-neutral-800">{diversion.reason}</span>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${
+                      upcoming ? 'bg-warning-100 text-warning-700' : 'bg-error-100 text-error-700'
+                    }`}>
+                      {upcoming ? 'Scheduled' : 'Active'}
+                    </span>
+                  </div>
+                  <p className="text-neutral-600">
+                    {formatDate(diversion.startsAt)} – {formatDate(diversion.endsAt)}
+                  </p>
+                  {diversion.closedStopIds.length > 0 && (
+                    <p className="text-neutral-600">Closed: {diversion.closedStopIds.map(stopName).join(', ')}</p>
+                  )}
+                  {diversion.geometry && <p className="text-neutral-600">Follows an alternate path</p>}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleEnd(diversion)}
+                  className="px-3 py-1 text-sm font-semibold text-error-600 hover:bg-error-100 rounded-lg"
+                >
+                  {upcoming ? 'Cancel' : 'End now'}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </>
+  );
+};
+
+export default DiversionPanel;
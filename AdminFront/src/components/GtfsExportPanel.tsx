@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { CheckCircle, Download, XCircle } from 'lucide-react';
+import { GtfsValidationResponse } from '../types';
+import { gtfsAPI, GTFS_STATIC_URL } from '../services/api';
+
+// Validation of the published GTFS static feed, with its public download link
+const GtfsExportPanel: React.FC = () => {
+  const [result, setResult] = useState<GtfsValidationResponse | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState('');
+
+  const checkFeed = async () => {
+    setError('');
+    setIsChecking(true);
+    try {
+      setResult(await gtfsAPI.validateFeed());
+    } catch (err) {
+      console.error('Error validating GTFS feed:', err);
+      setError('Failed to validate the GTFS feed. Please try again.');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <div className="bg-white border border-neutral-200 rounded-2xl p-6 shadow-soft">
+      <h2 className="text-2xl font-bold text-neutral-800 mb-2">GTFS Feed</h2>
+      <p className="text-sm text-neutral-600 mb-6">
+        Journey planners download the feed from{' '}
+        <a href={GTFS_STATIC_URL} className="text-info-600 hover:underline break-all">{GTFS_STATIC_URL}</a>.
+        It is only published while validation reports no errors.
+      </p>
+
+      <div className="flex flex-wrap gap-3">
+        <button
+          type="button"
+          onClick={checkFeed}
+          disabled={isChecking}
+          className="px-6 py-2 rounded-xl font-semibold text-white bg-info-500 hover:bg-info-600 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isChecking ? 'Checking...' : 'Validate Feed'}
+        </button>
+        {result?.valid && (
+          <a
+            href={GTFS_STATIC_URL}
+            className="flex items-center px-6 py-2 rounded-xl font-semibold text-neutral-700 bg-neutral-100 hover:bg-neutral-200"
+          >
+            <Download size={18} className="mr-2" />
+            Download gtfs.zip
+          </a>
+        )}
+      </div>
+
+      {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+
+      {result && (
+        <div className="mt-6 space-y-3 text-sm">
+          <div className={`flex items-center font-semibold ${result.valid ? 'text-success-700' : 'text-error-700'}`}>
+            {result.valid ? <CheckCircle size={18} className="mr-2" /> : <XCircle size={18} className="mr-2" />}
+            {result.valid ? 'Feed is valid' : `${result.errors.length} error${result.errors.length === 1 ? '' : 's'}; the feed is not published`}
+          </div>
+          <p className="text-neutral-600">
+            Version {result.feedVersion}: {result.counts.routes} routes, {result.counts.stops} stops, {result.counts.trips} trips
+          </p>
+          {result.errors.length > 0 && (
+            <ul className="list-disc list-inside text-error-700">
+              {result.errors.map(message => <li key={message}>{message}</li>)}
+            </ul>
+          )}
+          {result.warnings.length > 0 && (
+            <ul className="list-disc list-inside text-warning-700">
+              {result.warnings.map(message => <li key={message}>{message}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GtfsExportPanel;
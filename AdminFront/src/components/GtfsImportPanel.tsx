@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { Upload } from 'lucide-react';
+import { isAxiosError } from 'axios';
+import { GtfsImportAction, GtfsImportResponse } from '../types';
+import { gtfsAPI } from '../services/api';
+
+interface GtfsImportPanelProps {
+  onImported: () => void;
+}
+
+const actionStyles: Record<GtfsImportAction, string> = {
+  create: 'bg-success-100 text-success-700',
+  update: 'bg-info-100 text-info-700',
+  unchanged: 'bg-neutral-100 text-neutral-600',
+  conflict: 'bg-warning-100 text-warning-700',
+  error: 'bg-error-100 text-error-700'
+};
+
+const actionLabels: Record<GtfsImportAction, string> = {
+  create: 'Create',
+  update: 'Update',
+  unchanged: 'Unchanged',
+  conflict: 'Conflict',
+  error: 'Error'
+};
+
+// Upload of a GTFS static feed: previews the changes (dry run) before importing them
+const GtfsImportPanel: React.FC<GtfsImportPanelProps> = ({ onImported }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [onConflict, setOnConflict] = useState<'skip' | 'update'>('skip');
+  const [result, setResult] = useState<GtfsImportResponse | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  const runImport = async (dryRun: boolean) => {
+    if (!file) return;
+    setError('');
+    setIsWorking(true);
+    try {
+      const response = await gtfsAPI.importFeed(file, { dryRun, onConflict });
+      setResult(response);
+      if (!dryRun) onImported();
+    } catch (err) {
+      console.error('Error importing GTFS feed:', err);
+      const message = isAxiosError(err) ? err.response?.data?.message : null;
+      setError(message || 'Failed to read the GTFS feed. Please try again.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFile(e.target.files?.[0] || null);
+    setResult(null);
+  };
+
+  const pending = result && result.dryRun ? result.summary.create + result.summary.update : 0;
+
+  return (
+    <div className="bg-white border border-neutral-200 rounded-2xl p-6 shadow-soft">
+      <h2 className="text-2xl font-bold text-neutral-800 mb-2">Import GTFS Feed</h2>
+      <p className="text-sm text-neutral-600 mb-6">
+        Upload a GTFS static zip to create and update routes. GTFS shapes are used where the feed has them.
+      </p>
+
+      <div className="flex flex-col md:flex-row md:items-end gap-4">
+        <div className="flex-1">
+          <label className="block text-sm font-medium text-neutral-700 mb-2">Feed zip</label>
+          <input
+            type="file"
+            accept=".zip,application/zip"
+            onChange={handleFileChange}
+            className="w-full text-sm text-neutral-700 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-info-100 file:text-info-700 file:font-semibold"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-neutral-700 mb-2">Existing route with the same name</label>
+          <select
+            value={onConflict}
+            onChange={(e) => {
+              setOnConflict(e.target.value as 'skip' | 'update');
+              setResult(null);
+            }}
+            className="px-4 py-2 bg-white border border-neutral-300 rounded-xl text-sm text-neutral-800 focus:outline-none focus:border-info-400 focus:ring-2 focus:ring-info-200"
+          >
+            <option value="skip">Skip (report a conflict)</option>
+            <option value="update">Update it from the feed</option>
+          </select>
+        </div>
+        <button
+          type="button"
+          onClick={() => runImport(true)}
+          disabled={!file || isWorking}
+          className="flex items-center justify-center px-6 py-2 rounded-xl font-semibold text-white bg-info-500 hover:bg-info-600 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Upload size={18} className="mr-2" />
+          {isWorking ? 'Reading...' : 'Preview'}
+        </button>
+      </div>
+
+      {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+
+      {result && (
+        <div className="mt-6">
+          <div className="flex flex-wrap items-center gap-2 mb-4">
+            <span className="text-sm font-semibold text-neutral-700">
+              {result.dryRun ? 'Preview:' : 'Imported:'}
+            </span>
+            {(Object.keys(actionLabels) as GtfsImportAction[]).map(action => (
+              <span key={action} className={`px-2 py-1 rounded-full text-xs font-semibold ${actionStyles[action]}`}>
+                {result.summary[action]} {actionLabels[action].toLowerCase()}
+              </span>
+            ))}
+          </div>
+
+          {result.warnings.length > 0 && (
+            <ul className="mb-4 text-xs text-warning-700 list-disc list-inside">
+              {result.warnings.map(warning => <li key={warning}>{warning}</li>)}
+            </ul>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-neutral-200">
+                  <th className="text-left py-2 px-3 text-neutral-700 font-semibold">GTFS Route</th>
+                  <th className="text-left py-2 px-3 text-neutral-700 font-semibold">Route Name</th>
+                  <th className="text-left py-2 px-3 text-neutral-700 font-semibold">Action</th>
+                  <th className="text-left py-2 px-3 text-neutral-700 font-semibold">Stops</th>
+                  <th className="text-left py-2 px-3 text-neutral-700 font-semibold">Geometry</th>
+                  <th className="text-left py-2 px-3 text-neutral-700 font-semibold">Details</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.routes.map(route => (
+                  <tr key={route.gtfsRouteId} className="border-b border-neutral-100">
+                    <td className="py-2 px-3 text-neutral-600">{route.gtfsRouteId}</td>
+                    <td className="py-2 px-3 font-semibold text-neutral-800">{route.routeName}</td>
+                    <td className="py-2 px-3">
+                      <span className={`px-2 py-1 rounded-full text-xs font-semibold ${actionStyles[route.action]}`}>
+                        {actionLabels[route.action]}
+                      </span>
+                    </td>
+                    <td className="py-2 px-3 text-neutral-600">
+                      {route.stops}{route.bidirectional ? ' (both directions)' : ''}
+                    </td>
+                    <td className="py-2 px-3 text-neutral-600">{route.geometrySource === 'gtfs' ? 'GTFS shape' : 'Computed (routing)'}</td>
+                    <td className="py-2 px-3 text-neutral-600">
+                      {route.message || (route.changes.length > 0 ? `Changes: ${route.changes.join(', ')}` : '')}
+                      {route.warnings.map(warning => (
+                        <p key={warning} className="text-xs text-warning-700">{warning}</p>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {result.dryRun && (
+            <button
+              type="button"
+              onClick={() => runImport(false)}
+              disabled={pending === 0 || isWorking}
+              className="mt-4 px-6 py-2 rounded-xl font-semibold text-white bg-success-500 hover:bg-success-600 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isWorking ? 'Importing...' : `Import ${pending} route${pending === 1 ? '' : 's'}`}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GtfsImportPanel;
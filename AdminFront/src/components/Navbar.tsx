@@ -9,6 +9,7 @@ import {
   Menu,
   X
 } from 'lucide-react';
+import { authAPI } from '../services/api';
 
 interface NavbarProps {
   onSidebarToggle: () => void;
@@ -20,10 +21,8 @@ const Navbar: React.FC<NavbarProps> = ({ onSidebarToggle, sidebarOpen }) => {
   const [showNotifications, setShowNotifications] = useState(false);
   const navigate = useNavigate();
 
-  const handleLogout = () => {
-    localStorage.removeItem('token');
-    localStorage.removeItem('isAdmin');
-    localStorage.removeItem('adminId');
+  const handleLogout = async () => {
+    await authAPI.logout();
     navigate('/login');
   };
 
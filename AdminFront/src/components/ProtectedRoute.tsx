@@ -1,20 +1,38 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Navigate } from 'react-router-dom';
+import { ensureSession } from '../services/api';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
 }
 
 const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
-  const token = localStorage.getItem('token');
-  const isAdmin = localStorage.getItem('isAdmin');
-  const adminId = localStorage.getItem('adminId');
-  
-  if (!token || !isAdmin || isAdmin !== 'true') {
+  const [status, setStatus] = useState<'checking' | 'authenticated' | 'unauthenticated'>('checking');
+
+  useEffect(() => {
+    let cancelled = false;
+    // Valid access token, or a refresh token that can silently obtain one
+    ensureSession().then((ok) => {
+      if (!cancelled) setStatus(ok ? 'authenticated' : 'unauthenticated');
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (status === 'checking') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-info-600"></div>
+      </div>
+    );
+  }
+
+  if (status === 'unauthenticated') {
     return <Navigate to="/login" replace />;
   }
   
   return <>{children}</>;
 };
 
-export default ProtectedRoute;
\ No newline at end of file
+export default ProtectedRoute;
@@ -0,0 +1,350 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { MapContainer, TileLayer, Polyline, Marker, CircleMarker, Tooltip, useMapEvents } from 'react-leaflet';
+import { decode } from '@mapbox/polyline';
+import L from 'leaflet';
+import type { LatLngBoundsExpression, LatLngExpression } from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { GripVertical, Trash2, Crosshair, RefreshCw, X } from 'lucide-react';
+import { isAxiosError } from 'axios';
+import { RegistryStop, RoutePreviewResponse, ViaPoint } from '../types';
+import { routesAPI } from '../services/api';
+import SearchableSelect from './SearchableSelect';
+
+export interface EditorStop {
+  stopId: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+}
+
+interface RouteMapEditorProps {
+  stops: EditorStop[];
+  viaPoints: ViaPoint[];
+  bidirectional: boolean;
+  registryStops: RegistryStop[];
+  onChange: (stops: EditorStop[], viaPoints: ViaPoint[]) => void;
+}
+
+// Used until there is a stop to fit the map to
+const DEFAULT_CENTER: LatLngExpression = [19.076, 72.8777];
+
+const createRouteStopIcon = (label: number) =>
+  L.divIcon({
+    html: `<div style="width: 24px; height: 24px; background: #2563eb; color: white; border: 2px solid white; border-radius: 50%; display: flex; align-items: center; justify-content: center; font-size: 12px; font-weight: 700; box-shadow: 0 2px 6px rgba(0,0,0,0.3);">${label}</div>`,
+    className: 'route-stop-marker',
+    iconSize: [24, 24],
+    iconAnchor: [12, 12],
+  });
+
+const viaPointIcon = L.divIcon({
+  html: '<div style="width: 14px; height: 14px; background: #f59e0b; border: 2px solid white; transform: rotate(45deg); box-shadow: 0 2px 6px rgba(0,0,0,0.3);"></div>',
+  className: 'via-point-marker',
+  iconSize: [14, 14],
+  iconAnchor: [7, 7],
+});
+
+const formatDistance = (meters: number | null) => (meters === null ? '-' : `${(meters / 1000).toFixed(2)} km`);
+const formatDuration = (seconds: number | null) => (seconds === null ? '-' : `${Math.max(1, Math.round(seconds / 60))} min`);
+
+// Via points belong to the segment between two stops; after stops change, each one follows its segment
+// (same two stops next to each other) or is dropped
+const remapViaPoints = (before: EditorStop[], after: EditorStop[], viaPoints: ViaPoint[]) =>
+  viaPoints.flatMap(via => {
+    const from = before[via.segment]?.stopId;
+    const to = before[via.segment + 1]?.stopId;
+    const segment = after.findIndex((stop, i) => stop.stopId === from && after[i + 1]?.stopId === to);
+    return segment >= 0 ? [{ ...via, segment }] : [];
+  });
+
+// Map clicks place a via point while a segment is selected
+const ViaPointPlacer: React.FC<{ onPlace: (lat: number, lng: number) => void }> = ({ onPlace }) => {
+  useMapEvents({
+    click: (e) => onPlace(e.latlng.lat, e.latlng.lng),
+  });
+  return null;
+};
+
+const RouteMapEditor: React.FC<RouteMapEditorProps> = ({ stops, viaPoints, bidirectional, registryStops, onChange }) => {
+  const [preview, setPreview] = useState<RoutePreviewResponse | null>(null);
+  const [previewKey, setPreviewKey] = useState('');
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [previewError, setPreviewError] = useState('');
+  const [placingSegment, setPlacingSegment] = useState<number | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const routeStopIds = new Set(stops.map(stop => stop.stopId));
+  const requestKey = JSON.stringify({ stops: stops.map(stop => stop.stopId), viaPoints, bidirectional });
+  const previewStale = preview !== null && previewKey !== requestKey;
+
+  // Fit the map once to the route's stops and the registry; later changes keep the admin's view
+  const [bounds, setBounds] = useState<LatLngBoundsExpression | null>(null);
+  const [mapKey, setMapKey] = useState(0);
+  useEffect(() => {
+    if (bounds) return;
+    const points = [...stops, ...registryStops].map(stop => [stop.latitude, stop.longitude] as [number, number]);
+    if (!points.length) return;
+    setBounds(points);
+    setMapKey(key => key + 1);
+  }, [bounds, stops, registryStops]);
+
+  const upPath = useMemo(() => (preview ? decode(preview.up.geometry) : []), [preview]);
+  const downPath = useMemo(() => (preview?.down ? decode(preview.down.geometry) : []), [preview]);
+
+  const changeStops = (next: EditorStop[]) => {
+    onChange(next, remapViaPoints(stops, next, viaPoints));
+    setPlacingSegment(null);
+  };
+
+  const addStop = (stopId: string) => {
+    const registryStop = registryStops.find(stop => stop.stopId === stopId);
+    if (!registryStop || routeStopIds.has(stopId)) return;
+    changeStops([
+      ...stops,
+      { stopId: registryStop.stopId, name: registryStop.name, latitude: registryStop.latitude, longitude: registryStop.longitude }
+    ]);
+  };
+
+  const removeStop = (index: number) => changeStops(stops.filter((_, i) => i !== index));
+
+  const dropStop = (target: number) => {
+    if (dragIndex === null || dragIndex === target) return;
+    const next = [...stops];
+    const [moved] = next.splice(dragIndex, 1);
+    next.splice(target, 0, moved);
+    setDragIndex(null);
+    changeStops(next);
+  };
+
+  const placeViaPoint = (lat: number, lng: number) => {
+    if (placingSegment === null) return;
+    onChange(stops, [...viaPoints, { segment: placingSegment, latitude: lat, longitude: lng }]);
+    setPlacingSegment(null);
+  };
+
+  const moveViaPoint = (index: number, lat: number, lng: number) => {
+    onChange(stops, viaPoints.map((via, i) => (i === index ? { ...via, latitude: lat, longitude: lng } : via)));
+  };
+
+  const removeViaPoint = (index: number) => onChange(stops, viaPoints.filter((_, i) => i !== index));
+
+  const runPreview = async () => {
+    setPreviewError('');
+    setIsPreviewing(true);
+    try {
+      const key = requestKey;
+      const response = await routesAPI.previewRoute({ stops, bidirectional, viaPoints });
+      setPreview(response);
+      setPreviewKey(key);
+    } catch (err) {
+      console.error('Error previewing route:', err);
+      const message = isAxiosError(err) ? err.response?.data?.message : null;
+      setPreviewError(message || 'Failed to preview the route. Please try again.');
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const addOptions = registryStops
+    .filter(stop => !routeStopIds.has(stop.stopId))
+    .map(stop => ({ value: stop.stopId, label: stop.name }));
+  const straightPath = stops.map(stop => [stop.latitude, stop.longitude] as [number, number]);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        {/* Map */}
+        <div className="lg:col-span-2 rounded-xl overflow-hidden border border-neutral-200" style={{ height: '480px' }}>
+          <MapContainer
+            key={mapKey}
+            {...(bounds ? { bounds } : { center: DEFAULT_CENTER, zoom: 11 })}
+            className={`w-full h-full ${placingSegment !== null ? 'cursor-crosshair' : ''}`}
+            scrollWheelZoom={true}
+          >
+            <TileLayer
+              attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+              url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+            />
+            <ViaPointPlacer onPlace={placeViaPoint} />
+
+            {/* Straight lines until a preview shows the road geometry */}
+            {(!preview || previewStale) && straightPath.length > 1 && (
+              <Polyline positions={straightPath} color="#9ca3af" weight={3} dashArray="6 6" />
+            )}
+            {preview && (
+              <Polyline positions={upPath} color="#2563eb" weight={4} opacity={previewStale ? 0.35 : 0.8} />
+            )}
+            {preview && downPath.length > 0 && (
+              <Polyline positions={downPath} color="#f59e0b" weight={3} opacity={previewStale ? 0.3 : 0.7} dashArray="8 6" />
+            )}
+
+            {/* Registry stops not on the route yet: click to add */}
+            {registryStops.filter(stop => !routeStopIds.has(stop.stopId)).map(stop => (
+              <CircleMarker
+                key={stop.stopId}
+                center={[stop.latitude, stop.longitude]}
+                radius={6}
+                bubblingMouseEvents={false}
+                pathOptions={{ color: '#6b7280', fillColor: '#e5e7eb', fillOpacity: 0.9, weight: 2 }}
+                eventHandlers={{ click: () => addStop(stop.stopId) }}
+              >
+                <Tooltip>{stop.name} (click to add)</Tooltip>
+              </CircleMarker>
+            ))}
+
+            {stops.map((stop, index) => (
+              <Marker key={stop.stopId} position={[stop.latitude, stop.longitude]} icon={createRouteStopIcon(index + 1)}>
+                <Tooltip>{stop.name}</Tooltip>
+              </Marker>
+            ))}
+
+            {viaPoints.map((via, index) => (
+              <Marker
+                key={`${via.segment}-${index}`}
+                position={[via.latitude, via.longitude]}
+                icon={viaPointIcon}
+                draggable={true}
+                eventHandlers={{
+                  dragend: (e) => {
+                    const { lat, lng } = (e.target as L.Marker).getLatLng();
+                    moveViaPoint(index, lat, lng);
+                  }
+                }}
+              >
+                <Tooltip>Via point after stop #{via.segment + 1} (drag to adjust)</Tooltip>
+              </Marker>
+            ))}
+          </MapContainer>
+        </div>
+
+        {/* Stop list */}
+        <div className="flex flex-col">
+          <div className="mb-3">
+            <SearchableSelect
+              options={addOptions}
+              value=""
+              onChange={addStop}
+              placeholder="Add a stop from the registry"
+            />
+            <p className="mt-1 text-xs text-neutral-500">Or click a grey stop on the map. Drag stops to reorder them.</p>
+          </div>
+          <ol className="space-y-2 overflow-y-auto" style={{ maxHeight: '400px' }}>
+            {stops.map((stop, index) => (
+              <li
+                key={stop.stopId}
+                draggable
+                onDragStart={() => setDragIndex(index)}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={() => dropStop(index)}
+                onDragEnd={() => setDragIndex(null)}
+                className={`flex items-center p-2 rounded-lg border bg-neutral-50 ${
+                  dragIndex === index ? 'border-info-300 opacity-60' : 'border-neutral-200'
+                }`}
+              >
+                <GripVertical size={16} className="text-neutral-400 cursor-move mr-2 flex-shrink-0" />
+                <span className="w-6 text-sm font-semibold text-info-700">{index + 1}</span>
+                <span className="flex-1 text-sm text-neutral-800 truncate" title={stop.name}>{stop.name}</span>
+                <button
+                  type="button"
+                  onClick={() => removeStop(index)}
+                  className="p-1 rounded text-error-600 hover:bg-error-100"
+                  title="Remove stop"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </li>
+            ))}
+          </ol>
+          {stops.length === 0 && <p className="text-sm text-neutral-500">No stops yet.</p>}
+        </div>
+      </div>
+
+      {/* Preview and segments */}
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={runPreview}
+          disabled={isPreviewing || stops.length < 2}
+          className="flex items-center px-4 py-2 rounded-xl text-sm font-semibold text-white bg-info-500 hover:bg-info-600 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <RefreshCw size={16} className={`mr-2 ${isPreviewing ? 'animate-spin' : ''}`} />
+          {isPreviewing ? 'Computing...' : 'Preview Route'}
+        </button>
+        {preview && !previewStale && (
+          <span className="text-sm text-neutral-600">
+            {formatDistance(preview.up.distance)}, {formatDuration(preview.up.duration)}
+            {preview.down ? ` (down: ${formatDistance(preview.down.distance)}, ${formatDuration(preview.down.duration)})` : ''}
+          </span>
+        )}
+        {preview && !previewStale && (preview.up.fallback || preview.down?.fallback) && (
+          <span className="text-sm text-warning-700">
+            The road router is unavailable: straight lines between stops are shown and would be saved
+          </span>
+        )}
+        {previewStale && <span className="text-sm text-warning-700">The route changed since the preview</span>}
+        {placingSegment !== null && (
+          <span className="flex items-center text-sm text-info-700">
+            Click the map to place a via point after stop #{placingSegment + 1}
+            <button type="button" onClick={() => setPlacingSegment(null)} className="ml-2 p-1 rounded hover:bg-info-100" title="Cancel">
+              <X size={14} />
+            </button>
+          </span>
+        )}
+      </div>
+      {previewError && <p className="text-sm text-error-700">{previewError}</p>}
+
+      {stops.length > 1 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-neutral-200 text-left text-neutral-700">
+                <th className="py-2 px-3 font-semibold">Segment</th>
+                <th className="py-2 px-3 font-semibold">Distance</th>
+                <th className="py-2 px-3 font-semibold">Duration</th>
+                <th className="py-2 px-3 font-semibold">Via Points</th>
+              </tr>
+            </thead>
+            <tbody>
+              {stops.slice(1).map((stop, segment) => {
+                const measured = preview && !previewStale ? preview.up.segments[segment] : null;
+                const vias = viaPoints.map((via, index) => ({ via, index })).filter(({ via }) => via.segment === segment);
+                return (
+                  <tr key={`${stops[segment].stopId}-${stop.stopId}`} className="border-b border-neutral-100">
+                    <td className="py-2 px-3 text-neutral-800">
+                      {segment + 1}. {stops[segment].name} → {stop.name}
+                    </td>
+                    <td className="py-2 px-3 text-neutral-600">{measured ? formatDistance(measured.distance) : '-'}</td>
+                    <td className="py-2 px-3 text-neutral-600">{measured ? formatDuration(measured.duration) : '-'}</td>
+                    <td className="py-2 px-3">
+                      <div className="flex flex-wrap items-center gap-2">
+                        {vias.map(({ via, index }, n) => (
+                          <span key={index} className="flex items-center px-2 py-0.5 rounded-full bg-warning-100 text-warning-700 text-xs">
+                            Via {n + 1} ({via.latitude.toFixed(4)}, {via.longitude.toFixed(4)})
+                            <button type="button" onClick={() => removeViaPoint(index)} className="ml-1" title="Remove via point">
+                              <X size={12} />
+                            </button>
+                          </span>
+                        ))}
+                        <button
+                          type="button"
+                          onClick={() => setPlacingSegment(segment)}
+                          className={`flex items-center px-2 py-0.5 rounded-lg text-xs font-semibold ${
+                            placingSegment === segment ? 'bg-info-100 text-info-700' : 'text-info-700 hover:bg-info-100'
+                          }`}
+                        >
+                          <Crosshair size={12} className="mr-1" />
+                          Add via point
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RouteMapEditor;
@@ -7,10 +7,15 @@ import {
   Route, 
   Bus, 
   MapPin, 
+  MapPinned,
+  CalendarClock,
+  CalendarDays,
   FileText, 
   Settings,
+  History,
   ChevronLeft,
-  ChevronRight
+  ChevronRight,
+  type LucideIcon
 } from 'lucide-react';
 
 interface SidebarProps {
@@ -21,7 +26,7 @@ interface SidebarProps {
 interface NavItem {
   name: string;
   path: string;
-  icon: React.ComponentType<{ size?: number; className?: string }>;
+  icon: LucideIcon;
 }
 
 const Sidebar: React.FC<SidebarProps> = ({ isOpen, onToggle }) => {
@@ -30,9 +35,13 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onToggle }) => {
   const navItems: NavItem[] = [
     { name: 'Dashboard', path: '/dashboard', icon: LayoutDashboard },
     { name: 'Drivers', path: '/drivers', icon: Users },
+    { name: 'Duty Roster', path: '/roster', icon: CalendarDays },
     { name: 'Routes', path: '/routes', icon: Route },
+    { name: 'Stops', path: '/stops', icon: MapPinned },
+    { name: 'Timetables', path: '/timetables', icon: CalendarClock },
     { name: 'Buses', path: '/buses', icon: Bus },
     { name: 'Live Tracking', path: '/live-tracking', icon: MapPin },
+    { name: 'Trip Playback', path: '/trip-playback', icon: History },
     { name: 'Reports', path: '/reports', icon: FileText },
     { name: 'Settings', path: '/settings', icon: Settings },
   ];
@@ -1,94 +1,250 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { RefreshCw, MapPin, Navigation, Clock, Gauge, Filter, X, Bus, Activity } from 'lucide-react';
-import liveBusesData from '../data/liveBuses.json';
-
-interface LiveBus {
-  busId: string;
-  busNumber: string;
-  driverName: string;
-  latitude: number;
-  longitude: number;
-  currentStop: string;
-  routeId: string;
-  status: 'moving' | 'stopped' | 'idle';
-  speed: number;
-  lastUpdated: string;
-}
+import { RefreshCw, MapPin, Navigation, Clock, Gauge, X, Bus, Activity, Wifi, WifiOff } from 'lucide-react';
+import { MapContainer, TileLayer, Marker, Popup } from 'react-leaflet';
+import { io, Socket } from 'socket.io-client';
+import L from 'leaflet';
+import type { LatLngBoundsExpression } from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { BusUpdateEvent, FleetBus, MotionState } from '../types';
+import { busesAPI, ensureSession, refreshAccessToken, tokenStorage, SOCKET_URL } from '../services/api';
+
+// Same rule as the backend: a bus is online while its newest fix is at most 90s old
+const ONLINE_WINDOW_MS = 90 * 1000;
+// Re-fetch the whole fleet this often when the socket feed is unavailable
+const POLL_INTERVAL_MS = 15 * 1000;
+
+const getLiveStatus = (lastUpdated: string | null, now: number): 'online' | 'offline' =>
+  lastUpdated && now - new Date(lastUpdated).getTime() <= ONLINE_WINDOW_MS ? 'online' : 'offline';
+
+// Re-evaluate the online rule locally; a bus that went stale is offline whatever its last motion state
+const withLiveState = (bus: FleetBus, now: number): FleetBus => {
+  const status = getLiveStatus(bus.lastUpdated, now);
+  return { ...bus, status, motionState: status === 'offline' ? 'offline' : bus.motionState };
+};
+
+const MOTION_LABELS: Record<MotionState, string> = {
+  moving: 'Moving',
+  dwelling: 'At stop',
+  stopped: 'Stopped',
+  idle: 'Idle',
+  offline: 'Offline',
+};
+
+const MOTION_MARKER_COLORS: Record<MotionState, string> = {
+  moving: '#16a34a',
+  dwelling: '#2563eb',
+  stopped: '#dc2626',
+  idle: '#ca8a04',
+  offline: '#9ca3af',
+};
+
+const createFleetBusIcon = (busNumber: string, color: string) =>
+  L.divIcon({
+    html: `
+      <div style="display: flex; flex-direction: column; align-items: center;">
+        <div style="width: 28px; height: 28px; background: ${color}; border: 3px solid white; border-radius: 8px; box-shadow: 0 2px 8px rgba(0,0,0,0.3);"></div>
+        <span style="margin-top: 2px; padding: 0 4px; background: white; border-radius: 4px; font-size: 11px; font-weight: 600; color: #1f2937; white-space: nowrap;">${busNumber}</span>
+      </div>
+    `,
+    className: 'fleet-bus-marker',
+    iconSize: [28, 44],
+    iconAnchor: [14, 14],
+  });
 
 const LiveTracking: React.FC = () => {
-  const [buses, setBuses] = useState<LiveBus[]>([]);
-  const [filteredBuses, setFilteredBuses] = useState<LiveBus[]>([]);
+  const [buses, setBuses] = useState<FleetBus[]>([]);
+  const [filteredBuses, setFilteredBuses] = useState<FleetBus[]>([]);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [searchTerm, setSearchTerm] = useState('');
+  const [error, setError] = useState('');
+  const [isLive, setIsLive] = useState(false);
+  const [liveError, setLiveError] = useState('');
+  const [now, setNow] = useState(Date.now());
+  const socketRef = useRef<Socket | null>(null);
+  // Latest list for the socket handler (route changes are checked against it)
+  const busesRef = useRef<FleetBus[]>([]);
+
+  const fetchFleet = useCallback(async () => {
+    try {
+      const response = await busesAPI.getFleetLive();
+      setBuses(response.buses || []);
+      setError('');
+    } catch (err) {
+      console.error('Error fetching live fleet:', err);
+      setError('Failed to load live bus data. Please try again.');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchFleet();
+  }, [fetchFleet]);
+
+  useEffect(() => {
+    busesRef.current = buses;
+  }, [buses]);
+
+  // Fleet room subscription: bus:update events are merged into the list by busId
+  useEffect(() => {
+    let cancelled = false;
+    // One token refresh per failed subscription; reset once the fleet room accepts us
+    let retried = false;
+
+    const connect = async () => {
+      if (!(await ensureSession()) || cancelled) return;
+
+      const socket = io(SOCKET_URL, {
+        transports: ['websocket', 'polling'],
+        // Read the token on every (re)connect so refreshed tokens are used
+        auth: (cb) => cb({ token: tokenStorage.getAccessToken() }),
+      });
+      socketRef.current = socket;
+
+      socket.on('connect', () => {
+        socket.emit('subscribe:fleet', {}, async (ack: { ok: boolean; message?: string }) => {
+          if (ack?.ok) {
+            retried = false;
+            setIsLive(true);
+            setLiveError('');
+            // Catch up on anything missed while disconnected
+            fetchFleet();
+            return;
+          }
+          setIsLive(false);
+          // Likely an expired or revoked access token: force a refresh and retry once through a reconnect
+          if (!retried) {
+            retried = true;
+            if ((await refreshAccessToken()) && !cancelled) {
+              socket.disconnect().connect();
+              return;
+            }
+          }
+          setLiveError(ack?.message || 'Live updates were refused');
+        });
+      });
+
+      socket.on('disconnect', () => setIsLive(false));
+
+      socket.on('bus:update', (update: BusUpdateEvent) => {
+        // bus:update has no route name: reload the list when a bus moves to another route
+        const known = busesRef.current.find((bus) => bus.busId === update.busId);
+        if (known && known.routeId !== update.routeId) fetchFleet();
+        setBuses((prev) =>
+          prev.map((bus) =>
+            bus.busId === update.busId
+              ? {
+                  ...bus,
+                  routeId: update.routeId,
+                  routeName: update.routeId === bus.routeId ? bus.routeName : null,
+                  direction: update.direction,
+                  snappedLocation: update.snappedLocation,
+                  location: update.location ?? bus.location,
+                  avgSpeed: update.avgSpeed,
+                  lastUpdated: update.lastUpdated,
+                  currentStop: update.currentStop ?? null,
+                  nextStop: update.nextStop ?? null,
+                  status: 'online',
+                  motionState: update.motionState ?? bus.motionState,
+                  motionSince: update.motionSince ?? bus.motionSince,
+                }
+              : bus
+          )
+        );
+      });
+    };
+
+    connect();
+
+    return () => {
+      cancelled = true;
+      if (socketRef.current) {
+        socketRef.current.emit('unsubscribe:fleet');
+        socketRef.current.disconnect();
+        socketRef.current = null;
+      }
+    };
+  }, [fetchFleet]);
+
+  // Poll while the socket feed is down
+  useEffect(() => {
+    if (isLive) return;
+    const timer = setInterval(fetchFleet, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isLive, fetchFleet]);
 
+  // Tick so buses that stop reporting turn offline without a refresh
   useEffect(() => {
-    // Load initial data
-    setBuses(liveBusesData);
-    setFilteredBuses(liveBusesData);
+    const timer = setInterval(() => setNow(Date.now()), 5000);
+    return () => clearInterval(timer);
   }, []);
 
+  const liveBuses = buses.map((bus) => withLiveState(bus, now));
+  const countByMotion = (state: MotionState) => liveBuses.filter((b) => b.motionState === state).length;
+  const locatedBuses = filteredBuses.filter((b) => b.snappedLocation);
+
   useEffect(() => {
     // Apply filters
-    let filtered = buses;
+    let filtered = buses.map((bus) => withLiveState(bus, now));
 
-    // Status filter
+    // Motion state filter
     if (statusFilter !== 'all') {
-      filtered = filtered.filter(bus => bus.status === statusFilter);
+      filtered = filtered.filter(bus => bus.motionState === statusFilter);
     }
 
     // Search filter
     if (searchTerm) {
+      const term = searchTerm.toLowerCase();
       filtered = filtered.filter(bus =>
-        bus.busNumber.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        bus.driverName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        bus.currentStop.toLowerCase().includes(searchTerm.toLowerCase())
+        bus.busNumber.toLowerCase().includes(term) ||
+        (bus.driverName || '').toLowerCase().includes(term) ||
+        (bus.routeName || '').toLowerCase().includes(term) ||
+        (bus.currentStop?.name || '').toLowerCase().includes(term)
       );
     }
 
     setFilteredBuses(filtered);
-  }, [buses, statusFilter, searchTerm]);
+  }, [buses, statusFilter, searchTerm, now]);
 
   const handleRefresh = async () => {
     setIsRefreshing(true);
-    
-    // Simulate API call delay
-    setTimeout(() => {
-      // Simulate live updates with random position changes
-      setBuses(prevBuses => 
-        prevBuses.map(bus => ({
-          ...bus,
-          latitude: bus.latitude + (Math.random() - 0.5) * 0.001,
-          longitude: bus.longitude + (Math.random() - 0.5) * 0.001,
-          speed: Math.floor(Math.random() * 60),
-          status: ['moving', 'stopped', 'idle'][Math.floor(Math.random() * 3)] as 'moving' | 'stopped' | 'idle',
-          lastUpdated: new Date().toISOString()
-        }))
-      );
-      setIsRefreshing(false);
-    }, 1500);
+    await fetchFleet();
+    setIsRefreshing(false);
+  };
+
+  const getMapBounds = (): LatLngBoundsExpression | null => {
+    if (!locatedBuses.length) return null;
+    const lats = locatedBuses.map((b) => b.snappedLocation!.lat);
+    const lngs = locatedBuses.map((b) => b.snappedLocation!.lng);
+    return [
+      [Math.min(...lats) - 0.01, Math.min(...lngs) - 0.01],
+      [Math.max(...lats) + 0.01, Math.max(...lngs) + 0.01],
+    ];
   };
+  const mapBounds = getMapBounds();
 
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'moving': return 'text-green-400';
+      case 'dwelling': return 'text-blue-400';
       case 'stopped': return 'text-red-400';
       case 'idle': return 'text-yellow-400';
       default: return 'text-gray-400';
     }
   };
 
-  const getStatusBadgeColor = (status: string) => {
+  const getStatusBadgeColor = (status: MotionState | null) => {
     switch (status) {
-      case 'moving': return 'bg-green-600';
-      case 'stopped': return 'bg-red-600';
-      case 'idle': return 'bg-yellow-600';
-      default: return 'bg-gray-600';
+      case 'moving': return 'bg-green-100 text-green-700';
+      case 'dwelling': return 'bg-blue-100 text-blue-700';
+      case 'stopped': return 'bg-red-100 text-red-700';
+      case 'idle': return 'bg-yellow-100 text-yellow-700';
+      default: return 'bg-gray-100 text-gray-700';
     }
   };
 
-  const formatLastUpdated = (timestamp: string) => {
+  const formatLastUpdated = (timestamp: string | null) => {
+    if (!timestamp) return 'Never';
     const date = new Date(timestamp);
     const now = new Date();
     const diffMs = now.getTime() - date.getTime();
@@ -182,6 +338,13 @@ const LiveTracking: React.FC = () => {
       <motion.div variants={itemVariants}>
         <h1 className="text-3xl font-bold text-gray-800 mb-2">Live Bus Tracking</h1>
         <p className="text-gray-600">Monitor real-time bus locations and status</p>
+        <p className={`mt-2 flex items-center text-sm font-medium ${isLive ? 'text-green-600' : 'text-gray-500'}`}>
+          {isLive ? <Wifi size={14} className="mr-1" /> : <WifiOff size={14} className="mr-1" />}
+          {isLive ? 'Live updates connected' : `Live updates unavailable, refreshing every ${POLL_INTERVAL_MS / 1000}s`}
+        </p>
+        {liveError && !isLive && (
+          <p className="mt-1 text-sm text-red-600">{liveError}. Sign in again to restore live updates.</p>
+        )}
       </motion.div>
 
       {/* Stats Cards */}
@@ -228,7 +391,7 @@ const LiveTracking: React.FC = () => {
                 className="text-3xl font-bold text-green-600 mt-2"
                 variants={statsVariants}
               >
-                {buses.filter(b => b.status === 'moving').length}
+                {countByMotion('moving')}
               </motion.p>
             </div>
             <div className="p-3 rounded-lg bg-gradient-to-br from-green-500 to-green-600">
@@ -246,13 +409,13 @@ const LiveTracking: React.FC = () => {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-gray-600 text-sm font-medium uppercase tracking-wide">
-                Stopped
+                Offline
               </p>
               <motion.p 
                 className="text-3xl font-bold text-red-500 mt-2"
                 variants={statsVariants}
               >
-                {buses.filter(b => b.status === 'stopped').length}
+                {countByMotion('offline')}
               </motion.p>
             </div>
             <div className="p-3 rounded-lg bg-gradient-to-br from-red-400 to-red-500">
@@ -276,7 +439,7 @@ const LiveTracking: React.FC = () => {
                 className="text-3xl font-bold text-yellow-600 mt-2"
                 variants={statsVariants}
               >
-                {buses.filter(b => b.status === 'idle').length}
+                {countByMotion('idle')}
               </motion.p>
             </div>
             <div className="p-3 rounded-lg bg-gradient-to-br from-yellow-500 to-yellow-600">
@@ -299,7 +462,7 @@ const LiveTracking: React.FC = () => {
             <div className="relative">
               <input
                 type="text"
-                placeholder="Search buses, drivers, or stops..."
+                placeholder="Search buses, drivers, routes or stops..."
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="w-full sm:w-64 px-4 py-2 pl-10 bg-white border border-gray-300 rounded-lg text-gray-800 placeholder-gray-500 focus:outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all duration-300"
@@ -315,8 +478,10 @@ const LiveTracking: React.FC = () => {
             >
               <option value="all">All Status</option>
               <option value="moving">Moving</option>
+              <option value="dwelling">At stop</option>
               <option value="stopped">Stopped</option>
               <option value="idle">Idle</option>
+              <option value="offline">Offline</option>
             </select>
 
             {/* Refresh Button */}
@@ -338,6 +503,50 @@ const LiveTracking: React.FC = () => {
         </div>
       </motion.div>
 
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">{error}</div>
+      )}
+
+      {/* Fleet Map */}
+      <motion.div 
+        className="bg-white border border-gray-200 rounded-xl shadow-sm overflow-hidden"
+        variants={itemVariants}
+      >
+        <div style={{ height: '420px' }}>
+          {mapBounds ? (
+            <MapContainer bounds={mapBounds} className="w-full h-full" scrollWheelZoom={true}>
+              <TileLayer
+                attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+                url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+              />
+              {locatedBuses.map((bus) => (
+                <Marker
+                  key={bus.busId}
+                  position={[bus.snappedLocation!.lat, bus.snappedLocation!.lng]}
+                  icon={createFleetBusIcon(bus.busNumber, bus.motionState ? MOTION_MARKER_COLORS[bus.motionState] : '#2563eb')}
+                >
+                  <Popup>
+                    <div className="text-center">
+                      <h3 className="font-bold text-gray-900">{bus.busNumber}</h3>
+                      <p className="text-sm text-gray-600">{bus.routeName || 'No route'} · {bus.driverName || 'No driver'}</p>
+                      <p className="text-sm text-gray-600">Speed: {bus.avgSpeed} km/h · {bus.motionState ? MOTION_LABELS[bus.motionState] : bus.status}</p>
+                      {bus.nextStop && (
+                        <p className="text-sm text-gray-600">Next: {bus.nextStop.name} ({bus.nextStop.etaMinutes} min)</p>
+                      )}
+                      <p className="text-xs text-gray-500">Last update: {formatLastUpdated(bus.lastUpdated)}</p>
+                    </div>
+                  </Popup>
+                </Marker>
+              ))}
+            </MapContainer>
+          ) : (
+            <div className="w-full h-full flex items-center justify-center bg-gray-50 text-gray-500">
+              No bus has reported a location yet
+            </div>
+          )}
+        </div>
+      </motion.div>
+
       {/* Bus Table */}
       <motion.div 
         className="bg-white border border-gray-200 rounded-xl p-6 shadow-sm"
@@ -383,7 +592,7 @@ const LiveTracking: React.FC = () => {
                         </div>
                         <div>
                           <p className="text-gray-800 font-bold">{bus.busNumber}</p>
-                          <p className="text-gray-600 text-xs">Route: {bus.routeId}</p>
+                          <p className="text-gray-600 text-xs">Route: {bus.routeName || bus.routeId}</p>
                         </div>
                       </div>
                     </td>
@@ -394,7 +603,7 @@ const LiveTracking: React.FC = () => {
                         <div className="p-1 rounded-full bg-blue-500 mr-2">
                           <Navigation size={12} className="text-white" />
                         </div>
-                        <span className="text-gray-800 font-semibold">{bus.driverName}</span>
+                        <span className="text-gray-800 font-semibold">{bus.driverName || 'Unassigned'}</span>
                       </div>
                     </td>
 
@@ -402,38 +611,39 @@ const LiveTracking: React.FC = () => {
                     <td className="py-4 px-4">
                       <div className="flex items-center">
                         <MapPin size={14} className="mr-2 text-gray-500" />
-                        <span className="text-gray-800">{bus.currentStop}</span>
+                        <div>
+                          <span className="text-gray-800">{bus.currentStop?.name || '—'}</span>
+                          {bus.nextStop && (
+                            <p className="text-gray-500 text-xs">Next: {bus.nextStop.name} ({bus.nextStop.etaMinutes} min)</p>
+                          )}
+                        </div>
                       </div>
                     </td>
 
                     {/* Latitude */}
                     <td className="py-4 px-4">
                       <span className="text-gray-600 font-mono text-sm">
-                        {formatCoordinate(bus.latitude)}
+                        {bus.location ? formatCoordinate(bus.location.lat) : '—'}
                       </span>
                     </td>
 
                     {/* Longitude */}
                     <td className="py-4 px-4">
                       <span className="text-gray-600 font-mono text-sm">
-                        {formatCoordinate(bus.longitude)}
+                        {bus.location ? formatCoordinate(bus.location.lng) : '—'}
                       </span>
                     </td>
 
                     {/* Status */}
                     <td className="py-4 px-4">
                       <motion.span 
-                        className={`px-3 py-1 rounded-full text-xs font-semibold ${
-                          bus.status === 'moving' ? 'bg-green-100 text-green-700' :
-                          bus.status === 'stopped' ? 'bg-red-100 text-red-700' :
-                          'bg-yellow-100 text-yellow-700'
-                        }`}
+                        className={`px-3 py-1 rounded-full text-xs font-semibold ${getStatusBadgeColor(bus.motionState)}`}
                         initial={{ scale: 0 }}
                         animate={{ scale: 1 }}
                         transition={{ duration: 0.3, delay: index * 0.05 }}
                         whileHover={{ scale: 1.1 }}
                       >
-                        {bus.status.charAt(0).toUpperCase() + bus.status.slice(1)}
+                        {bus.motionState ? MOTION_LABELS[bus.motionState] : 'Online'}
                       </motion.span>
                     </td>
 
@@ -441,7 +651,7 @@ const LiveTracking: React.FC = () => {
                     <td className="py-4 px-4">
                       <div className="flex items-center">
                         <Gauge size={14} className="mr-2 text-gray-500" />
-                        <span className="text-gray-800 font-semibold">{bus.speed} km/h</span>
+                        <span className="text-gray-800 font-semibold">{bus.avgSpeed} km/h</span>
                       </div>
                     </td>
 
@@ -39,10 +39,7 @@ const Login: React.FC = () => {
       const response = await authAPI.login(formData.email, formData.password);
       
       if (response.loginSuccess) {
-        // Success: Store admin status and redirect
-        localStorage.setItem('isAdmin', 'true');
-        localStorage.setItem('adminId', response.adminId || '');
-        localStorage.setItem('token', 'admin-token-' + Date.now());
+        // Success: tokens are stored by authAPI.login, redirect
         navigate('/dashboard');
       } else {
         // Failure: Show error message
@@ -3,6 +3,8 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { Search, Download, Calendar, TrendingUp, Activity, Users, Bus, Route, ChevronLeft, ChevronRight, FileText, Clock } from 'lucide-react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
 import logsData from '../data/logs.json';
+import { reportsAPI } from '../services/api';
+import { PerformanceReport, PerformanceScope, PerformanceStats } from '../types';
 
 interface LogEntry {
   logId: string;
@@ -43,6 +45,25 @@ const AnimatedCounter: React.FC<AnimatedCounterProps> = ({ value, duration = 100
   return <span>{count}</span>;
 };
 
+const adherenceScopes: Array<{ key: PerformanceScope; label: string }> = [
+  { key: 'route', label: 'Routes' },
+  { key: 'driver', label: 'Drivers' },
+  { key: 'stop', label: 'Stops' },
+  { key: 'trip', label: 'Trips' }
+];
+
+// Share of a day's or item's stop events, in percent
+const eventShare = (stats: PerformanceStats, count: number) =>
+  stats.events ? Math.round((count / stats.events) * 1000) / 10 : 0;
+
+// Signed deviation such as "+2m 10s" (late) or "-45s" (early)
+const formatDeviation = (secs: number | null) => {
+  if (secs === null) return '—';
+  const abs = Math.abs(secs);
+  const text = abs >= 60 ? `${Math.floor(abs / 60)}m${abs % 60 ? ` ${abs % 60}s` : ''}` : `${abs}s`;
+  return `${secs < 0 ? '-' : '+'}${text}`;
+};
+
 const Reports: React.FC = () => {
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [filteredLogs, setFilteredLogs] = useState<LogEntry[]>([]);
@@ -50,6 +71,33 @@ const Reports: React.FC = () => {
   const [currentPage, setCurrentPage] = useState(1);
   const [selectedDateRange, setSelectedDateRange] = useState('7days');
   const logsPerPage = 8;
+  // Schedule adherence of the last 7 days: per route for the charts, per adherenceScope for the table
+  const [performance, setPerformance] = useState<PerformanceReport | null>(null);
+  const [adherenceScope, setAdherenceScope] = useState<PerformanceScope>('route');
+  const [adherence, setAdherence] = useState<PerformanceReport | null>(null);
+  const [performanceError, setPerformanceError] = useState('');
+
+  useEffect(() => {
+    reportsAPI.getPerformance()
+      .then(setPerformance)
+      .catch((err) => {
+        console.error('Error fetching performance report:', err);
+        setPerformanceError('Failed to load on-time performance.');
+      });
+  }, []);
+
+  useEffect(() => {
+    if (adherenceScope === 'route') {
+      setAdherence(performance);
+      return;
+    }
+    reportsAPI.getPerformance({ scope: adherenceScope })
+      .then(setAdherence)
+      .catch((err) => {
+        console.error('Error fetching performance report:', err);
+        setPerformanceError('Failed to load on-time performance.');
+      });
+  }, [adherenceScope, performance]);
 
   useEffect(() => {
     // Load logs data
@@ -217,34 +265,31 @@ const Reports: React.FC = () => {
     ];
   };
 
+  // Percent of each route's stop events that were on time, early and late
   const getRoutePerformanceData = () => {
-    return [
-      { route: 'Route A', onTime: 85, delayed: 15, routeId: 'R001' },
-      { route: 'Route B', onTime: 92, delayed: 8, routeId: 'R002' },
-      { route: 'Route C', onTime: 78, delayed: 22, routeId: 'R003' },
-      { route: 'Route D', onTime: 88, delayed: 12, routeId: 'R004' },
-      { route: 'Route E', onTime: 95, delayed: 5, routeId: 'R005' },
-      { route: 'Route F', onTime: 82, delayed: 18, routeId: 'R006' },
-    ];
+    return (performance?.items || []).map(item => ({
+      route: item.label,
+      routeId: item.key,
+      onTime: eventShare(item, item.onTime),
+      early: eventShare(item, item.early),
+      late: eventShare(item, item.late),
+    }));
   };
 
-  const getMonthlyTrendsData = () => {
-    return [
-      { month: 'Jul', trips: 1240, onTime: 87, incidents: 3 },
-      { month: 'Aug', trips: 1380, onTime: 89, incidents: 2 },
-      { month: 'Sep', trips: 1520, onTime: 85, incidents: 5 },
-      { month: 'Oct', trips: 1680, onTime: 91, incidents: 1 },
-      { month: 'Nov', trips: 1450, onTime: 88, incidents: 4 },
-      { month: 'Dec', trips: 1620, onTime: 93, incidents: 2 },
-      { month: 'Jan', trips: 1580, onTime: 90, incidents: 3 },
-    ];
+  // Trip runs and on-time percent per service day
+  const getDailyTrendsData = () => {
+    return (performance?.daily || []).map(day => ({
+      day: new Date(`${day.date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short' }),
+      trips: day.trips,
+      onTime: day.onTimePct ?? 0,
+    }));
   };
 
   const actionsPerDayData = getActionsPerDay();
   const driverStatusData = getDriverStatusData();
   const busUtilizationData = getBusUtilizationData();
   const routePerformanceData = getRoutePerformanceData();
-  const monthlyTrendsData = getMonthlyTrendsData();
+  const dailyTrendsData = getDailyTrendsData();
 
   const exportLogs = () => {
     const csvContent = [
@@ -413,7 +458,7 @@ const Reports: React.FC = () => {
                 transition={{ duration: 0.5, delay: 0.5 }}
               >
                 <AnimatedCounter 
-                  value={1580} 
+                  value={performance?.totals.trips ?? 0} 
                   delay={500} 
                 />
               </motion.p>
@@ -441,7 +486,7 @@ const Reports: React.FC = () => {
                 transition={{ duration: 0.5, delay: 0.6 }}
               >
                 <AnimatedCounter 
-                  value={90} 
+                  value={Math.round(performance?.totals.onTimePct ?? 0)} 
                   delay={600} 
                 />%
               </motion.p>
@@ -458,7 +503,7 @@ const Reports: React.FC = () => {
         className="grid grid-cols-1 lg:grid-cols-2 gap-8"
         variants={containerVariants}
       >
-        {/* Monthly Trends Chart */}
+        {/* Daily Trends Chart */}
         <motion.div 
           className="bg-white border border-gray-200 rounded-xl p-6 shadow-soft hover:shadow-soft-lg transition-shadow duration-200"
           variants={itemVariants}
@@ -470,8 +515,8 @@ const Reports: React.FC = () => {
               <TrendingUp size={24} className="text-white" />
             </div>
             <div>
-              <h3 className="text-xl font-bold text-gray-800">Monthly Trends</h3>
-              <p className="text-gray-600">Trips and performance over time</p>
+              <h3 className="text-xl font-bold text-gray-800">Daily Trends</h3>
+              <p className="text-gray-600">Trips and on-time rate (%), last 7 days</p>
             </div>
           </div>
           <motion.div 
@@ -481,9 +526,9 @@ const Reports: React.FC = () => {
             transition={{ duration: 0.6, delay: 0.8 }}
           >
             <ResponsiveContainer width="100%" height="100%">
-              <BarChart data={monthlyTrendsData}>
+              <BarChart data={dailyTrendsData}>
                 <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
-                <XAxis dataKey="month" stroke="#6B7280" />
+                <XAxis dataKey="day" stroke="#6B7280" />
                 <YAxis stroke="#6B7280" />
                 <Tooltip 
                   contentStyle={{ 
@@ -604,7 +649,7 @@ const Reports: React.FC = () => {
             </div>
             <div>
               <h3 className="text-xl font-bold text-gray-800">Route Performance</h3>
-              <p className="text-gray-600">On-time vs delayed trips</p>
+              <p className="text-gray-600">On-time, early and late stop events (%)</p>
             </div>
           </div>
           <motion.div 
@@ -636,7 +681,15 @@ const Reports: React.FC = () => {
                   animationDuration={1000}
                 />
                 <Bar 
-                  dataKey="delayed" 
+                  dataKey="early" 
+                  stackId="a"
+                  fill="#F59E0B" 
+                  radius={[0, 0, 0, 0]}
+                  animationBegin={1500}
+                  animationDuration={1000}
+                />
+                <Bar 
+                  dataKey="late" 
                   stackId="a"
                   fill="#EF4444" 
                   radius={[4, 4, 0, 0]}
@@ -721,6 +774,91 @@ const Reports: React.FC = () => {
         </motion.div>
       </motion.div>
 
+      {/* Schedule Adherence Section */}
+      <motion.div 
+        className="bg-white border border-gray-200 rounded-xl p-6 shadow-soft"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5, delay: 0.8 }}
+      >
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+          <div className="flex items-center">
+            <div className="p-3 rounded-lg bg-gradient-to-br from-teal-400 to-teal-500 mr-4">
+              <Clock size={24} className="text-white" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-gray-800">Schedule Adherence</h2>
+              <p className="text-gray-600">
+                Stop events against the timetables, last 7 days
+                {performance && ` (on time: ${performance.window.earlyMinutes} min early to ${performance.window.lateMinutes} min late)`}
+              </p>
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            {adherenceScopes.map(scope => (
+              <button
+                key={scope.key}
+                type="button"
+                onClick={() => setAdherenceScope(scope.key)}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200 ${
+                  adherenceScope === scope.key ? 'bg-gray-800 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {scope.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {performanceError ? (
+          <p className="text-red-600 text-sm">{performanceError}</p>
+        ) : !adherence ? (
+          <p className="text-gray-500">Loading...</p>
+        ) : adherence.items.length === 0 ? (
+          <p className="text-gray-500">No scheduled trips recorded yet. Stop events are recorded for buses matched to a timetable trip.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="text-left py-3 px-4 text-gray-700 font-semibold">
+                    {adherenceScopes.find(s => s.key === adherenceScope)?.label.slice(0, -1)}
+                  </th>
+                  <th className="text-left py-3 px-4 text-gray-700 font-semibold">Trips</th>
+                  <th className="text-left py-3 px-4 text-gray-700 font-semibold">Stop Events</th>
+                  <th className="text-left py-3 px-4 text-gray-700 font-semibold">On Time</th>
+                  <th className="text-left py-3 px-4 text-gray-700 font-semibold">Early / Late</th>
+                  <th className="text-left py-3 px-4 text-gray-700 font-semibold">Avg Deviation</th>
+                  <th className="text-left py-3 px-4 text-gray-700 font-semibold">Max Delay</th>
+                </tr>
+              </thead>
+              <tbody>
+                {adherence.items.map(item => (
+                  <tr key={item.key} className="border-b border-gray-100 hover:bg-blue-50 transition-colors duration-200">
+                    <td className="py-3 px-4 text-gray-800 font-medium">{item.label}</td>
+                    <td className="py-3 px-4 text-gray-600">{item.trips}</td>
+                    <td className="py-3 px-4 text-gray-600">{item.events}</td>
+                    <td className="py-3 px-4">
+                      <span className={`px-2 py-1 rounded-full text-xs font-semibold ${
+                        (item.onTimePct ?? 0) >= 85 ? 'bg-green-100 text-green-700' : (item.onTimePct ?? 0) >= 70 ? 'bg-yellow-100 text-yellow-700' : 'bg-red-100 text-red-700'
+                      }`}>
+                        {item.onTimePct ?? 0}%
+                      </span>
+                    </td>
+                    <td className="py-3 px-4 text-gray-600 text-sm">
+                      {eventShare(item, item.early)}% / {eventShare(item, item.late)}%
+                    </td>
+                    <td className="py-3 px-4 text-gray-600 font-mono text-sm">{formatDeviation(item.avgDeviationSecs)}</td>
+                    <td className="py-3 px-4 text-gray-600 font-mono text-sm">{formatDeviation(item.maxDeviationSecs)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </motion.div>
+
       {/* Logs Section */}
       <motion.div 
         className="bg-white border border-gray-200 rounded-xl p-6 shadow-soft"
@@ -0,0 +1,546 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Plus, Trash2, ChevronLeft, ChevronRight, AlertTriangle, CalendarDays } from 'lucide-react';
+import { isAxiosError } from 'axios';
+import { Bus, Route, Shift, ShiftConflictResponse, ShiftFormData } from '../types';
+import { busesAPI, driversAPI, rosterAPI, routesAPI } from '../services/api';
+
+type RosterDriver = { id: string; name: string; username: string; status: 'active' | 'inactive' };
+type RowMode = 'driver' | 'bus';
+
+// Editor fields; times are local HH:MM and an end at or before the start is on the next day
+type ShiftDraft = {
+  driverId: string;
+  busId: string;
+  routeId: string; // '' = the bus's route
+  date: string;
+  startTime: string;
+  endTime: string;
+  notes: string;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const dayLabels = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+// Monday 00:00 (local) of the week containing the date
+const startOfWeek = (date: Date) => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+};
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const toDateInput = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+const toTimeInput = (date: Date) => `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+const sameDay = (a: Date, b: Date) => toDateInput(a) === toDateInput(b);
+
+const formatWeek = (start: Date) => {
+  const end = addDays(start, 6);
+  const options: Intl.DateTimeFormatOptions = { day: 'numeric', month: 'short' };
+  return `${start.toLocaleDateString(undefined, options)} – ${end.toLocaleDateString(undefined, { ...options, year: 'numeric' })}`;
+};
+
+const toDraft = (shift: Shift): ShiftDraft => {
+  const startsAt = new Date(shift.startsAt);
+  return {
+    driverId: shift.driverId,
+    busId: shift.busId,
+    routeId: shift.routeId,
+    date: toDateInput(startsAt),
+    startTime: toTimeInput(startsAt),
+    endTime: toTimeInput(new Date(shift.endsAt)),
+    notes: shift.notes
+  };
+};
+
+const toFormData = (draft: ShiftDraft): ShiftFormData => {
+  const startsAt = new Date(`${draft.date}T${draft.startTime}`);
+  let endsAt = new Date(`${draft.date}T${draft.endTime}`);
+  if (endsAt <= startsAt) endsAt = new Date(endsAt.getTime() + DAY_MS);
+  return {
+    driverId: draft.driverId,
+    busId: draft.busId,
+    routeId: draft.routeId || null,
+    startsAt: startsAt.toISOString(),
+    endsAt: endsAt.toISOString(),
+    notes: draft.notes.trim()
+  };
+};
+
+const describeConflict = (conflict: ShiftConflictResponse['conflicts'][number]) => {
+  const { shift, reasons } = conflict;
+  const who = reasons.map(r => (r === 'driver' ? shift.driverName || 'the driver' : `bus ${shift.busNumber || shift.busId}`)).join(' and ');
+  const startsAt = new Date(shift.startsAt);
+  return `${who}: ${startsAt.toLocaleDateString()} ${toTimeInput(startsAt)}–${toTimeInput(new Date(shift.endsAt))}`;
+};
+
+const inputClasses = 'w-full px-4 py-3 bg-white border border-neutral-300 rounded-xl text-neutral-800 placeholder-neutral-500 focus:outline-none focus:border-info-400 focus:ring-2 focus:ring-info-200 transition-all duration-300';
+
+const Roster: React.FC = () => {
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date()));
+  const [rowMode, setRowMode] = useState<RowMode>('driver');
+  const [shifts, setShifts] = useState<Shift[]>([]);
+  const [drivers, setDrivers] = useState<RosterDriver[]>([]);
+  const [buses, setBuses] = useState<Bus[]>([]);
+  const [routes, setRoutes] = useState<Route[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null); // 'new' while creating
+  const [draft, setDraft] = useState<ShiftDraft | null>(null);
+  const [conflicts, setConflicts] = useState<ShiftConflictResponse['conflicts']>([]);
+  const [loading, setLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchLists();
+  }, []);
+
+  useEffect(() => {
+    fetchShifts(weekStart);
+  }, [weekStart]);
+
+  const fetchLists = async () => {
+    try {
+      const [driverList, busList, routeList] = await Promise.all([
+        driversAPI.getAllDrivers(),
+        busesAPI.getAllBuses(),
+        routesAPI.getAllRoutes()
+      ]);
+      setDrivers(Array.isArray(driverList) ? driverList : []);
+      setBuses(Array.isArray(busList) ? busList : []);
+      setRoutes(
+        Array.isArray(routeList)
+          ? routeList.map((route: Route & { _id: string }) => ({
+              routeId: route._id,
+              routeName: route.routeName,
+              stops: route.stops,
+              bidirectional: route.bidirectional
+            }))
+          : []
+      );
+    } catch (err) {
+      console.error('Error fetching roster lists:', err);
+      setError('Failed to load drivers, buses and routes. Please try again.');
+    }
+  };
+
+  const fetchShifts = async (start: Date) => {
+    try {
+      setLoading(true);
+      const response = await rosterAPI.getShifts({ from: start.toISOString(), to: addDays(start, 7).toISOString() });
+      setShifts(response.shifts || []);
+    } catch (err) {
+      console.error('Error fetching shifts:', err);
+      setError('Failed to load the roster. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const days = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+  const conflictCount = shifts.filter(s => s.conflicts.length > 0).length;
+
+  // Rows: active drivers (or all buses), plus any other driver or bus with a shift this week
+  const rows =
+    rowMode === 'driver'
+      ? [
+          ...drivers.filter(d => d.status === 'active').map(d => ({ key: d.id, label: d.name, sub: d.username })),
+          ...shifts
+            .filter((s, i, list) => list.findIndex(o => o.driverId === s.driverId) === i)
+            .filter(s => !drivers.some(d => d.id === s.driverId && d.status === 'active'))
+            .map(s => ({ key: s.driverId, label: s.driverName || 'Deleted driver', sub: s.driverUsername || '' }))
+        ]
+      : [
+          ...buses.map(b => ({ key: b.busId, label: b.busNumber, sub: routes.find(r => r.routeId === b.routeId)?.routeName || '' })),
+          ...shifts
+            .filter((s, i, list) => list.findIndex(o => o.busId === s.busId) === i)
+            .filter(s => !buses.some(b => b.busId === s.busId))
+            .map(s => ({ key: s.busId, label: s.busNumber || 'Deleted bus', sub: '' }))
+        ];
+
+  const shiftsIn = (rowKey: string, day: Date) =>
+    shifts.filter(s => (rowMode === 'driver' ? s.driverId : s.busId) === rowKey && sameDay(new Date(s.startsAt), day));
+
+  function closeEditor() {
+    setEditingId(null);
+    setDraft(null);
+    setConflicts([]);
+    setError('');
+  }
+
+  // New shifts default to 06:00–14:00 on the clicked day, for the clicked driver or bus
+  const startCreate = (day: Date, rowKey?: string) => {
+    setEditingId('new');
+    setDraft({
+      driverId: rowMode === 'driver' && rowKey ? rowKey : '',
+      busId: rowMode === 'bus' && rowKey ? rowKey : '',
+      routeId: '',
+      date: toDateInput(day),
+      startTime: '06:00',
+      endTime: '14:00',
+      notes: ''
+    });
+    setConflicts([]);
+    setError('');
+  };
+
+  const startEdit = (shift: Shift) => {
+    setEditingId(shift._id);
+    setDraft(toDraft(shift));
+    setConflicts([]);
+    setError('');
+  };
+
+  const updateDraft = (change: Partial<ShiftDraft>) => {
+    setDraft(prev => (prev ? { ...prev, ...change } : prev));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    setError('');
+    setConflicts([]);
+    if (!draft.driverId || !draft.busId) {
+      setError('Please choose a driver and a bus.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const data = toFormData(draft);
+      const response = editingId && editingId !== 'new'
+        ? await rosterAPI.updateShift(editingId, data)
+        : await rosterAPI.createShift(data);
+      if (response.success) {
+        closeEditor();
+        fetchShifts(weekStart);
+      } else {
+        setError(response.message || 'Failed to save shift');
+      }
+    } catch (err) {
+      console.error('Error saving shift:', err);
+      if (isAxiosError<ShiftConflictResponse>(err) && err.response?.status === 409) {
+        setConflicts(err.response.data.conflicts || []);
+      }
+      const message = isAxiosError(err) ? err.response?.data?.message : null;
+      setError(message || 'Failed to save shift. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!editingId || editingId === 'new' || !window.confirm('Delete this shift?')) return;
+    try {
+      await rosterAPI.deleteShift(editingId);
+      setShifts(prev => prev.filter(s => s._id !== editingId));
+      closeEditor();
+    } catch (err) {
+      console.error('Error deleting shift:', err);
+      alert('Failed to delete shift. Please try again.');
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      {/* Page Title */}
+      <div>
+        <h1 className="text-3xl font-bold text-neutral-800 mb-2">Duty Roster</h1>
+        <p className="text-neutral-600">Shifts of each driver: bus, route and hours. The driver app shows drivers their duties and the bus of their current shift.</p>
+      </div>
+
+      {/* Weekly calendar */}
+      <div className="bg-white border border-neutral-200 rounded-2xl p-6 shadow-soft">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => setWeekStart(addDays(weekStart, -7))}
+              className="p-2 rounded-lg text-neutral-600 hover:bg-neutral-100"
+              title="Previous week"
+            >
+              <ChevronLeft size={18} />
+            </button>
+            <span className="font-semibold text-neutral-800 min-w-[12rem] text-center">{formatWeek(weekStart)}</span>
+            <button
+              type="button"
+              onClick={() => setWeekStart(addDays(weekStart, 7))}
+              className="p-2 rounded-lg text-neutral-600 hover:bg-neutral-100"
+              title="Next week"
+            >
+              <ChevronRight size={18} />
+            </button>
+            <button
+              type="button"
+              onClick={() => setWeekStart(startOfWeek(new Date()))}
+              className="px-3 py-1 text-sm font-semibold text-info-700 hover:bg-info-100 rounded-lg"
+            >
+              This week
+            </button>
+          </div>
+          <div className="flex items-center gap-2">
+            {(['driver', 'bus'] as const).map(mode => (
+              <button
+                key={mode}
+                type="button"
+                onClick={() => setRowMode(mode)}
+                className={`px-3 py-1 rounded-lg text-sm font-medium ${
+                  rowMode === mode ? 'bg-neutral-800 text-white' : 'bg-neutral-100 text-neutral-700 hover:bg-neutral-200'
+                }`}
+              >
+                By {mode === 'driver' ? 'Driver' : 'Bus'}
+              </button>
+            ))}
+            <button
+              type="button"
+              onClick={() => startCreate(days[0])}
+              className="flex items-center px-4 py-2 rounded-xl text-sm font-semibold text-white bg-info-500 hover:bg-info-600"
+            >
+              <Plus size={16} className="mr-2" />
+              New Shift
+            </button>
+          </div>
+        </div>
+
+        {conflictCount > 0 && (
+          <div className="flex items-center bg-red-50 border border-red-200 rounded-lg p-3 mb-4 text-sm text-red-700">
+            <AlertTriangle size={16} className="mr-2 flex-shrink-0" />
+            {conflictCount} {conflictCount === 1 ? 'shift double-books' : 'shifts double-book'} a driver or bus this week (outlined in red).
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-neutral-500">Loading roster...</p>
+        ) : rows.length === 0 ? (
+          <div className="text-center py-8 text-neutral-500">
+            <CalendarDays size={32} className="mx-auto mb-2" />
+            Add {rowMode === 'driver' ? 'drivers' : 'buses'} first.
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full table-fixed">
+              <thead>
+                <tr className="border-b border-neutral-200">
+                  <th className="text-left py-3 px-3 text-neutral-700 font-semibold w-40">{rowMode === 'driver' ? 'Driver' : 'Bus'}</th>
+                  {days.map((day, i) => (
+                    <th
+                      key={i}
+                      className={`text-left py-3 px-2 font-semibold text-sm ${sameDay(day, new Date()) ? 'text-info-700' : 'text-neutral-700'}`}
+                    >
+                      {dayLabels[i]} {day.getDate()}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.key} className="border-b border-neutral-100 align-top">
+                    <td className="py-3 px-3">
+                      <div className="font-medium text-neutral-800 truncate">{row.label}</div>
+                      {row.sub && <div className="text-xs text-neutral-500 truncate">{row.sub}</div>}
+                    </td>
+                    {days.map((day, i) => (
+                      <td key={i} className="py-2 px-1 group">
+                        <div className="space-y-1">
+                          {shiftsIn(row.key, day).map(shift => (
+                            <button
+                              key={shift._id}
+                              type="button"
+                              onClick={() => startEdit(shift)}
+                              className={`w-full text-left rounded-lg px-2 py-1 text-xs border ${
+                                shift.conflicts.length
+                                  ? 'bg-red-50 border-red-400 text-red-800'
+                                  : editingId === shift._id
+                                    ? 'bg-info-100 border-info-400 text-info-800'
+                                    : 'bg-info-50 border-info-200 text-info-800 hover:bg-info-100'
+                              }`}
+                              title={shift.notes || undefined}
+                            >
+                              <div className="font-semibold">
+                                {toTimeInput(new Date(shift.startsAt))}–{toTimeInput(new Date(shift.endsAt))}
+                              </div>
+                              <div className="truncate">
+                                {rowMode === 'driver' ? shift.busNumber || shift.busId : shift.driverName || 'Deleted driver'}
+                                {shift.routeName ? ` · ${shift.routeName}` : ''}
+                              </div>
+                            </button>
+                          ))}
+                          <button
+                            type="button"
+                            onClick={() => startCreate(day, row.key)}
+                            className="w-full flex justify-center rounded-lg py-1 text-neutral-400 opacity-0 group-hover:opacity-100 hover:bg-neutral-100"
+                            title="Add shift"
+                          >
+                            <Plus size={14} />
+                          </button>
+                        </div>
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Shift editor */}
+      {editingId && draft && (
+        <div className="bg-white border border-neutral-200 rounded-2xl p-6 shadow-soft">
+          <h2 className="text-2xl font-bold text-neutral-800 mb-6">{editingId === 'new' ? 'New Shift' : 'Edit Shift'}</h2>
+
+          <AnimatePresence>
+            {error && (
+              <motion.div
+                className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6"
+                initial={{ opacity: 0, y: -10 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -10 }}
+              >
+                <p className="text-red-600 text-sm">{error}</p>
+                {conflicts.length > 0 && (
+                  <ul className="mt-2 list-disc list-inside text-red-600 text-sm">
+                    {conflicts.map(conflict => (
+                      <li key={conflict.shift._id}>{describeConflict(conflict)}</li>
+                    ))}
+                  </ul>
+                )}
+              </motion.div>
+            )}
+          </AnimatePresence>
+
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="shiftDriver" className="block text-sm font-medium text-neutral-700 mb-2">Driver</label>
+                <select
+                  id="shiftDriver"
+                  value={draft.driverId}
+                  onChange={(e) => updateDraft({ driverId: e.target.value })}
+                  className={inputClasses}
+                  required
+                >
+                  <option value="">Choose a driver</option>
+                  {drivers.filter(d => d.status === 'active' || d.id === draft.driverId).map(d => (
+                    <option key={d.id} value={d.id}>{d.name} ({d.username})</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="shiftBus" className="block text-sm font-medium text-neutral-700 mb-2">Bus</label>
+                <select
+                  id="shiftBus"
+                  value={draft.busId}
+                  onChange={(e) => updateDraft({ busId: e.target.value, routeId: '' })}
+                  className={inputClasses}
+                  required
+                >
+                  <option value="">Choose a bus</option>
+                  {buses.map(b => (
+                    <option key={b.busId} value={b.busId}>{b.busNumber}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="shiftRoute" className="block text-sm font-medium text-neutral-700 mb-2">Route</label>
+                <select
+                  id="shiftRoute"
+                  value={draft.routeId}
+                  onChange={(e) => updateDraft({ routeId: e.target.value })}
+                  className={inputClasses}
+                >
+                  <option value="">The bus's route</option>
+                  {routes.map(r => (
+                    <option key={r.routeId} value={r.routeId}>{r.routeName}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="shiftDate" className="block text-sm font-medium text-neutral-700 mb-2">Date</label>
+                <input
+                  id="shiftDate"
+                  type="date"
+                  value={draft.date}
+                  onChange={(e) => updateDraft({ date: e.target.value })}
+                  className={inputClasses}
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="shiftStart" className="block text-sm font-medium text-neutral-700 mb-2">Starts</label>
+                <input
+                  id="shiftStart"
+                  type="time"
+                  value={draft.startTime}
+                  onChange={(e) => updateDraft({ startTime: e.target.value })}
+                  className={inputClasses}
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="shiftEnd" className="block text-sm font-medium text-neutral-700 mb-2">Ends</label>
+                <input
+                  id="shiftEnd"
+                  type="time"
+                  value={draft.endTime}
+                  onChange={(e) => updateDraft({ endTime: e.target.value })}
+                  className={inputClasses}
+                  required
+                />
+                {draft.endTime && draft.endTime <= draft.startTime && (
+                  <p className="text-xs text-neutral-500 mt-1">Ends the next day.</p>
+                )}
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="shiftNotes" className="block text-sm font-medium text-neutral-700 mb-2">Notes (optional)</label>
+              <input
+                id="shiftNotes"
+                type="text"
+                value={draft.notes}
+                onChange={(e) => updateDraft({ notes: e.target.value })}
+                className={inputClasses}
+                placeholder="e.g. Covering for Ravi"
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                {editingId !== 'new' && (
+                  <button
+                    type="button"
+                    onClick={handleDelete}
+                    className="flex items-center px-4 py-2 rounded-xl text-sm font-semibold text-error-600 hover:bg-error-100"
+                  >
+                    <Trash2 size={16} className="mr-2" />
+                    Delete Shift
+                  </button>
+                )}
+              </div>
+              <div className="flex items-center space-x-3">
+                <button
+                  type="button"
+                  onClick={closeEditor}
+                  className="px-4 py-2 rounded-xl text-sm font-semibold text-neutral-700 bg-neutral-100 hover:bg-neutral-200"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="px-4 py-2 rounded-xl text-sm font-semibold text-white bg-info-500 hover:bg-info-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isSubmitting ? 'Saving...' : 'Save Shift'}
+                </button>
+              </div>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Roster;
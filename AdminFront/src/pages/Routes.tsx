@@ -1,36 +1,119 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Plus, ChevronDown, ChevronRight, Trash2, MapPin, Route as RouteIcon } from 'lucide-react';
-import { Route, Stop } from '../types';
-import SearchableSelect from '../components/SearchableSelect';
-import placesData from '../data/places.json';
-import { routesAPI } from '../services/api';
+import { Plus, ChevronRight, Trash2, MapPin, Pencil, X, History, Route as RouteIcon } from 'lucide-react';
+import { isAxiosError } from 'axios';
+import { Link } from 'react-router-dom';
+import { RegistryStop, Route, RouteVersion, Stop, ViaPoint } from '../types';
+import RouteMapEditor from '../components/RouteMapEditor';
+import DiversionPanel from '../components/DiversionPanel';
+import GtfsImportPanel from '../components/GtfsImportPanel';
+import GtfsExportPanel from '../components/GtfsExportPanel';
+import { routesAPI, stopsAPI } from '../services/api';
 
 interface RouteFormData {
   routeName: string;
+  bidirectional: boolean;
+  effectiveFrom: string; // datetime-local value when editing; empty means now
   stops: Array<{
+    stopId: string; // registry stopId; existing stops of the route keep theirs when editing
     name: string;
     latitude: number;
     longitude: number;
   }>;
+  viaPoints: ViaPoint[];
 }
 
-const Routes: React.FC = () => {
-  const [formData, setFormData] = useState<RouteFormData>({
-    routeName: '',
-    stops: [{ name: '', latitude: 0, longitude: 0 }]
+const emptyForm: RouteFormData = {
+  routeName: '',
+  bidirectional: false,
+  effectiveFrom: '',
+  stops: [],
+  viaPoints: []
+};
+
+const getVersionStatus = (version: RouteVersion, now: number) => {
+  if (new Date(version.effectiveFrom).getTime() > now) return 'Scheduled';
+  if (version.effectiveTo && new Date(version.effectiveTo).getTime() <= now) return 'Past';
+  return 'Active';
+};
+
+const versionStatusClasses: Record<string, string> = {
+  Active: 'bg-success-100 text-success-700',
+  Scheduled: 'bg-warning-100 text-warning-700',
+  Past: 'bg-neutral-200 text-neutral-600'
+};
+
+interface StopChange {
+  kind: 'added' | 'removed' | 'moved' | 'changed';
+  text: string;
+}
+
+const stopChangeClasses: Record<StopChange['kind'], string> = {
+  added: 'text-success-700',
+  removed: 'text-error-600',
+  moved: 'text-info-700',
+  changed: 'text-warning-700'
+};
+
+// Stop differences between two versions, matched by stopId. A stop counts as moved when its
+// order relative to the stops kept in both versions changed (not when others were added before it).
+const diffStops = (before: Stop[], after: Stop[]): StopChange[] => {
+  const key = (stop: Stop) => stop.stopId || stop.name;
+  const afterKeys = new Set(after.map(key));
+  const beforeByKey = new Map(before.map(stop => [key(stop), stop]));
+  const keptBefore = before.filter(stop => afterKeys.has(key(stop))).map(key);
+  const keptAfter = after.filter(stop => beforeByKey.has(key(stop))).map(key);
+  const changes: StopChange[] = [];
+
+  after.forEach((stop, index) => {
+    const previous = beforeByKey.get(key(stop));
+    if (!previous) {
+      changes.push({ kind: 'added', text: `${stop.name} added as stop #${index + 1}` });
+      return;
+    }
+    if (keptBefore.indexOf(key(stop)) !== keptAfter.indexOf(key(stop))) {
+      changes.push({ kind: 'moved', text: `${stop.name} moved to stop #${index + 1}` });
+    }
+    if (previous.name !== stop.name) {
+      changes.push({ kind: 'changed', text: `${previous.name} renamed to ${stop.name}` });
+    } else if (previous.latitude !== stop.latitude || previous.longitude !== stop.longitude) {
+      changes.push({ kind: 'changed', text: `${stop.name} relocated` });
+    }
   });
+  before.forEach(stop => {
+    if (!afterKeys.has(key(stop))) changes.push({ kind: 'removed', text: `${stop.name} removed` });
+  });
+  return changes;
+};
+
+const formatVersionDate = (value: string | null) => (value ? new Date(value).toLocaleString() : '');
+
+const Routes: React.FC = () => {
+  const [formData, setFormData] = useState<RouteFormData>(emptyForm);
+  const [editingRouteId, setEditingRouteId] = useState<string | null>(null);
+  const [deletingRouteId, setDeletingRouteId] = useState<string | null>(null);
   const [routes, setRoutes] = useState<Route[]>([]);
   const [expandedRoutes, setExpandedRoutes] = useState<Set<string>>(new Set());
-  const [places] = useState<Array<{name: string; latitude: number; longitude: number}>>(placesData);
+  const [registryStops, setRegistryStops] = useState<RegistryStop[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string>('');
 
   useEffect(() => {
     fetchRoutes();
+    fetchRegistryStops();
   }, []);
 
+  const fetchRegistryStops = async () => {
+    try {
+      const response = await stopsAPI.getAllStops();
+      setRegistryStops(response.stops || []);
+    } catch (err) {
+      console.error('Error fetching stops:', err);
+      setError('Failed to load the stop registry. Please try again.');
+    }
+  };
+
   const fetchRoutes = async () => {
     try {
       setLoading(true);
@@ -40,6 +123,8 @@ const Routes: React.FC = () => {
         routeId: route._id,
         routeName: route.routeName,
         stops: route.stops,
+        bidirectional: route.bidirectional,
+        versions: route.versions,
         _id: route._id,
         createdAt: route.createdAt,
         updatedAt: route.updatedAt,
@@ -58,30 +143,54 @@ const Routes: React.FC = () => {
     setFormData(prev => ({ ...prev, routeName: value }));
   };
 
-  const handleStopChange = (index: number, stopName: string) => {
-    const selectedPlace = places.find(place => place.name === stopName);
-    if (selectedPlace) {
-      const newStops = [...formData.stops];
-      newStops[index] = {
-        name: selectedPlace.name,
-        latitude: selectedPlace.latitude,
-        longitude: selectedPlace.longitude
-      };
-      setFormData(prev => ({ ...prev, stops: newStops }));
-    }
+  const startEdit = (route: Route) => {
+    setEditingRouteId(route._id || route.routeId);
+    setFormData({
+      routeName: route.routeName,
+      bidirectional: !!route.bidirectional,
+      effectiveFrom: '',
+      // Registry stops show their current name and coordinates; saving picks them up
+      stops: route.stops.map(stop => {
+        const registryStop = registryStops.find(candidate => candidate.stopId === stop.stopId);
+        const source = registryStop || stop;
+        return {
+          stopId: stop.stopId || '',
+          name: source.name,
+          latitude: source.latitude,
+          longitude: source.longitude
+        };
+      }),
+      viaPoints: route.viaPoints || []
+    });
+    setError('');
+    window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
-  const addStop = () => {
-    setFormData(prev => ({
-      ...prev,
-      stops: [...prev.stops, { name: '', latitude: 0, longitude: 0 }]
-    }));
+  const cancelEdit = () => {
+    setEditingRouteId(null);
+    setFormData(emptyForm);
+    setError('');
   };
 
-  const removeStop = (index: number) => {
-    if (formData.stops.length > 1) {
-      const newStops = formData.stops.filter((_, i) => i !== index);
-      setFormData(prev => ({ ...prev, stops: newStops }));
+  const handleDelete = async (route: Route) => {
+    const id = route._id || route.routeId;
+    if (!window.confirm(`Delete route "${route.routeName}"? This cannot be undone.`)) return;
+    setDeletingRouteId(id);
+    try {
+      const response = await routesAPI.deleteRoute(id);
+      if (response.success) {
+        setRoutes(prev => prev.filter(r => (r._id || r.routeId) !== id));
+        if (editingRouteId === id) cancelEdit();
+      } else {
+        alert(response.message || 'Failed to delete route');
+      }
+    } catch (err) {
+      console.error('Error deleting route:', err);
+      // 409 when buses are still assigned to the route
+      const message = isAxiosError(err) ? err.response?.data?.message : null;
+      alert(message || 'Failed to delete route. Please try again.');
+    } finally {
+      setDeletingRouteId(null);
     }
   };
 
@@ -90,25 +199,21 @@ const Routes: React.FC = () => {
     setIsSubmitting(true);
     setError('');
     
-    // Filter out empty stops
-    const validStops = formData.stops.filter(stop => stop.name !== '');
-    
-    if (formData.routeName && validStops.length > 0) {
+    if (formData.routeName && formData.stops.length >= 2) {
       try {
-        // Generate dynamic stopIds
-        const stopsWithIds = validStops.map((stop, index) => ({
-          stopId: `stop${index + 1}`,
-          name: stop.name,
-          latitude: stop.latitude,
-          longitude: stop.longitude
-        }));
-        
         const routeData = {
           routeName: formData.routeName,
-          stops: stopsWithIds
+          stops: formData.stops,
+          bidirectional: formData.bidirectional,
+          viaPoints: formData.viaPoints
         };
         
-        const response = await routesAPI.createRoute(routeData);
+        const response = editingRouteId
+          ? await routesAPI.updateRoute(editingRouteId, {
+              ...routeData,
+              effectiveFrom: formData.effectiveFrom ? new Date(formData.effectiveFrom).toISOString() : undefined
+            })
+          : await routesAPI.createRoute(routeData);
         
         if (response.success) {
           // Transform and add new route to state
@@ -116,34 +221,38 @@ const Routes: React.FC = () => {
             routeId: response.route._id,
             routeName: response.route.routeName,
             stops: response.route.stops,
+            bidirectional: response.route.bidirectional,
+            versions: response.route.versions,
             _id: response.route._id,
             createdAt: response.route.createdAt,
             updatedAt: response.route.updatedAt,
             __v: response.route.__v
           };
           
-          setRoutes(prev => [...prev, newRoute]);
+          if (editingRouteId) {
+            setRoutes(prev => prev.map(r => ((r._id || r.routeId) === editingRouteId ? newRoute : r)));
+          } else {
+            setRoutes(prev => [...prev, newRoute]);
+          }
           
           // Reset form
-          setFormData({
-            routeName: '',
-            stops: [{ name: '', latitude: 0, longitude: 0 }]
-          });
+          setFormData(emptyForm);
           
-          alert('Route created successfully!');
+          alert(editingRouteId ? 'Route updated successfully!' : 'Route created successfully!');
+          setEditingRouteId(null);
         } else {
-          setError(response.message || 'Failed to create route');
+          setError(response.message || (editingRouteId ? 'Failed to update route' : 'Failed to create route'));
         }
       } catch (error: any) {
-        console.error('Error creating route:', error);
+        console.error(editingRouteId ? 'Error updating route:' : 'Error creating route:', error);
         if (error.response?.data?.message) {
           setError(error.response.data.message);
         } else {
-          setError('Failed to create route. Please try again.');
+          setError(editingRouteId ? 'Failed to update route. Please try again.' : 'Failed to create route. Please try again.');
         }
       }
     } else {
-      setError('Please fill in route name and at least one stop.');
+      setError('Please fill in route name and at least two stops.');
     }
     
     setIsSubmitting(false);
@@ -188,31 +297,6 @@ const Routes: React.FC = () => {
     }
   };
 
-  const stopRowVariants = {
-    hidden: { 
-      opacity: 0, 
-      x: -20,
-      scale: 0.95
-    },
-    visible: {
-      opacity: 1,
-      x: 0,
-      scale: 1,
-      transition: {
-        duration: 0.3,
-        ease: "easeOut"
-      }
-    },
-    exit: {
-      opacity: 0,
-      x: 20,
-      scale: 0.95,
-      transition: {
-        duration: 0.2
-      }
-    }
-  };
-
   const expandedRowVariants = {
     hidden: {
       opacity: 0,
@@ -340,8 +424,13 @@ const Routes: React.FC = () => {
           animate={{ opacity: 1, x: 0 }}
           transition={{ duration: 0.5, delay: 0.6 }}
         >
-          Create New Route
+          {editingRouteId ? 'Edit Route' : 'Create New Route'}
         </motion.h2>
+        {editingRouteId && (
+          <p className="text-sm text-neutral-600 -mt-4 mb-6">
+            Changing stops adds a new route version. Buses keep the current stops and geometry until it takes effect.
+          </p>
+        )}
         
         {/* Error Message */}
         <AnimatePresence>
@@ -377,6 +466,30 @@ const Routes: React.FC = () => {
               placeholder="Enter route name (e.g., Connaught Place to Noida Sec-62)"
               required
             />
+            <label className="mt-3 flex items-center space-x-2 text-sm text-neutral-700">
+              <input
+                type="checkbox"
+                checked={formData.bidirectional}
+                onChange={(e) => setFormData(prev => ({ ...prev, bidirectional: e.target.checked }))}
+                className="rounded border-neutral-300 text-info-500 focus:ring-info-200"
+              />
+              <span>Bidirectional (buses also run down trips through the stops in reverse)</span>
+            </label>
+            {editingRouteId && (
+              <div className="mt-4">
+                <label htmlFor="effectiveFrom" className="block text-sm font-medium text-neutral-700 mb-2">
+                  Effective From
+                </label>
+                <input
+                  type="datetime-local"
+                  id="effectiveFrom"
+                  value={formData.effectiveFrom}
+                  onChange={(e) => setFormData(prev => ({ ...prev, effectiveFrom: e.target.value }))}
+                  className="w-full px-4 py-3 bg-white border border-neutral-300 rounded-xl text-neutral-800 focus:outline-none focus:border-info-400 focus:ring-2 focus:ring-info-200 transition-all duration-300"
+                />
+                <p className="mt-1 text-xs text-neutral-500">Leave empty for stop changes to take effect immediately</p>
+              </div>
+            )}
           </motion.div>
 
           {/* Stops Section */}
@@ -385,102 +498,22 @@ const Routes: React.FC = () => {
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.5, delay: 0.8 }}
           >
-            <div className="flex items-center justify-between mb-4">
-              <label className="block text-sm font-medium text-neutral-700">
-                Route Stops
-              </label>
-              <motion.button
-                type="button"
-                onClick={addStop}
-                className="flex items-center px-4 py-2 bg-info-500 text-white rounded-xl hover:bg-info-600 transition-all duration-300 text-sm font-semibold shadow-soft hover:shadow-soft-lg"
-                whileHover={{ scale: 1.05 }}
-                whileTap={{ scale: 0.95 }}
-              >
-                <Plus size={16} className="mr-2" />
-                Add Stop
-              </motion.button>
-            </div>
-
-            <div className="space-y-4">
-              <AnimatePresence>
-                {formData.stops.map((stop, index) => (
-                  <motion.div 
-                    key={index} 
-                    className="grid grid-cols-1 md:grid-cols-5 gap-4 p-4 bg-neutral-50 rounded-xl border border-neutral-200"
-                    variants={stopRowVariants}
-                    initial="hidden"
-                    animate="visible"
-                    exit="exit"
-                    layout
-                  >
-                    {/* Stop Selection */}
-                    <div>
-                      <label className="block text-xs text-neutral-600 mb-1">Stop Name</label>
-                      <SearchableSelect
-                        options={places.map(place => ({
-                          value: place.name,
-                          label: place.name
-                        }))}
-                        value={stop.name}
-                        onChange={(value) => handleStopChange(index, value)}
-                        placeholder="Select a stop"
-                        required
-                      />
-                    </div>
-
-                    {/* Latitude */}
-                    <div>
-                      <label className="block text-xs text-neutral-600 mb-1">Latitude</label>
-                      <input
-                        type="number"
-                        value={stop.latitude || ''}
-                        disabled
-                        className="w-full px-3 py-2 bg-neutral-100 border border-neutral-300 rounded-lg text-neutral-500 text-sm cursor-not-allowed"
-                        step="any"
-                      />
-                    </div>
-
-                    {/* Longitude */}
-                    <div>
-                      <label className="block text-xs text-neutral-600 mb-1">Longitude</label>
-                      <input
-                        type="number"
-                        value={stop.longitude || ''}
-                        disabled
-                        className="w-full px-3 py-2 bg-neutral-100 border border-neutral-300 rounded-lg text-neutral-500 text-sm cursor-not-allowed"
-                        step="any"
-                      />
-                    </div>
-
-                    {/* Stop Order */}
-                    <div>
-                      <label className="block text-xs text-neutral-600 mb-1">Stop Order</label>
-                      <div className="w-full px-3 py-2 bg-neutral-100 border border-neutral-300 rounded-lg text-neutral-600 text-sm text-center">
-                        #{index + 1}
-                      </div>
-                    </div>
-
-                    {/* Remove Button */}
-                    <div className="flex items-end">
-                      <motion.button
-                        type="button"
-                        onClick={() => removeStop(index)}
-                        disabled={formData.stops.length === 1}
-                        className={`w-full p-2 rounded-lg transition-all duration-300 ${
-                          formData.stops.length === 1
-                            ? 'bg-neutral-200 text-neutral-400 cursor-not-allowed'
-                            : 'bg-error-500 text-white hover:bg-error-600 shadow-soft hover:shadow-soft-lg'
-                        }`}
-                        whileHover={formData.stops.length > 1 ? { scale: 1.05 } : {}}
-                        whileTap={formData.stops.length > 1 ? { scale: 0.95 } : {}}
-                      >
-                        <Trash2 size={16} className="mx-auto" />
-                      </motion.button>
-                    </div>
-                  </motion.div>
-                ))}
-              </AnimatePresence>
-            </div>
+            <label className="block text-sm font-medium text-neutral-700 mb-4">
+              Route Stops
+            </label>
+            {registryStops.length === 0 && (
+              <p className="text-sm text-warning-700 mb-4">
+                The stop registry is empty. Add stops on the <Link to="/stops" className="underline">Stops</Link> page first.
+              </p>
+            )}
+            <RouteMapEditor
+              key={editingRouteId || 'new'}
+              stops={formData.stops}
+              viaPoints={formData.viaPoints}
+              bidirectional={formData.bidirectional}
+              registryStops={registryStops}
+              onChange={(stops, viaPoints) => setFormData(prev => ({ ...prev, stops, viaPoints }))}
+            />
           </motion.div>
 
           {/* Submit Button */}
@@ -506,8 +539,13 @@ const Routes: React.FC = () => {
                     <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                     <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                   </svg>
-                  Creating Route...
+                  {editingRouteId ? 'Saving Route...' : 'Creating Route...'}
                 </span>
+              ) : editingRouteId ? (
+                <>
+                  <Pencil size={20} className="inline mr-2" />
+                  Save Changes
+                </>
               ) : (
                 <>
                   <Plus size={20} className="inline mr-2" />
@@ -515,10 +553,24 @@ const Routes: React.FC = () => {
                 </>
               )}
             </motion.button>
+            {editingRouteId && (
+              <button
+                type="button"
+                onClick={cancelEdit}
+                className="mt-3 w-full py-3 px-6 rounded-xl font-semibold text-neutral-700 bg-neutral-100 hover:bg-neutral-200 transition-all duration-300"
+              >
+                <X size={20} className="inline mr-2" />
+                Cancel Editing
+              </button>
+            )}
           </motion.div>
         </form>
       </motion.div>
 
+      {/* GTFS Import */}
+      <GtfsImportPanel onImported={fetchRoutes} />
+      <GtfsExportPanel />
+
       {/* Route List */}
       <motion.div 
         className="bg-white border border-neutral-200 rounded-2xl p-6 shadow-soft"
@@ -567,25 +619,56 @@ const Routes: React.FC = () => {
                         <span className="px-2 py-1 bg-success-100 text-success-700 rounded-full text-sm font-semibold">
                           {route.stops.length} stops
                         </span>
+                        {route.bidirectional && (
+                          <span className="ml-2 px-2 py-1 bg-info-100 text-info-700 rounded-full text-sm font-semibold">
+                            Up &amp; down
+                          </span>
+                        )}
+                        {route.versions?.some(v => getVersionStatus(v, Date.now()) === 'Scheduled') && (
+                          <span className="ml-2 px-2 py-1 bg-warning-100 text-warning-700 rounded-full text-sm font-semibold">
+                            Change scheduled
+                          </span>
+                        )}
                       </td>
                       <td className="py-3 px-4 text-neutral-600 text-sm">
                         {route.createdAt ? new Date(route.createdAt).toLocaleDateString() : 'N/A'}
                       </td>
                       <td className="py-3 px-4">
-                        <motion.button
-                          onClick={() => toggleRouteExpansion(route._id || route.routeId)}
-                          className="flex items-center px-4 py-2 bg-info-500 text-white rounded-xl hover:bg-info-600 transition-all duration-300 text-sm font-semibold shadow-soft hover:shadow-soft-lg"
-                          whileHover={{ scale: 1.05 }}
-                          whileTap={{ scale: 0.95 }}
-                        >
-                          <motion.div
-                            animate={{ rotate: expandedRoutes.has(route._id || route.routeId) ? 90 : 0 }}
-                            transition={{ duration: 0.2 }}
+                        <div className="flex items-center space-x-2">
+                          <motion.button
+                            onClick={() => toggleRouteExpansion(route._id || route.routeId)}
+                            className="flex items-center px-4 py-2 bg-info-500 text-white rounded-xl hover:bg-info-600 transition-all duration-300 text-sm font-semibold shadow-soft hover:shadow-soft-lg"
+                            whileHover={{ scale: 1.05 }}
+                            whileTap={{ scale: 0.95 }}
+                          >
+                            <motion.div
+                              animate={{ rotate: expandedRoutes.has(route._id || route.routeId) ? 90 : 0 }}
+                              transition={{ duration: 0.2 }}
+                            >
+                              <ChevronRight size={16} className="mr-2" />
+                            </motion.div>
+                            {expandedRoutes.has(route._id || route.routeId) ? 'Hide Stops' : 'Show Stops'}
+                          </motion.button>
+                          <motion.button
+                            onClick={() => startEdit(route)}
+                            className="flex items-center px-3 py-2 bg-neutral-100 text-neutral-700 rounded-xl hover:bg-neutral-200 transition-all duration-300 text-sm font-semibold"
+                            whileHover={{ scale: 1.05 }}
+                            whileTap={{ scale: 0.95 }}
+                            title="Edit route"
+                          >
+                            <Pencil size={16} />
+                          </motion.button>
+                          <motion.button
+                            onClick={() => handleDelete(route)}
+                            disabled={deletingRouteId === (route._id || route.routeId)}
+                            className="flex items-center px-3 py-2 bg-error-500 text-white rounded-xl hover:bg-error-600 transition-all duration-300 text-sm font-semibold shadow-soft disabled:opacity-50 disabled:cursor-not-allowed"
+                            whileHover={{ scale: 1.05 }}
+                            whileTap={{ scale: 0.95 }}
+                            title="Delete route"
                           >
-                            <ChevronRight size={16} className="mr-2" />
-                          </motion.div>
-                          {expandedRoutes.has(route._id || route.routeId) ? 'Hide Stops' : 'Show Stops'}
-                        </motion.button>
+                            <Trash2 size={16} />
+                          </motion.button>
+                        </div>
                       </td>
                     </motion.tr>
                     
@@ -644,6 +727,53 @@ const Routes: React.FC = () => {
                                   </AnimatePresence>
                                 </tbody>
                               </table>
+                              {route.versions && route.versions.length > 0 && (
+                                <>
+                                  <div className="bg-neutral-100 px-4 py-2 border-y border-neutral-200 flex items-center">
+                                    <History size={16} className="mr-2 text-neutral-600" />
+                                    <h4 className="text-neutral-800 font-semibold">Version History</h4>
+                                  </div>
+                                  <ul className="divide-y divide-neutral-200">
+                                    {[...route.versions].sort((a, b) => b.version - a.version).map(version => {
+                                      const status = getVersionStatus(version, Date.now());
+                                      const previous = route.versions?.find(v => v.version === version.version - 1);
+                                      const changes = previous ? diffStops(previous.stops, version.stops) : [];
+                                      return (
+                                        <li key={version.version} className="px-4 py-3">
+                                          <div className="flex flex-wrap items-center gap-2 text-sm">
+                                            <span className="font-semibold text-neutral-800">v{version.version}</span>
+                                            <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${versionStatusClasses[status]}`}>
+                                              {status}
+                                            </span>
+                                            <span className="text-neutral-600">
+                                              {formatVersionDate(version.effectiveFrom)}
+                                              {version.effectiveTo ? ` – ${formatVersionDate(version.effectiveTo)}` : ' onwards'}
+                                            </span>
+                                          </div>
+                                          {!previous ? (
+                                            <p className="mt-1 text-sm text-neutral-600">Initial version with {version.stops.length} stops</p>
+                                          ) : (
+                                            <ul className="mt-1 space-y-0.5 text-sm">
+                                              {previous.bidirectional !== version.bidirectional && (
+                                                <li className="text-warning-700">
+                                                  Down trips {version.bidirectional ? 'enabled' : 'disabled'}
+                                                </li>
+                                              )}
+                                              {changes.map((change, changeIndex) => (
+                                                <li key={changeIndex} className={stopChangeClasses[change.kind]}>{change.text}</li>
+                                              ))}
+                                              {changes.length === 0 && previous.bidirectional === version.bidirectional && (
+                                                <li className="text-neutral-500">No stop changes</li>
+                                              )}
+                                            </ul>
+                                          )}
+                                        </li>
+                                      );
+                                    })}
+                                  </ul>
+                                </>
+                              )}
+                              <DiversionPanel route={route} />
                             </motion.div>
                           </td>
                         </motion.tr>
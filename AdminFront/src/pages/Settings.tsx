@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { User, Lock, Save, LogOut, Eye, EyeOff, Shield, Mail, UserCircle, CheckCircle, AlertCircle } from 'lucide-react';
+import { authAPI } from '../services/api';
 
 interface AdminProfile {
   name: string;
@@ -168,11 +169,9 @@ const Settings: React.FC = () => {
     }));
   };
 
-  const handleLogout = () => {
-    // Clear authentication data
-    localStorage.removeItem('token');
-    localStorage.removeItem('isAdmin');
-    localStorage.removeItem('adminId');
+  const handleLogout = async () => {
+    // Revoke tokens and clear authentication data
+    await authAPI.logout();
     
     // Redirect to login
     navigate('/login');
@@ -0,0 +1,445 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Plus, Pencil, Trash2, X, MapPin, Search, Accessibility, Umbrella, Volume2, Footprints } from 'lucide-react';
+import { isAxiosError } from 'axios';
+import { RegistryStop, StopFormData, WheelchairBoarding } from '../types';
+import { stopsAPI } from '../services/api';
+
+const emptyForm: StopFormData = {
+  name: '',
+  names: {},
+  latitude: 0,
+  longitude: 0,
+  accessibility: {
+    wheelchairBoarding: 'unknown',
+    shelter: false,
+    tactilePaving: false,
+    audioAnnouncements: false
+  }
+};
+
+const wheelchairLabels: Record<WheelchairBoarding, string> = {
+  unknown: 'Unknown',
+  accessible: 'Accessible',
+  not_accessible: 'Not accessible'
+};
+
+const accessibilityFlags = [
+  { key: 'shelter', label: 'Shelter', icon: Umbrella },
+  { key: 'tactilePaving', label: 'Tactile paving', icon: Footprints },
+  { key: 'audioAnnouncements', label: 'Audio announcements', icon: Volume2 }
+] as const;
+
+// Translation rows of the form; kept as a list so a language code can be typed before its name
+type NameRow = { lang: string; name: string };
+
+const inputClasses = 'w-full px-4 py-3 bg-white border border-neutral-300 rounded-xl text-neutral-800 placeholder-neutral-500 focus:outline-none focus:border-info-400 focus:ring-2 focus:ring-info-200 transition-all duration-300';
+
+const Stops: React.FC = () => {
+  const [stops, setStops] = useState<RegistryStop[]>([]);
+  const [formData, setFormData] = useState<StopFormData>(emptyForm);
+  const [nameRows, setNameRows] = useState<NameRow[]>([]);
+  const [editingStopId, setEditingStopId] = useState<string | null>(null);
+  const [deletingStopId, setDeletingStopId] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchStops();
+  }, []);
+
+  const fetchStops = async () => {
+    try {
+      setLoading(true);
+      const response = await stopsAPI.getAllStops();
+      setStops(response.stops || []);
+    } catch (err) {
+      console.error('Error fetching stops:', err);
+      setError('Failed to load stops. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetForm = () => {
+    setEditingStopId(null);
+    setFormData(emptyForm);
+    setNameRows([]);
+    setError('');
+  };
+
+  const startEdit = (stop: RegistryStop) => {
+    setEditingStopId(stop.stopId);
+    setFormData({
+      name: stop.name,
+      names: stop.names,
+      latitude: stop.latitude,
+      longitude: stop.longitude,
+      accessibility: { ...stop.accessibility }
+    });
+    setNameRows(Object.entries(stop.names).map(([lang, name]) => ({ lang, name })));
+    setError('');
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const updateNameRow = (index: number, row: Partial<NameRow>) => {
+    setNameRows(prev => prev.map((current, i) => (i === index ? { ...current, ...row } : current)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    const names = Object.fromEntries(
+      nameRows
+        .map(row => [row.lang.trim(), row.name.trim()])
+        .filter(([lang, name]) => lang && name)
+    );
+    const stop: StopFormData = { ...formData, name: formData.name.trim(), names };
+    if (!stop.name || !Number.isFinite(stop.latitude) || !Number.isFinite(stop.longitude)) {
+      setError('Please fill in the stop name and coordinates.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = editingStopId
+        ? await stopsAPI.updateStop(editingStopId, stop)
+        : await stopsAPI.createStop(stop);
+      if (response.success) {
+        setStops(prev => {
+          const others = prev.filter(s => s.stopId !== response.stop.stopId);
+          return [...others, response.stop].sort((a, b) => a.name.localeCompare(b.name));
+        });
+        resetForm();
+      } else {
+        setError(response.message || 'Failed to save stop');
+      }
+    } catch (err) {
+      console.error('Error saving stop:', err);
+      const message = isAxiosError(err) ? err.response?.data?.message : null;
+      setError(message || 'Failed to save stop. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (stop: RegistryStop) => {
+    if (!window.confirm(`Delete stop "${stop.name}"? This cannot be undone.`)) return;
+    setDeletingStopId(stop.stopId);
+    try {
+      const response = await stopsAPI.deleteStop(stop.stopId);
+      if (response.success) {
+        setStops(prev => prev.filter(s => s.stopId !== stop.stopId));
+        if (editingStopId === stop.stopId) resetForm();
+      } else {
+        alert(response.message || 'Failed to delete stop');
+      }
+    } catch (err) {
+      console.error('Error deleting stop:', err);
+      // 409 while routes still serve the stop
+      const message = isAxiosError(err) ? err.response?.data?.message : null;
+      alert(message || 'Failed to delete stop. Please try again.');
+    } finally {
+      setDeletingStopId(null);
+    }
+  };
+
+  const query = search.trim().toLowerCase();
+  const visibleStops = query
+    ? stops.filter(stop => [stop.name, ...Object.values(stop.names)].some(name => name.toLowerCase().includes(query)))
+    : stops;
+
+  return (
+    <div className="space-y-8">
+      {/* Page Title */}
+      <div>
+        <h1 className="text-3xl font-bold text-neutral-800 mb-2">Stop Registry</h1>
+        <p className="text-neutral-600">Stops shared by all routes. Routes pick their stops from this list.</p>
+      </div>
+
+      {/* Add / Edit Stop Form */}
+      <div className="bg-white border border-neutral-200 rounded-2xl p-6 shadow-soft">
+        <h2 className="text-2xl font-bold text-neutral-800 mb-6">{editingStopId ? 'Edit Stop' : 'Add Stop'}</h2>
+        {editingStopId && (
+          <p className="text-sm text-neutral-600 -mt-4 mb-6">
+            Routes keep the name and coordinates they were saved with until the route is edited and saved again.
+          </p>
+        )}
+
+        <AnimatePresence>
+          {error && (
+            <motion.div
+              className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6"
+              initial={{ opacity: 0, y: -10 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -10 }}
+            >
+              <p className="text-red-600 text-sm">{error}</p>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="stopName" className="block text-sm font-medium text-neutral-700 mb-2">Name</label>
+              <input
+                id="stopName"
+                type="text"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                className={inputClasses}
+                placeholder="e.g. Vashi Bus Depot"
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="stopLatitude" className="block text-sm font-medium text-neutral-700 mb-2">Latitude</label>
+              <input
+                id="stopLatitude"
+                type="number"
+                step="any"
+                min={-90}
+                max={90}
+                value={formData.latitude || ''}
+                onChange={(e) => setFormData(prev => ({ ...prev, latitude: parseFloat(e.target.value) }))}
+                className={inputClasses}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="stopLongitude" className="block text-sm font-medium text-neutral-700 mb-2">Longitude</label>
+              <input
+                id="stopLongitude"
+                type="number"
+                step="any"
+                min={-180}
+                max={180}
+                value={formData.longitude || ''}
+                onChange={(e) => setFormData(prev => ({ ...prev, longitude: parseFloat(e.target.value) }))}
+                className={inputClasses}
+                required
+              />
+            </div>
+          </div>
+
+          {/* Translations */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-neutral-700">Names in other languages</label>
+              <button
+                type="button"
+                onClick={() => setNameRows(prev => [...prev, { lang: '', name: '' }])}
+                className="flex items-center px-3 py-1 text-sm font-semibold text-info-700 hover:bg-info-100 rounded-lg"
+              >
+                <Plus size={14} className="mr-1" />
+                Add Language
+              </button>
+            </div>
+            {nameRows.length === 0 && <p className="text-xs text-neutral-500">None yet, e.g. "hi" for Hindi or "mr" for Marathi.</p>}
+            <div className="space-y-2">
+              {nameRows.map((row, index) => (
+                <div key={index} className="flex items-center space-x-2">
+                  <input
+                    type="text"
+                    value={row.lang}
+                    onChange={(e) => updateNameRow(index, { lang: e.target.value })}
+                    className="w-24 px-3 py-2 bg-white border border-neutral-300 rounded-lg text-sm"
+                    placeholder="hi"
+                    aria-label="Language code"
+                  />
+                  <input
+                    type="text"
+                    value={row.name}
+                    onChange={(e) => updateNameRow(index, { name: e.target.value })}
+                    className="flex-1 px-3 py-2 bg-white border border-neutral-300 rounded-lg text-sm"
+                    placeholder="Name in this language"
+                    aria-label="Translated name"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setNameRows(prev => prev.filter((_, i) => i !== index))}
+                    className="p-2 rounded-lg text-neutral-500 hover:bg-neutral-200"
+                    title="Remove translation"
+                  >
+                    <X size={16} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Accessibility */}
+          <div>
+            <label htmlFor="wheelchairBoarding" className="block text-sm font-medium text-neutral-700 mb-2">Accessibility</label>
+            <div className="flex flex-wrap items-center gap-4">
+              <select
+                id="wheelchairBoarding"
+                value={formData.accessibility.wheelchairBoarding}
+                onChange={(e) => setFormData(prev => ({
+                  ...prev,
+                  accessibility: { ...prev.accessibility, wheelchairBoarding: e.target.value as WheelchairBoarding }
+                }))}
+                className="px-3 py-2 bg-white border border-neutral-300 rounded-lg text-sm"
+              >
+                {Object.entries(wheelchairLabels).map(([value, label]) => (
+                  <option key={value} value={value}>Wheelchair boarding: {label}</option>
+                ))}
+              </select>
+              {accessibilityFlags.map(flag => (
+                <label key={flag.key} className="flex items-center space-x-2 text-sm text-neutral-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.accessibility[flag.key]}
+                    onChange={(e) => setFormData(prev => ({
+                      ...prev,
+                      accessibility: { ...prev.accessibility, [flag.key]: e.target.checked }
+                    }))}
+                    className="rounded border-neutral-300 text-info-500 focus:ring-info-200"
+                  />
+                  <span>{flag.label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="flex items-center px-6 py-3 rounded-xl font-semibold text-white bg-info-500 hover:bg-info-600 disabled:opacity-50 disabled:cursor-not-allowed shadow-soft"
+            >
+              {editingStopId ? <Pencil size={18} className="mr-2" /> : <Plus size={18} className="mr-2" />}
+              {isSubmitting ? 'Saving...' : editingStopId ? 'Save Changes' : 'Add Stop'}
+            </button>
+            {editingStopId && (
+              <button
+                type="button"
+                onClick={resetForm}
+                className="px-6 py-3 rounded-xl font-semibold text-neutral-700 bg-neutral-100 hover:bg-neutral-200"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        </form>
+      </div>
+
+      {/* Stops Table */}
+      <div className="bg-white border border-neutral-200 rounded-2xl p-6 shadow-soft">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <h2 className="text-2xl font-bold text-neutral-800">Stops ({stops.length})</h2>
+          <div className="relative">
+            <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-neutral-400" />
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-9 pr-3 py-2 bg-white border border-neutral-300 rounded-lg text-sm"
+              placeholder="Search by name"
+            />
+          </div>
+        </div>
+
+        {loading ? (
+          <p className="text-neutral-500">Loading stops...</p>
+        ) : visibleStops.length === 0 ? (
+          <div className="text-center py-8 text-neutral-500">
+            <MapPin size={32} className="mx-auto mb-2" />
+            {stops.length === 0 ? 'No stops yet. Add the first one above.' : 'No stops match your search.'}
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-neutral-200">
+                  <th className="text-left py-3 px-4 text-neutral-700 font-semibold">Name</th>
+                  <th className="text-left py-3 px-4 text-neutral-700 font-semibold">Stop ID</th>
+                  <th className="text-left py-3 px-4 text-neutral-700 font-semibold">Coordinates</th>
+                  <th className="text-left py-3 px-4 text-neutral-700 font-semibold">Accessibility</th>
+                  <th className="text-left py-3 px-4 text-neutral-700 font-semibold">Served By</th>
+                  <th className="text-left py-3 px-4 text-neutral-700 font-semibold">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleStops.map(stop => (
+                  <tr key={stop.stopId} className="border-b border-neutral-100 hover:bg-neutral-50">
+                    <td className="py-3 px-4">
+                      <div className="font-medium text-neutral-800">{stop.name}</div>
+                      {Object.entries(stop.names).map(([lang, name]) => (
+                        <div key={lang} className="text-xs text-neutral-500">{lang}: {name}</div>
+                      ))}
+                    </td>
+                    <td className="py-3 px-4 text-neutral-600 text-sm font-mono">{stop.stopId}</td>
+                    <td className="py-3 px-4 text-neutral-600 text-sm font-mono">
+                      {stop.latitude.toFixed(6)}, {stop.longitude.toFixed(6)}
+                    </td>
+                    <td className="py-3 px-4">
+                      <div className="flex items-center space-x-2 text-neutral-600">
+                        <span
+                          title={`Wheelchair boarding: ${wheelchairLabels[stop.accessibility.wheelchairBoarding]}`}
+                          className={
+                            stop.accessibility.wheelchairBoarding === 'accessible'
+                              ? 'text-success-700'
+                              : stop.accessibility.wheelchairBoarding === 'not_accessible'
+                                ? 'text-error-700'
+                                : 'text-neutral-300'
+                          }
+                        >
+                          <Accessibility size={16} />
+                        </span>
+                        {accessibilityFlags.filter(flag => stop.accessibility[flag.key]).map(flag => (
+                          <span key={flag.key} title={flag.label}>
+                            <flag.icon size={16} />
+                          </span>
+                        ))}
+                      </div>
+                    </td>
+                    <td className="py-3 px-4">
+                      {stop.servedBy.length === 0 ? (
+                        <span className="text-sm text-neutral-400">No routes</span>
+                      ) : (
+                        <div className="flex flex-wrap gap-1">
+                          {stop.servedBy.map(route => (
+                            <span key={route.routeId} className="px-2 py-0.5 rounded-full bg-info-100 text-info-700 text-xs font-medium">
+                              {route.routeName}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                    </td>
+                    <td className="py-3 px-4">
+                      <div className="flex items-center space-x-2">
+                        <button
+                          type="button"
+                          onClick={() => startEdit(stop)}
+                          className="p-2 rounded-lg text-info-700 hover:bg-info-100"
+                          title="Edit stop"
+                        >
+                          <Pencil size={16} />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleDelete(stop)}
+                          disabled={deletingStopId === stop.stopId || stop.servedBy.length > 0}
+                          className="p-2 rounded-lg text-error-600 hover:bg-error-100 disabled:text-neutral-300 disabled:hover:bg-transparent"
+                          title={stop.servedBy.length > 0 ? 'Remove the stop from its routes first' : 'Delete stop'}
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Stops;
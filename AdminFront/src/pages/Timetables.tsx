@@ -0,0 +1,630 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Plus, Pencil, Trash2, X, CalendarClock, Copy } from 'lucide-react';
+import { isAxiosError } from 'axios';
+import { CalendarException, Route, ServiceCalendar, Stop, Timetable, TimetableTrip, Weekday } from '../types';
+import { routesAPI } from '../services/api';
+
+const weekdays: Array<{ key: Weekday; label: string }> = [
+  { key: 'mon', label: 'Mon' },
+  { key: 'tue', label: 'Tue' },
+  { key: 'wed', label: 'Wed' },
+  { key: 'thu', label: 'Thu' },
+  { key: 'fri', label: 'Fri' },
+  { key: 'sat', label: 'Sat' },
+  { key: 'sun', label: 'Sun' }
+];
+
+const dayPresets: Array<{ label: string; days: Weekday[] }> = [
+  { label: 'Weekdays', days: ['mon', 'tue', 'wed', 'thu', 'fri'] },
+  { label: 'Weekends', days: ['sat', 'sun'] },
+  { label: 'Every day', days: ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'] }
+];
+
+// Planned time at one stop; editing a cell sets both (departure only differs for loaded trips)
+type Cell = { arrival: string; departure: string };
+
+// One row of the trip grid; times by stopId, empty when the trip skips the stop
+type TripRow = {
+  direction: 'up' | 'down';
+  times: Record<string, Cell>;
+  headwayMinutes: string;
+  endTime: string;
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const emptyCalendar = (): ServiceCalendar => ({
+  days: ['mon', 'tue', 'wed', 'thu', 'fri'],
+  startDate: today(),
+  endDate: null,
+  exceptions: []
+});
+
+// HH:MM:SS from the API shown as HH:MM when the seconds are 0
+const displayTime = (time: string) => (time.endsWith(':00') && time.length === 8 ? time.slice(0, 5) : time);
+
+// HH:MM shifted by minutes; unparseable times are kept
+const shiftTime = (time: string, minutes: number) => {
+  const match = /^(\d{1,2}):(\d{2})/.exec(time);
+  if (!match) return time;
+  const total = Number(match[1]) * 60 + Number(match[2]) + minutes;
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+};
+
+const toRow = (trip: TimetableTrip): TripRow => ({
+  direction: trip.direction,
+  times: Object.fromEntries(
+    trip.stopTimes.map(s => [s.stopId, { arrival: displayTime(s.arrivalTime), departure: displayTime(s.departureTime) }])
+  ),
+  headwayMinutes: trip.headwayMinutes ? String(trip.headwayMinutes) : '',
+  endTime: trip.endTime ? displayTime(trip.endTime) : ''
+});
+
+// Stop times follow the grid columns, i.e. the route's driving order
+const toTrip = (row: TripRow, stops: Stop[]): TimetableTrip => ({
+  direction: row.direction,
+  stopTimes: stops
+    .filter(s => s.stopId && row.times[s.stopId]?.arrival.trim())
+    .map(s => {
+      const cell = row.times[s.stopId as string];
+      return { stopId: s.stopId as string, arrivalTime: cell.arrival.trim(), departureTime: cell.departure.trim() || cell.arrival.trim() };
+    }),
+  headwayMinutes: row.headwayMinutes.trim() ? Number(row.headwayMinutes) : null,
+  endTime: row.headwayMinutes.trim() ? row.endTime.trim() : null
+});
+
+const describeDays = (days: Weekday[]) => {
+  const preset = dayPresets.find(p => p.days.length === days.length && p.days.every(d => days.includes(d)));
+  return preset ? preset.label : weekdays.filter(d => days.includes(d.key)).map(d => d.label).join(', ') || 'Added dates only';
+};
+
+const inputClasses = 'w-full px-4 py-3 bg-white border border-neutral-300 rounded-xl text-neutral-800 placeholder-neutral-500 focus:outline-none focus:border-info-400 focus:ring-2 focus:ring-info-200 transition-all duration-300';
+
+const Timetables: React.FC = () => {
+  const [routes, setRoutes] = useState<Route[]>([]);
+  const [routeId, setRouteId] = useState('');
+  const [timetables, setTimetables] = useState<Timetable[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null); // 'new' while creating
+  const [name, setName] = useState('');
+  const [calendar, setCalendar] = useState<ServiceCalendar>(emptyCalendar());
+  const [rows, setRows] = useState<TripRow[]>([]);
+  const [direction, setDirection] = useState<'up' | 'down'>('up');
+  const [loading, setLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchRoutes();
+  }, []);
+
+  useEffect(() => {
+    if (routeId) fetchTimetables(routeId);
+    closeEditor();
+  }, [routeId]);
+
+  const fetchRoutes = async () => {
+    try {
+      const response = await routesAPI.getAllRoutes();
+      const list: Route[] = Array.isArray(response)
+        ? response.map((route: Route & { _id: string }) => ({
+            routeId: route._id,
+            routeName: route.routeName,
+            stops: route.stops,
+            bidirectional: route.bidirectional
+          }))
+        : [];
+      setRoutes(list);
+      if (list.length) setRouteId(list[0].routeId);
+      else setLoading(false);
+    } catch (err) {
+      console.error('Error fetching routes:', err);
+      setError('Failed to load routes. Please try again.');
+      setLoading(false);
+    }
+  };
+
+  const fetchTimetables = async (id: string) => {
+    try {
+      setLoading(true);
+      const response = await routesAPI.getTimetables(id);
+      setTimetables(response.timetables || []);
+    } catch (err) {
+      console.error('Error fetching timetables:', err);
+      setError('Failed to load timetables. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const route = routes.find(r => r.routeId === routeId) || null;
+  // Grid columns: the route's latest stops in driving order
+  const columns = route ? (direction === 'down' ? [...route.stops].reverse() : route.stops) : [];
+  const visibleRows = rows.map((row, index) => ({ row, index })).filter(({ row }) => row.direction === direction);
+
+  function closeEditor() {
+    setEditingId(null);
+    setRows([]);
+    setError('');
+  }
+
+  const startCreate = () => {
+    setEditingId('new');
+    setName('');
+    setCalendar(emptyCalendar());
+    setRows([]);
+    setDirection('up');
+    setError('');
+  };
+
+  const startEdit = (timetable: Timetable) => {
+    setEditingId(timetable._id);
+    setName(timetable.name);
+    setCalendar({ ...timetable.calendar, exceptions: timetable.calendar.exceptions.map(e => ({ ...e })) });
+    setRows(timetable.trips.map(toRow));
+    setDirection('up');
+    setError('');
+  };
+
+  const toggleDay = (day: Weekday) => {
+    setCalendar(prev => ({
+      ...prev,
+      days: prev.days.includes(day) ? prev.days.filter(d => d !== day) : weekdays.map(d => d.key).filter(d => d === day || prev.days.includes(d))
+    }));
+  };
+
+  const updateException = (index: number, change: Partial<CalendarException>) => {
+    setCalendar(prev => ({
+      ...prev,
+      exceptions: prev.exceptions.map((e, i) => (i === index ? { ...e, ...change } : e))
+    }));
+  };
+
+  const updateRow = (index: number, change: Partial<TripRow>) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...change } : row)));
+  };
+
+  const setCell = (index: number, stopId: string, value: string) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, times: { ...row.times, [stopId]: { arrival: value, departure: value } } } : row)));
+  };
+
+  // New trips copy the last one of the direction, 30 minutes later
+  const addTrip = () => {
+    const last = visibleRows.length ? visibleRows[visibleRows.length - 1].row : null;
+    const row: TripRow = last
+      ? {
+          ...last,
+          times: Object.fromEntries(
+            Object.entries(last.times).map(([stopId, cell]) => [stopId, { arrival: shiftTime(cell.arrival, 30), departure: shiftTime(cell.departure, 30) }])
+          ),
+          headwayMinutes: '',
+          endTime: ''
+        }
+      : { direction, times: {}, headwayMinutes: '', endTime: '' };
+    setRows(prev => [...prev, row]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!route) return;
+    setError('');
+    if (!name.trim()) {
+      setError('Please enter a timetable name.');
+      return;
+    }
+    const trips = rows.map(row => toTrip(row, row.direction === 'down' ? [...route.stops].reverse() : route.stops));
+    if (trips.some(trip => trip.stopTimes.length < 2)) {
+      setError('Every trip needs times at two or more stops.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const data = { name: name.trim(), calendar, trips };
+      const response = editingId && editingId !== 'new'
+        ? await routesAPI.updateTimetable(route.routeId, editingId, data)
+        : await routesAPI.createTimetable(route.routeId, data);
+      if (response.success) {
+        setTimetables(prev => [...prev.filter(t => t._id !== response.timetable._id), response.timetable]);
+        closeEditor();
+      } else {
+        setError(response.message || 'Failed to save timetable');
+      }
+    } catch (err) {
+      console.error('Error saving timetable:', err);
+      const message = isAxiosError(err) ? err.response?.data?.message : null;
+      setError(message || 'Failed to save timetable. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (timetable: Timetable) => {
+    if (!route || !window.confirm(`Delete timetable "${timetable.name}" and its ${timetable.tripCount} trips?`)) return;
+    try {
+      await routesAPI.deleteTimetable(route.routeId, timetable._id);
+      setTimetables(prev => prev.filter(t => t._id !== timetable._id));
+      if (editingId === timetable._id) closeEditor();
+    } catch (err) {
+      console.error('Error deleting timetable:', err);
+      alert('Failed to delete timetable. Please try again.');
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      {/* Page Title */}
+      <div>
+        <h1 className="text-3xl font-bold text-neutral-800 mb-2">Timetables</h1>
+        <p className="text-neutral-600">Scheduled trips of each route and the days they run. Live ETAs show the planned times next to the predictions.</p>
+      </div>
+
+      {/* Route timetables */}
+      <div className="bg-white border border-neutral-200 rounded-2xl p-6 shadow-soft">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <div className="flex items-center gap-3">
+            <label htmlFor="timetableRoute" className="text-sm font-medium text-neutral-700">Route</label>
+            <select
+              id="timetableRoute"
+              value={routeId}
+              onChange={(e) => setRouteId(e.target.value)}
+              className="px-3 py-2 bg-white border border-neutral-300 rounded-lg text-sm"
+            >
+              {routes.map(r => (
+                <option key={r.routeId} value={r.routeId}>{r.routeName}</option>
+              ))}
+            </select>
+          </div>
+          <button
+            type="button"
+            onClick={startCreate}
+            disabled={!route}
+            className="flex items-center px-4 py-2 rounded-xl text-sm font-semibold text-white bg-info-500 hover:bg-info-600 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Plus size={16} className="mr-2" />
+            New Timetable
+          </button>
+        </div>
+
+        {loading ? (
+          <p className="text-neutral-500">Loading timetables...</p>
+        ) : !route ? (
+          <p className="text-neutral-500">Create a route first.</p>
+        ) : timetables.length === 0 ? (
+          <div className="text-center py-8 text-neutral-500">
+            <CalendarClock size={32} className="mx-auto mb-2" />
+            No timetables for this route yet.
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-neutral-200">
+                  <th className="text-left py-3 px-4 text-neutral-700 font-semibold">Name</th>
+                  <th className="text-left py-3 px-4 text-neutral-700 font-semibold">Days</th>
+                  <th className="text-left py-3 px-4 text-neutral-700 font-semibold">Dates</th>
+                  <th className="text-left py-3 px-4 text-neutral-700 font-semibold">Exceptions</th>
+                  <th className="text-left py-3 px-4 text-neutral-700 font-semibold">Trips</th>
+                  <th className="text-left py-3 px-4 text-neutral-700 font-semibold">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {timetables.map(timetable => (
+                  <tr key={timetable._id} className="border-b border-neutral-100 hover:bg-neutral-50">
+                    <td className="py-3 px-4 font-medium text-neutral-800">{timetable.name}</td>
+                    <td className="py-3 px-4 text-neutral-600 text-sm">{describeDays(timetable.calendar.days)}</td>
+                    <td className="py-3 px-4 text-neutral-600 text-sm">
+                      {timetable.calendar.startDate} – {timetable.calendar.endDate || 'open-ended'}
+                    </td>
+                    <td className="py-3 px-4 text-neutral-600 text-sm">
+                      {timetable.calendar.exceptions.length === 0
+                        ? '—'
+                        : timetable.calendar.exceptions.map(e => (
+                            <div key={e.date}>
+                              {e.date}: {e.type === 'removed' ? 'no service' : 'extra service'}{e.note ? ` (${e.note})` : ''}
+                            </div>
+                          ))}
+                    </td>
+                    <td className="py-3 px-4 text-neutral-600 text-sm">{timetable.tripCount}</td>
+                    <td className="py-3 px-4">
+                      <div className="flex items-center space-x-2">
+                        <button
+                          type="button"
+                          onClick={() => startEdit(timetable)}
+                          className="p-2 rounded-lg text-info-700 hover:bg-info-100"
+                          title="Edit timetable"
+                        >
+                          <Pencil size={16} />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleDelete(timetable)}
+                          className="p-2 rounded-lg text-error-600 hover:bg-error-100"
+                          title="Delete timetable"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Timetable editor */}
+      {editingId && route && (
+        <div className="bg-white border border-neutral-200 rounded-2xl p-6 shadow-soft">
+          <h2 className="text-2xl font-bold text-neutral-800 mb-6">
+            {editingId === 'new' ? 'New Timetable' : 'Edit Timetable'} – {route.routeName}
+          </h2>
+
+          <AnimatePresence>
+            {error && (
+              <motion.div
+                className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6"
+                initial={{ opacity: 0, y: -10 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -10 }}
+              >
+                <p className="text-red-600 text-sm">{error}</p>
+              </motion.div>
+            )}
+          </AnimatePresence>
+
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="timetableName" className="block text-sm font-medium text-neutral-700 mb-2">Name</label>
+                <input
+                  id="timetableName"
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className={inputClasses}
+                  placeholder="e.g. Weekday service"
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="timetableStart" className="block text-sm font-medium text-neutral-700 mb-2">From</label>
+                <input
+                  id="timetableStart"
+                  type="date"
+                  value={calendar.startDate}
+                  onChange={(e) => setCalendar(prev => ({ ...prev, startDate: e.target.value }))}
+                  className={inputClasses}
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="timetableEnd" className="block text-sm font-medium text-neutral-700 mb-2">Until (optional)</label>
+                <input
+                  id="timetableEnd"
+                  type="date"
+                  value={calendar.endDate || ''}
+                  onChange={(e) => setCalendar(prev => ({ ...prev, endDate: e.target.value || null }))}
+                  className={inputClasses}
+                />
+              </div>
+            </div>
+
+            {/* Days of the week */}
+            <div>
+              <label className="block text-sm font-medium text-neutral-700 mb-2">Runs on</label>
+              <div className="flex flex-wrap items-center gap-2">
+                {weekdays.map(day => (
+                  <button
+                    key={day.key}
+                    type="button"
+                    onClick={() => toggleDay(day.key)}
+                    className={`px-3 py-1.5 rounded-lg text-sm font-medium border ${
+                      calendar.days.includes(day.key)
+                        ? 'bg-info-500 border-info-500 text-white'
+                        : 'bg-white border-neutral-300 text-neutral-600 hover:bg-neutral-100'
+                    }`}
+                  >
+                    {day.label}
+                  </button>
+                ))}
+                <span className="mx-2 text-neutral-300">|</span>
+                {dayPresets.map(preset => (
+                  <button
+                    key={preset.label}
+                    type="button"
+                    onClick={() => setCalendar(prev => ({ ...prev, days: preset.days }))}
+                    className="px-3 py-1 text-sm font-semibold text-info-700 hover:bg-info-100 rounded-lg"
+                  >
+                    {preset.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Holidays and extra service days */}
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-medium text-neutral-700">Exceptions</label>
+                <button
+                  type="button"
+                  onClick={() => setCalendar(prev => ({ ...prev, exceptions: [...prev.exceptions, { date: today(), type: 'removed', note: '' }] }))}
+                  className="flex items-center px-3 py-1 text-sm font-semibold text-info-700 hover:bg-info-100 rounded-lg"
+                >
+                  <Plus size={14} className="mr-1" />
+                  Add Date
+                </button>
+              </div>
+              {calendar.exceptions.length === 0 && (
+                <p className="text-xs text-neutral-500">None yet, e.g. a public holiday without service or a festival day with extra service.</p>
+              )}
+              <div className="space-y-2">
+                {calendar.exceptions.map((exception, index) => (
+                  <div key={index} className="flex items-center space-x-2">
+                    <input
+                      type="date"
+                      value={exception.date}
+                      onChange={(e) => updateException(index, { date: e.target.value })}
+                      className="px-3 py-2 bg-white border border-neutral-300 rounded-lg text-sm"
+                      aria-label="Exception date"
+                    />
+                    <select
+                      value={exception.type}
+                      onChange={(e) => updateException(index, { type: e.target.value as CalendarException['type'] })}
+                      className="px-3 py-2 bg-white border border-neutral-300 rounded-lg text-sm"
+                      aria-label="Exception type"
+                    >
+                      <option value="removed">No service</option>
+                      <option value="added">Extra service</option>
+                    </select>
+                    <input
+                      type="text"
+                      value={exception.note}
+                      onChange={(e) => updateException(index, { note: e.target.value })}
+                      className="flex-1 px-3 py-2 bg-white border border-neutral-300 rounded-lg text-sm"
+                      placeholder="Note, e.g. Diwali"
+                      aria-label="Exception note"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setCalendar(prev => ({ ...prev, exceptions: prev.exceptions.filter((_, i) => i !== index) }))}
+                      className="p-2 rounded-lg text-neutral-500 hover:bg-neutral-200"
+                      title="Remove date"
+                    >
+                      <X size={16} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Trip grid */}
+            <div>
+              <div className="flex flex-wrap items-center justify-between gap-3 mb-2">
+                <div className="flex items-center gap-2">
+                  <label className="block text-sm font-medium text-neutral-700 mr-2">Trips</label>
+                  {(route.bidirectional ? (['up', 'down'] as const) : (['up'] as const)).map(d => (
+                    <button
+                      key={d}
+                      type="button"
+                      onClick={() => setDirection(d)}
+                      className={`px-3 py-1 rounded-lg text-sm font-medium ${
+                        direction === d ? 'bg-neutral-800 text-white' : 'bg-neutral-100 text-neutral-700 hover:bg-neutral-200'
+                      }`}
+                    >
+                      {d === 'up' ? 'Up' : 'Down'} ({rows.filter(row => row.direction === d).length})
+                    </button>
+                  ))}
+                </div>
+                <button
+                  type="button"
+                  onClick={addTrip}
+                  className="flex items-center px-3 py-1 text-sm font-semibold text-info-700 hover:bg-info-100 rounded-lg"
+                >
+                  {visibleRows.length ? <Copy size={14} className="mr-1" /> : <Plus size={14} className="mr-1" />}
+                  {visibleRows.length ? 'Add Trip (+30 min)' : 'Add Trip'}
+                </button>
+              </div>
+              <p className="text-xs text-neutral-500 mb-3">
+                Times as HH:MM (after midnight use 24:30 etc.). Leave a stop empty when the trip skips it. With "Every" and "Until"
+                the trip repeats at that headway until its first departure reaches the end time.
+              </p>
+
+              {visibleRows.length === 0 ? (
+                <p className="text-sm text-neutral-500">No {direction} trips yet.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="text-sm">
+                    <thead>
+                      <tr className="border-b border-neutral-200">
+                        {columns.map((stop, i) => (
+                          <th key={`${stop.stopId}-${i}`} className="text-left py-2 px-2 text-neutral-700 font-semibold whitespace-nowrap">
+                            {stop.name}
+                          </th>
+                        ))}
+                        <th className="text-left py-2 px-2 text-neutral-700 font-semibold whitespace-nowrap">Every (min)</th>
+                        <th className="text-left py-2 px-2 text-neutral-700 font-semibold">Until</th>
+                        <th />
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {visibleRows.map(({ row, index }) => (
+                        <tr key={index} className="border-b border-neutral-100">
+                          {columns.map((stop, i) => (
+                            <td key={`${stop.stopId}-${i}`} className="py-1 px-2">
+                              <input
+                                type="text"
+                                value={row.times[stop.stopId as string]?.arrival || ''}
+                                onChange={(e) => setCell(index, stop.stopId as string, e.target.value)}
+                                className="w-20 px-2 py-1 bg-white border border-neutral-300 rounded-md font-mono"
+                                placeholder="--:--"
+                                aria-label={`Time at ${stop.name}`}
+                              />
+                            </td>
+                          ))}
+                          <td className="py-1 px-2">
+                            <input
+                              type="number"
+                              min={1}
+                              max={240}
+                              value={row.headwayMinutes}
+                              onChange={(e) => updateRow(index, { headwayMinutes: e.target.value })}
+                              className="w-20 px-2 py-1 bg-white border border-neutral-300 rounded-md"
+                              aria-label="Headway in minutes"
+                            />
+                          </td>
+                          <td className="py-1 px-2">
+                            <input
+                              type="text"
+                              value={row.endTime}
+                              onChange={(e) => updateRow(index, { endTime: e.target.value })}
+                              disabled={!row.headwayMinutes}
+                              className="w-20 px-2 py-1 bg-white border border-neutral-300 rounded-md font-mono disabled:bg-neutral-100"
+                              placeholder="--:--"
+                              aria-label="Repeat until"
+                            />
+                          </td>
+                          <td className="py-1 px-2">
+                            <button
+                              type="button"
+                              onClick={() => setRows(prev => prev.filter((_, i) => i !== index))}
+                              className="p-1 rounded-lg text-neutral-500 hover:bg-neutral-200"
+                              title="Remove trip"
+                            >
+                              <X size={16} />
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+
+            <div className="flex gap-3">
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="flex items-center px-6 py-3 rounded-xl font-semibold text-white bg-info-500 hover:bg-info-600 disabled:opacity-50 disabled:cursor-not-allowed shadow-soft"
+              >
+                {editingId === 'new' ? <Plus size={18} className="mr-2" /> : <Pencil size={18} className="mr-2" />}
+                {isSubmitting ? 'Saving...' : editingId === 'new' ? 'Create Timetable' : 'Save Changes'}
+              </button>
+              <button
+                type="button"
+                onClick={closeEditor}
+                className="px-6 py-3 rounded-xl font-semibold text-neutral-700 bg-neutral-100 hover:bg-neutral-200"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Timetables;
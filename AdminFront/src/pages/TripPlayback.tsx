@@ -0,0 +1,494 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { isAxiosError } from 'axios';
+import { MapContainer, TileLayer, Polyline, Marker, Popup } from 'react-leaflet';
+import { decode } from '@mapbox/polyline';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Play, Pause, Rewind, History, Bus, MapPin, Gauge, Clock, Activity } from 'lucide-react';
+import L from 'leaflet';
+import type { LatLngBoundsExpression } from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { Bus as BusType, HistoryPoint } from '../types';
+import { busesAPI, routesAPI } from '../services/api';
+
+// Zoom level the drawn path is simplified for (street level keeps turns intact); timing, speeds and
+// stop arrivals use the raw pings, since simplification drops the points in between
+const PLAYBACK_ZOOM = 16;
+// Playback clock tick (real ms)
+const TICK_MS = 200;
+// A stop counts as reached when the bus passes within this distance
+const ARRIVAL_RADIUS_M = 50;
+const SPEED_MULTIPLIERS = [1, 2, 5, 10, 30, 60];
+
+interface PlaybackPoint extends HistoryPoint {
+  time: number; // epoch ms of t
+}
+
+interface StopArrival {
+  name: string;
+  lat: number;
+  lng: number;
+  arrivedAt: number | null;
+}
+
+// Value for <input type="datetime-local"> in the browser's timezone
+const toLocalInputValue = (date: Date) => {
+  const offsetMs = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+};
+
+const distanceMeters = (aLat: number, aLng: number, bLat: number, bLng: number) => {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(bLat - aLat);
+  const dLng = toRad(bLng - aLng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(aLat)) * Math.cos(toRad(bLat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6371000 * Math.asin(Math.sqrt(h));
+};
+
+// Index of the last point recorded at or before `time` (points are sorted by time)
+const findPointIndex = (points: PlaybackPoint[], time: number) => {
+  let lo = 0;
+  let hi = points.length - 1;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (points[mid].time <= time) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+};
+
+// Bus position at `time`, linearly interpolated between the surrounding pings
+const interpolatePosition = (points: PlaybackPoint[], time: number): [number, number] | null => {
+  if (!points.length) return null;
+  const i = findPointIndex(points, time);
+  const a = points[i];
+  const b = points[i + 1];
+  if (!b || time <= a.time) return [a.lat, a.lng];
+  const ratio = Math.min(1, (time - a.time) / (b.time - a.time));
+  return [a.lat + (b.lat - a.lat) * ratio, a.lng + (b.lng - a.lng) * ratio];
+};
+
+const formatClock = (time: number) => new Date(time).toLocaleTimeString();
+
+const createBusIcon = () =>
+  L.divIcon({
+    html: `
+      <div style="width: 32px; height: 32px; background: linear-gradient(135deg, #3b82f6, #1d4ed8); border: 3px solid white; border-radius: 10px; display: flex; align-items: center; justify-content: center; box-shadow: 0 4px 12px rgba(59, 130, 246, 0.4);">
+        <svg width="16" height="16" fill="white" viewBox="0 0 24 24">
+          <path d="M4 16c0 .88.39 1.67 1 2.22V20a1 1 0 0 0 1 1h1a1 1 0 0 0 1-1v-1h8v1a1 1 0 0 0 1 1h1a1 1 0 0 0 1-1v-1.78c.61-.55 1-1.34 1-2.22V6c0-3.5-3.58-4-8-4s-8 .5-8 4v10M6.5 17.5c-.83 0-1.5-.67-1.5-1.5s.67-1.5 1.5-1.5 1.5.67 1.5 1.5-.67 1.5-1.5 1.5m11 0c-.83 0-1.5-.67-1.5-1.5s.67-1.5 1.5-1.5 1.5.67 1.5 1.5-.67 1.5-1.5 1.5M5 11V6h14v5H5z"/>
+        </svg>
+      </div>
+    `,
+    className: 'bus-marker',
+    iconSize: [32, 32],
+    iconAnchor: [16, 16],
+  });
+
+const createStopIcon = (arrived: boolean) =>
+  L.divIcon({
+    html: `<div style="width: 16px; height: 16px; background: ${arrived ? '#10b981' : '#9ca3af'}; border: 3px solid white; border-radius: 50%; box-shadow: 0 2px 6px rgba(0,0,0,0.3);"></div>`,
+    className: 'stop-marker',
+    iconSize: [16, 16],
+    iconAnchor: [8, 8],
+  });
+
+const TripPlayback: React.FC = () => {
+  const [buses, setBuses] = useState<BusType[]>([]);
+  const [selectedBusId, setSelectedBusId] = useState('');
+  const [fromValue, setFromValue] = useState(() => toLocalInputValue(new Date(Date.now() - 60 * 60 * 1000)));
+  const [toValue, setToValue] = useState(() => toLocalInputValue(new Date()));
+  const [points, setPoints] = useState<PlaybackPoint[]>([]);
+  const [pathPoints, setPathPoints] = useState<PlaybackPoint[]>([]);
+  const [routeCoordinates, setRouteCoordinates] = useState<[number, number][]>([]);
+  const [loadedBus, setLoadedBus] = useState<BusType | null>(null);
+  const [loadId, setLoadId] = useState(0);
+  const [truncated, setTruncated] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [playbackTime, setPlaybackTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speedMultiplier, setSpeedMultiplier] = useState(10);
+
+  useEffect(() => {
+    const fetchBuses = async () => {
+      try {
+        const response = await busesAPI.getAllBuses();
+        const list: BusType[] = Array.isArray(response) ? response : [];
+        setBuses(list);
+        if (list.length) setSelectedBusId(list[0].busId);
+      } catch (err) {
+        console.error('Error fetching buses:', err);
+        setError('Failed to load buses. Please try again.');
+      }
+    };
+    fetchBuses();
+  }, []);
+
+  const startTime = points.length ? points[0].time : 0;
+  const endTime = points.length ? points[points.length - 1].time : 0;
+
+  // Advance the playback clock while playing; pause at the end of the trip
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = setInterval(() => {
+      setPlaybackTime((prev) => Math.min(prev + TICK_MS * speedMultiplier, endTime));
+    }, TICK_MS);
+    return () => clearInterval(timer);
+  }, [isPlaying, speedMultiplier, endTime]);
+
+  useEffect(() => {
+    if (isPlaying && playbackTime >= endTime) setIsPlaying(false);
+  }, [isPlaying, playbackTime, endTime]);
+
+  const handleLoad = async () => {
+    const bus = buses.find((b) => b.busId === selectedBusId);
+    if (!bus) {
+      setError('Select a bus first');
+      return;
+    }
+    const from = new Date(fromValue);
+    const to = new Date(toValue);
+    if (!Number.isFinite(from.getTime()) || !Number.isFinite(to.getTime()) || from >= to) {
+      setError('Pick a valid time window (from must be before to)');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+    setIsPlaying(false);
+    try {
+      const range = { from: from.toISOString(), to: to.toISOString() };
+      const [history, simplified] = await Promise.all([
+        busesAPI.getBusHistory(bus.busId, range),
+        busesAPI.getBusHistory(bus.busId, { ...range, zoom: PLAYBACK_ZOOM }),
+      ]);
+      const toPlayback = (list: HistoryPoint[]) => list.map((p) => ({ ...p, time: new Date(p.t).getTime() }));
+      const loaded = toPlayback(history.points || []);
+
+      // Route polyline is optional; playback still works without it
+      let coordinates: [number, number][] = [];
+      if (bus.route?.routeName) {
+        try {
+          const routeWithPolyline = await routesAPI.getRouteWithPolyline(bus.route.routeName);
+          if (routeWithPolyline?.geometry) coordinates = decode(routeWithPolyline.geometry);
+        } catch (routeErr) {
+          console.error('Failed to fetch polyline data:', routeErr);
+        }
+      }
+
+      setPoints(loaded);
+      setPathPoints(toPlayback(simplified.points || []));
+      setRouteCoordinates(coordinates);
+      setLoadedBus(bus);
+      setTruncated(history.truncated);
+      setPlaybackTime(loaded.length ? loaded[0].time : 0);
+      setLoadId((id) => id + 1);
+      if (!loaded.length) setError('No recorded locations for this bus in the selected window');
+    } catch (err) {
+      console.error('Error fetching bus history:', err);
+      const message = isAxiosError(err) ? err.response?.data?.message : null;
+      setError(message || 'Failed to load trip history. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // First time the bus came within ARRIVAL_RADIUS_M of each stop
+  const stopArrivals: StopArrival[] = useMemo(() => {
+    const stops = loadedBus?.route?.stops || [];
+    return stops.map((stop) => {
+      const hit = points.find((p) => distanceMeters(p.lat, p.lng, stop.lat, stop.lng) <= ARRIVAL_RADIUS_M);
+      return { name: stop.name, lat: stop.lat, lng: stop.lng, arrivedAt: hit ? hit.time : null };
+    });
+  }, [points, loadedBus]);
+
+  const mapBounds: LatLngBoundsExpression | null = useMemo(() => {
+    const all: [number, number][] = [...routeCoordinates, ...pathPoints.map((p): [number, number] => [p.lat, p.lng])];
+    if (!all.length) return null;
+    const lats = all.map((c) => c[0]);
+    const lngs = all.map((c) => c[1]);
+    return [
+      [Math.min(...lats), Math.min(...lngs)],
+      [Math.max(...lats), Math.max(...lngs)],
+    ];
+  }, [routeCoordinates, pathPoints]);
+
+  const currentIndex = points.length ? findPointIndex(points, playbackTime) : -1;
+  const currentPoint = currentIndex >= 0 ? points[currentIndex] : null;
+  const busPosition = interpolatePosition(points, playbackTime);
+  const pathIndex = pathPoints.length ? findPointIndex(pathPoints, playbackTime) : -1;
+  const travelledPath = useMemo(() => {
+    const path: [number, number][] = pathPoints.slice(0, pathIndex + 1).map((p) => [p.lat, p.lng]);
+    if (busPosition) path.push(busPosition);
+    return path;
+  }, [pathPoints, pathIndex, busPosition]);
+
+  const speedData = useMemo(
+    () => points.filter((p) => p.speed !== null).map((p) => ({ time: p.time, speed: p.speed })),
+    [points]
+  );
+
+  const handlePlayPause = () => {
+    if (!points.length) return;
+    if (!isPlaying && playbackTime >= endTime) setPlaybackTime(startTime);
+    setIsPlaying(!isPlaying);
+  };
+
+  const handleRestart = () => {
+    setIsPlaying(false);
+    setPlaybackTime(startTime);
+  };
+
+  return (
+    <motion.div
+      className="space-y-8"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ duration: 0.4 }}
+    >
+      {/* Page Title */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-800 mb-2">Trip Playback</h1>
+        <p className="text-gray-600">Replay a bus's recorded trip along its route</p>
+      </div>
+
+      {/* Controls */}
+      <div className="bg-white border border-gray-200 rounded-xl p-6 shadow-sm">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Bus</label>
+            <select
+              value={selectedBusId}
+              onChange={(e) => setSelectedBusId(e.target.value)}
+              className="w-full px-4 py-2 bg-white border border-gray-300 rounded-lg text-gray-800 focus:outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all duration-300"
+            >
+              {buses.length === 0 && <option value="">No buses available</option>}
+              {buses.map((bus) => (
+                <option key={bus.busId} value={bus.busId}>
+                  {bus.busNumber}{bus.route?.routeName ? ` (${bus.route.routeName})` : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">From</label>
+            <input
+              type="datetime-local"
+              value={fromValue}
+              onChange={(e) => setFromValue(e.target.value)}
+              className="w-full px-4 py-2 bg-white border border-gray-300 rounded-lg text-gray-800 focus:outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all duration-300"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">To</label>
+            <input
+              type="datetime-local"
+              value={toValue}
+              onChange={(e) => setToValue(e.target.value)}
+              className="w-full px-4 py-2 bg-white border border-gray-300 rounded-lg text-gray-800 focus:outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all duration-300"
+            />
+          </div>
+
+          <motion.button
+            onClick={handleLoad}
+            disabled={loading || !selectedBusId}
+            className={`flex items-center justify-center px-6 py-2 rounded-lg font-semibold text-white transition-all duration-300 ${
+              loading || !selectedBusId ? 'bg-blue-400 cursor-not-allowed' : 'bg-blue-500 hover:bg-blue-600'
+            } focus:outline-none focus:ring-4 focus:ring-blue-200 shadow-lg`}
+            whileHover={!loading ? { scale: 1.03 } : {}}
+            whileTap={!loading ? { scale: 0.97 } : {}}
+          >
+            <History size={16} className={`mr-2 ${loading ? 'animate-spin' : ''}`} />
+            {loading ? 'Loading...' : 'Load Trip'}
+          </motion.button>
+        </div>
+
+        {error && (
+          <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">{error}</div>
+        )}
+        {truncated && (
+          <div className="mt-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-yellow-700 text-sm">
+            This window holds more points than can be replayed at once; only the beginning is shown. Pick a shorter window.
+          </div>
+        )}
+      </div>
+
+      {points.length > 0 && mapBounds && (
+        <>
+          {/* Map */}
+          <div className="bg-white border border-gray-200 rounded-xl shadow-sm overflow-hidden">
+            <div style={{ height: '480px' }}>
+              <MapContainer key={loadId} bounds={mapBounds} className="w-full h-full" scrollWheelZoom={true}>
+                <TileLayer
+                  attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+                  url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+                />
+
+                {/* Planned route */}
+                {routeCoordinates.length > 0 && (
+                  <Polyline positions={routeCoordinates} color="#2563eb" weight={4} opacity={0.5} />
+                )}
+
+                {/* Path driven so far */}
+                <Polyline positions={travelledPath} color="#10b981" weight={4} opacity={0.9} />
+
+                {stopArrivals.map((stop, index) => {
+                  const arrived = stop.arrivedAt !== null && stop.arrivedAt <= playbackTime;
+                  return (
+                    <Marker key={`${stop.name}-${index}`} position={[stop.lat, stop.lng]} icon={createStopIcon(arrived)}>
+                      <Popup>
+                        <div className="text-center">
+                          <h3 className="font-bold text-gray-900">{stop.name}</h3>
+                          <p className="text-sm text-gray-600">
+                            {stop.arrivedAt !== null ? `Reached at ${formatClock(stop.arrivedAt)}` : 'Not reached in this window'}
+                          </p>
+                        </div>
+                      </Popup>
+                    </Marker>
+                  );
+                })}
+
+                {busPosition && (
+                  <Marker position={busPosition} icon={createBusIcon()}>
+                    <Popup>
+                      <div className="text-center">
+                        <h3 className="font-bold text-gray-900">{loadedBus?.busNumber}</h3>
+                        <p className="text-sm text-gray-600">{formatClock(playbackTime)}</p>
+                        {currentPoint?.speed !== null && currentPoint?.speed !== undefined && (
+                          <p className="text-sm text-gray-600">Speed: {currentPoint.speed} km/h</p>
+                        )}
+                      </div>
+                    </Popup>
+                  </Marker>
+                )}
+              </MapContainer>
+            </div>
+
+            {/* Playback controls */}
+            <div className="p-6 border-t border-gray-200 space-y-4">
+              <div className="flex flex-col md:flex-row md:items-center gap-4">
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={handleRestart}
+                    className="p-2 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors duration-200"
+                    title="Restart"
+                  >
+                    <Rewind size={18} />
+                  </button>
+                  <button
+                    onClick={handlePlayPause}
+                    className="p-2 rounded-lg bg-blue-500 text-white hover:bg-blue-600 transition-colors duration-200"
+                    title={isPlaying ? 'Pause' : 'Play'}
+                  >
+                    {isPlaying ? <Pause size={18} /> : <Play size={18} />}
+                  </button>
+                </div>
+
+                <input
+                  type="range"
+                  min={startTime}
+                  max={endTime}
+                  step={1000}
+                  value={playbackTime}
+                  onChange={(e) => setPlaybackTime(Number(e.target.value))}
+                  className="flex-1 accent-blue-600"
+                />
+
+                <div className="flex items-center gap-3">
+                  <span className="flex items-center text-gray-700 text-sm font-mono">
+                    <Clock size={14} className="mr-1 text-gray-500" />
+                    {formatClock(playbackTime)}
+                  </span>
+                  <select
+                    value={speedMultiplier}
+                    onChange={(e) => setSpeedMultiplier(Number(e.target.value))}
+                    className="px-3 py-1 bg-white border border-gray-300 rounded-lg text-gray-800 text-sm focus:outline-none focus:border-blue-500"
+                  >
+                    {SPEED_MULTIPLIERS.map((m) => (
+                      <option key={m} value={m}>{m}x</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-6 text-sm text-gray-600">
+                <span className="flex items-center"><Bus size={14} className="mr-1" />{loadedBus?.busNumber}</span>
+                <span className="flex items-center"><Gauge size={14} className="mr-1" />
+                  {currentPoint?.speed !== null && currentPoint?.speed !== undefined ? `${currentPoint.speed} km/h` : 'Speed n/a'}
+                </span>
+                <span className="flex items-center"><Activity size={14} className="mr-1" />{points.length} points</span>
+                <span>{formatClock(startTime)} – {formatClock(endTime)}</span>
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Speed chart */}
+            <div className="lg:col-span-2 bg-white border border-gray-200 rounded-xl p-6 shadow-sm">
+              <h2 className="text-xl font-bold text-gray-800 mb-4">Speed</h2>
+              {speedData.length > 0 ? (
+                <div style={{ height: '260px' }}>
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={speedData}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                      <XAxis
+                        dataKey="time"
+                        type="number"
+                        domain={[startTime, endTime]}
+                        tickFormatter={(value) => new Date(value).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                        stroke="#6b7280"
+                      />
+                      <YAxis unit=" km/h" stroke="#6b7280" width={70} />
+                      <Tooltip
+                        labelFormatter={(value) => formatClock(Number(value))}
+                        formatter={(value) => [`${value} km/h`, 'Speed']}
+                      />
+                      <Line type="monotone" dataKey="speed" stroke="#3b82f6" strokeWidth={2} dot={false} />
+                      <ReferenceLine x={playbackTime} stroke="#ef4444" strokeDasharray="4 4" />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              ) : (
+                <p className="text-gray-500 text-sm">No speed samples were recorded in this window.</p>
+              )}
+            </div>
+
+            {/* Stop arrivals */}
+            <div className="bg-white border border-gray-200 rounded-xl p-6 shadow-sm">
+              <h2 className="text-xl font-bold text-gray-800 mb-4">Stop Arrivals</h2>
+              {stopArrivals.length === 0 && <p className="text-gray-500 text-sm">This bus has no route stops.</p>}
+              <ul className="space-y-3">
+                {stopArrivals.map((stop, index) => (
+                  <li key={`${stop.name}-${index}`} className="flex items-center justify-between">
+                    <span className="flex items-center text-gray-800">
+                      <MapPin
+                        size={14}
+                        className={`mr-2 ${stop.arrivedAt !== null && stop.arrivedAt <= playbackTime ? 'text-green-500' : 'text-gray-400'}`}
+                      />
+                      {stop.name}
+                    </span>
+                    {stop.arrivedAt !== null ? (
+                      <button
+                        onClick={() => setPlaybackTime(stop.arrivedAt as number)}
+                        className="text-sm text-blue-600 hover:underline font-mono"
+                        title="Jump to arrival"
+                      >
+                        {formatClock(stop.arrivedAt)}
+                      </button>
+                    ) : (
+                      <span className="text-sm text-gray-400">—</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </>
+      )}
+    </motion.div>
+  );
+};
+
+export default TripPlayback;
@@ -1,6 +1,28 @@
 import axios from 'axios';
+import {
+  BusHistoryResponse,
+  FleetLiveResponse,
+  GtfsImportResponse,
+  GtfsValidationResponse,
+  LoginResponse,
+  PerformanceReport,
+  PerformanceScope,
+  RegistryStop,
+  RoutePreviewResponse,
+  Shift,
+  ShiftFormData,
+  ShiftListResponse,
+  StopFormData,
+  Timetable,
+  TimetableFormData,
+  ViaPoint,
+} from '../types';
 
 const API_BASE_URL = 'http://localhost:4000/api';
+// Socket.IO is served by the same backend, without the /api prefix
+export const SOCKET_URL = API_BASE_URL.replace(/\/api$/, '');
+// Public GTFS static feed for journey planners
+export const GTFS_STATIC_URL = `${API_BASE_URL}/gtfs/static.zip`;
 
 // Create axios instance with default config
 const api = axios.create({
@@ -10,10 +32,93 @@ const api = axios.create({
   },
 });
 
-// Add request interceptor to include auth token
+const TOKEN_KEY = 'token';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+const ADMIN_ID_KEY = 'adminId';
+
+// Refresh the access token this long before it actually expires
+const EXPIRY_SKEW_MS = 30 * 1000;
+
+// Session token storage (localStorage)
+export const tokenStorage = {
+  getAccessToken: () => localStorage.getItem(TOKEN_KEY),
+  getRefreshToken: () => localStorage.getItem(REFRESH_TOKEN_KEY),
+  setSession: (session: { accessToken: string; refreshToken: string; adminId?: string }) => {
+    localStorage.setItem(TOKEN_KEY, session.accessToken);
+    localStorage.setItem(REFRESH_TOKEN_KEY, session.refreshToken);
+    if (session.adminId) {
+      localStorage.setItem(ADMIN_ID_KEY, session.adminId);
+    }
+  },
+  clear: () => {
+    localStorage.removeItem(TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+    localStorage.removeItem(ADMIN_ID_KEY);
+    localStorage.removeItem('isAdmin'); // legacy flag from the pre-token login
+  },
+};
+
+// Read the exp claim of a JWT without verifying it (the server does that)
+const getTokenExpiry = (token: string): number | null => {
+  try {
+    const payload = token.split('.')[1];
+    const json = atob(payload.replace(/-/g, '+').replace(/_/g, '/'));
+    const { exp } = JSON.parse(json);
+    return typeof exp === 'number' ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+export const isTokenExpired = (token: string | null): boolean => {
+  if (!token) return true;
+  const expiry = getTokenExpiry(token);
+  return expiry === null || expiry - EXPIRY_SKEW_MS <= Date.now();
+};
+
+// Single in-flight refresh shared by all callers
+let refreshPromise: Promise<string | null> | null = null;
+
+export const refreshAccessToken = (): Promise<string | null> => {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      const refreshToken = tokenStorage.getRefreshToken();
+      if (!refreshToken || isTokenExpired(refreshToken)) return null;
+      try {
+        // Plain axios call so the interceptors below don't recurse
+        const response = await axios.post(`${API_BASE_URL}/admin/refresh`, { refreshToken });
+        tokenStorage.setSession(response.data);
+        return response.data.accessToken as string;
+      } catch (error) {
+        console.error('Token refresh failed:', error);
+        return null;
+      }
+    })().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+// Resolves true when a usable access token exists (refreshing it if needed)
+export const ensureSession = async (): Promise<boolean> => {
+  if (!isTokenExpired(tokenStorage.getAccessToken())) return true;
+  const token = await refreshAccessToken();
+  return token !== null;
+};
+
+const isAuthEndpoint = (url?: string) =>
+  !!url && ['/admin/login', '/admin/refresh'].some((path) => url.endsWith(path));
+
+// Add request interceptor to include auth token (silently refreshing it when close to expiry)
 api.interceptors.request.use(
-  (config) => {
-    const token = localStorage.getItem('token');
+  async (config) => {
+    if (isAuthEndpoint(config.url)) return config;
+
+    let token = tokenStorage.getAccessToken();
+    if (isTokenExpired(token) && tokenStorage.getRefreshToken()) {
+      token = (await refreshAccessToken()) || token;
+    }
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
@@ -24,14 +129,21 @@ api.interceptors.request.use(
   }
 );
 
-// Add response interceptor to handle auth errors
+// Add response interceptor to handle auth errors: retry once after a refresh, otherwise log out
 api.interceptors.response.use(
   (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      localStorage.removeItem('token');
-      localStorage.removeItem('isAdmin');
-      localStorage.removeItem('adminId');
+  async (error) => {
+    const original = error.config;
+    if (error.response?.status === 401 && original && !isAuthEndpoint(original.url)) {
+      if (!original._retry) {
+        original._retry = true;
+        const token = await refreshAccessToken();
+        if (token) {
+          original.headers.Authorization = `Bearer ${token}`;
+          return api(original);
+        }
+      }
+      tokenStorage.clear();
       window.location.href = '/login';
     }
     return Promise.reject(error);
@@ -40,10 +152,26 @@ api.interceptors.response.use(
 
 // Auth API
 export const authAPI = {
-  login: async (email: string, password: string) => {
+  login: async (email: string, password: string): Promise<LoginResponse> => {
     const response = await api.post('/admin/login', { email, password });
+    if (response.data.loginSuccess && response.data.accessToken && response.data.refreshToken) {
+      tokenStorage.setSession(response.data);
+    }
     return response.data;
   },
+
+  // Revokes refresh tokens server-side (best-effort) and clears the local session
+  logout: async () => {
+    try {
+      if (tokenStorage.getAccessToken()) {
+        await api.post('/admin/logout');
+      }
+    } catch (error) {
+      console.error('Logout request failed:', error);
+    } finally {
+      tokenStorage.clear();
+    }
+  },
 };
 
 // Routes API
@@ -56,6 +184,8 @@ export const routesAPI = {
       latitude: number;
       longitude: number;
     }>;
+    bidirectional?: boolean;
+    viaPoints?: ViaPoint[];
   }) => {
     const response = await api.post('/admin/routes', routeData);
     return response.data;
@@ -65,13 +195,112 @@ export const routesAPI = {
     const response = await api.get('/admin/routes');
     return response.data;
   },
+
+  updateRoute: async (routeId: string, routeData: {
+    routeName?: string;
+    stops?: Array<{
+      stopId: string;
+      name: string;
+      latitude: number;
+      longitude: number;
+    }>;
+    bidirectional?: boolean;
+    viaPoints?: ViaPoint[];
+    // ISO date the stop changes take effect (default now)
+    effectiveFrom?: string;
+  }) => {
+    const response = await api.put(`/admin/routes/${routeId}`, routeData);
+    return response.data;
+  },
+
+  // Road geometry with distance/duration per stop segment, without saving the route
+  previewRoute: async (routeData: {
+    stops: Array<{ stopId: string; name: string; latitude: number; longitude: number }>;
+    bidirectional: boolean;
+    viaPoints: ViaPoint[];
+  }): Promise<RoutePreviewResponse> => {
+    const response = await api.post('/admin/routes/preview', routeData);
+    return response.data;
+  },
+
+  deleteRoute: async (routeId: string) => {
+    const response = await api.delete(`/admin/routes/${routeId}`);
+    return response.data;
+  },
+
+  getDiversions: async (routeId: string, all = false) => {
+    const response = await api.get(`/admin/routes/${routeId}/diversions${all ? '?all=true' : ''}`);
+    return response.data;
+  },
+
+  createDiversion: async (routeId: string, diversion: {
+    reason: string;
+    closedStopIds: string[];
+    // Alternate path as [[longitude, latitude], ...] or a GeoJSON LineString
+    geometry?: unknown;
+    startsAt?: string;
+    endsAt: string;
+  }) => {
+    const response = await api.post(`/admin/routes/${routeId}/diversions`, diversion);
+    return response.data;
+  },
+
+  endDiversion: async (routeId: string, diversionId: string) => {
+    const response = await api.delete(`/admin/routes/${routeId}/diversions/${diversionId}`);
+    return response.data;
+  },
   
+  getTimetables: async (routeId: string): Promise<{ success: boolean; timetables: Timetable[] }> => {
+    const response = await api.get(`/admin/routes/${routeId}/timetables`);
+    return response.data;
+  },
+
+  createTimetable: async (routeId: string, timetable: TimetableFormData): Promise<{ success: boolean; timetable: Timetable; message?: string }> => {
+    const response = await api.post(`/admin/routes/${routeId}/timetables`, timetable);
+    return response.data;
+  },
+
+  // trips replaces every trip of the timetable
+  updateTimetable: async (routeId: string, timetableId: string, timetable: Partial<TimetableFormData>): Promise<{ success: boolean; timetable: Timetable; message?: string }> => {
+    const response = await api.put(`/admin/routes/${routeId}/timetables/${timetableId}`, timetable);
+    return response.data;
+  },
+
+  deleteTimetable: async (routeId: string, timetableId: string) => {
+    const response = await api.delete(`/admin/routes/${routeId}/timetables/${timetableId}`);
+    return response.data;
+  },
+
   getRouteWithPolyline: async (routeName: string) => {
     const response = await api.get(`/admin/routes-with-polyline?routeName=${routeName}`);
     return response.data;
   },
 };
 
+// Stop registry API
+export const stopsAPI = {
+  getAllStops: async (): Promise<{ success: boolean; stops: RegistryStop[] }> => {
+    const response = await api.get('/admin/stops');
+    return response.data;
+  },
+
+  createStop: async (stop: StopFormData): Promise<{ success: boolean; stop: RegistryStop; message?: string }> => {
+    const response = await api.post('/admin/stops', stop);
+    return response.data;
+  },
+
+  updateStop: async (stopId: string, stop: Partial<StopFormData>): Promise<{ success: boolean; stop: RegistryStop; message?: string }> => {
+    const response = await api.put(`/admin/stops/${encodeURIComponent(stopId)}`, stop);
+    return response.data;
+  },
+
+  // 409 while routes still serve the stop
+  deleteStop: async (stopId: string): Promise<{ success: boolean; stopId: string; message?: string }> => {
+    const response = await api.delete(`/admin/stops/${encodeURIComponent(stopId)}`);
+    return response.data;
+  },
+};
+
 // Buses API
 export const busesAPI = {
   createBus: async (busData: {
@@ -88,6 +317,18 @@ export const busesAPI = {
     const response = await api.get('/buses');
     return response.data;
   },
+
+  // Live state of every bus (position, online/offline, current/next stop, driver)
+  getFleetLive: async () => {
+    const response = await api.get<FleetLiveResponse>('/admin/buses/live');
+    return response.data;
+  },
+
+  // Recorded pings in [from, to] (ISO), simplified for the given map zoom
+  getBusHistory: async (busId: string, params: { from: string; to: string; zoom?: number }) => {
+    const response = await api.get<BusHistoryResponse>(`/admin/buses/${encodeURIComponent(busId)}/history`, { params });
+    return response.data;
+  },
 };
 
 // Drivers API
@@ -107,4 +348,55 @@ export const driversAPI = {
   },
 };
 
+// Duty roster API
+export const rosterAPI = {
+  // Shifts overlapping [from, to) (ISO date-times), each with the shifts it conflicts with
+  getShifts: async (params: { from: string; to: string; driverId?: string; busId?: string }) => {
+    const response = await api.get<ShiftListResponse>('/admin/shifts', { params });
+    return response.data;
+  },
+
+  // 409 (ShiftConflictResponse) when the driver or the bus already has a shift at that time
+  createShift: async (shift: ShiftFormData): Promise<{ success: boolean; shift: Shift; message?: string }> => {
+    const response = await api.post('/admin/shifts', shift);
+    return response.data;
+  },
+
+  updateShift: async (shiftId: string, shift: Partial<ShiftFormData>): Promise<{ success: boolean; shift: Shift; message?: string }> => {
+    const response = await api.put(`/admin/shifts/${shiftId}`, shift);
+    return response.data;
+  },
+
+  deleteShift: async (shiftId: string) => {
+    const response = await api.delete(`/admin/shifts/${shiftId}`);
+    return response.data;
+  },
+};
+
+// GTFS API
+export const gtfsAPI = {
+  // Sends the feed zip as the request body; dryRun only previews the changes
+  importFeed: async (file: File, options: { dryRun: boolean; onConflict?: 'skip' | 'update' }): Promise<GtfsImportResponse> => {
+    const response = await api.post('/admin/gtfs/import', file, {
+      headers: { 'Content-Type': 'application/zip' },
+      params: { dryRun: options.dryRun, onConflict: options.onConflict || 'skip' },
+    });
+    return response.data;
+  },
+
+  validateFeed: async (): Promise<GtfsValidationResponse> => {
+    const response = await api.get('/admin/gtfs/validate');
+    return response.data;
+  },
+};
+
+// Reports API
+export const reportsAPI = {
+  // Daily on-time performance and the figures per route, driver, stop or trip (dates are YYYY-MM-DD service days)
+  getPerformance: async (params: { from?: string; to?: string; scope?: PerformanceScope } = {}) => {
+    const response = await api.get<PerformanceReport>('/admin/reports/performance', { params });
+    return response.data;
+  },
+};
+
 export default api;
\ No newline at end of file
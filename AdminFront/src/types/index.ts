@@ -5,19 +5,192 @@ export interface Stop {
   stopId?: string;
 }
 
+// Extra routing waypoint between stop `segment` and the next one (0-based, 'up' order)
+export interface ViaPoint {
+  segment: number;
+  latitude: number;
+  longitude: number;
+}
+
+// A dated definition of a route's stops; effectiveTo is null for the latest version
+export interface RouteVersion {
+  version: number;
+  stops: Stop[];
+  bidirectional: boolean;
+  viaPoints?: ViaPoint[];
+  effectiveFrom: string;
+  effectiveTo: string | null;
+  createdAt?: string;
+}
+
 export interface Route {
   routeId: string;
   routeName: string;
+  // Stops of the latest version (which may not be in effect yet)
   stops: Stop[];
+  // Also runs 'down' trips through the stops in reverse
+  bidirectional?: boolean;
+  viaPoints?: ViaPoint[];
+  versions?: RouteVersion[];
+  // GTFS route_id when imported from a GTFS feed
+  gtfsRouteId?: string | null;
   _id?: string;
   createdAt?: string;
   updatedAt?: string;
   __v?: number;
 }
 
+// Temporary closure of stops and/or alternate path of a route between startsAt and endsAt
+export interface Diversion {
+  _id: string;
+  routeId: string;
+  reason: string;
+  closedStopIds: string[];
+  geometry: string | null; // encoded polyline
+  version: number | null; // route version the geometry was drawn for
+  startsAt: string;
+  endsAt: string;
+  createdAt?: string;
+}
+
+// Timetables: scheduled trips of a route and the days they run (dates are YYYY-MM-DD in the agency time zone)
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+export interface CalendarException {
+  date: string;
+  type: 'added' | 'removed'; // extra service day / no service (e.g. a holiday)
+  note: string;
+}
+
+export interface ServiceCalendar {
+  days: Weekday[];
+  startDate: string;
+  endDate: string | null;
+  exceptions: CalendarException[];
+}
+
+// Times are HH:MM:SS after midnight of the service day (may exceed 24:00:00)
+export interface StopTime {
+  stopId: string;
+  arrivalTime: string;
+  departureTime: string;
+}
+
+// With headwayMinutes the trip repeats every headwayMinutes until endTime (first stop departure)
+export interface TimetableTrip {
+  _id?: string;
+  direction: 'up' | 'down';
+  stopTimes: StopTime[];
+  headwayMinutes: number | null;
+  endTime: string | null;
+}
+
+export interface Timetable {
+  _id: string;
+  routeId: string;
+  name: string;
+  calendar: ServiceCalendar;
+  tripCount: number;
+  trips: TimetableTrip[];
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface TimetableFormData {
+  name: string;
+  calendar: ServiceCalendar;
+  trips: TimetableTrip[];
+}
+
+// Road geometry of one direction of a route preview; distance in meters, duration in seconds
+export interface RoutePreviewDirection {
+  geometry: string; // encoded polyline
+  distance: number;
+  duration: number;
+  segments: Array<{ fromStopId: string; toStopId: string; distance: number | null; duration: number | null }>;
+  provider: string; // routing provider, e.g. 'ors'
+  fallback: boolean; // computed by the straight-line fallback
+}
+
+export interface RoutePreviewResponse {
+  success: boolean;
+  up: RoutePreviewDirection;
+  down: RoutePreviewDirection | null;
+  message?: string;
+}
+
+// Stop registry entry; routes reference it by stopId
+export type WheelchairBoarding = 'unknown' | 'accessible' | 'not_accessible';
+
+export interface StopAccessibility {
+  wheelchairBoarding: WheelchairBoarding;
+  shelter: boolean;
+  tactilePaving: boolean;
+  audioAnnouncements: boolean;
+}
+
+export interface RegistryStop {
+  _id: string;
+  stopId: string;
+  name: string;
+  names: Record<string, string>; // by language code
+  latitude: number;
+  longitude: number;
+  accessibility: StopAccessibility;
+  servedBy: Array<{ routeId: string; routeName: string }>;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface StopFormData {
+  name: string;
+  names: Record<string, string>;
+  latitude: number;
+  longitude: number;
+  accessibility: StopAccessibility;
+}
+
+// One feed route in a GTFS import preview/result
+export type GtfsImportAction = 'create' | 'update' | 'unchanged' | 'conflict' | 'error';
+
+export interface GtfsImportRoute {
+  gtfsRouteId: string;
+  routeName: string;
+  action: GtfsImportAction;
+  routeId: string | null;
+  stops: number;
+  bidirectional: boolean;
+  geometrySource: 'gtfs' | 'ors';
+  changes: Array<'link' | 'name' | 'stops' | 'geometry'>;
+  message: string | null;
+  warnings: string[];
+}
+
+export interface GtfsImportResponse {
+  success: boolean;
+  dryRun: boolean;
+  summary: Record<GtfsImportAction, number>;
+  routes: GtfsImportRoute[];
+  warnings: string[];
+  message?: string;
+}
+
+// Problems of the published GTFS feed; errors block publishing
+export interface GtfsValidationResponse {
+  success: boolean;
+  valid: boolean;
+  feedVersion: string;
+  counts: { routes: number; stops: number; trips: number };
+  errors: string[];
+  warnings: string[];
+}
+
 export interface LoginResponse {
   loginSuccess: boolean;
   adminId?: string;
+  accessToken?: string;
+  refreshToken?: string;
+  expiresIn?: number;
   message?: string;
 }
 
@@ -81,4 +254,187 @@ export interface RouteWithPolyline {
   geometry: string;
   distance: number;
   duration: number;
-}
\ No newline at end of file
+}
+export interface HistoryPoint {
+  t: string;
+  lat: number;
+  lng: number;
+  speed: number | null;
+  heading: number | null;
+  accuracy: number | null;
+  routeId: string | null;
+}
+
+export interface BusHistoryResponse {
+  success: boolean;
+  busId: string;
+  from: string;
+  to: string;
+  zoom: number | null;
+  totalPoints: number;
+  returnedPoints: number;
+  truncated: boolean;
+  points: HistoryPoint[];
+}
+
+// On-time performance (schedule adherence) of stop events; deviations in seconds, positive when late
+export type PerformanceScope = 'route' | 'driver' | 'stop' | 'trip';
+
+export interface PerformanceStats {
+  trips: number;
+  events: number;
+  early: number;
+  onTime: number;
+  late: number;
+  onTimePct: number | null;
+  avgDeviationSecs: number | null;
+  maxDeviationSecs: number | null;
+}
+
+export interface PerformanceItem extends PerformanceStats {
+  key: string;
+  label: string;
+  routeId: string | null;
+}
+
+export interface PerformanceReport {
+  success: boolean;
+  from: string;
+  to: string;
+  scope: PerformanceScope;
+  window: { earlyMinutes: number; lateMinutes: number };
+  totals: PerformanceStats;
+  daily: Array<PerformanceStats & { date: string }>;
+  items: PerformanceItem[];
+}
+
+// Duty roster shift; times are ISO instants. Names are null once the driver, bus or route is deleted
+export type ShiftConflictReason = 'driver' | 'bus';
+
+export interface Shift {
+  _id: string;
+  driverId: string;
+  driverName: string | null;
+  driverUsername: string | null;
+  busId: string;
+  busNumber: string | null;
+  routeId: string;
+  routeName: string | null;
+  startsAt: string;
+  endsAt: string;
+  notes: string;
+  // Other listed shifts double-booking the driver or the bus
+  conflicts: Array<{ shiftId: string; reasons: ShiftConflictReason[] }>;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface ShiftFormData {
+  driverId: string;
+  busId: string;
+  routeId: string | null; // null = the bus's route
+  startsAt: string;
+  endsAt: string;
+  notes: string;
+}
+
+export interface ShiftListResponse {
+  success: boolean;
+  from: string;
+  to: string;
+  shifts: Shift[];
+}
+
+// 409 body when a shift would double-book the driver or the bus
+export interface ShiftConflictResponse {
+  success: false;
+  message: string;
+  conflicts: Array<{ reasons: ShiftConflictReason[]; shift: Shift }>;
+}
+
+export interface LiveStopRef {
+  stopId?: string;
+  name: string;
+  etaMinutes?: number;
+}
+
+// Diversions in effect for a live bus (see Diversion)
+export interface LiveDiversion {
+  reason: string;
+  endsAt: string;
+  rerouted: boolean;
+}
+
+export type MotionState = 'moving' | 'dwelling' | 'stopped' | 'idle' | 'offline';
+
+// Timetable trip run a live bus is matched to; departure is from the trip's first stop
+export interface LiveScheduledTrip {
+  timetableId: string;
+  tripId: string;
+  serviceDate: string;
+  departure: string;
+}
+
+export interface FleetBus {
+  busId: string;
+  busNumber: string;
+  busStatus: 'active' | 'inactive';
+  routeId: string;
+  routeName: string | null;
+  driverName: string | null;
+  driverUsername: string | null;
+  location: { lat: number; lng: number } | null;
+  snappedLocation: { lat: number; lng: number } | null;
+  avgSpeed: number;
+  lastUpdated: string | null;
+  currentStop: LiveStopRef | null;
+  nextStop: LiveStopRef | null;
+  direction: 'up' | 'down';
+  routeVersion: number | null;
+  lastStopIndex: number | null;
+  tripStartedAt: string | null;
+  diversion: LiveDiversion | null;
+  scheduledTrip: LiveScheduledTrip | null;
+  status: 'online' | 'offline';
+  motionState: MotionState | null;
+  motionSince: string | null;
+}
+
+export interface FleetLiveResponse {
+  success: boolean;
+  generatedAt: string;
+  buses: FleetBus[];
+}
+
+// Socket.IO bus:update payload
+export interface BusUpdateEvent {
+  busId: string;
+  routeId: string;
+  location?: { lat: number; lng: number }; // raw fix
+  snappedLocation: { lat: number; lng: number };
+  avgSpeed: number;
+  lastUpdated: string;
+  etaStops: Array<{
+    stopId?: string;
+    name: string;
+    etaMinutes: number | null; // null for closed stops
+    passed?: boolean;
+    arrivedAt?: string | null;
+    departedAt?: string | null;
+    closed?: boolean;
+    closureReason?: string | null;
+    scheduledArrival?: string | null;
+    scheduledDeparture?: string | null;
+  }>;
+  currentStop: LiveStopRef | null;
+  nextStop: LiveStopRef | null;
+  direction: 'up' | 'down';
+  routeVersion: number | null;
+  lastStopIndex: number | null;
+  tripStartedAt: string | null;
+  diversion: LiveDiversion | null;
+  scheduledTrip: LiveScheduledTrip | null;
+  status: 'online' | 'offline';
+  motionState: MotionState;
+  motionSince: string;
+}
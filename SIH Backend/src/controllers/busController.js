@@ -1,7 +1,14 @@
 const Bus = require('../models/Bus');
 const Route = require('../models/Route');
 const Driver = require('../models/Driver');
+const LocationPing = require('../models/LocationPing');
 const { nanoid } = require('nanoid');
+const { simplifyPoints, toleranceForZoom } = require('../utils/simplify');
+
+// History query limits
+const DEFAULT_HISTORY_WINDOW_MS = 60 * 60 * 1000; // 1h when `from` is omitted
+const MAX_HISTORY_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_HISTORY_POINTS = 50000;
 
 // Helpers
 function normalizeString(value) {
@@ -12,6 +19,14 @@ function isValidStatus(s) {
   return s === 'active' || s === 'inactive';
 }
 
+// Accepts epoch ms or an ISO string; returns a Date or null
+function parseTime(value) {
+  if (value === undefined || value === null || value === '') return null;
+  const n = Number(value);
+  const d = Number.isFinite(n) ? new Date(n) : new Date(String(value));
+  return Number.isFinite(d.getTime()) ? d : null;
+}
+
 // POST /api/admin/buses - Add a new bus
 // Accepts JSON body with { busNumber, driverUsername (nullable), routeName, status?, capacity? }
 // - Validates payload
@@ -206,4 +221,71 @@ exports.getAllBuses = async (_req, res) => {
     console.error('getAllBuses error:', err);
     return res.status(500).json({ message: 'Server error' });
   }
-};
\ No newline at end of file
+};
+// GET /api/admin/buses/:busId/history?from&to&zoom - Recorded pings for a bus in [from, to]
+// - from/to: epoch ms or ISO (default: the last hour up to now, max window 7 days)
+// - zoom: optional web-map zoom (0-22); points are simplified to ~1px at that zoom
+exports.getBusHistory = async (req, res) => {
+  try {
+    const { busId } = req.params;
+    const { from: fromRaw, to: toRaw, zoom: zoomRaw } = req.query || {};
+
+    const to = toRaw !== undefined ? parseTime(toRaw) : new Date();
+    const from = fromRaw !== undefined ? parseTime(fromRaw) : (to ? new Date(to.getTime() - DEFAULT_HISTORY_WINDOW_MS) : null);
+    if (!from || !to) {
+      return res.status(400).json({ success: false, message: 'from and to must be epoch ms or ISO dates' });
+    }
+    if (from >= to) {
+      return res.status(400).json({ success: false, message: 'from must be before to' });
+    }
+    if (to.getTime() - from.getTime() > MAX_HISTORY_WINDOW_MS) {
+      return res.status(400).json({ success: false, message: 'History window must be at most 7 days' });
+    }
+
+    let zoom = null;
+    if (zoomRaw !== undefined && zoomRaw !== '') {
+      zoom = Number(zoomRaw);
+      if (!Number.isFinite(zoom) || zoom < 0 || zoom > 22) {
+        return res.status(400).json({ success: false, message: 'zoom must be a number between 0 and 22' });
+      }
+    }
+
+    const bus = await Bus.findOne({ busId }, { busId: 1 }).lean();
+    if (!bus) return res.status(404).json({ success: false, message: 'Bus not found' });
+
+    const pings = await LocationPing.find(
+      { busId, recordedAt: { $gte: from, $lte: to } },
+      { _id: 0, recordedAt: 1, lat: 1, lng: 1, speed: 1, heading: 1, accuracy: 1, routeId: 1 }
+    )
+      .sort({ recordedAt: 1 })
+      .limit(MAX_HISTORY_POINTS + 1)
+      .lean();
+
+    const truncated = pings.length > MAX_HISTORY_POINTS;
+    const raw = (truncated ? pings.slice(0, MAX_HISTORY_POINTS) : pings).map((p) => ({
+      t: p.recordedAt.toISOString(),
+      lat: p.lat,
+      lng: p.lng,
+      speed: p.speed ?? null,
+      heading: p.heading ?? null,
+      accuracy: p.accuracy ?? null,
+      routeId: p.routeId ?? null,
+    }));
+    const points = zoom === null ? raw : simplifyPoints(raw, toleranceForZoom(zoom));
+
+    return res.status(200).json({
+      success: true,
+      busId,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      zoom,
+      totalPoints: raw.length,
+      returnedPoints: points.length,
+      truncated,
+      points,
+    });
+  } catch (err) {
+    console.error('getBusHistory error:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+};
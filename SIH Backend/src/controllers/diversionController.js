@@ -0,0 +1,182 @@
+const mongoose = require('mongoose');
+const polyline = require('@mapbox/polyline');
+const Route = require('../models/Route');
+const Diversion = require('../models/Diversion');
+const { listVersions, findActiveVersion } = require('../utils/routeVersions');
+const { cacheDiversions } = require('../utils/routeCache');
+
+// Support JSON or text/plain containing JSON
+function parsePayload(body) {
+  let payload = body;
+  if (typeof payload === 'string') {
+    try { payload = JSON.parse(payload); } catch (e) {}
+  }
+  return payload && typeof payload === 'object' ? payload : null;
+}
+
+// Alternate path as [[lng,lat], ...] or a GeoJSON LineString; returns the coordinates or null when invalid
+function parseGeometry(raw) {
+  const coords = raw && raw.type === 'LineString' ? raw.coordinates : raw;
+  if (!Array.isArray(coords) || coords.length < 2) return null;
+  const valid = coords.every(
+    (c) =>
+      Array.isArray(c) &&
+      typeof c[0] === 'number' && Number.isFinite(c[0]) && Math.abs(c[0]) <= 180 &&
+      typeof c[1] === 'number' && Number.isFinite(c[1]) && Math.abs(c[1]) <= 90
+  );
+  return valid ? coords : null;
+}
+
+const toResponse = (d) => ({
+  _id: d._id,
+  routeId: d.routeId,
+  reason: d.reason,
+  closedStopIds: d.closedStopIds,
+  geometry: d.geometry,
+  version: d.version,
+  startsAt: d.startsAt,
+  endsAt: d.endsAt,
+  createdAt: d.createdAt,
+});
+
+// Rebuilds the cached diversions after a change; live ETAs pick it up on the next ping
+async function refreshDiversionCache(routeId) {
+  try {
+    await cacheDiversions(routeId);
+  } catch (e) {
+    console.warn('Redis HSET for diversions failed:', e?.message || e);
+  }
+}
+
+async function findRoute(id) {
+  if (!mongoose.Types.ObjectId.isValid(id)) return null;
+  return Route.findById(id);
+}
+
+// POST /api/admin/routes/:id/diversions
+// Body: { reason, closedStopIds?, geometry?, startsAt? (default now), endsAt }
+// geometry is the alternate path from the first to the last stop ([[lng,lat], ...] or GeoJSON LineString)
+async function createDiversion(req, res) {
+  try {
+    const route = await findRoute(req.params.id);
+    if (!route) {
+      return res.status(404).json({ success: false, message: 'Route not found' });
+    }
+    const payload = parsePayload(req.body);
+    if (!payload) {
+      return res.status(400).json({ success: false, message: 'Invalid JSON body' });
+    }
+
+    const reason = typeof payload.reason === 'string' ? payload.reason.trim() : '';
+    if (!reason) {
+      return res.status(400).json({ success: false, message: 'reason is required' });
+    }
+
+    const now = Date.now();
+    const startsAt = payload.startsAt ? new Date(payload.startsAt) : new Date(now);
+    const endsAt = payload.endsAt ? new Date(payload.endsAt) : null;
+    if (Number.isNaN(startsAt.getTime()) || !endsAt || Number.isNaN(endsAt.getTime())) {
+      return res.status(400).json({ success: false, message: 'startsAt must be a valid date and endsAt is required' });
+    }
+    if (endsAt <= startsAt || endsAt.getTime() <= now) {
+      return res.status(400).json({ success: false, message: 'endsAt must be in the future and after startsAt' });
+    }
+
+    const closedStopIds = payload.closedStopIds === undefined ? [] : payload.closedStopIds;
+    if (!Array.isArray(closedStopIds) || closedStopIds.some((id) => typeof id !== 'string' || !id.trim())) {
+      return res.status(400).json({ success: false, message: 'closedStopIds must be an array of stopIds' });
+    }
+    let coords = null;
+    if (payload.geometry !== undefined && payload.geometry !== null) {
+      coords = parseGeometry(payload.geometry);
+      if (!coords) {
+        return res.status(400).json({
+          success: false,
+          message: 'geometry must be a LineString or an array of at least 2 [longitude, latitude] pairs',
+        });
+      }
+    }
+    if (!closedStopIds.length && !coords) {
+      return res.status(400).json({ success: false, message: 'Close at least one stop or provide a geometry' });
+    }
+
+    // Stops are checked against the route version in effect when the diversion starts
+    const version = findActiveVersion(listVersions(route), startsAt);
+    const stopIds = new Set(version.stops.map((s) => s.stopId));
+    const unknown = closedStopIds.filter((id) => !stopIds.has(id));
+    if (unknown.length) {
+      return res.status(400).json({ success: false, message: `Unknown stopIds for this route: ${unknown.join(', ')}` });
+    }
+    if (stopIds.size - new Set(closedStopIds).size < 2) {
+      return res.status(400).json({ success: false, message: 'At least 2 stops must stay open' });
+    }
+
+    const diversion = await Diversion.create({
+      routeId: route._id,
+      reason,
+      closedStopIds: Array.from(new Set(closedStopIds)),
+      // Encoded as [lat,lng] like ORS polylines
+      geometry: coords ? polyline.encode(coords.map(([lng, lat]) => [lat, lng])) : null,
+      version: coords ? version.version : null,
+      startsAt,
+      endsAt,
+    });
+    await refreshDiversionCache(route._id);
+
+    return res.status(201).json({ success: true, diversion: toResponse(diversion) });
+  } catch (err) {
+    console.error('createDiversion error:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+}
+
+// GET /api/admin/routes/:id/diversions
+// Query: all=true also returns diversions that already ended
+async function listDiversions(req, res) {
+  try {
+    const route = await findRoute(req.params.id);
+    if (!route) {
+      return res.status(404).json({ success: false, message: 'Route not found' });
+    }
+    const filter = { routeId: route._id };
+    if (req.query.all !== 'true') filter.endsAt = { $gt: new Date() };
+    const diversions = await Diversion.find(filter).sort({ startsAt: -1 }).lean();
+    return res.status(200).json({ success: true, diversions: diversions.map(toResponse) });
+  } catch (err) {
+    console.error('listDiversions error:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+}
+
+// DELETE /api/admin/routes/:id/diversions/:diversionId
+// Ends a running diversion now (kept for history); one that has not started yet is removed
+async function endDiversion(req, res) {
+  try {
+    const { id, diversionId } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(id) || !mongoose.Types.ObjectId.isValid(diversionId)) {
+      return res.status(404).json({ success: false, message: 'Diversion not found' });
+    }
+    const diversion = await Diversion.findOne({ _id: diversionId, routeId: id });
+    if (!diversion) {
+      return res.status(404).json({ success: false, message: 'Diversion not found' });
+    }
+
+    const now = new Date();
+    let removed = false;
+    if (diversion.startsAt > now) {
+      await diversion.deleteOne();
+      removed = true;
+    } else if (diversion.endsAt > now) {
+      diversion.endsAt = now;
+      await diversion.save();
+    }
+    await refreshDiversionCache(diversion.routeId);
+
+    return res.status(200).json({ success: true, removed, diversion: toResponse(diversion) });
+  } catch (err) {
+    console.error('endDiversion error:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+}
+
+module.exports = { createDiversion, listDiversions, endDiversion };
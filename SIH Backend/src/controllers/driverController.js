@@ -4,10 +4,18 @@ const mongoose = require('mongoose');
 const Driver = require('../models/Driver');
 const Bus = require('../models/Bus');
 const Route = require('../models/Route');
+const Shift = require('../models/Shift');
 const { sendEmail } = require('../utils/email');
 const { generateRandomPassword } = require('../utils/password');
+const { signAccessToken } = require('../utils/tokens');
+const { DUTY_GRACE_MS, findDutyShift } = require('../utils/roster');
 
 const SALT_ROUNDS = 10;
+// Driver sessions cover a full shift; the app logs in again once it expires
+const DRIVER_SESSION_TTL = process.env.DRIVER_SESSION_TTL || '12h';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_DUTY_DAYS = 7;
+const MAX_DUTY_DAYS = 31;
 
 // Validate request body for required fields
 function validateAddDriverBody(body) {
@@ -178,9 +186,19 @@ async function loginDriver(req, res) {
       return res.status(401).json({ success: false, message: 'Invalid credentials' });
     }
 
+    if (driver.status !== 'active') {
+      return res.status(403).json({ success: false, message: 'Driver account is inactive' });
+    }
+
+    const token = signAccessToken(
+      { sub: driver._id, role: 'driver', username: driver.username },
+      { expiresIn: DRIVER_SESSION_TTL }
+    );
+
     return res.status(200).json({
       success: true,
       message: 'Login successful',
+      token,
       driver: {
         username: driver.username,
         name: driver.name,
@@ -245,20 +263,25 @@ async function getAssignedBusForDriver(req, res) {
       return res.status(404).json({ success: false, message: 'Driver not found' });
     }
 
-    if (driver.assignedBus === 'No') {
+    // The bus and route of the driver's current shift (duty roster), else the static assignment
+    const duty = await findDutyShift(driver._id);
+    if (!duty && driver.assignedBus === 'No') {
       return res.status(404).json({ success: false, message: 'No bus assigned' });
     }
 
-    const busDoc = await resolveAssignedBus(driver);
+    const busDoc = duty ? await Bus.findOne({ busId: duty.busId }) : await resolveAssignedBus(driver);
     if (!busDoc) {
       return res.status(404).json({ success: false, message: 'Assigned bus not found' });
     }
+    const routeId = duty ? String(duty.routeId) : busDoc.routeId;
 
     let routeOut = [];
-    if (busDoc.routeId) {
-      const routeDoc = await Route.findById(busDoc.routeId);
-      if (routeDoc && Array.isArray(routeDoc.stops)) {
-        routeOut = mapStopsToOutput(routeDoc.stops);
+    let routeName = null;
+    if (routeId && mongoose.Types.ObjectId.isValid(routeId)) {
+      const routeDoc = await Route.findById(routeId);
+      if (routeDoc) {
+        routeName = routeDoc.routeName;
+        if (Array.isArray(routeDoc.stops)) routeOut = mapStopsToOutput(routeDoc.stops);
       }
     }
     // In case route is embedded (defensive support)
@@ -269,11 +292,17 @@ async function getAssignedBusForDriver(req, res) {
     return res.status(200).json({
       success: true,
       bus: {
+        busId: busDoc.busId,
         busNumber: busDoc.busNumber,
         capacity: busDoc.capacity,
         status: busDoc.status,
+        routeId: routeId ? String(routeId) : null,
+        routeName,
         route: routeOut,
       },
+      shift: duty
+        ? { shiftId: String(duty._id), startsAt: duty.startsAt.toISOString(), endsAt: duty.endsAt.toISOString() }
+        : null,
     });
   } catch (err) {
     console.error('getAssignedBusForDriver error:', err);
@@ -311,4 +340,60 @@ async function getDriverProfile(req, res) {
   }
 }
 
-module.exports = { addDriver, getAllDrivers, loginDriver, getAssignedBusForDriver, getDriverProfile };
\ No newline at end of file
+// Driver App: Today's and upcoming duties (duty roster shifts)
+// Query: days (1-31, default 7) - shifts starting within that many days; shifts still running are included
+async function getDriverDuties(req, res) {
+  try {
+    const username = String(req.params.username || '').toLowerCase().trim();
+    const days = req.query.days === undefined ? DEFAULT_DUTY_DAYS : Number(req.query.days);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_DUTY_DAYS) {
+      return res.status(400).json({ success: false, message: `days must be a whole number from 1 to ${MAX_DUTY_DAYS}` });
+    }
+
+    const driver = await Driver.findOne({ username }, { _id: 1 }).lean();
+    if (!driver) {
+      return res.status(404).json({ success: false, message: 'Driver not found' });
+    }
+
+    const now = Date.now();
+    const shifts = await Shift.find({
+      driverId: driver._id,
+      endsAt: { $gt: new Date(now) },
+      startsAt: { $lt: new Date(now + days * DAY_MS) },
+    })
+      .sort({ startsAt: 1 })
+      .lean();
+
+    const [buses, routes] = await Promise.all([
+      Bus.find({ busId: { $in: shifts.map((s) => s.busId) } }, { busId: 1, busNumber: 1 }).lean(),
+      Route.find({ _id: { $in: shifts.map((s) => s.routeId) } }, { routeName: 1 }).lean(),
+    ]);
+    const busNumbers = new Map(buses.map((b) => [b.busId, b.busNumber]));
+    const routeNames = new Map(routes.map((r) => [String(r._id), r.routeName]));
+
+    return res.status(200).json({
+      success: true,
+      generatedAt: new Date(now).toISOString(),
+      duties: shifts.map((s) => {
+        const startsAt = new Date(s.startsAt).getTime();
+        return {
+          shiftId: String(s._id),
+          busId: s.busId,
+          busNumber: busNumbers.get(s.busId) || null,
+          routeId: String(s.routeId),
+          routeName: routeNames.get(String(s.routeId)) || null,
+          startsAt: new Date(startsAt).toISOString(),
+          endsAt: new Date(s.endsAt).toISOString(),
+          notes: s.notes || '',
+          // current: running, or about to start (the driver may already sign in for it)
+          status: startsAt - DUTY_GRACE_MS <= now ? 'current' : 'upcoming',
+        };
+      }),
+    });
+  } catch (err) {
+    console.error('getDriverDuties error:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+}
+
+module.exports = { addDriver, getAllDrivers, loginDriver, getAssignedBusForDriver, getDriverProfile, getDriverDuties };
\ No newline at end of file
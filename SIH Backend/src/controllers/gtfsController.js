@@ -0,0 +1,250 @@
+const Route = require('../models/Route');
+const Polyline = require('../models/Polyline');
+const Stop = require('../models/Stop');
+const Timetable = require('../models/Timetable');
+const Trip = require('../models/Trip');
+const { readGtfsFeed } = require('../utils/gtfs');
+const { buildGtfsFeed, writeGtfsZip } = require('../utils/gtfsExport');
+const { listVersions } = require('../utils/routeVersions');
+const { findPolyline } = require('../utils/routeCache');
+const {
+  plainStop,
+  fetchRouteGeometry,
+  storeRouteGeometry,
+  refreshVersionIndex,
+  addRouteVersion,
+} = require('../services/routeService');
+
+const ACTIONS = ['create', 'update', 'unchanged', 'conflict', 'error'];
+
+// Decides what importing one feed route does to the existing routes
+// existing: { byGtfsId, byName } maps of Route documents; takenNames: routeNames used earlier in this feed
+async function planRoute(feedRoute, existing, takenNames, onConflict) {
+  const item = {
+    gtfsRouteId: feedRoute.gtfsRouteId,
+    routeName: feedRoute.routeName,
+    action: 'create',
+    routeId: null,
+    stops: feedRoute.stops.length,
+    bidirectional: feedRoute.bidirectional,
+    geometrySource: feedRoute.shapes ? 'gtfs' : 'ors',
+    changes: [],
+    message: null,
+    warnings: feedRoute.warnings,
+  };
+  if (feedRoute.problem) return { ...item, action: 'error', message: feedRoute.problem };
+  if (takenNames.has(feedRoute.routeName)) {
+    return { ...item, action: 'conflict', message: 'Another route in this feed has the same name' };
+  }
+
+  const sameName = existing.byName.get(feedRoute.routeName);
+  let route = existing.byGtfsId.get(feedRoute.gtfsRouteId);
+  if (!route && sameName) {
+    // A route we did not import from this GTFS route is only taken over on request
+    if (onConflict !== 'update' || sameName.gtfsRouteId) {
+      const message = sameName.gtfsRouteId
+        ? `Route name already exists (imported from GTFS route ${sameName.gtfsRouteId})`
+        : 'Route name already exists';
+      return { ...item, action: 'conflict', routeId: String(sameName._id), message };
+    }
+    route = sameName;
+    item.changes.push('link');
+  }
+  if (!route) return item;
+
+  item.routeId = String(route._id);
+  if (sameName && String(sameName._id) !== String(route._id)) {
+    return { ...item, action: 'conflict', message: 'Route name already exists' };
+  }
+
+  const versions = listVersions(route);
+  const head = versions[versions.length - 1];
+  const currentStops = head.stops.map(plainStop);
+  const coordsOf = (list) => JSON.stringify(list.map((s) => [s.longitude, s.latitude]));
+  const definitionOf = (list) => JSON.stringify(list.map((s) => [s.stopId, s.name, s.longitude, s.latitude]));
+  const stopsChanged =
+    definitionOf(feedRoute.stops) !== definitionOf(currentStops) || feedRoute.bidirectional !== head.bidirectional;
+  let geometryChanged = coordsOf(feedRoute.stops) !== coordsOf(currentStops) || feedRoute.bidirectional !== head.bidirectional;
+  if (feedRoute.shapes && !geometryChanged) {
+    const poly = await findPolyline(route._id, head.version);
+    geometryChanged =
+      !poly ||
+      poly.geometry !== feedRoute.up.geometry ||
+      (poly.downGeometry || null) !== (feedRoute.down ? feedRoute.down.geometry : null);
+  }
+  if (feedRoute.routeName !== route.routeName) item.changes.push('name');
+  if (stopsChanged) item.changes.push('stops');
+  if (geometryChanged) item.changes.push('geometry');
+
+  if ((stopsChanged || geometryChanged) && new Date(head.effectiveFrom).getTime() > Date.now()) {
+    return {
+      ...item,
+      action: 'conflict',
+      message: `Route has a change scheduled for ${new Date(head.effectiveFrom).toISOString()}; import after it takes effect`,
+    };
+  }
+  return { ...item, action: item.changes.length ? 'update' : 'unchanged', versioned: stopsChanged || geometryChanged };
+}
+
+// Geometry for a feed route: its GTFS shapes, or the routing provider through the stops; throws when routing fails
+async function feedRouteGeometry(feedRoute) {
+  if (feedRoute.shapes) return { up: feedRoute.up, down: feedRoute.down };
+  return fetchRouteGeometry(feedRoute.stops, feedRoute.bidirectional);
+}
+
+// Creates or updates the route of one planned item; returns the item with its outcome
+async function applyRoute(item, feedRoute, routesById) {
+  const { versioned, ...result } = item;
+  try {
+    if (item.action === 'create') {
+      const geometry = await feedRouteGeometry(feedRoute);
+      const versionDef = {
+        version: 1,
+        stops: feedRoute.stops,
+        bidirectional: feedRoute.bidirectional,
+        effectiveFrom: new Date(),
+        effectiveTo: null,
+      };
+      const route = await Route.create({
+        routeName: feedRoute.routeName,
+        stops: feedRoute.stops,
+        bidirectional: feedRoute.bidirectional,
+        gtfsRouteId: feedRoute.gtfsRouteId,
+        versions: [versionDef],
+      });
+      await refreshVersionIndex(route);
+      await storeRouteGeometry(route, versionDef, geometry);
+      return { ...result, routeId: String(route._id) };
+    }
+
+    // update: the new stops/geometry take effect now as a new route version
+    const route = routesById.get(item.routeId);
+    const geometry = versioned ? await feedRouteGeometry(feedRoute) : null;
+    const renamed = feedRoute.routeName !== route.routeName;
+    route.routeName = feedRoute.routeName;
+    route.gtfsRouteId = feedRoute.gtfsRouteId;
+    if (versioned) {
+      await addRouteVersion(
+        route,
+        { stops: feedRoute.stops, bidirectional: feedRoute.bidirectional, effectiveFrom: new Date() },
+        geometry
+      );
+    } else {
+      await route.save();
+    }
+    if (renamed) {
+      await Polyline.updateMany({ routeId: route._id }, { routeName: route.routeName });
+    }
+    return result;
+  } catch (e) {
+    console.error('GTFS import route error:', feedRoute.gtfsRouteId, e?.message || e);
+    return { ...result, action: 'error', message: String(e.message || e) };
+  }
+}
+
+// POST /api/admin/gtfs/import
+// Body: the GTFS feed zip (Content-Type: application/zip)
+// Query: dryRun=true only reports what would happen; onConflict=update takes over existing routes
+// with the same routeName that were not imported from GTFS (default: skip them)
+async function importGtfs(req, res) {
+  try {
+    if (!Buffer.isBuffer(req.body) || !req.body.length) {
+      return res.status(400).json({
+        success: false,
+        message: 'Upload the GTFS zip as the request body (Content-Type: application/zip)',
+      });
+    }
+    const dryRun = req.query.dryRun === 'true';
+    const onConflict = req.query.onConflict === 'update' ? 'update' : 'skip';
+
+    const feed = readGtfsFeed(req.body);
+    if (feed.error) {
+      return res.status(400).json({ success: false, message: feed.error });
+    }
+
+    const routes = await Route.find({});
+    const existing = {
+      byGtfsId: new Map(routes.filter((r) => r.gtfsRouteId).map((r) => [r.gtfsRouteId, r])),
+      byName: new Map(routes.map((r) => [r.routeName, r])),
+    };
+    const routesById = new Map(routes.map((r) => [String(r._id), r]));
+
+    const takenNames = new Set();
+    const items = [];
+    for (const feedRoute of feed.routes) {
+      let item = await planRoute(feedRoute, existing, takenNames, onConflict);
+      if (item.action !== 'error') takenNames.add(feedRoute.routeName);
+      if (item.action === 'update' && item.changes.includes('name')) {
+        // A route renamed by this feed frees its old name for the routes after it
+        const route = routesById.get(item.routeId);
+        existing.byName.delete(route.routeName);
+        existing.byName.set(feedRoute.routeName, route);
+      }
+      if (!dryRun && (item.action === 'create' || item.action === 'update')) {
+        item = await applyRoute(item, feedRoute, routesById);
+      }
+      delete item.versioned;
+      items.push(item);
+    }
+
+    const summary = Object.fromEntries(ACTIONS.map((a) => [a, items.filter((i) => i.action === a).length]));
+    return res.status(200).json({ success: true, dryRun, summary, routes: items, warnings: feed.warnings });
+  } catch (err) {
+    console.error('importGtfs error:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+}
+
+// Builds the GTFS static feed from the current routes, polylines and timetables
+async function buildFeed() {
+  const [routes, polylines, registryStops, timetables, trips] = await Promise.all([
+    Route.find({}).lean(),
+    Polyline.find({}).lean(),
+    Stop.find({}, { stopId: 1, names: 1, accessibility: 1 }).lean(),
+    Timetable.find({}).lean(),
+    Trip.find({}).lean(),
+  ]);
+  return buildGtfsFeed({ routes, polylines, registryStops, timetables, trips });
+}
+
+// GET /api/gtfs/static.zip (public)
+// Not published while validation reports errors (see GET /api/admin/gtfs/validate)
+async function exportGtfs(req, res) {
+  try {
+    const feed = await buildFeed();
+    if (feed.errors.length) {
+      return res.status(503).json({ success: false, message: 'GTFS feed has validation errors', errors: feed.errors });
+    }
+    res.set({
+      'Content-Type': 'application/zip',
+      'Content-Disposition': 'attachment; filename="gtfs.zip"',
+      'Cache-Control': 'public, max-age=300',
+    });
+    // Express adds an ETag and answers 304 when the feed did not change
+    return res.send(writeGtfsZip(feed.files));
+  } catch (err) {
+    console.error('exportGtfs error:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+}
+
+// GET /api/admin/gtfs/validate
+// Problems of the feed GET /api/gtfs/static.zip would publish; errors block publishing
+async function validateGtfs(req, res) {
+  try {
+    const feed = await buildFeed();
+    return res.status(200).json({
+      success: true,
+      valid: feed.errors.length === 0,
+      feedVersion: feed.feedVersion,
+      counts: feed.counts,
+      errors: feed.errors,
+      warnings: feed.warnings,
+    });
+  } catch (err) {
+    console.error('validateGtfs error:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+}
+
+module.exports = { importGtfs, exportGtfs, validateGtfs };
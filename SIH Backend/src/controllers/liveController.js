@@ -1,10 +1,45 @@
+const { Types } = require('mongoose');
 const Bus = require('../models/Bus');
 const Route = require('../models/Route');
-const Polyline = require('../models/Polyline');
-const { hset, hgetall, lpush, ltrim, lrange } = require('../utils/redisClient');
+const Driver = require('../models/Driver');
+const LocationPing = require('../models/LocationPing');
+const TripRecord = require('../models/TripRecord');
+const Stop = require('../models/Stop');
+const {
+  hset,
+  hgetall,
+  hdel,
+  lpush,
+  ltrim,
+  lrange,
+  hgetallMany,
+  lrangeMany,
+  zaddNx,
+  zrangeByScore,
+  zremrangebyscore,
+} = require('../utils/redisClient');
+const { classifyMotion, IDLE_AFTER_MS, MOVING_SPEED_KMH } = require('../utils/motion');
+const { loadSegmentModel, estimateEtas, recordSegmentTimes, getSegmentSample, replaceSegmentStats } = require('../utils/etaModel');
+const { advanceTripProgress, parseTripProgress, describeStops } = require('../utils/tripProgress');
+const { buildRouteIndex, snapToRoute, placeStops, pointAlong } = require('../utils/routeSnap');
+const { loadVersionIndex, loadVersionGeometry, loadDiversions, loadSchedule } = require('../utils/routeCache');
+const { findActiveVersion } = require('../utils/routeVersions');
+const { findActiveDiversions, applyDiversions } = require('../utils/diversions');
+const { matchScheduledTrip } = require('../utils/schedule');
+const { recordStopEvents } = require('../utils/performance');
+const {
+  findActiveTrip,
+  findActiveTrips,
+  withTripRoute,
+  openTrip,
+  closeTrip,
+  addTripPoints,
+  updateTripProgress,
+  tripResponse,
+} = require('../utils/tripRecords');
+const { isOnDuty, findDutyShift, findOnDutyDrivers } = require('../utils/roster');
+const { buildVehiclePositions, buildTripUpdates, encodeFeed, feedToJson } = require('../utils/gtfsRealtime');
 const { emitBusUpdate } = require('../realtime/socket');
-const turf = require('@turf/turf');
-const polyline = require('@mapbox/polyline');
 
 // Helper: compute average from last N speed samples (km/h). Returns km/h number.
 function computeAverageSpeed(speeds) {
@@ -15,132 +50,779 @@ function computeAverageSpeed(speeds) {
   return Math.round((nums.reduce((a, b) => a + b, 0) / nums.length) * 10) / 10;
 }
 
-// Helper: get polyline + stops for a route from Redis (fallback Mongo if missing)
-async function getRouteGeometryAndStops(routeId) {
-  const redisKey = `route:${routeId}`;
-  const cached = await hgetall(redisKey);
-  if (cached && cached.polyline && cached.stops) {
-    try {
-      const coords = JSON.parse(cached.polyline);
-      const stops = JSON.parse(cached.stops);
-      return { coords, stops };
-    } catch (_) {}
-  }
-  // Fallback from Mongo Polyline (encoded) + Route stops, then push to Redis
-  const [polyDoc, routeDoc] = await Promise.all([
-    Polyline.findOne({ routeId }),
-    Route.findById(routeId)
+// Helper: route version in effect at time t (epoch ms) from the cached version index; null for unknown routes
+async function getActiveRouteVersion(routeId, t = Date.now()) {
+  const versions = await loadVersionIndex(routeId);
+  return findActiveVersion(versions, t);
+}
+
+// Helper: polyline + stops of a route version for a direction from Redis (fallback Mongo if missing)
+// 'down' trips use the route's down geometry and its stops in reverse order
+async function getVersionGeometryAndStops(routeId, version, direction = 'up') {
+  const { coords, downCoords, stops } = await loadVersionGeometry(routeId, version);
+  const directionCoords = direction === 'down' ? downCoords : coords;
+  if (!directionCoords || !stops) return { coords: null, stops: null };
+  return { coords: directionCoords, stops: direction === 'down' ? [...stops].reverse() : stops };
+}
+
+// Helper: route layout at time t (the ping's time): polyline + stops of the route version in effect,
+// with the diversions active at t applied (utils/diversions: closed stops left out of stops,
+// alternate geometry). Returns { coords, stops, version, direction, allStops, stopIndexes, diversion };
+// direction falls back to 'up' when that version does not run down trips.
+// memo (optional Map) shares the loads between calls, e.g. across the buses of the fleet view
+async function getRouteGeometryAndStops(routeId, direction = 'up', t = Date.now(), memo = null) {
+  const load = (key, fn) => {
+    if (!memo) return fn();
+    if (!memo.has(key)) memo.set(key, fn());
+    return memo.get(key);
+  };
+  const active = findActiveVersion(await load(`versions:${routeId}`, () => loadVersionIndex(routeId)), t);
+  if (!active) return applyDiversions({ coords: null, stops: null, version: null, direction }, []);
+  const effectiveDirection = active.bidirectional ? direction : 'up';
+  const [geometry, diversions] = await Promise.all([
+    load(`geometry:${routeId}:${active.version}:${effectiveDirection}`, () =>
+      getVersionGeometryAndStops(routeId, active.version, effectiveDirection)
+    ),
+    load(`diversions:${routeId}`, () => loadDiversions(routeId)),
   ]);
-  if (!polyDoc || !routeDoc) return { coords: null, stops: null };
-  // Decode encoded polyline to array of [lat,lng]
-  const latLng = polyline.decode(polyDoc.geometry); // [[lat, lng], ...]
-  // Convert to [lng,lat]
-  const coords = latLng.map(([lat, lng]) => [lng, lat]);
-  const stops = routeDoc.stops || [];
-  // Store in Redis for next time
-  await hset(redisKey, {
-    polyline: JSON.stringify(coords),
-    stops: JSON.stringify(stops)
+  return applyDiversions(
+    { ...geometry, version: active.version, direction: effectiveDirection },
+    findActiveDiversions(diversions, t)
+  );
+}
+
+// Helper: route index (from [lng,lat] coords) + distance along it of every stop; null without geometry
+function projectRoute(coords, stops) {
+  if (!coords || coords.length < 2) return null;
+  const index = buildRouteIndex(coords);
+  return { index, stopDistsKm: placeStops(index, stops).map((p) => p.distKm) };
+}
+
+// Helper: snap a fix to the route near where the bus was on its trip
+// point: { lat, lng, t, heading }; heading is only trusted while the bus is moving
+function snapBusPoint(index, point, trip, moving) {
+  return snapToRoute(index, point, {
+    previousDistKm: trip ? trip.distKm : undefined,
+    elapsedMs: trip && Number.isFinite(point.t) ? point.t - trip.updatedAt : undefined,
+    heading: moving ? point.heading : null,
   });
-  return { coords, stops };
+}
+
+// Helper: direction the bus is running; only kept while the bus stays on the same route
+function getBusDirection(busState, routeId) {
+  return busState?.routeId === routeId && busState?.direction === 'down' ? 'down' : 'up';
+}
+
+// Helper: trip progress from the bus hash if it belongs to this route and layout
+// (direction, route version and active diversions, see getRouteGeometryAndStops)
+function getTripForRoute(busState, routeId, { direction = 'up', version = 1, diversion = null } = {}) {
+  const trip = parseTripProgress(busState?.tripProgress);
+  if (!trip || trip.routeId !== routeId || (trip.direction || 'up') !== direction) return null;
+  if ((trip.version || 1) !== version) return null;
+  return (trip.diversion || null) === (diversion ? diversion.id : null) ? trip : null;
 }
 
 // Helper: snap point to line and compute distance-along for each stop, and ETA
-function computeSnappedAndEtas(coords, stops, busPoint, avgSpeedKmh) {
-  if (!coords || !coords.length) return { snapped: null, etaStops: [] };
-
-  // Build LineString and bus Point in [lng,lat]
-  const line = turf.lineString(coords);
-  const bus = turf.point([busPoint.lng, busPoint.lat]);
-
-  // Snap bus to nearest point on line
-  const snapped = turf.nearestPointOnLine(line, bus, { units: 'kilometers' });
-
-  // Turf provides distance along the whole line in properties.location (in chosen units)
-  const busDistKm = Number(snapped.properties.location) || 0;
-
-  // Compute ETA for each upcoming stop (in minutes)
-  const kmh = Math.max(1, Number(avgSpeedKmh) || 0); // avoid division by zero; min 1 km/h
-  const etaStops = (stops || []).map((s) => {
-    const p = turf.nearestPointOnLine(line, turf.point([s.longitude, s.latitude]), { units: 'kilometers' });
-    const stopDistKm = Number(p.properties.location) || 0;
-    let remainingKm = stopDistKm - busDistKm;
-    if (remainingKm < 0) remainingKm = 0; // if already passed, 0
-    const hours = remainingKm / kmh;
-    const minutes = Math.round(hours * 60);
-    return { stopId: s.stopId, name: s.name, etaMinutes: minutes };
+// options.model: segment travel-time model for the route (see utils/etaModel); without it ETAs use speed only
+// options.motionState: current motion state; live speed only counts while moving
+// options.progress: current trip progress (utils/tripProgress); the bus is never placed behind
+//   its furthest point on the trip, and stops get passed/arrivedAt/departedAt
+// options.projection: precomputed projectRoute(coords, stops)
+// options.allStops: every stop with closures (getRouteGeometryAndStops); closed stops are listed
+//   in etaStops without ETA, stops holds the open ones
+// busPoint: { lat, lng, t?, heading? }; with trip progress, t and heading keep the snap on the right leg
+function computeSnappedAndEtas(coords, stops, busPoint, avgSpeedKmh, { model = null, motionState, progress = null, projection, allStops = null } = {}) {
+  const route = projection || projectRoute(coords, stops);
+  if (!route) return { snapped: null, etaStops: [] };
+  const { index, stopDistsKm } = route;
+  const trip = progress && progress.stops?.length === stopDistsKm.length ? progress : null;
+
+  // Snap bus to the route near its previous position on the trip
+  const snapped = snapBusPoint(index, busPoint, trip, motionState === 'moving');
+  let busDistKm = snapped.distKm;
+  let { lat, lng } = snapped;
+
+  // GPS jitter can snap the bus slightly behind where it already was on this trip
+  if (trip && trip.distKm > busDistKm) {
+    busDistKm = trip.distKm;
+    ({ lat, lng } = pointAlong(index, busDistKm));
+  }
+
+  // ETA range for each upcoming stop (in minutes); passed stops are 0
+  const etas = estimateEtas({
+    stopDistsKm,
+    stopIds: (stops || []).map((s) => s.stopId),
+    busDistKm,
+    avgSpeedKmh,
+    model,
+    motionState,
+    lastStopIndex: trip ? trip.lastStopIndex : undefined,
+  });
+  const visits = trip ? describeStops(trip, stopDistsKm.length) : [];
+  const openStops = (stops || []).map((s, i) => ({
+    stopId: s.stopId,
+    name: s.name,
+    ...etas[i],
+    ...visits[i],
+    closed: false,
+    closureReason: null,
+  }));
+
+  // Closed stops in driving order between the open ones
+  let next = 0;
+  const etaStops = allStops
+    ? allStops.map((s) =>
+        s.closed
+          ? {
+              stopId: s.stopId,
+              name: s.name,
+              etaMinutes: null,
+              etaMinMinutes: null,
+              etaMaxMinutes: null,
+              passed: false,
+              arrivedAt: null,
+              departedAt: null,
+              closed: true,
+              closureReason: s.closureReason,
+            }
+          : openStops[next++]
+      )
+    : openStops;
+
+  return { snapped: { lat, lng }, etaStops };
+}
+
+// Helper: scheduled trip run the bus is on (utils/schedule) with its planned times added to etaStops as
+// scheduledArrival/scheduledDeparture (ISO; null for stops the run does not serve, or when no run matches).
+// Only buses with trip progress are matched. t: time of the fix; memo as for getRouteGeometryAndStops
+async function applySchedule(routeId, direction, trip, etaStops, t, memo = null) {
+  let match = null;
+  if (trip && etaStops.length) {
+    const key = `schedule:${routeId}`;
+    if (memo && !memo.has(key)) memo.set(key, loadSchedule(routeId));
+    const schedule = await (memo ? memo.get(key) : loadSchedule(routeId));
+    // Departures on this trip so far; a bus that has not left any stop yet is waiting to depart now
+    const departures = new Map();
+    etaStops.forEach((s) => {
+      if (s.departedAt && !departures.has(s.stopId)) departures.set(s.stopId, new Date(s.departedAt).getTime());
+    });
+    match = matchScheduledTrip(schedule, { direction, departures, fallbackAt: departures.size ? trip.startedAt : t });
+  }
+
+  const iso = (ms) => new Date(ms).toISOString();
+  // The run's stops are the route's stops in driving order, some possibly skipped
+  let next = 0;
+  const withTimes = etaStops.map((s) => {
+    const planned = match && next < match.stopTimes.length && match.stopTimes[next].stopId === s.stopId ? match.stopTimes[next++] : null;
+    return {
+      ...s,
+      scheduledArrival: planned ? iso(planned.arrival) : null,
+      scheduledDeparture: planned ? iso(planned.departure) : null,
+    };
   });
+  const scheduledTrip = match
+    ? { timetableId: match.timetableId, tripId: match.tripId, serviceDate: match.serviceDate, departure: iso(match.departure) }
+    : null;
+  return { etaStops: withTimes, scheduledTrip };
+}
+
+// Helper: newest fix as stored in the bus hash, for snapping on reads
+function getStoredPoint(busState) {
+  const heading = busState?.lastHeading != null ? Number(busState.lastHeading) : null;
+  return {
+    lat: Number(busState.lastLat),
+    lng: Number(busState.lastLng),
+    t: busState.lastUpdated ? new Date(busState.lastUpdated).getTime() : undefined,
+    heading: Number.isFinite(heading) ? heading : null,
+  };
+}
 
+// Trip fields for live payloads; layout from getRouteGeometryAndStops
+// lastStopIndex counts every stop (trip progress only tracks the open ones)
+function getTripFields(trip, { direction, version, stopIndexes, diversion }) {
+  let lastStopIndex = trip ? trip.lastStopIndex : null;
+  if (lastStopIndex !== null && lastStopIndex >= 0 && stopIndexes) lastStopIndex = stopIndexes[lastStopIndex];
   return {
-    snapped: {
-      lat: snapped.geometry.coordinates[1],
-      lng: snapped.geometry.coordinates[0],
-    },
-    etaStops,
+    direction,
+    routeVersion: version || null,
+    lastStopIndex,
+    tripStartedAt: trip ? new Date(trip.startedAt).toISOString() : null,
+    diversion: diversion
+      ? { reason: diversion.reason, endsAt: new Date(diversion.endsAt).toISOString(), rerouted: diversion.rerouted }
+      : null,
   };
 }
 
-// POST /api/bus/update-location
-// body: { busId, lat, lng, speed }
+// A bus is online while its newest fix is at most this old
+const ONLINE_WINDOW_MS = 90 * 1000;
+
+function getOnlineStatus(lastUpdated) {
+  if (!lastUpdated) return 'offline';
+  const diff = Date.now() - new Date(lastUpdated).getTime();
+  return diff <= ONLINE_WINDOW_MS ? 'online' : 'offline';
+}
+
+// Helper: current/next stop from etaStops
+// currentStop = last stop reached on this trip, nextStop = first stop not reached yet
+// (without trip progress, stops at 0 minutes count as reached)
+function getStopProgress(etaStops) {
+  let currentStop = null;
+  let nextStop = null;
+  for (const s of etaStops || []) {
+    if (s.closed) continue;
+    const reached = s.passed !== undefined ? s.passed || !!s.arrivedAt : s.etaMinutes === 0;
+    if (reached) {
+      currentStop = { stopId: s.stopId, name: s.name };
+    } else if (!nextStop) {
+      nextStop = { stopId: s.stopId, name: s.name, etaMinutes: s.etaMinutes };
+    }
+  }
+  return { currentStop, nextStop };
+}
+
+// Motion fields for a read: an offline bus is 'offline' since its fix went stale,
+// otherwise the state stored by the last ping
+function getMotionFields(busState, status) {
+  if (status === 'offline') {
+    const lastTime = busState?.lastUpdated ? new Date(busState.lastUpdated).getTime() : NaN;
+    return {
+      motionState: 'offline',
+      motionSince: Number.isFinite(lastTime) ? new Date(lastTime + ONLINE_WINDOW_MS).toISOString() : null,
+    };
+  }
+  return { motionState: busState?.motionState || null, motionSince: busState?.motionSince || null };
+}
+
+// Helper: live state of a bus for reads from its Redis hash and recent speeds
+// routeMemo shares route loads between buses (see getRouteGeometryAndStops); ETAs are only computed
+// when the bus has a fix and its route exists (knownRoute)
+async function getBusLiveState(routeId, busState, speeds, routeMemo, knownRoute) {
+  const avgSpeed = computeAverageSpeed(speeds || []);
+  const lastLat = busState?.lastLat ? Number(busState.lastLat) : null;
+  const lastLng = busState?.lastLng ? Number(busState.lastLng) : null;
+  const lastUpdated = busState?.lastUpdated || null;
+  const status = getOnlineStatus(lastUpdated);
+  const hasFix = lastLat != null && lastLng != null;
+
+  let layout = { direction: getBusDirection(busState, routeId), version: null, stopIndexes: null, diversion: null };
+  let trip = null;
+  let snapped = null;
+  let etaStops = [];
+  let scheduledTrip = null;
+  if (hasFix && knownRoute) {
+    layout = await getRouteGeometryAndStops(routeId, layout.direction, new Date(lastUpdated).getTime(), routeMemo);
+    trip = getTripForRoute(busState, routeId, layout);
+    const model = await loadSegmentModel(routeId, layout.direction);
+    const resComp = computeSnappedAndEtas(layout.coords, layout.stops, getStoredPoint(busState), avgSpeed, {
+      model,
+      motionState: busState?.motionState,
+      progress: trip,
+      allStops: layout.allStops,
+    });
+    snapped = resComp.snapped;
+    ({ etaStops, scheduledTrip } = await applySchedule(
+      routeId, layout.direction, trip, resComp.etaStops, new Date(lastUpdated).getTime(), routeMemo
+    ));
+  }
+  return { avgSpeed, lastLat, lastLng, lastUpdated, status, hasFix, layout, trip, snapped, etaStops, scheduledTrip };
+}
+
+// Helper: true when the bus is assigned to the given driver (a roster shift on the bus, Bus.driverId
+// or Driver.assignedBus)
+async function isBusAssignedToDriver(busDoc, driverId) {
+  if (busDoc.driverId && String(busDoc.driverId) === String(driverId)) return true;
+  if (await isOnDuty(busDoc.busId, driverId)) return true;
+  const driver = await Driver.findById(driverId, { assignedBus: 1 }).lean();
+  if (!driver || !driver.assignedBus || driver.assignedBus === 'No') return false;
+  return [String(busDoc._id), busDoc.busId, busDoc.busNumber].includes(driver.assignedBus);
+}
+
+// Recent accepted points per bus are kept in the Redis sorted set bus:<busId>:history
+const HISTORY_BUFFER_MS = 24 * 60 * 60 * 1000;
+const MAX_BATCH_POINTS = 500;
+// Device clocks may run slightly ahead of the server
+const MAX_CLOCK_SKEW_MS = 2 * 60 * 1000;
+
+// Helper: normalize a point sent by the driver app; returns null when unusable
+// recordedAt may be epoch ms or an ISO string; defaults to fallbackTime (server receive time)
+function normalizePoint(raw, fallbackTime) {
+  if (!raw || typeof raw !== 'object') return null;
+  const lat = Number(raw.lat);
+  const lng = Number(raw.lng);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+
+  let t = fallbackTime;
+  if (raw.recordedAt !== undefined && raw.recordedAt !== null && raw.recordedAt !== '') {
+    t = new Date(typeof raw.recordedAt === 'number' ? raw.recordedAt : String(raw.recordedAt)).getTime();
+  }
+  if (!Number.isFinite(t) || t > Date.now() + MAX_CLOCK_SKEW_MS) return null;
+
+  const optional = (v) => (v === null || v === undefined || v === '' || !Number.isFinite(Number(v)) ? null : Number(v));
+  return {
+    t,
+    lat,
+    lng,
+    speed: optional(raw.speed),
+    accuracy: optional(raw.accuracy),
+    heading: optional(raw.heading),
+  };
+}
+
+// Helper: /api/driver bodies arrive as text (driverAppRoutes); accept JSON objects or JSON strings
+function parsePayload(body) {
+  let payload = body;
+  if (typeof payload === 'string') {
+    try { payload = JSON.parse(payload); } catch (e) {}
+  }
+  return payload && typeof payload === 'object' ? payload : null;
+}
+
+// Helper: load the bus and make sure the authenticated driver may report for it
+// Returns { busDoc } or { status, message }
+async function loadBusForDriver(busId, driverId) {
+  const busDoc = await Bus.findOne({ busId }).lean();
+  if (!busDoc) return { status: 404, message: 'Bus not found' };
+  // Only the driver assigned to this bus may report its position
+  if (!(await isBusAssignedToDriver(busDoc, driverId))) {
+    return { status: 403, message: 'Bus is not assigned to this driver' };
+  }
+  return { busDoc };
+}
+
+// Helper: validate the optional trip direction sent by the driver app
+// Returns { direction } (undefined when not sent) or { status, message }
+async function resolveDirection(busDoc, raw) {
+  if (raw === undefined || raw === null || raw === '') return { direction: undefined };
+  if (raw !== 'up' && raw !== 'down') return { status: 400, message: "direction must be 'up' or 'down'" };
+  if (raw === 'down') {
+    // Checked against the route version in effect now
+    const active = Types.ObjectId.isValid(String(busDoc.routeId))
+      ? await getActiveRouteVersion(String(busDoc.routeId))
+      : null;
+    if (!active || !active.bidirectional) {
+      return { status: 400, message: 'The route of this bus does not run down trips' };
+    }
+  }
+  return { direction: raw };
+}
+
+// Motion transitions per bus are kept (newest first) in the Redis list bus:<busId>:motion
+const MOTION_TRANSITIONS_KEPT = 100;
+
+// History members are JSON strings; the Upstash client may already have parsed them
+function parseHistoryMember(member) {
+  if (member && typeof member === 'object') return member;
+  try {
+    return JSON.parse(member);
+  } catch (_) {
+    return null;
+  }
+}
+
+// Helper: classify the bus at its newest point from recent history, record transitions and
+// return the hash fields { motionState, motionSince } to store. A gap longer than the online
+// window is recorded as a pass through 'offline'.
+async function updateMotionState(busId, previousState, latest, stops) {
+  const members = await zrangeByScore(`bus:${busId}:history`, latest.t - IDLE_AFTER_MS - 60 * 1000, latest.t);
+  const recent = (members || [])
+    .map(parseHistoryMember)
+    .filter(Boolean)
+    .sort((a, b) => a.t - b.t);
+  const { state, stationarySince } = classifyMotion(recent.length ? recent : [latest], stops);
+
+  let from = previousState?.motionState || null;
+  const previousTime = previousState?.lastUpdated ? new Date(previousState.lastUpdated).getTime() : NaN;
+  const transitions = [];
+  if (Number.isFinite(previousTime) && latest.t - previousTime > ONLINE_WINDOW_MS) {
+    if (from && from !== 'offline') {
+      transitions.push({ from, to: 'offline', at: new Date(previousTime + ONLINE_WINDOW_MS).toISOString() });
+    }
+    from = 'offline';
+  }
+
+  if (from === state) {
+    return { motionState: state, motionSince: previousState?.motionSince || new Date(latest.t).toISOString() };
+  }
+
+  // Best estimate of when the new state began
+  let changedAt = latest.t;
+  if (from !== 'offline' && stationarySince !== null) {
+    changedAt = state === 'idle' ? stationarySince + IDLE_AFTER_MS : stationarySince;
+  }
+  const motionSince = new Date(changedAt).toISOString();
+  transitions.push({ from, to: state, at: motionSince });
+
+  const key = `bus:${busId}:motion`;
+  await lpush(key, ...transitions.map((tr) => JSON.stringify(tr)));
+  await ltrim(key, 0, MOTION_TRANSITIONS_KEPT - 1);
+
+  return { motionState: state, motionSince };
+}
+
+// Helper: move the live state forward to the newest of the given points (ordered by t),
+// recompute snapped position + ETAs + motion state and emit bus:update
+// previousState is the bus hash as it was before these points
+// requestedDirection ('up' | 'down') is sent by the driver app; otherwise the bus keeps its direction
+// driverId: the driver reporting the points, recorded with schedule adherence
+// activeTrip: the bus's active TripRecord (utils/tripRecords), which gets the stops reached
+async function applyLivePoints(busDoc, livePoints, previousState, requestedDirection, driverId = null, activeTrip = null) {
+  const busId = busDoc.busId;
+  const routeId = String(busDoc.routeId);
+  const latest = livePoints[livePoints.length - 1];
+  const lastUpdated = new Date(latest.t).toISOString();
+
+  // Load polyline + stops in effect at the newest point (route version, diversions) for the direction being driven
+  const layout = await getRouteGeometryAndStops(
+    routeId,
+    requestedDirection || getBusDirection(previousState, routeId),
+    latest.t
+  );
+  const { coords, stops, version, direction } = layout;
+
+  // Store last location + device timestamp (+ server receive time)
+  const state = {
+    lastLat: String(latest.lat),
+    lastLng: String(latest.lng),
+    lastUpdated,
+    lastReceivedAt: new Date().toISOString(),
+    routeId,
+    direction,
+  };
+  if (latest.heading !== null) state.lastHeading = String(latest.heading);
+  if (latest.accuracy !== null) state.lastAccuracy = String(latest.accuracy);
+
+  const motion = await updateMotionState(busId, previousState, latest, stops);
+  await hset(`bus:${busId}`, { ...state, ...motion });
+
+  // Store last 3 speeds (in recorded order, newest first in the list)
+  const speedsIn = livePoints.filter((p) => p.speed !== null).slice(-3);
+  if (speedsIn.length) {
+    await lpush(`bus:${busId}:speeds`, ...speedsIn.map((p) => String(p.speed)));
+    await ltrim(`bus:${busId}:speeds`, 0, 2);
+  }
+
+  // Compute average speed
+  const speeds = await lrange(`bus:${busId}:speeds`, 0, 2);
+  const avgSpeed = computeAverageSpeed(speeds);
+
+  // Advance trip progress point by point (arrivals/departures per stop) and learn segment times
+  const projection = projectRoute(coords, stops);
+  let trip = getTripForRoute(previousState, routeId, layout);
+  // Stops served on the active trip record: ones the bus was seen reaching after the record started, not
+  // stops passed without times or the stop a trip opens at mid-route (same rule as recordStopEvents)
+  const tripRecordStart = activeTrip ? new Date(activeTrip.startedAt).getTime() : null;
+  const reached = [];
+  if (projection) {
+    for (const p of livePoints) {
+      const moving = p.speed !== null && p.speed >= MOVING_SPEED_KMH;
+      const step = advanceTripProgress({
+        routeId,
+        direction,
+        version,
+        diversion: layout.diversion ? layout.diversion.id : null,
+        stopDistsKm: projection.stopDistsKm,
+        busDistKm: snapBusPoint(projection.index, p, trip, moving).distKm,
+        t: p.t,
+        progress: trip,
+      });
+      trip = step.progress;
+      if (tripRecordStart !== null && p.t >= tripRecordStart) {
+        step.arrivals
+          .filter((i) => i === 0 || p.t > trip.startedAt)
+          .forEach((i) => reached.push({ ...stops[i], arrivedAt: p.t }));
+      }
+      await recordSegmentTimes({ routeId, stops, progress: trip, arrivals: step.arrivals });
+    }
+    await hset(`bus:${busId}`, { tripProgress: JSON.stringify(trip) });
+  }
+
+  // Compute snapped position + ETAs
+  const model = await loadSegmentModel(routeId, direction);
+  const { snapped, etaStops } = computeSnappedAndEtas(
+    coords,
+    stops,
+    latest,
+    avgSpeed,
+    { model, motionState: motion.motionState, progress: trip, projection, allStops: layout.allStops }
+  );
+  const schedule = await applySchedule(routeId, direction, trip, etaStops || [], latest.t);
+  // Schedule adherence of the stops reached or left with these points
+  await recordStopEvents({
+    busId,
+    driverId,
+    routeId,
+    direction,
+    etaStops: schedule.etaStops,
+    scheduledTrip: schedule.scheduledTrip,
+    since: livePoints[0].t,
+    tripStartedAt: trip ? trip.startedAt : null,
+  });
+  if (activeTrip) {
+    await updateTripProgress(activeTrip._id, { reached, routeVersion: version, scheduledTrip: schedule.scheduledTrip });
+  }
+
+  const payload = {
+    busId,
+    routeId,
+    location: { lat: latest.lat, lng: latest.lng },
+    snappedLocation: snapped || { lat: latest.lat, lng: latest.lng },
+    avgSpeed: avgSpeed,
+    lastUpdated,
+    etaStops: schedule.etaStops,
+    ...getStopProgress(schedule.etaStops),
+    ...getTripFields(trip, layout),
+    scheduledTrip: schedule.scheduledTrip,
+    status: 'online',
+    ...motion,
+  };
+
+  // Emit via websocket to the bus, route and stop rooms
+  emitBusUpdate(payload);
+
+  return payload;
+}
+
+// Helper: persist pings to the time-series history collection, attached to the bus's active trip
+// when recorded after it started. Pings already stored for the bus at the same time are skipped
+// (time-series collections take no unique index, so (busId, recordedAt) is looked up first).
+// Returns the pings written; a failed write rejects.
+async function persistPings(busDoc, points, activeTrip = null) {
+  if (!points.length) return [];
+  const receivedAt = new Date();
+  const routeId = busDoc.routeId ? String(busDoc.routeId) : null;
+  const tripStart = activeTrip ? new Date(activeTrip.startedAt).getTime() : null;
+  const existing = await LocationPing.find(
+    { busId: busDoc.busId, recordedAt: { $in: points.map((p) => new Date(p.t)) } },
+    { recordedAt: 1 }
+  ).lean();
+  const storedTimes = new Set(existing.map((doc) => new Date(doc.recordedAt).getTime()));
+  const fresh = points.filter((p) => !storedTimes.has(p.t));
+  if (!fresh.length) return [];
+  await LocationPing.insertMany(
+    fresh.map((p) => ({
+      busId: busDoc.busId,
+      recordedAt: new Date(p.t),
+      receivedAt,
+      routeId,
+      tripRecordId: tripStart !== null && p.t >= tripStart ? activeTrip._id : null,
+      lat: p.lat,
+      lng: p.lng,
+      speed: p.speed,
+      accuracy: p.accuracy,
+      heading: p.heading,
+    })),
+    { ordered: false }
+  );
+  return fresh;
+}
+
+// Helper: store points in the history buffer (de-duplicated) and advance the live
+// position only with points newer than the current one, so late points never move a bus backwards
+// busDoc: the bus on the route of activeTrip (withTripRoute); direction: optional trip direction sent
+// with the points, else that of the bus's active trip; driverId: the driver sending them
+async function ingestPoints(busDoc, points, direction, driverId = null, activeTrip = null) {
+  const busId = busDoc.busId;
+  const historyKey = `bus:${busId}:history`;
+
+  // Order by device time and drop repeats within the batch. Points older than the buffer window
+  // (queued offline for a long time) skip the buffer and only go to the stored history.
+  const windowStart = Date.now() - HISTORY_BUFFER_MS;
+  const deduped = [...points]
+    .sort((a, b) => a.t - b.t)
+    .filter((p, i, arr) => i === 0 || p.t !== arr[i - 1].t);
+  const ordered = deduped.filter((p) => p.t >= windowStart);
+  const old = deduped.filter((p) => p.t < windowStart);
+  // The stored history is all they have, so a failed write fails the upload and the app sends them again
+  const storedOld = await persistPings(busDoc, old, activeTrip);
+  const expired = storedOld.length;
+
+  // The history buffer is also the de-duplication index: a re-sent point is the same member
+  const added = await zaddNx(
+    historyKey,
+    ordered.map((p) => ({ score: p.t, member: JSON.stringify(p) }))
+  );
+  await zremrangebyscore(historyKey, 0, windowStart);
+  // Points already buffered are stored too when the stored history lacks them (an earlier write
+  // failed). A failed write is logged but does not reject the upload; the live position still moves.
+  let storedRecent = [];
+  try {
+    storedRecent = await persistPings(busDoc, ordered, activeTrip);
+  } catch (err) {
+    console.error('persistPings error:', err);
+  }
+  const storedTimes = new Set(storedRecent.map((p) => p.t));
+  const accepted = ordered.filter((p, i) => Number(added[i]) === 1 || storedTimes.has(p.t));
+  if (activeTrip) await addTripPoints(activeTrip, [...storedOld, ...storedRecent]);
+
+  const busState = await hgetall(`bus:${busId}`);
+  const currentTime = busState?.lastUpdated ? new Date(busState.lastUpdated).getTime() : 0;
+  const livePoints = accepted.filter((p) => p.t > (Number.isFinite(currentTime) ? currentTime : 0));
+
+  const live = livePoints.length
+    ? await applyLivePoints(busDoc, livePoints, busState, direction || (activeTrip ? activeTrip.direction : undefined), driverId, activeTrip)
+    : null;
+
+  return {
+    accepted: accepted.length,
+    duplicates: points.length - expired - accepted.length,
+    expired,
+    late: accepted.length - livePoints.length,
+    live,
+  };
+}
+
+// POST /api/bus/update-location (driver token required)
+// body: { busId, lat, lng, speed, recordedAt?, accuracy?, heading?, direction? }
 exports.updateBusLocation = async (req, res) => {
   try {
-    const { busId, lat, lng, speed } = req.body || {};
-    if (!busId || !Number.isFinite(Number(lat)) || !Number.isFinite(Number(lng))) {
+    const { busId } = req.body || {};
+    const point = normalizePoint(req.body, Date.now());
+    if (!busId || !point) {
       return res.status(400).json({ success: false, message: 'busId, lat, lng are required' });
     }
 
-    const busDoc = await Bus.findOne({ busId }).lean();
-    if (!busDoc) return res.status(404).json({ success: false, message: 'Bus not found' });
+    const loaded = await loadBusForDriver(busId, req.auth.id);
+    if (!loaded.busDoc) return res.status(loaded.status).json({ success: false, message: loaded.message });
+    const activeTrip = await findActiveTrip(loaded.busDoc.busId);
+    const busDoc = withTripRoute(loaded.busDoc, activeTrip);
+    const requested = await resolveDirection(busDoc, req.body.direction);
+    if (requested.status) return res.status(requested.status).json({ success: false, message: requested.message });
 
-    const routeId = String(busDoc.routeId);
-    const nowIso = new Date().toISOString();
-    const redisKey = `bus:${busId}`;
+    const result = await ingestPoints(busDoc, [point], requested.direction, req.auth.id, activeTrip);
+    if (!result.live) {
+      // Duplicate or older than the current live position: kept as history only
+      return res.status(200).json({
+        success: true,
+        busId,
+        routeId: String(busDoc.routeId),
+        stale: true,
+        duplicate: result.duplicates > 0,
+      });
+    }
 
-    // Store last location + timestamp
-    await hset(redisKey, {
-      lastLat: String(lat),
-      lastLng: String(lng),
-      lastUpdated: nowIso,
-      routeId,
-    });
+    return res.status(200).json({ success: true, ...result.live });
+  } catch (err) {
+    console.error('updateBusLocation error:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+};
 
-    // Store last 3 speeds
-    if (Number.isFinite(Number(speed))) {
-      await lpush(`bus:${busId}:speeds`, String(speed));
-      await ltrim(`bus:${busId}:speeds`, 0, 2);
+// POST /api/bus/update-location/batch (driver token required)
+// body: { busId, points: [{ lat, lng, speed, recordedAt, accuracy?, heading? }, ...], direction? } in recorded order
+exports.updateBusLocationBatch = async (req, res) => {
+  try {
+    const { busId, points } = req.body || {};
+    if (!busId || !Array.isArray(points) || points.length === 0) {
+      return res.status(400).json({ success: false, message: 'busId and a non-empty points array are required' });
+    }
+    if (points.length > MAX_BATCH_POINTS) {
+      return res.status(400).json({ success: false, message: `At most ${MAX_BATCH_POINTS} points per batch` });
     }
 
-    // Compute average speed
-    const speeds = await lrange(`bus:${busId}:speeds`, 0, 2);
-    const avgSpeed = computeAverageSpeed(speeds);
+    const now = Date.now();
+    const valid = points
+      .map((p) => (p && p.recordedAt !== undefined && p.recordedAt !== null ? normalizePoint(p, now) : null))
+      .filter(Boolean);
+    if (!valid.length) {
+      return res.status(400).json({ success: false, message: 'Each point needs lat, lng and a past recordedAt' });
+    }
 
-    // Load polyline + stops
-    const { coords, stops } = await getRouteGeometryAndStops(routeId);
+    const loaded = await loadBusForDriver(busId, req.auth.id);
+    if (!loaded.busDoc) return res.status(loaded.status).json({ success: false, message: loaded.message });
+    const activeTrip = await findActiveTrip(loaded.busDoc.busId);
+    const busDoc = withTripRoute(loaded.busDoc, activeTrip);
+    const requested = await resolveDirection(busDoc, req.body.direction);
+    if (requested.status) return res.status(requested.status).json({ success: false, message: requested.message });
 
-    // Compute snapped position + ETAs
-    const { snapped, etaStops } = computeSnappedAndEtas(
-      coords,
-      stops,
-      { lat: Number(lat), lng: Number(lng) },
-      avgSpeed
-    );
+    const result = await ingestPoints(busDoc, valid, requested.direction, req.auth.id, activeTrip);
 
-    const payload = {
+    return res.status(200).json({
+      success: true,
       busId,
+      received: points.length,
+      rejected: points.length - valid.length,
+      ...result,
+    });
+  } catch (err) {
+    console.error('updateBusLocationBatch error:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+};
+
+// POST /api/driver/trips/start (driver token required)
+// body: { busId, direction? } - ends the active trips of the bus and the driver, then starts a new one
+exports.startTrip = async (req, res) => {
+  try {
+    const payload = parsePayload(req.body);
+    if (!payload || !payload.busId) {
+      return res.status(400).json({ success: false, message: 'busId is required' });
+    }
+
+    const { busDoc, status, message } = await loadBusForDriver(String(payload.busId), req.auth.id);
+    if (!busDoc) return res.status(status).json({ success: false, message });
+    // On a roster shift the trip runs the shift's route; Bus.routeId is left as it is
+    let routeId = String(busDoc.routeId);
+    const duty = await findDutyShift(req.auth.id);
+    if (duty && duty.busId === busDoc.busId) {
+      if (!(await Route.exists({ _id: duty.routeId }))) {
+        return res.status(409).json({ success: false, message: 'The route of your shift no longer exists' });
+      }
+      routeId = String(duty.routeId);
+    }
+    const tripBus = { ...busDoc, routeId };
+    const requested = await resolveDirection(tripBus, payload.direction);
+    if (requested.status) return res.status(requested.status).json({ success: false, message: requested.message });
+
+    const busId = busDoc.busId;
+    const busState = await hgetall(`bus:${busId}`);
+    const direction = requested.direction || getBusDirection(busState, routeId);
+    const active = Types.ObjectId.isValid(routeId) ? await getActiveRouteVersion(routeId) : null;
+
+    const trip = await openTrip({
+      busDoc,
+      driverId: req.auth.id,
       routeId,
-      snappedLocation: snapped || { lat: Number(lat), lng: Number(lng) },
-      avgSpeed: avgSpeed,
-      lastUpdated: nowIso,
-      etaStops: etaStops || [],
-      status: 'online',
-    };
+      direction,
+      routeVersion: active ? active.version : null,
+      t: Date.now(),
+    });
+    // Trip progress (stops reached, schedule matching) starts over with the new trip
+    await hdel(`bus:${busId}`, 'tripProgress');
+    await hset(`bus:${busId}`, { routeId, direction });
 
-    // Emit via websocket to clients on the same route
-    emitBusUpdate(routeId, payload);
+    return res.status(201).json({ success: true, trip: tripResponse(trip.toObject()) });
+  } catch (err) {
+    console.error('startTrip error:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+};
 
-    return res.status(200).json({ success: true, ...payload });
+// POST /api/driver/trips/end (driver token required)
+// body: { busId? } - ends the driver's active trip (on that bus)
+exports.endTrip = async (req, res) => {
+  try {
+    const payload = parsePayload(req.body) || {};
+    const filter = { driverId: req.auth.id, status: 'active' };
+    if (payload.busId) filter.busId = String(payload.busId);
+    const active = await TripRecord.findOne(filter, { _id: 1 }).lean();
+    const trip = active ? await closeTrip(active._id, { reason: 'driver', at: Date.now() }) : null;
+    if (!trip) {
+      return res.status(404).json({ success: false, message: 'No active trip' });
+    }
+    return res.status(200).json({ success: true, trip: tripResponse(trip) });
   } catch (err) {
-    console.error('updateBusLocation error:', err);
+    console.error('endTrip error:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+};
+
+// GET /api/driver/trips/active (driver token required) - the driver's active trip, or null
+exports.getActiveTrip = async (req, res) => {
+  try {
+    const trip = await TripRecord.findOne({ driverId: req.auth.id, status: 'active' }).lean();
+    return res.status(200).json({ success: true, trip: trip ? tripResponse(trip) : null });
+  } catch (err) {
+    console.error('getActiveTrip error:', err);
     return res.status(500).json({ success: false, message: 'Server error' });
   }
 };
@@ -149,8 +831,9 @@ exports.updateBusLocation = async (req, res) => {
 exports.getLiveBus = async (req, res) => {
   try {
     const busId = req.params.id;
-    const busDoc = await Bus.findOne({ busId }).lean();
-    if (!busDoc) return res.status(404).json({ message: 'Bus not found' });
+    const bus = await Bus.findOne({ busId }).lean();
+    if (!bus) return res.status(404).json({ message: 'Bus not found' });
+    const busDoc = withTripRoute(bus, await findActiveTrip(busId));
 
     const routeId = String(busDoc.routeId);
     const redisKey = `bus:${busId}`;
@@ -164,26 +847,28 @@ exports.getLiveBus = async (req, res) => {
     let lastUpdated = busState?.lastUpdated || null;
 
     // Offline detection
-    let status = 'offline';
-    if (lastUpdated) {
-      const diff = Date.now() - new Date(lastUpdated).getTime();
-      if (diff <= 90 * 1000) status = 'online';
-    }
+    const status = getOnlineStatus(lastUpdated);
 
-    // Compute ETAs using cached polyline
-    const { coords, stops } = await getRouteGeometryAndStops(routeId);
+    // Compute ETAs using cached polyline of the route version in effect at the last fix
+    const at = lastUpdated ? new Date(lastUpdated).getTime() : Date.now();
+    const layout = await getRouteGeometryAndStops(routeId, getBusDirection(busState, routeId), at);
+    const { coords, stops, direction } = layout;
+    const model = await loadSegmentModel(routeId, direction);
+    const trip = getTripForRoute(busState, routeId, layout);
 
     let snapped = null;
     let etaStops = [];
+    let scheduledTrip = null;
     if (lastLat != null && lastLng != null) {
       const resComp = computeSnappedAndEtas(
         coords,
         stops,
-        { lat: lastLat, lng: lastLng },
-        avgSpeed
+        getStoredPoint(busState),
+        avgSpeed,
+        { model, motionState: busState?.motionState, progress: trip, allStops: layout.allStops }
       );
       snapped = resComp.snapped;
-      etaStops = resComp.etaStops;
+      ({ etaStops, scheduledTrip } = await applySchedule(routeId, direction, trip, resComp.etaStops, at));
     }
 
     const payload = {
@@ -193,7 +878,11 @@ exports.getLiveBus = async (req, res) => {
       avgSpeed,
       lastUpdated,
       etaStops,
+      ...getStopProgress(etaStops),
+      ...getTripFields(trip, layout),
+      scheduledTrip,
       status,
+      ...getMotionFields(busState, status),
     };
 
     return res.status(200).json(payload);
@@ -201,4 +890,263 @@ exports.getLiveBus = async (req, res) => {
     console.error('getLiveBus error:', err);
     return res.status(500).json({ message: 'Server error' });
   }
-};
\ No newline at end of file
+};
+// GET /api/admin/buses/live - Live state of every bus in one call (admin)
+// Redis state for all buses is read in two pipelined round trips; route geometry is loaded once per route
+exports.getFleetLive = async (_req, res) => {
+  try {
+    const busDocs = await Bus.find(
+      {},
+      { busId: 1, busNumber: 1, routeId: 1, driverId: 1, status: 1 }
+    )
+      .sort({ busNumber: 1 })
+      .lean();
+    const activeTrips = await findActiveTrips(busDocs.map((b) => b.busId));
+    const buses = busDocs.map((b) => withTripRoute(b, activeTrips.get(b.busId)));
+
+    if (!buses.length) {
+      return res.status(200).json({ success: true, generatedAt: new Date().toISOString(), buses: [] });
+    }
+
+    const [states, speedLists] = await Promise.all([
+      hgetallMany(buses.map((b) => `bus:${b.busId}`)),
+      lrangeMany(buses.map((b) => `bus:${b.busId}:speeds`), 0, 2),
+    ]);
+
+    // Drivers on shift (duty roster), else by Bus.driverId, falling back to Driver.assignedBus
+    // (Mongo _id, busId or busNumber)
+    const onDuty = await findOnDutyDrivers(buses.map((b) => b.busId));
+    const busKeys = buses.flatMap((b) => [String(b._id), b.busId, b.busNumber]);
+    const drivers = await Driver.find(
+      {
+        $or: [
+          { _id: { $in: [...buses.map((b) => b.driverId).filter(Boolean), ...onDuty.values()] } },
+          { assignedBus: { $in: busKeys } },
+        ],
+      },
+      { name: 1, username: 1, assignedBus: 1 }
+    ).lean();
+    const driverById = new Map(drivers.map((d) => [String(d._id), d]));
+    const driverByBus = new Map(drivers.map((d) => [d.assignedBus, d]));
+
+    const routeIds = Array.from(new Set(buses.map((b) => String(b.routeId)).filter(Types.ObjectId.isValid)));
+    const routes = await Route.find({ _id: { $in: routeIds } }, { routeName: 1 }).lean();
+    const routeNames = new Map(routes.map((r) => [String(r._id), r.routeName]));
+
+    // Version index and diversions once per route, geometry once per route version and direction
+    const routeMemo = new Map();
+
+    const result = await Promise.all(
+      buses.map(async (b, i) => {
+        const routeId = String(b.routeId);
+        const busState = states[i] || null;
+        const { avgSpeed, lastLat, lastLng, lastUpdated, status, hasFix, layout, trip, snapped, etaStops, scheduledTrip } =
+          await getBusLiveState(routeId, busState, speedLists[i], routeMemo, routeNames.has(routeId));
+
+        const driver =
+          (onDuty.has(b.busId) && driverById.get(onDuty.get(b.busId))) ||
+          (b.driverId && driverById.get(String(b.driverId))) ||
+          driverByBus.get(String(b._id)) ||
+          driverByBus.get(b.busId) ||
+          driverByBus.get(b.busNumber) ||
+          null;
+
+        return {
+          busId: b.busId,
+          busNumber: b.busNumber,
+          busStatus: b.status,
+          routeId,
+          routeName: routeNames.get(routeId) || null,
+          driverName: driver ? driver.name : null,
+          driverUsername: driver ? driver.username : null,
+          location: hasFix ? { lat: lastLat, lng: lastLng } : null,
+          snappedLocation: snapped || (hasFix ? { lat: lastLat, lng: lastLng } : null),
+          avgSpeed,
+          lastUpdated,
+          ...getStopProgress(etaStops),
+          ...getTripFields(trip, layout),
+          scheduledTrip,
+          status,
+          ...getMotionFields(busState, status),
+        };
+      })
+    );
+
+    return res.status(200).json({ success: true, generatedAt: new Date().toISOString(), buses: result });
+  } catch (err) {
+    console.error('getFleetLive error:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+};
+
+const rebuildingRoutes = new Set(); // routeIds whose segment times are being rebuilt
+
+// Helper: segment time samples (utils/etaModel getSegmentSample) from the stored pings of a route, replayed
+// per bus through trip progress as applyLivePoints does with the route layout in effect at each ping.
+// The direction comes from the ping's trip record; pings without one only count on one-way route versions.
+// Returns { pings, replayed, samples }
+async function replaySegmentSamples(routeId) {
+  const trips = await TripRecord.find({ routeId }, { direction: 1 }).lean();
+  const directionOf = new Map(trips.map((t) => [String(t._id), t.direction]));
+  const memo = new Map();
+  const projections = new Map();
+  const samples = [];
+  let pings = 0;
+  let replayed = 0;
+  let busId = null;
+  let trip = null;
+
+  const cursor = LocationPing.find({ routeId }).sort({ busId: 1, recordedAt: 1 }).lean().cursor();
+  for await (const ping of cursor) {
+    pings += 1;
+    if (ping.busId !== busId) {
+      busId = ping.busId;
+      trip = null;
+    }
+    const t = new Date(ping.recordedAt).getTime();
+    const direction = ping.tripRecordId ? directionOf.get(String(ping.tripRecordId)) : null;
+    // Asking for 'down' falls back to 'up' on one-way versions, so 'down' means the direction is unknown
+    const layout = await getRouteGeometryAndStops(routeId, direction || 'down', t, memo);
+    if (!direction && layout.direction === 'down') continue;
+    const diversion = layout.diversion ? layout.diversion.id : null;
+    const key = `${layout.version}:${layout.direction}:${diversion}`;
+    if (!projections.has(key)) projections.set(key, projectRoute(layout.coords, layout.stops));
+    const projection = projections.get(key);
+    if (!projection) continue;
+
+    const point = { lat: ping.lat, lng: ping.lng, t, heading: ping.heading };
+    const moving = ping.speed !== null && ping.speed >= MOVING_SPEED_KMH;
+    const step = advanceTripProgress({
+      routeId,
+      direction: layout.direction,
+      version: layout.version,
+      diversion,
+      stopDistsKm: projection.stopDistsKm,
+      busDistKm: snapBusPoint(projection.index, point, trip, moving).distKm,
+      t,
+      progress: trip,
+    });
+    trip = step.progress;
+    replayed += 1;
+    const sample = getSegmentSample({ routeId, stops: layout.stops, progress: trip, arrivals: step.arrivals });
+    if (sample) samples.push(sample);
+  }
+  return { pings, replayed, samples };
+}
+
+// POST /api/admin/routes/:id/segment-stats/rebuild - Relearn the route's segment times from its stored
+// ping history (protected). Replaces the route's SegmentStat documents; may take a while on long histories.
+exports.rebuildSegmentStats = async (req, res) => {
+  const routeId = req.params.id;
+  if (rebuildingRoutes.has(routeId)) {
+    return res.status(409).json({ success: false, message: 'A rebuild of this route is already running' });
+  }
+  rebuildingRoutes.add(routeId);
+  try {
+    if (!Types.ObjectId.isValid(routeId) || !(await Route.exists({ _id: routeId }))) {
+      return res.status(404).json({ success: false, message: 'Route not found' });
+    }
+    const { pings, replayed, samples } = await replaySegmentSamples(routeId);
+    const buckets = await replaceSegmentStats(routeId, samples);
+    return res.status(200).json({ success: true, routeId, pings, replayed, samples: samples.length, buckets });
+  } catch (err) {
+    console.error('rebuildSegmentStats error:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  } finally {
+    rebuildingRoutes.delete(routeId);
+  }
+};
+
+// GTFS-Realtime feeds are rebuilt at most this often; polls in between share the same live state
+const REALTIME_FEED_TTL_MS = 5 * 1000;
+let realtimeBusesCache = null; // { at, promise }
+
+// Helper: live state of every bus with its route's GTFS ids, and the stop registry ids, for the GTFS-Realtime feeds
+async function loadRealtimeBuses() {
+  const [busDocs, registryIds] = await Promise.all([
+    Bus.find({}, { busId: 1, busNumber: 1, routeId: 1 }).lean(),
+    Stop.distinct('stopId'),
+  ]);
+  if (!busDocs.length) return { buses: [], registryIds: new Set(registryIds) };
+  const activeTrips = await findActiveTrips(busDocs.map((b) => b.busId));
+  const buses = busDocs.map((b) => withTripRoute(b, activeTrips.get(b.busId)));
+  const [states, speedLists] = await Promise.all([
+    hgetallMany(buses.map((b) => `bus:${b.busId}`)),
+    lrangeMany(buses.map((b) => `bus:${b.busId}:speeds`), 0, 2),
+  ]);
+
+  const routeIds = Array.from(new Set(buses.map((b) => String(b.routeId)).filter(Types.ObjectId.isValid)));
+  const routes = await Route.find({ _id: { $in: routeIds } }, { gtfsRouteId: 1 }).lean();
+  const routeMemo = new Map();
+  // Timetabled routes publish scheduled trips instead of template trips (utils/gtfsExport); the schedules
+  // are shared with applySchedule through the memo
+  const timetabled = await Promise.all(
+    routes.map(async (r) => {
+      const key = `schedule:${r._id}`;
+      routeMemo.set(key, loadSchedule(String(r._id)));
+      const schedule = await routeMemo.get(key);
+      return schedule.some((timetable) => timetable.trips.length > 0);
+    })
+  );
+  const routeById = new Map(routes.map((r, i) => [String(r._id), { ...r, timetabled: timetabled[i] }]));
+
+  const live = await Promise.all(
+    buses.map(async (b, i) => {
+      const routeId = String(b.routeId);
+      const busState = states[i] || null;
+      const route = routeById.get(routeId) || null;
+      const heading = busState?.lastHeading != null ? Number(busState.lastHeading) : null;
+      return {
+        busId: b.busId,
+        busNumber: b.busNumber,
+        route,
+        heading,
+        state: await getBusLiveState(routeId, busState, speedLists[i], routeMemo, !!route),
+      };
+    })
+  );
+  return { buses: live, registryIds: new Set(registryIds) };
+}
+
+function getRealtimeBuses() {
+  const now = Date.now();
+  if (!realtimeBusesCache || now - realtimeBusesCache.at > REALTIME_FEED_TTL_MS) {
+    const promise = loadRealtimeBuses();
+    realtimeBusesCache = { at: now, promise };
+    promise.catch(() => {
+      if (realtimeBusesCache && realtimeBusesCache.promise === promise) realtimeBusesCache = null;
+    });
+  }
+  return realtimeBusesCache.promise;
+}
+
+// Helper: protobuf feed, or readable JSON with ?format=json
+// Express adds an ETag and answers 304 when the feed did not change since the poller's copy
+function sendRealtimeFeed(req, res, message) {
+  res.set('Cache-Control', `public, max-age=${REALTIME_FEED_TTL_MS / 1000}`);
+  if (req.query.format === 'json') return res.status(200).json(feedToJson(message));
+  res.set('Content-Type', 'application/x-protobuf');
+  return res.status(200).send(encodeFeed(message));
+}
+
+// GET /api/gtfs/realtime/vehicle-positions - GTFS-Realtime VehiclePositions of online buses
+exports.getVehiclePositionsFeed = async (req, res) => {
+  try {
+    const { buses, registryIds } = await getRealtimeBuses();
+    return sendRealtimeFeed(req, res, buildVehiclePositions(buses, registryIds));
+  } catch (err) {
+    console.error('getVehiclePositionsFeed error:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+};
+
+// GET /api/gtfs/realtime/trip-updates - GTFS-Realtime TripUpdates (predicted arrivals) of online buses
+exports.getTripUpdatesFeed = async (req, res) => {
+  try {
+    const { buses, registryIds } = await getRealtimeBuses();
+    return sendRealtimeFeed(req, res, buildTripUpdates(buses, registryIds));
+  } catch (err) {
+    console.error('getTripUpdatesFeed error:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+};
@@ -0,0 +1,126 @@
+const mongoose = require('mongoose');
+const PerformanceDaily = require('../models/PerformanceDaily');
+const Route = require('../models/Route');
+const Driver = require('../models/Driver');
+const Stop = require('../models/Stop');
+const Trip = require('../models/Trip');
+const { feedSettings } = require('../utils/gtfsExport');
+const { SCOPES, otpSettings } = require('../utils/performance');
+const { addDays, isDate, localDate } = require('../utils/schedule');
+
+const DEFAULT_DAYS = 7;
+const MAX_DAYS = 366;
+
+// Sums daily documents; percentages and averages are derived from the sums
+function summarize(docs) {
+  const sums = { trips: 0, events: 0, early: 0, onTime: 0, late: 0, sumDeviationSecs: 0, maxDeviationSecs: null };
+  for (const d of docs) {
+    sums.trips += d.trips;
+    sums.events += d.events;
+    sums.early += d.early;
+    sums.onTime += d.onTime;
+    sums.late += d.late;
+    sums.sumDeviationSecs += d.sumDeviationSecs;
+    if (d.maxDeviationSecs !== null && (sums.maxDeviationSecs === null || d.maxDeviationSecs > sums.maxDeviationSecs)) {
+      sums.maxDeviationSecs = d.maxDeviationSecs;
+    }
+  }
+  const { sumDeviationSecs, ...totals } = sums;
+  return {
+    ...totals,
+    onTimePct: totals.events ? Math.round((totals.onTime / totals.events) * 1000) / 10 : null,
+    avgDeviationSecs: totals.events ? Math.round(sumDeviationSecs / totals.events) : null,
+  };
+}
+
+const objectIds = (keys) => keys.filter((k) => mongoose.Types.ObjectId.isValid(k));
+
+// Display names per key; keys of deleted routes, drivers and trips have none
+async function findLabels(scope, docs) {
+  const keys = [...new Set(docs.map((d) => d.key))];
+  const labels = new Map();
+  if (scope === 'route') {
+    const routes = await Route.find({ _id: { $in: objectIds(keys) } }, { routeName: 1 }).lean();
+    routes.forEach((r) => labels.set(String(r._id), r.routeName));
+  } else if (scope === 'driver') {
+    const drivers = await Driver.find({ _id: { $in: objectIds(keys) } }, { name: 1 }).lean();
+    drivers.forEach((d) => labels.set(String(d._id), d.name));
+  } else if (scope === 'stop') {
+    // Registry names first, else the name recorded with the events
+    docs.forEach((d) => d.label && labels.set(d.key, d.label));
+    const stops = await Stop.find({ stopId: { $in: keys } }, { stopId: 1, name: 1 }).lean();
+    stops.forEach((s) => labels.set(s.stopId, s.name));
+  } else {
+    const trips = await Trip.find({ _id: { $in: objectIds(keys) } }, { routeId: 1, direction: 1, stopTimes: 1, headwayMinutes: 1 }).lean();
+    const routes = await Route.find({ _id: { $in: trips.map((t) => t.routeId) } }, { routeName: 1 }).lean();
+    const routeNames = new Map(routes.map((r) => [String(r._id), r.routeName]));
+    trips.forEach((t) => {
+      const departure = t.stopTimes.length ? t.stopTimes[0].departureTime.slice(0, 5) : '';
+      const headway = t.headwayMinutes ? ` every ${t.headwayMinutes} min` : '';
+      labels.set(String(t._id), `${routeNames.get(String(t.routeId)) || 'Deleted route'} ${t.direction} ${departure}${headway}`);
+    });
+  }
+  return labels;
+}
+
+// GET /api/admin/reports/performance
+// Query: from, to (YYYY-MM-DD service dates, default the last 7 days), scope (route|driver|stop|trip, default route)
+async function getPerformance(req, res) {
+  try {
+    const today = localDate(Date.now(), feedSettings().timezone);
+    const to = req.query.to === undefined ? today : req.query.to;
+    const from = req.query.from === undefined ? addDays(to, 1 - DEFAULT_DAYS) : req.query.from;
+    const scope = req.query.scope === undefined ? 'route' : req.query.scope;
+    if (!isDate(from) || !isDate(to) || from > to) {
+      return res.status(400).json({ success: false, message: 'from and to must be YYYY-MM-DD dates with from <= to' });
+    }
+    if (addDays(from, MAX_DAYS - 1) < to) {
+      return res.status(400).json({ success: false, message: `At most ${MAX_DAYS} days per report` });
+    }
+    if (!SCOPES.includes(scope)) {
+      return res.status(400).json({ success: false, message: `scope must be one of ${SCOPES.join(', ')}` });
+    }
+
+    const range = { date: { $gte: from, $lte: to } };
+    const [routeDocs, scopeDocs] = await Promise.all([
+      // Every event belongs to a route, so the route figures add up to the totals
+      PerformanceDaily.find({ ...range, scope: 'route' }).lean(),
+      scope === 'route' ? null : PerformanceDaily.find({ ...range, scope }).lean(),
+    ]);
+    const docs = scopeDocs || routeDocs;
+
+    const daily = [];
+    for (let date = from; date <= to; date = addDays(date, 1)) {
+      daily.push({ date, ...summarize(routeDocs.filter((d) => d.date === date)) });
+    }
+
+    const labels = await findLabels(scope, docs);
+    const byKey = new Map();
+    docs.forEach((d) => byKey.set(d.key, [...(byKey.get(d.key) || []), d]));
+    const items = [...byKey.entries()]
+      .map(([key, list]) => ({
+        key,
+        label: labels.get(key) || key,
+        routeId: list[0].routeId,
+        ...summarize(list),
+      }))
+      .sort((a, b) => b.events - a.events);
+
+    const { earlySecs, lateSecs } = otpSettings();
+    return res.status(200).json({
+      success: true,
+      from,
+      to,
+      scope,
+      window: { earlyMinutes: earlySecs / 60, lateMinutes: lateSecs / 60 },
+      totals: summarize(routeDocs),
+      daily,
+      items,
+    });
+  } catch (err) {
+    console.error('getPerformance error:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+}
+
+module.exports = { getPerformance };
@@ -1,8 +1,27 @@
+const mongoose = require('mongoose');
 const Route = require('../models/Route');
 const Polyline = require('../models/Polyline');
-const { callORSWithRetry } = require('../services/orsService');
-const { hset } = require('../utils/redisClient');
-const polyline = require('@mapbox/polyline');
+const Bus = require('../models/Bus');
+const SegmentStat = require('../models/SegmentStat');
+const Diversion = require('../models/Diversion');
+const Timetable = require('../models/Timetable');
+const Trip = require('../models/Trip');
+const Shift = require('../models/Shift');
+const {
+  plainStop,
+  plainViaPoint,
+  resolveRegistryStops,
+  fetchRouteGeometry,
+  computeAndStorePolyline,
+  refreshVersionIndex,
+  addRouteVersion,
+} = require('../services/routeService');
+const { clearSegmentModel } = require('../utils/etaModel');
+const { listVersions, findActiveVersion } = require('../utils/routeVersions');
+const { findPolyline, clearRouteCache } = require('../utils/routeCache');
+
+// A scheduled effectiveFrom this far in the past is taken as "now" (form submission delay)
+const EFFECTIVE_FROM_SLACK_MS = 5 * 60 * 1000;
 
 function isValidStop(stop) {
   if (!stop || typeof stop !== 'object') return false;
@@ -12,71 +31,62 @@ function isValidStop(stop) {
   return hasStrings && hasCoords;
 }
 
-// Fire-and-forget orchestration to compute and store polyline for a saved route
-async function computeAndStorePolyline(route) {
-  try {
-    // Ensure not already created (idempotent)
-    const exists = await Polyline.findOne({ routeId: route._id });
-    if (exists) return;
-
-    // Convert stops to [lon, lat]
-    const coords = route.stops.map((s) => [s.longitude, s.latitude]);
-
-    const { geometry, distance, duration } = await callORSWithRetry(coords);
-
-    // ORS geometry is an encoded polyline string
-    const created = await Polyline.create({
-      routeId: route._id,
-      routeName: route.routeName,
-      geometry, // encoded polyline string
-      distance,
-      duration,
-    });
+// Validates route fields shared by create and update; returns an error message or null
+function validateRouteFields({ routeName, stops, bidirectional }) {
+  if (!routeName) return 'routeName is required';
+  if (!Array.isArray(stops) || stops.length < 2) return 'stops must be an array with at least 2 items';
+  for (const s of stops) {
+    if (!isValidStop(s)) {
+      return 'Each stop must have stopId (string), name (string), latitude (number), longitude (number)';
+    }
+  }
+  if (typeof bidirectional !== 'boolean') return 'bidirectional must be a boolean';
+  return null;
+}
 
-    // Also push decoded coordinates + stops to Redis cache
-    try {
-      const latLng = polyline.decode(geometry); // [[lat,lng], ...]
-      const coordsLngLat = latLng.map(([lat, lng]) => [lng, lat]);
-      await hset(`route:${route._id}`, {
-        polyline: JSON.stringify(coordsLngLat),
-        stops: JSON.stringify(route.stops || [])
-      });
-    } catch (e) {
-      console.warn('Redis HSET for route failed:', e?.message || e);
+// Validates via points against the number of stops; returns an error message or null
+function validateViaPoints(viaPoints, stopCount) {
+  if (!Array.isArray(viaPoints)) return 'viaPoints must be an array';
+  for (const v of viaPoints) {
+    const valid =
+      v && typeof v === 'object' &&
+      Number.isInteger(v.segment) && v.segment >= 0 && v.segment < stopCount - 1 &&
+      typeof v.latitude === 'number' && Number.isFinite(v.latitude) && Math.abs(v.latitude) <= 90 &&
+      typeof v.longitude === 'number' && Number.isFinite(v.longitude) && Math.abs(v.longitude) <= 180;
+    if (!valid) {
+      return `Each via point must have segment (0 to ${stopCount - 2}), latitude (number), longitude (number)`;
     }
+  }
+  return null;
+}
 
-    return created;
-  } catch (err) {
-    console.error('computeAndStorePolyline error:', err.message);
+// Support JSON or text/plain containing JSON
+function parsePayload(body) {
+  let payload = body;
+  if (typeof payload === 'string') {
+    try { payload = JSON.parse(payload); } catch (e) {}
   }
+  return payload && typeof payload === 'object' ? payload : null;
 }
 
 // POST /api/admin/routes
 async function addRoute(req, res) {
   try {
-    // Support JSON or text/plain containing JSON
-    let payload = req.body;
-    if (typeof payload === 'string') {
-      try { payload = JSON.parse(payload); } catch (e) {}
-    }
-
-    if (!payload || typeof payload !== 'object') {
+    const payload = parsePayload(req.body);
+    if (!payload) {
       return res.status(400).json({ success: false, message: 'Invalid JSON body' });
     }
 
     const routeName = typeof payload.routeName === 'string' ? payload.routeName.trim() : '';
-    const stops = Array.isArray(payload.stops) ? payload.stops : [];
+    const bidirectional = payload.bidirectional === undefined ? false : payload.bidirectional;
 
-    if (!routeName) {
-      return res.status(400).json({ success: false, message: 'routeName is required' });
-    }
-    if (!Array.isArray(stops) || stops.length < 2) {
-      return res.status(400).json({ success: false, message: 'stops must be an array with at least 2 items' });
-    }
-    for (const s of stops) {
-      if (!isValidStop(s)) {
-        return res.status(400).json({ success: false, message: 'Each stop must have stopId (string), name (string), latitude (number), longitude (number)' });
-      }
+    const viaPoints = payload.viaPoints === undefined || payload.viaPoints === null ? [] : payload.viaPoints;
+
+    const invalid =
+      validateRouteFields({ routeName, stops: payload.stops, bidirectional }) ||
+      validateViaPoints(viaPoints, payload.stops.length);
+    if (invalid) {
+      return res.status(400).json({ success: false, message: invalid });
     }
 
     // Check duplicate routeName
@@ -85,14 +95,23 @@ async function addRoute(req, res) {
       return res.status(409).json({ success: false, message: 'Route name already exists' });
     }
 
-    const route = await Route.create({ routeName, stops });
+    const stops = await resolveRegistryStops(payload.stops);
+    const vias = viaPoints.map(plainViaPoint);
+    const route = await Route.create({
+      routeName,
+      stops,
+      bidirectional,
+      viaPoints: vias,
+      versions: [{ version: 1, stops, bidirectional, viaPoints: vias, effectiveFrom: new Date(), effectiveTo: null }],
+    });
+    await refreshVersionIndex(route);
 
-    // Immediately compute ORS and persist polyline (synchronous to guarantee DB write)
+    // Immediately compute the geometry and persist polyline (synchronous to guarantee DB write)
     try {
       await computeAndStorePolyline(route);
     } catch (e) {
-      // If ORS fails, return 502 so client can retry or handle accordingly
-      return res.status(502).json({ success: false, message: 'Failed to compute route polyline via ORS', detail: String(e.message || e) });
+      // If routing fails, return 502 so client can retry or handle accordingly
+      return res.status(502).json({ success: false, message: 'Failed to compute route polyline', detail: String(e.message || e) });
     }
 
     return res.status(201).json({ success: true, route });
@@ -102,6 +121,214 @@ async function addRoute(req, res) {
   }
 }
 
+// PUT /api/admin/routes/:id
+// Body: any of { routeName, stops, bidirectional, viaPoints, effectiveFrom }; omitted fields keep their value,
+// except via points, which are dropped when stops are sent without them (they belong to the old segments).
+// Changing stops, bidirectional or via points adds a new route version effective from effectiveFrom (ISO date,
+// default now); buses keep the previous version's geometry until then. routeName is not versioned.
+// When the stop coordinates/order, bidirectional or via points change, the polyline is computed first
+// and the route is only saved if that succeeds.
+async function updateRoute(req, res) {
+  try {
+    const { id } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(404).json({ success: false, message: 'Route not found' });
+    }
+    const payload = parsePayload(req.body);
+    if (!payload) {
+      return res.status(400).json({ success: false, message: 'Invalid JSON body' });
+    }
+
+    const route = await Route.findById(id);
+    if (!route) {
+      return res.status(404).json({ success: false, message: 'Route not found' });
+    }
+
+    const versions = listVersions(route);
+    const head = versions[versions.length - 1];
+    const currentStops = head.stops.map(plainStop);
+    const routeName = payload.routeName === undefined
+      ? route.routeName
+      : typeof payload.routeName === 'string' ? payload.routeName.trim() : '';
+    const stops = payload.stops === undefined ? currentStops : Array.isArray(payload.stops) ? payload.stops : [];
+    const bidirectional = payload.bidirectional === undefined ? head.bidirectional : payload.bidirectional;
+    const currentVias = (head.viaPoints || []).map(plainViaPoint);
+    let viaPoints = payload.viaPoints === undefined || payload.viaPoints === null ? [] : payload.viaPoints;
+    if (payload.viaPoints === undefined && payload.stops === undefined) viaPoints = currentVias;
+
+    const invalid =
+      validateRouteFields({ routeName, stops, bidirectional }) || validateViaPoints(viaPoints, stops.length);
+    if (invalid) {
+      return res.status(400).json({ success: false, message: invalid });
+    }
+
+    const now = Date.now();
+    let effectiveFrom = new Date(now);
+    if (payload.effectiveFrom !== undefined && payload.effectiveFrom !== null && payload.effectiveFrom !== '') {
+      const parsed = new Date(payload.effectiveFrom);
+      if (Number.isNaN(parsed.getTime())) {
+        return res.status(400).json({ success: false, message: 'effectiveFrom must be a valid date' });
+      }
+      if (parsed.getTime() < now - EFFECTIVE_FROM_SLACK_MS) {
+        return res.status(400).json({ success: false, message: 'effectiveFrom cannot be in the past' });
+      }
+      if (parsed.getTime() > now) effectiveFrom = parsed;
+    }
+
+    if (routeName !== route.routeName) {
+      const existing = await Route.findOne({ routeName, _id: { $ne: route._id } });
+      if (existing) {
+        return res.status(409).json({ success: false, message: 'Route name already exists' });
+      }
+    }
+
+    const nextStops = payload.stops === undefined ? currentStops : await resolveRegistryStops(stops);
+    const nextVias = viaPoints.map(plainViaPoint);
+    const coordsOf = (list) => JSON.stringify(list.map((s) => [s.longitude, s.latitude]));
+    const definitionOf = (list) => JSON.stringify(list.map((s) => [s.stopId, s.name, s.longitude, s.latitude]));
+    const viasOf = (list) => JSON.stringify(list.map((v) => [v.segment, v.longitude, v.latitude]));
+    const geometryChanged =
+      coordsOf(nextStops) !== coordsOf(currentStops) ||
+      bidirectional !== head.bidirectional ||
+      viasOf(nextVias) !== viasOf(currentVias);
+    const definitionChanged = geometryChanged || definitionOf(nextStops) !== definitionOf(currentStops);
+
+    if (definitionChanged && effectiveFrom.getTime() <= new Date(head.effectiveFrom).getTime()) {
+      return res.status(400).json({
+        success: false,
+        message: `effectiveFrom must be after the start of version ${head.version} (${new Date(head.effectiveFrom).toISOString()})`,
+      });
+    }
+
+    let geometry = null;
+    if (geometryChanged) {
+      try {
+        geometry = await fetchRouteGeometry(nextStops, bidirectional, nextVias);
+      } catch (e) {
+        return res.status(502).json({ success: false, message: 'Failed to compute route polyline', detail: String(e.message || e) });
+      }
+    }
+
+    const renamed = routeName !== route.routeName;
+    route.routeName = routeName;
+    let nextVersion = null;
+    if (definitionChanged) {
+      // Names only: the new version reuses the previous geometry (geometry stays null)
+      nextVersion = await addRouteVersion(route, { stops: nextStops, bidirectional, viaPoints: nextVias, effectiveFrom }, geometry);
+    } else {
+      await route.save();
+    }
+    if (renamed) {
+      await Polyline.updateMany({ routeId: route._id }, { routeName });
+    }
+
+    return res.status(200).json({
+      success: true,
+      route,
+      version: nextVersion ? nextVersion.version : null,
+      polylineRecomputed: geometryChanged,
+    });
+  } catch (err) {
+    console.error('updateRoute error:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+}
+
+// POST /api/admin/routes/preview
+// Body: { stops, bidirectional?, viaPoints? } as for create; computes the geometry without saving anything.
+// Returns the encoded geometry of each direction with the distance (m) and duration (s) per stop segment, and
+// the routing provider used (fallback: true when it is the straight-line fallback of an unavailable router).
+async function previewRoute(req, res) {
+  try {
+    const payload = parsePayload(req.body);
+    if (!payload) {
+      return res.status(400).json({ success: false, message: 'Invalid JSON body' });
+    }
+    const bidirectional = payload.bidirectional === undefined ? false : payload.bidirectional;
+    const viaPoints = payload.viaPoints === undefined || payload.viaPoints === null ? [] : payload.viaPoints;
+    // routeName is checked on save only
+    const invalid =
+      validateRouteFields({ routeName: 'preview', stops: payload.stops, bidirectional }) ||
+      validateViaPoints(viaPoints, payload.stops.length);
+    if (invalid) {
+      return res.status(400).json({ success: false, message: invalid });
+    }
+
+    const stops = await resolveRegistryStops(payload.stops);
+    let geometry;
+    try {
+      geometry = await fetchRouteGeometry(stops, bidirectional, viaPoints.map(plainViaPoint));
+    } catch (e) {
+      return res.status(502).json({ success: false, message: 'Failed to compute route polyline', detail: String(e.message || e) });
+    }
+
+    const direction = (d) =>
+      d
+        ? { geometry: d.geometry, distance: d.distance, duration: d.duration, segments: d.segments, provider: d.provider, fallback: d.fallback }
+        : null;
+    return res.status(200).json({ success: true, stops, up: direction(geometry.up), down: direction(geometry.down) });
+  } catch (err) {
+    console.error('previewRoute error:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+}
+
+// DELETE /api/admin/routes/:id
+// Refused with 409 while buses are assigned to the route
+async function deleteRoute(req, res) {
+  try {
+    const { id } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(404).json({ success: false, message: 'Route not found' });
+    }
+
+    const route = await Route.findById(id);
+    if (!route) {
+      return res.status(404).json({ success: false, message: 'Route not found' });
+    }
+
+    const routeId = String(route._id);
+    const busCount = await Bus.countDocuments({ routeId });
+    if (busCount > 0) {
+      return res.status(409).json({
+        success: false,
+        message: `Route has ${busCount} bus${busCount === 1 ? '' : 'es'} assigned; reassign them first`,
+        busCount,
+      });
+    }
+    // Running and upcoming roster shifts would start trips on the deleted route
+    const shiftCount = await Shift.countDocuments({ routeId: route._id, endsAt: { $gt: new Date() } });
+    if (shiftCount > 0) {
+      return res.status(409).json({
+        success: false,
+        message: `Route has ${shiftCount} current or upcoming shift${shiftCount === 1 ? '' : 's'}; reassign or delete them first`,
+        shiftCount,
+      });
+    }
+
+    await Promise.all([
+      Polyline.deleteMany({ routeId: route._id }),
+      SegmentStat.deleteMany({ routeId }),
+      Diversion.deleteMany({ routeId: route._id }),
+      Timetable.deleteMany({ routeId: route._id }),
+      Trip.deleteMany({ routeId: route._id }),
+    ]);
+    await route.deleteOne();
+    clearSegmentModel(routeId);
+
+    try {
+      await clearRouteCache(routeId, listVersions(route));
+    } catch (e) {
+      console.warn('Redis DEL for route failed:', e?.message || e);
+    }
+
+    return res.status(200).json({ success: true, routeId });
+  } catch (err) {
+    console.error('deleteRoute error:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+}
+
 // GET /api/admin/routes
 async function getAllRoutes(req, res) {
   try {
@@ -113,9 +340,27 @@ async function getAllRoutes(req, res) {
   }
 }
 
+// Diversions in effect now for commuter maps: closed stops and the alternate path
+// (geometry only when drawn for the given route version); null without diversions
+async function getCurrentDiversion(route, version) {
+  const now = new Date();
+  const docs = await Diversion.find({ routeId: route._id, startsAt: { $lte: now }, endsAt: { $gt: now } })
+    .sort({ startsAt: -1 })
+    .lean();
+  if (!docs.length) return null;
+  const rerouting = docs.find((d) => d.geometry && d.version === version);
+  return {
+    reason: docs.map((d) => d.reason).join('; '),
+    endsAt: new Date(Math.min(...docs.map((d) => new Date(d.endsAt).getTime()))),
+    closedStopIds: Array.from(new Set(docs.flatMap((d) => d.closedStopIds))),
+    geometry: rerouting ? rerouting.geometry : null,
+  };
+}
+
 // GET /api/routes-with-polyline
 // If query param routeName is provided, returns only that route's polyline (minimal payload)
 // Otherwise, returns all routes with their polyline geometry, distance, duration
+// Stops and geometry are those of the route version active now; diversion describes diversions in effect
 async function getRoutesWithPolyline(req, res) {
   try {
     const routeNameQuery = typeof req.query.routeName === 'string' ? req.query.routeName.trim() : '';
@@ -124,33 +369,43 @@ async function getRoutesWithPolyline(req, res) {
       const route = await Route.findOne({ routeName: routeNameQuery });
       if (!route) return res.status(404).json({ message: 'Route not found' });
 
-      let poly = await Polyline.findOne({ routeId: route._id });
+      const active = findActiveVersion(listVersions(route));
+      let poly = await findPolyline(route._id, active.version);
       if (!poly) {
         try {
           // Compute synchronously so frontend immediately gets the polyline
-          await computeAndStorePolyline(route);
-          poly = await Polyline.findOne({ routeId: route._id });
+          await computeAndStorePolyline(route, { version: active.version });
+          poly = await findPolyline(route._id, active.version);
         } catch (e) {
-          return res.status(502).json({ message: 'Failed to compute route polyline via ORS', detail: String(e.message || e) });
+          return res.status(502).json({ message: 'Failed to compute route polyline', detail: String(e.message || e) });
         }
       }
 
+      const diversion = await getCurrentDiversion(route, active.version);
       if (!poly) {
         return res.status(200).json({
           _id: route._id,
           routeName: route.routeName,
+          version: active.version,
+          bidirectional: active.bidirectional,
           geometry: null,
+          downGeometry: null,
           distance: null,
           duration: null,
+          diversion,
         });
       }
 
       return res.status(200).json({
         _id: route._id,
         routeName: route.routeName,
+        version: active.version,
+        bidirectional: active.bidirectional,
         geometry: poly.geometry,
+        downGeometry: poly.downGeometry || null,
         distance: poly.distance,
         duration: poly.duration,
+        diversion,
       });
     }
 
@@ -159,27 +414,39 @@ async function getRoutesWithPolyline(req, res) {
 
     const results = await Promise.all(
       routes.map(async (r) => {
-        const polyDB = await Polyline.findOne({ routeId: r._id });
+        const active = findActiveVersion(listVersions(r));
+        const [polyDB, diversion] = await Promise.all([
+          findPolyline(r._id, active.version),
+          getCurrentDiversion(r, active.version),
+        ]);
         if (polyDB) {
           return {
             _id: r._id,
             routeName: r.routeName,
-            stops: r.stops,
+            version: active.version,
+            stops: active.stops,
+            bidirectional: active.bidirectional,
             geometry: polyDB.geometry, // encoded polyline string
+            downGeometry: polyDB.downGeometry || null, // 'down' trips of bidirectional routes
             distance: polyDB.distance,
             duration: polyDB.duration,
+            diversion,
           };
         }
 
         // If polyline does not exist yet, trigger computation in background
-        computeAndStorePolyline(r).catch(() => {});
+        computeAndStorePolyline(r, { version: active.version }).catch(() => {});
         return {
           _id: r._id,
           routeName: r.routeName,
-          stops: r.stops,
+          version: active.version,
+          stops: active.stops,
+          bidirectional: active.bidirectional,
           geometry: null,
+          downGeometry: null,
           distance: null,
           duration: null,
+          diversion,
         };
       })
     );
@@ -191,4 +458,4 @@ async function getRoutesWithPolyline(req, res) {
   }
 }
 
-module.exports = { addRoute, getAllRoutes, getRoutesWithPolyline };
\ No newline at end of file
+module.exports = { addRoute, updateRoute, previewRoute, deleteRoute, getAllRoutes, getRoutesWithPolyline };
\ No newline at end of file
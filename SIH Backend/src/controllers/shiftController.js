@@ -0,0 +1,270 @@
+const mongoose = require('mongoose');
+const Shift = require('../models/Shift');
+const Driver = require('../models/Driver');
+const Bus = require('../models/Bus');
+const Route = require('../models/Route');
+const { findConflicts, listConflicts, overlapping } = require('../utils/roster');
+
+const HOUR_MS = 60 * 60 * 1000;
+const MAX_SHIFT_HOURS = 24;
+const DEFAULT_LIST_DAYS = 7;
+const MAX_LIST_DAYS = 62;
+
+// Support JSON or text/plain containing JSON
+function parsePayload(body) {
+  let payload = body;
+  if (typeof payload === 'string') {
+    try { payload = JSON.parse(payload); } catch (e) {}
+  }
+  return payload && typeof payload === 'object' ? payload : null;
+}
+
+// Epoch ms of an ISO date-time, or null
+function parseInstant(value) {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const t = Date.parse(value);
+  return Number.isFinite(t) ? t : null;
+}
+
+// Validates and normalizes shift fields; partial=true (update) leaves omitted fields out.
+// routeId may be null (the bus's route). Returns { fields } or { error }.
+function parseShiftFields(payload, { partial = false } = {}) {
+  const fields = {};
+
+  if (!partial || payload.driverId !== undefined) {
+    if (typeof payload.driverId !== 'string' || !mongoose.Types.ObjectId.isValid(payload.driverId)) {
+      return { error: 'driverId must be a driver id' };
+    }
+    fields.driverId = payload.driverId;
+  }
+  if (!partial || payload.busId !== undefined) {
+    const busId = typeof payload.busId === 'string' ? payload.busId.trim() : '';
+    if (!busId) return { error: 'busId is required' };
+    fields.busId = busId;
+  }
+  if (payload.routeId !== undefined && payload.routeId !== null && payload.routeId !== '') {
+    if (typeof payload.routeId !== 'string' || !mongoose.Types.ObjectId.isValid(payload.routeId)) {
+      return { error: 'routeId must be a route id' };
+    }
+    fields.routeId = payload.routeId;
+  } else if (payload.routeId !== undefined) {
+    fields.routeId = null;
+  }
+  for (const key of ['startsAt', 'endsAt']) {
+    if (partial && payload[key] === undefined) continue;
+    const t = parseInstant(payload[key]);
+    if (t === null) return { error: `${key} must be an ISO date-time` };
+    fields[key] = new Date(t);
+  }
+  if (payload.notes !== undefined) {
+    if (typeof payload.notes !== 'string') return { error: 'notes must be a string' };
+    fields.notes = payload.notes.trim();
+  }
+
+  return { fields };
+}
+
+// Checks the driver, bus and route of a complete shift and fills in the bus's route.
+// Returns { shift } or { error }.
+async function resolveShift(shift) {
+  const [driver, bus] = await Promise.all([
+    Driver.findById(shift.driverId, { status: 1 }).lean(),
+    Bus.findOne({ busId: shift.busId }, { routeId: 1 }).lean(),
+  ]);
+  if (!driver) return { error: 'Driver not found' };
+  if (driver.status !== 'active') return { error: 'Driver account is inactive' };
+  if (!bus) return { error: 'Bus not found' };
+
+  const routeId = shift.routeId ? String(shift.routeId) : String(bus.routeId);
+  if (!mongoose.Types.ObjectId.isValid(routeId) || !(await Route.exists({ _id: routeId }))) {
+    return { error: 'Route not found' };
+  }
+
+  const length = new Date(shift.endsAt) - new Date(shift.startsAt);
+  if (length <= 0) return { error: 'endsAt must be after startsAt' };
+  if (length > MAX_SHIFT_HOURS * HOUR_MS) return { error: `A shift lasts at most ${MAX_SHIFT_HOURS} hours` };
+
+  return { shift: { ...shift, routeId } };
+}
+
+// Driver, bus and route names of the given shifts
+async function findLabels(shifts) {
+  const routeIds = [...new Set(shifts.map((s) => String(s.routeId)))];
+  const [drivers, buses, routes] = await Promise.all([
+    Driver.find({ _id: { $in: [...new Set(shifts.map((s) => String(s.driverId)))] } }, { name: 1, username: 1 }).lean(),
+    Bus.find({ busId: { $in: [...new Set(shifts.map((s) => s.busId))] } }, { busId: 1, busNumber: 1 }).lean(),
+    Route.find({ _id: { $in: routeIds } }, { routeName: 1 }).lean(),
+  ]);
+  return {
+    drivers: new Map(drivers.map((d) => [String(d._id), d])),
+    buses: new Map(buses.map((b) => [b.busId, b.busNumber])),
+    routes: new Map(routes.map((r) => [String(r._id), r.routeName])),
+  };
+}
+
+// Names are null once the driver, bus or route is deleted
+const toResponse = (shift, labels, conflicts = []) => {
+  const driver = labels.drivers.get(String(shift.driverId));
+  return {
+    _id: String(shift._id),
+    driverId: String(shift.driverId),
+    driverName: driver ? driver.name : null,
+    driverUsername: driver ? driver.username : null,
+    busId: shift.busId,
+    busNumber: labels.buses.get(shift.busId) || null,
+    routeId: String(shift.routeId),
+    routeName: labels.routes.get(String(shift.routeId)) || null,
+    startsAt: new Date(shift.startsAt).toISOString(),
+    endsAt: new Date(shift.endsAt).toISOString(),
+    notes: shift.notes || '',
+    conflicts,
+    createdAt: shift.createdAt,
+    updatedAt: shift.updatedAt,
+  };
+};
+
+async function respondWithShift(res, status, shift) {
+  const labels = await findLabels([shift]);
+  return res.status(status).json({ success: true, shift: toResponse(shift, labels) });
+}
+
+// 409 body listing the shifts that double-book the driver or the bus
+async function conflictResponse(res, conflicts) {
+  const labels = await findLabels(conflicts.map((c) => c.shift));
+  return res.status(409).json({
+    success: false,
+    message: 'The driver or the bus already has a shift at that time',
+    conflicts: conflicts.map((c) => ({ reasons: c.reasons, shift: toResponse(c.shift, labels) })),
+  });
+}
+
+// GET /api/admin/shifts
+// Query: from, to (ISO date-times, default the next 7 days), driverId, busId.
+// Lists the shifts overlapping [from, to), each with the listed shifts it conflicts with.
+async function listShifts(req, res) {
+  try {
+    const from = req.query.from === undefined ? Date.now() : parseInstant(req.query.from);
+    const to = req.query.to === undefined ? from + DEFAULT_LIST_DAYS * 24 * HOUR_MS : parseInstant(req.query.to);
+    if (from === null || to === null || from >= to) {
+      return res.status(400).json({ success: false, message: 'from and to must be ISO date-times with from < to' });
+    }
+    if (to - from > MAX_LIST_DAYS * 24 * HOUR_MS) {
+      return res.status(400).json({ success: false, message: `At most ${MAX_LIST_DAYS} days per request` });
+    }
+
+    const filter = overlapping(from, to);
+    if (req.query.driverId !== undefined) {
+      if (!mongoose.Types.ObjectId.isValid(req.query.driverId)) {
+        return res.status(400).json({ success: false, message: 'driverId must be a driver id' });
+      }
+      filter.driverId = req.query.driverId;
+    }
+    if (req.query.busId !== undefined) filter.busId = String(req.query.busId);
+
+    const shifts = await Shift.find(filter).sort({ startsAt: 1 }).lean();
+    const labels = await findLabels(shifts);
+    const conflicts = listConflicts(shifts);
+    return res.status(200).json({
+      success: true,
+      from: new Date(from).toISOString(),
+      to: new Date(to).toISOString(),
+      shifts: shifts.map((s) => toResponse(s, labels, conflicts.get(String(s._id)))),
+    });
+  } catch (err) {
+    console.error('listShifts error:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+}
+
+// POST /api/admin/shifts
+// body: { driverId, busId, routeId? (default the bus's route), startsAt, endsAt, notes? }
+async function createShift(req, res) {
+  try {
+    const payload = parsePayload(req.body);
+    if (!payload) {
+      return res.status(400).json({ success: false, message: 'Invalid JSON body' });
+    }
+    const { fields, error } = parseShiftFields(payload);
+    if (error) {
+      return res.status(400).json({ success: false, message: error });
+    }
+    const resolved = await resolveShift(fields);
+    if (resolved.error) {
+      return res.status(400).json({ success: false, message: resolved.error });
+    }
+
+    const conflicts = await findConflicts(resolved.shift);
+    if (conflicts.length) return conflictResponse(res, conflicts);
+
+    const shift = await Shift.create(resolved.shift);
+    return respondWithShift(res, 201, shift.toObject());
+  } catch (err) {
+    console.error('createShift error:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+}
+
+// PUT /api/admin/shifts/:shiftId
+// body: any of the createShift fields; a new busId without routeId moves the shift to the new bus's route
+async function updateShift(req, res) {
+  try {
+    const existing = mongoose.Types.ObjectId.isValid(req.params.shiftId)
+      ? await Shift.findById(req.params.shiftId).lean()
+      : null;
+    if (!existing) {
+      return res.status(404).json({ success: false, message: 'Shift not found' });
+    }
+    const payload = parsePayload(req.body);
+    if (!payload) {
+      return res.status(400).json({ success: false, message: 'Invalid JSON body' });
+    }
+    const { fields, error } = parseShiftFields(payload, { partial: true });
+    if (error) {
+      return res.status(400).json({ success: false, message: error });
+    }
+
+    const merged = {
+      driverId: existing.driverId,
+      busId: existing.busId,
+      routeId: fields.busId !== undefined && fields.busId !== existing.busId ? null : existing.routeId,
+      startsAt: existing.startsAt,
+      endsAt: existing.endsAt,
+      notes: existing.notes,
+      ...fields,
+    };
+    const resolved = await resolveShift(merged);
+    if (resolved.error) {
+      return res.status(400).json({ success: false, message: resolved.error });
+    }
+
+    const conflicts = await findConflicts({ ...resolved.shift, excludeId: existing._id });
+    if (conflicts.length) return conflictResponse(res, conflicts);
+
+    const shift = await Shift.findByIdAndUpdate(existing._id, { $set: resolved.shift }, { new: true }).lean();
+    if (!shift) {
+      return res.status(404).json({ success: false, message: 'Shift not found' });
+    }
+    return respondWithShift(res, 200, shift);
+  } catch (err) {
+    console.error('updateShift error:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+}
+
+// DELETE /api/admin/shifts/:shiftId
+async function deleteShift(req, res) {
+  try {
+    const shift = mongoose.Types.ObjectId.isValid(req.params.shiftId)
+      ? await Shift.findByIdAndDelete(req.params.shiftId).lean()
+      : null;
+    if (!shift) {
+      return res.status(404).json({ success: false, message: 'Shift not found' });
+    }
+    return res.status(200).json({ success: true, shiftId: String(shift._id) });
+  } catch (err) {
+    console.error('deleteShift error:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+}
+
+module.exports = { listShifts, createShift, updateShift, deleteShift };
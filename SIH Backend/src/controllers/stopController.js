@@ -0,0 +1,264 @@
+const { nanoid } = require('nanoid');
+const Stop = require('../models/Stop');
+const Route = require('../models/Route');
+const { listVersions } = require('../utils/routeVersions');
+
+const WHEELCHAIR_BOARDING = ['unknown', 'accessible', 'not_accessible'];
+const ACCESSIBILITY_FLAGS = ['shelter', 'tactilePaving', 'audioAnnouncements'];
+const MAX_IMPORT_STOPS = 1000;
+
+// Support JSON or text/plain containing JSON
+function parsePayload(body) {
+  let payload = body;
+  if (typeof payload === 'string') {
+    try { payload = JSON.parse(payload); } catch (e) {}
+  }
+  return payload && typeof payload === 'object' ? payload : null;
+}
+
+const isCoordinate = (value, limit) => typeof value === 'number' && Number.isFinite(value) && Math.abs(value) <= limit;
+
+// Validates and normalizes stop fields; partial=true (update) leaves omitted fields out.
+// Returns { fields } or { error }.
+function parseStopFields(payload, { partial = false } = {}) {
+  const fields = {};
+
+  if (!partial || payload.name !== undefined) {
+    const name = typeof payload.name === 'string' ? payload.name.trim() : '';
+    if (!name) return { error: 'name is required' };
+    fields.name = name;
+  }
+  for (const [key, limit] of [['latitude', 90], ['longitude', 180]]) {
+    if (partial && payload[key] === undefined) continue;
+    if (!isCoordinate(payload[key], limit)) return { error: `${key} must be a number between -${limit} and ${limit}` };
+    fields[key] = payload[key];
+  }
+
+  if (payload.names !== undefined) {
+    const names = payload.names || {};
+    const entries = typeof names === 'object' && !Array.isArray(names) ? Object.entries(names) : null;
+    if (!entries || entries.some(([lang, value]) => !/^[a-z]{2,3}(-[A-Za-z0-9]+)*$/.test(lang) || typeof value !== 'string')) {
+      return { error: 'names must map language codes (e.g. "hi") to strings' };
+    }
+    // Empty names remove the translation
+    fields.names = Object.fromEntries(entries.map(([lang, value]) => [lang, value.trim()]).filter(([, value]) => value));
+  }
+
+  if (payload.accessibility !== undefined) {
+    const a = payload.accessibility || {};
+    if (typeof a !== 'object' || Array.isArray(a)) return { error: 'accessibility must be an object' };
+    if (a.wheelchairBoarding !== undefined && !WHEELCHAIR_BOARDING.includes(a.wheelchairBoarding)) {
+      return { error: `accessibility.wheelchairBoarding must be one of ${WHEELCHAIR_BOARDING.join(', ')}` };
+    }
+    const flag = ACCESSIBILITY_FLAGS.find((key) => a[key] !== undefined && typeof a[key] !== 'boolean');
+    if (flag) return { error: `accessibility.${flag} must be a boolean` };
+    for (const key of ['wheelchairBoarding', ...ACCESSIBILITY_FLAGS]) {
+      if (a[key] !== undefined) fields[`accessibility.${key}`] = a[key];
+    }
+  }
+
+  return { fields };
+}
+
+// Routes serving each stop: those with a current or upcoming version through it. Past versions
+// do not count, so a stop dropped from a route is no longer served by it once the change is in effect.
+async function findServingRoutes(stopIds) {
+  const served = new Map(stopIds.map((id) => [id, []]));
+  if (!stopIds.length) return served;
+  const routes = await Route.find(
+    { $or: [{ 'versions.stops.stopId': { $in: stopIds } }, { 'stops.stopId': { $in: stopIds } }] },
+    { routeName: 1, stops: 1, bidirectional: 1, versions: 1, createdAt: 1 }
+  ).lean();
+
+  const now = Date.now();
+  for (const route of routes) {
+    const ids = new Set();
+    listVersions(route)
+      .filter((v) => !v.effectiveTo || new Date(v.effectiveTo).getTime() > now)
+      .forEach((v) => v.stops.forEach((s) => ids.add(s.stopId)));
+    for (const id of ids) {
+      if (served.has(id)) served.get(id).push({ routeId: String(route._id), routeName: route.routeName });
+    }
+  }
+  for (const list of served.values()) list.sort((a, b) => a.routeName.localeCompare(b.routeName));
+  return served;
+}
+
+const toResponse = (stop, servedBy = []) => ({
+  _id: stop._id,
+  stopId: stop.stopId,
+  name: stop.name,
+  names: stop.names instanceof Map ? Object.fromEntries(stop.names) : stop.names || {},
+  latitude: stop.latitude,
+  longitude: stop.longitude,
+  accessibility: {
+    wheelchairBoarding: stop.accessibility?.wheelchairBoarding || 'unknown',
+    shelter: !!stop.accessibility?.shelter,
+    tactilePaving: !!stop.accessibility?.tactilePaving,
+    audioAnnouncements: !!stop.accessibility?.audioAnnouncements,
+  },
+  servedBy,
+  createdAt: stop.createdAt,
+  updatedAt: stop.updatedAt,
+});
+
+// Unique stopId ('s' + nanoid); stops keep it for life so routes and feeds can share them
+async function generateStopId() {
+  for (let attempt = 0; attempt < 3; attempt += 1) {
+    const stopId = 's' + nanoid(10);
+    if (!(await Stop.exists({ stopId }))) return stopId;
+  }
+  return null;
+}
+
+// GET /api/admin/stops
+// Query: q filters by name (any language), case-insensitive
+async function listStops(req, res) {
+  try {
+    const q = typeof req.query.q === 'string' ? req.query.q.trim().toLowerCase() : '';
+    let stops = await Stop.find({}).sort({ name: 1 }).lean();
+    if (q) {
+      stops = stops.filter((s) => [s.name, ...Object.values(s.names || {})].some((n) => n.toLowerCase().includes(q)));
+    }
+    const served = await findServingRoutes(stops.map((s) => s.stopId));
+    return res.status(200).json({ success: true, stops: stops.map((s) => toResponse(s, served.get(s.stopId))) });
+  } catch (err) {
+    console.error('listStops error:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+}
+
+// POST /api/admin/stops
+// Body: { name, latitude, longitude, names?, accessibility? }
+async function createStop(req, res) {
+  try {
+    const payload = parsePayload(req.body);
+    if (!payload) {
+      return res.status(400).json({ success: false, message: 'Invalid JSON body' });
+    }
+    const { fields, error } = parseStopFields(payload);
+    if (error) {
+      return res.status(400).json({ success: false, message: error });
+    }
+
+    const stopId = await generateStopId();
+    if (!stopId) {
+      return res.status(500).json({ success: false, message: 'Failed to generate unique stopId' });
+    }
+    const stop = new Stop({ stopId });
+    stop.set(fields);
+    await stop.save();
+
+    return res.status(201).json({ success: true, stop: toResponse(stop) });
+  } catch (err) {
+    console.error('createStop error:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+}
+
+// PUT /api/admin/stops/:stopId
+// Body: any of { name, latitude, longitude, names, accessibility }; omitted fields keep their value.
+// Routes keep the name and coordinates they were saved with; saving a route picks up the new ones.
+async function updateStop(req, res) {
+  try {
+    const stop = await Stop.findOne({ stopId: req.params.stopId });
+    if (!stop) {
+      return res.status(404).json({ success: false, message: 'Stop not found' });
+    }
+    const payload = parsePayload(req.body);
+    if (!payload) {
+      return res.status(400).json({ success: false, message: 'Invalid JSON body' });
+    }
+    const { fields, error } = parseStopFields(payload, { partial: true });
+    if (error) {
+      return res.status(400).json({ success: false, message: error });
+    }
+
+    stop.set(fields);
+    await stop.save();
+
+    const served = await findServingRoutes([stop.stopId]);
+    return res.status(200).json({ success: true, stop: toResponse(stop, served.get(stop.stopId)) });
+  } catch (err) {
+    console.error('updateStop error:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+}
+
+// DELETE /api/admin/stops/:stopId
+// Refused with 409 while a current or upcoming route version serves the stop
+async function deleteStop(req, res) {
+  try {
+    const stop = await Stop.findOne({ stopId: req.params.stopId });
+    if (!stop) {
+      return res.status(404).json({ success: false, message: 'Stop not found' });
+    }
+
+    const servedBy = (await findServingRoutes([stop.stopId])).get(stop.stopId);
+    if (servedBy.length) {
+      return res.status(409).json({
+        success: false,
+        message: `Stop is served by ${servedBy.map((r) => r.routeName).join(', ')}; remove it from ${servedBy.length === 1 ? 'that route' : 'those routes'} first`,
+        servedBy,
+      });
+    }
+
+    await stop.deleteOne();
+    return res.status(200).json({ success: true, stopId: stop.stopId });
+  } catch (err) {
+    console.error('deleteStop error:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+}
+
+// POST /api/admin/stops/import
+// Body: [{ name, latitude, longitude, names?, accessibility? }, ...] (e.g. AdminFront's data/places.json).
+// Stops with the same name and coordinates as a registry stop are skipped, so the import can be repeated.
+async function importStops(req, res) {
+  try {
+    const payload = parsePayload(req.body);
+    const items = Array.isArray(payload) ? payload : payload && Array.isArray(payload.stops) ? payload.stops : null;
+    if (!items || !items.length || items.length > MAX_IMPORT_STOPS) {
+      return res.status(400).json({
+        success: false,
+        message: `Body must be an array of 1 to ${MAX_IMPORT_STOPS} stops`,
+      });
+    }
+
+    const parsed = [];
+    for (let i = 0; i < items.length; i += 1) {
+      const { fields, error } = items[i] && typeof items[i] === 'object' ? parseStopFields(items[i]) : { error: 'invalid stop' };
+      if (error) {
+        return res.status(400).json({ success: false, message: `Stop #${i + 1}: ${error}` });
+      }
+      parsed.push(fields);
+    }
+
+    const keyOf = (s) => `${s.name}|${s.latitude}|${s.longitude}`;
+    const known = new Set((await Stop.find({}, { name: 1, latitude: 1, longitude: 1 }).lean()).map(keyOf));
+    const created = [];
+    let skipped = 0;
+    for (const fields of parsed) {
+      if (known.has(keyOf(fields))) {
+        skipped += 1;
+        continue;
+      }
+      const stopId = await generateStopId();
+      if (!stopId) {
+        return res.status(500).json({ success: false, message: 'Failed to generate unique stopId', created: created.length });
+      }
+      const stop = new Stop({ stopId });
+      stop.set(fields);
+      await stop.save();
+      known.add(keyOf(fields));
+      created.push(toResponse(stop));
+    }
+
+    return res.status(201).json({ success: true, created: created.length, skipped, stops: created });
+  } catch (err) {
+    console.error('importStops error:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+}
+
+module.exports = { listStops, createStop, updateStop, deleteStop, importStops };
@@ -0,0 +1,335 @@
+const mongoose = require('mongoose');
+const Route = require('../models/Route');
+const Timetable = require('../models/Timetable');
+const Trip = require('../models/Trip');
+const { listVersions } = require('../utils/routeVersions');
+const { cacheSchedule } = require('../utils/routeCache');
+const { parseClock, formatClock } = require('../utils/gtfsExport');
+const { WEEKDAYS, isDate } = require('../utils/schedule');
+
+const MAX_TRIPS = 500;
+// Trip times run up to 47:59:59 (a service day's trips may end the next morning)
+const MAX_CLOCK_SECS = 48 * 3600;
+
+// Support JSON or text/plain containing JSON
+function parsePayload(body) {
+  let payload = body;
+  if (typeof payload === 'string') {
+    try { payload = JSON.parse(payload); } catch (e) {}
+  }
+  return payload && typeof payload === 'object' ? payload : null;
+}
+
+// "HH:MM" or "HH:MM:SS" in seconds; null when invalid
+function parseTime(value) {
+  const secs = typeof value === 'string' ? parseClock(value.trim(), null) : null;
+  return secs !== null && secs < MAX_CLOCK_SECS && /:[0-5]\d(:[0-5]\d)?$/.test(value.trim()) ? secs : null;
+}
+
+// Validates a calendar { days, startDate, endDate?, exceptions? }; returns { calendar } or { error }
+function parseCalendar(raw) {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return { error: 'calendar is required' };
+  const days = raw.days === undefined ? [] : raw.days;
+  if (!Array.isArray(days) || days.some((d) => !WEEKDAYS.includes(d))) {
+    return { error: `calendar.days must be an array of ${WEEKDAYS.join(', ')}` };
+  }
+  if (!isDate(raw.startDate)) return { error: 'calendar.startDate must be a YYYY-MM-DD date' };
+  const endDate = raw.endDate === undefined || raw.endDate === null || raw.endDate === '' ? null : raw.endDate;
+  if (endDate !== null && (!isDate(endDate) || endDate < raw.startDate)) {
+    return { error: 'calendar.endDate must be a YYYY-MM-DD date on or after startDate' };
+  }
+  const exceptions = raw.exceptions === undefined || raw.exceptions === null ? [] : raw.exceptions;
+  if (
+    !Array.isArray(exceptions) ||
+    exceptions.some((e) => !e || !isDate(e.date) || !['added', 'removed'].includes(e.type) || (e.note !== undefined && typeof e.note !== 'string'))
+  ) {
+    return { error: 'calendar.exceptions must be an array of { date (YYYY-MM-DD), type (added|removed), note? }' };
+  }
+  if (new Set(exceptions.map((e) => e.date)).size !== exceptions.length) {
+    return { error: 'calendar.exceptions must not list a date twice' };
+  }
+  if (!days.length && !exceptions.some((e) => e.type === 'added')) {
+    return { error: 'calendar must have service on at least one day of the week or an added date' };
+  }
+  return {
+    calendar: {
+      // Kept in week order
+      days: WEEKDAYS.filter((d) => days.includes(d)),
+      startDate: raw.startDate,
+      endDate,
+      exceptions: exceptions
+        .map((e) => ({ date: e.date, type: e.type, note: (e.note || '').trim() }))
+        .sort((a, b) => a.date.localeCompare(b.date)),
+    },
+  };
+}
+
+// Stop orders a trip may follow per direction: those of the route's current and upcoming versions
+function stopOrders(route) {
+  const now = Date.now();
+  const orders = { up: [], down: [] };
+  listVersions(route)
+    .filter((v) => !v.effectiveTo || new Date(v.effectiveTo).getTime() > now)
+    .forEach((v) => {
+      const ids = v.stops.map((s) => s.stopId);
+      orders.up.push(ids);
+      if (v.bidirectional) orders.down.push([...ids].reverse());
+    });
+  return orders;
+}
+
+// True when ids appear in order in sequence (stops may be skipped)
+function isSubsequence(ids, sequence) {
+  let next = 0;
+  for (const id of sequence) {
+    if (next < ids.length && ids[next] === id) next += 1;
+  }
+  return next === ids.length;
+}
+
+// Validates trips [{ direction?, stopTimes: [{ stopId, arrivalTime, departureTime? }], headwayMinutes?, endTime? }]
+// against the route; returns { trips } with normalized times or { error }
+function parseTrips(raw, route) {
+  if (!Array.isArray(raw) || raw.length > MAX_TRIPS) return { error: `trips must be an array of at most ${MAX_TRIPS} trips` };
+  const orders = stopOrders(route);
+  const trips = [];
+  for (let i = 0; i < raw.length; i += 1) {
+    const t = raw[i] || {};
+    const label = `Trip #${i + 1}`;
+    const direction = t.direction === undefined ? 'up' : t.direction;
+    if (!['up', 'down'].includes(direction)) return { error: `${label}: direction must be up or down` };
+    if (!orders[direction].length) return { error: `${label}: the route does not run ${direction} trips` };
+
+    if (!Array.isArray(t.stopTimes) || t.stopTimes.length < 2) return { error: `${label}: stopTimes needs at least 2 stops` };
+    const stopTimes = [];
+    let previous = -1;
+    for (const s of t.stopTimes) {
+      const arrival = parseTime(s && s.arrivalTime);
+      const departure = s && s.departureTime != null && s.departureTime !== '' ? parseTime(s.departureTime) : arrival;
+      if (!s || typeof s.stopId !== 'string' || arrival === null || departure === null) {
+        return { error: `${label}: each stop time needs stopId and arrivalTime/departureTime as HH:MM or HH:MM:SS` };
+      }
+      if (arrival < previous || departure < arrival) {
+        return { error: `${label}: times must not go backwards (at stop ${s.stopId})` };
+      }
+      previous = departure;
+      stopTimes.push({ stopId: s.stopId, arrivalTime: formatClock(arrival), departureTime: formatClock(departure) });
+    }
+    const ids = stopTimes.map((s) => s.stopId);
+    if (!orders[direction].some((sequence) => isSubsequence(ids, sequence))) {
+      return { error: `${label}: stops must be stops of the route in ${direction} driving order` };
+    }
+
+    let headwayMinutes = null;
+    let endTime = null;
+    if (t.headwayMinutes !== undefined && t.headwayMinutes !== null) {
+      headwayMinutes = t.headwayMinutes;
+      const end = parseTime(t.endTime);
+      if (!Number.isInteger(headwayMinutes) || headwayMinutes < 1 || headwayMinutes > 240) {
+        return { error: `${label}: headwayMinutes must be a whole number from 1 to 240` };
+      }
+      if (end === null || end < parseTime(stopTimes[0].departureTime)) {
+        return { error: `${label}: endTime (HH:MM) is required with headwayMinutes and must not be before the first departure` };
+      }
+      endTime = formatClock(end);
+    }
+    trips.push({ direction, stopTimes, headwayMinutes, endTime });
+  }
+  return { trips };
+}
+
+const tripResponse = (t) => ({
+  _id: t._id,
+  direction: t.direction,
+  stopTimes: t.stopTimes.map((s) => ({ stopId: s.stopId, arrivalTime: s.arrivalTime, departureTime: s.departureTime })),
+  headwayMinutes: t.headwayMinutes || null,
+  endTime: t.endTime || null,
+});
+
+// Up trips first, each direction by first departure
+const byDeparture = (a, b) =>
+  (a.direction === b.direction ? 0 : a.direction === 'up' ? -1 : 1) ||
+  a.stopTimes[0].departureTime.localeCompare(b.stopTimes[0].departureTime);
+
+const toResponse = (timetable, trips) => ({
+  _id: timetable._id,
+  routeId: timetable.routeId,
+  name: timetable.name,
+  calendar: {
+    days: timetable.calendar.days,
+    startDate: timetable.calendar.startDate,
+    endDate: timetable.calendar.endDate || null,
+    exceptions: (timetable.calendar.exceptions || []).map((e) => ({ date: e.date, type: e.type, note: e.note || '' })),
+  },
+  tripCount: trips.length,
+  trips: [...trips].sort(byDeparture).map(tripResponse),
+  createdAt: timetable.createdAt,
+  updatedAt: timetable.updatedAt,
+});
+
+// Rebuilds the cached schedule after a change; live ETAs pick it up on the next ping
+async function refreshScheduleCache(routeId) {
+  try {
+    await cacheSchedule(routeId);
+  } catch (e) {
+    console.warn('Redis HSET for schedule failed:', e?.message || e);
+  }
+}
+
+async function findRoute(id) {
+  if (!mongoose.Types.ObjectId.isValid(id)) return null;
+  return Route.findById(id);
+}
+
+async function findTimetable(routeId, timetableId) {
+  if (!mongoose.Types.ObjectId.isValid(routeId) || !mongoose.Types.ObjectId.isValid(timetableId)) return null;
+  return Timetable.findOne({ _id: timetableId, routeId });
+}
+
+// Replaces the trips of a timetable
+async function saveTrips(timetable, trips) {
+  await Trip.deleteMany({ timetableId: timetable._id });
+  if (!trips.length) return [];
+  return Trip.insertMany(trips.map((t) => ({ ...t, timetableId: timetable._id, routeId: timetable.routeId })));
+}
+
+// GET /api/admin/routes/:id/timetables
+async function listTimetables(req, res) {
+  try {
+    const route = await findRoute(req.params.id);
+    if (!route) {
+      return res.status(404).json({ success: false, message: 'Route not found' });
+    }
+    const [timetables, trips] = await Promise.all([
+      Timetable.find({ routeId: route._id }).sort({ createdAt: 1 }).lean(),
+      Trip.find({ routeId: route._id }).lean(),
+    ]);
+    return res.status(200).json({
+      success: true,
+      timetables: timetables.map((t) => toResponse(t, trips.filter((trip) => String(trip.timetableId) === String(t._id)))),
+    });
+  } catch (err) {
+    console.error('listTimetables error:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+}
+
+// POST /api/admin/routes/:id/timetables
+// Body: { name, calendar: { days, startDate, endDate?, exceptions? }, trips? }
+async function createTimetable(req, res) {
+  try {
+    const route = await findRoute(req.params.id);
+    if (!route) {
+      return res.status(404).json({ success: false, message: 'Route not found' });
+    }
+    const payload = parsePayload(req.body);
+    if (!payload) {
+      return res.status(400).json({ success: false, message: 'Invalid JSON body' });
+    }
+
+    const name = typeof payload.name === 'string' ? payload.name.trim() : '';
+    if (!name) {
+      return res.status(400).json({ success: false, message: 'name is required' });
+    }
+    const { calendar, error } = parseCalendar(payload.calendar);
+    if (error) {
+      return res.status(400).json({ success: false, message: error });
+    }
+    const parsed = parseTrips(payload.trips === undefined ? [] : payload.trips, route);
+    if (parsed.error) {
+      return res.status(400).json({ success: false, message: parsed.error });
+    }
+
+    const timetable = await Timetable.create({ routeId: route._id, name, calendar });
+    const trips = await saveTrips(timetable, parsed.trips);
+    await refreshScheduleCache(route._id);
+
+    return res.status(201).json({ success: true, timetable: toResponse(timetable, trips) });
+  } catch (err) {
+    console.error('createTimetable error:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+}
+
+// GET /api/admin/routes/:id/timetables/:timetableId
+async function getTimetable(req, res) {
+  try {
+    const timetable = await findTimetable(req.params.id, req.params.timetableId);
+    if (!timetable) {
+      return res.status(404).json({ success: false, message: 'Timetable not found' });
+    }
+    const trips = await Trip.find({ timetableId: timetable._id }).lean();
+    return res.status(200).json({ success: true, timetable: toResponse(timetable, trips) });
+  } catch (err) {
+    console.error('getTimetable error:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+}
+
+// PUT /api/admin/routes/:id/timetables/:timetableId
+// Body: any of { name, calendar, trips }; trips replaces every trip of the timetable
+async function updateTimetable(req, res) {
+  try {
+    const timetable = await findTimetable(req.params.id, req.params.timetableId);
+    if (!timetable) {
+      return res.status(404).json({ success: false, message: 'Timetable not found' });
+    }
+    const payload = parsePayload(req.body);
+    if (!payload) {
+      return res.status(400).json({ success: false, message: 'Invalid JSON body' });
+    }
+
+    if (payload.name !== undefined) {
+      const name = typeof payload.name === 'string' ? payload.name.trim() : '';
+      if (!name) {
+        return res.status(400).json({ success: false, message: 'name must not be empty' });
+      }
+      timetable.name = name;
+    }
+    if (payload.calendar !== undefined) {
+      const { calendar, error } = parseCalendar(payload.calendar);
+      if (error) {
+        return res.status(400).json({ success: false, message: error });
+      }
+      timetable.calendar = calendar;
+    }
+    let trips = null;
+    if (payload.trips !== undefined) {
+      const route = await Route.findById(timetable.routeId);
+      const parsed = parseTrips(payload.trips, route);
+      if (parsed.error) {
+        return res.status(400).json({ success: false, message: parsed.error });
+      }
+      trips = parsed.trips;
+    }
+
+    await timetable.save();
+    const saved = trips ? await saveTrips(timetable, trips) : await Trip.find({ timetableId: timetable._id }).lean();
+    await refreshScheduleCache(timetable.routeId);
+
+    return res.status(200).json({ success: true, timetable: toResponse(timetable, saved) });
+  } catch (err) {
+    console.error('updateTimetable error:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+}
+
+// DELETE /api/admin/routes/:id/timetables/:timetableId - removes the timetable and its trips
+async function deleteTimetable(req, res) {
+  try {
+    const timetable = await findTimetable(req.params.id, req.params.timetableId);
+    if (!timetable) {
+      return res.status(404).json({ success: false, message: 'Timetable not found' });
+    }
+    await Trip.deleteMany({ timetableId: timetable._id });
+    await timetable.deleteOne();
+    await refreshScheduleCache(timetable.routeId);
+
+    return res.status(200).json({ success: true, timetableId: timetable._id });
+  } catch (err) {
+    console.error('deleteTimetable error:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+}
+
+module.exports = { listTimetables, createTimetable, getTimetable, updateTimetable, deleteTimetable };
@@ -0,0 +1,37 @@
+const { verifyAccessToken } = require('../utils/tokens');
+
+// Extract "Bearer <token>" from the Authorization header
+function getBearerToken(req) {
+  const header = req.headers.authorization || '';
+  const [scheme, token] = header.split(' ');
+  if (!scheme || scheme.toLowerCase() !== 'bearer' || !token) return null;
+  return token.trim();
+}
+
+// Middleware factory: requires a valid access token for the given role
+// On success sets req.auth = { id, role } (+ username for driver tokens)
+function requireRole(role) {
+  return (req, res, next) => {
+    const token = getBearerToken(req);
+    if (!token) {
+      return res.status(401).json({ success: false, message: 'Authentication required' });
+    }
+
+    const claims = verifyAccessToken(token);
+    if (!claims) {
+      return res.status(401).json({ success: false, message: 'Invalid or expired token' });
+    }
+    if (claims.role !== role) {
+      return res.status(403).json({ success: false, message: 'Forbidden' });
+    }
+
+    req.auth = { id: claims.sub, role: claims.role };
+    if (claims.username) req.auth.username = claims.username;
+    return next();
+  };
+}
+
+const requireAdmin = requireRole('admin');
+const requireDriver = requireRole('driver');
+
+module.exports = { getBearerToken, requireRole, requireAdmin, requireDriver };
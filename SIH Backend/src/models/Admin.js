@@ -14,6 +14,11 @@ const AdminSchema = new mongoose.Schema(
       type: String,
       required: true,
     },
+    // Bumped on logout and on every refresh to revoke outstanding refresh tokens
+    tokenVersion: {
+      type: Number,
+      default: 0,
+    },
   },
   {
     timestamps: true,
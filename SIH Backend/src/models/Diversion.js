@@ -0,0 +1,22 @@
+const mongoose = require('mongoose');
+
+// Diversion: temporary change to a route between startsAt and endsAt (road works, events).
+// Buses skip the closed stops and, when geometry is set, follow it instead of the route polyline.
+const DiversionSchema = new mongoose.Schema(
+  {
+    routeId: { type: mongoose.Schema.Types.ObjectId, ref: 'Route', required: true },
+    reason: { type: String, required: true, trim: true },
+    closedStopIds: { type: [String], default: [] },
+    // Alternate path from the first to the last stop ('up' order, encoded polyline); null keeps the route geometry
+    geometry: { type: String, default: null },
+    // Route version the geometry was drawn for; while another version is in effect only the closures apply
+    version: { type: Number, default: null },
+    startsAt: { type: Date, required: true },
+    endsAt: { type: Date, required: true },
+  },
+  { timestamps: true, collection: 'diversions' }
+);
+
+DiversionSchema.index({ routeId: 1, endsAt: 1 });
+
+module.exports = mongoose.model('Diversion', DiversionSchema);
@@ -0,0 +1,30 @@
+const mongoose = require('mongoose');
+
+// Retention for raw pings; MongoDB removes older documents automatically
+const RETENTION_DAYS = Number(process.env.LOCATION_HISTORY_DAYS) || 90;
+
+// LocationPing: every accepted driver ping, stored in a MongoDB time-series collection
+const LocationPingSchema = new mongoose.Schema(
+  {
+    busId: { type: String, required: true }, // time-series metaField
+    recordedAt: { type: Date, required: true }, // device fix time (time-series timeField)
+    receivedAt: { type: Date, default: Date.now },
+    routeId: { type: String, default: null },
+    tripRecordId: { type: mongoose.Schema.Types.ObjectId, ref: 'TripRecord', default: null }, // driven trip active when received
+    lat: { type: Number, required: true },
+    lng: { type: Number, required: true },
+    speed: { type: Number, default: null },
+    accuracy: { type: Number, default: null }, // meters
+    heading: { type: Number, default: null }, // degrees
+  },
+  {
+    collection: 'locationPings',
+    versionKey: false,
+    timeseries: { timeField: 'recordedAt', metaField: 'busId', granularity: 'seconds' },
+    expireAfterSeconds: RETENTION_DAYS * 24 * 60 * 60,
+  }
+);
+
+LocationPingSchema.index({ busId: 1, recordedAt: 1 });
+
+module.exports = mongoose.model('LocationPing', LocationPingSchema);
@@ -0,0 +1,28 @@
+const mongoose = require('mongoose');
+
+// PerformanceDaily: schedule adherence of one service day for one route, driver, stop or trip,
+// aggregated from StopEvents (utils/performance). Rebuilt as a whole for each day.
+const PerformanceDailySchema = new mongoose.Schema(
+  {
+    date: { type: String, required: true }, // service date, YYYY-MM-DD
+    scope: { type: String, enum: ['route', 'driver', 'stop', 'trip'], required: true },
+    key: { type: String, required: true }, // routeId, driverId, stopId or tripId
+    routeId: { type: String, default: null }, // set for routes and trips
+    label: { type: String, default: null }, // stop name as last recorded
+    trips: { type: Number, default: 0 }, // trip runs with at least one event
+    events: { type: Number, default: 0 },
+    early: { type: Number, default: 0 },
+    onTime: { type: Number, default: 0 },
+    late: { type: Number, default: 0 },
+    sumDeviationSecs: { type: Number, default: 0 },
+    maxDeviationSecs: { type: Number, default: null },
+    // On-time window used for early/onTime/late
+    earlySecs: { type: Number, required: true },
+    lateSecs: { type: Number, required: true },
+  },
+  { timestamps: true, collection: 'performanceDaily' }
+);
+
+PerformanceDailySchema.index({ date: 1, scope: 1, key: 1 }, { unique: true });
+
+module.exports = mongoose.model('PerformanceDaily', PerformanceDailySchema);
@@ -2,13 +2,25 @@ const mongoose = require('mongoose');
 
 const PolylineSchema = new mongoose.Schema(
   {
-    routeId: { type: mongoose.Schema.Types.ObjectId, ref: 'Route', required: true, index: true, unique: true },
+    routeId: { type: mongoose.Schema.Types.ObjectId, ref: 'Route', required: true },
+    // Route version this geometry belongs to (see Route.versions); effective dates are copied from it
+    version: { type: Number, default: 1 },
+    effectiveFrom: { type: Date, default: null },
+    effectiveTo: { type: Date, default: null },
     routeName: { type: String, required: true, trim: true },
-    geometry: { type: String, required: true }, // encoded polyline string from ORS
+    geometry: { type: String, required: true }, // encoded polyline string from the routing provider
     distance: { type: Number, required: false }, // in meters
     duration: { type: Number, required: false }, // in seconds
+    // Reverse ('down') direction of bidirectional routes, computed separately for one-way streets
+    downGeometry: { type: String, default: null },
+    downDistance: { type: Number, required: false },
+    downDuration: { type: Number, required: false },
+    // Routing provider that computed the geometry (see services/routingService); null for imported GTFS shapes
+    provider: { type: String, default: null },
   },
   { timestamps: true, collection: 'polylines' }
 );
 
+PolylineSchema.index({ routeId: 1, version: 1 }, { unique: true });
+
 module.exports = mongoose.model('Polyline', PolylineSchema);
\ No newline at end of file
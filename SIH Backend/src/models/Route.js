@@ -10,9 +10,37 @@ const StopSchema = new mongoose.Schema(
   { _id: false }
 );
 
+// Extra routing waypoint between stop `segment` and the next one (0-based, in 'up' order), used where
+// the router picks the wrong road; down trips pass the via points in reverse
+const ViaPointSchema = new mongoose.Schema(
+  {
+    segment: { type: Number, required: true, min: 0 },
+    latitude: { type: Number, required: true },
+    longitude: { type: Number, required: true },
+  },
+  { _id: false }
+);
+
+// One definition of a route's stops, in effect from effectiveFrom until effectiveTo (null = open-ended).
+// Versions of a route never overlap: scheduling a new version closes the previous one at its start.
+const RouteVersionSchema = new mongoose.Schema(
+  {
+    version: { type: Number, required: true, min: 1 },
+    stops: { type: [StopSchema], required: true },
+    bidirectional: { type: Boolean, default: false },
+    viaPoints: { type: [ViaPointSchema], default: [] },
+    effectiveFrom: { type: Date, required: true },
+    effectiveTo: { type: Date, default: null },
+    createdAt: { type: Date, default: Date.now },
+  },
+  { _id: false }
+);
+
 const RouteSchema = new mongoose.Schema(
   {
     routeName: { type: String, required: true, trim: true },
+    // stops/bidirectional/viaPoints hold the latest version (the one the next edit starts from);
+    // use utils/routeVersions to find the version in effect at a given time
     stops: {
       type: [StopSchema],
       validate: {
@@ -23,8 +51,19 @@ const RouteSchema = new mongoose.Schema(
       },
       required: true,
     },
+    // Buses run 'up' trips through the stops in order; a bidirectional route also runs
+    // 'down' trips through the same stops in reverse
+    bidirectional: { type: Boolean, default: false },
+    viaPoints: { type: [ViaPointSchema], default: [] },
+    // Ordered by version; routes created before versioning have none (treated as version 1)
+    versions: { type: [RouteVersionSchema], default: [] },
+    // route_id of the GTFS route this route was imported from; later imports update it
+    gtfsRouteId: { type: String, default: null },
   },
   { timestamps: true }
 );
 
+// Routes serving a registry stop (see stopController)
+RouteSchema.index({ 'versions.stops.stopId': 1 });
+
 module.exports = mongoose.model('Route', RouteSchema);
\ No newline at end of file
@@ -0,0 +1,27 @@
+const mongoose = require('mongoose');
+
+// SegmentStat: observed stop-to-stop travel times for one route segment in one
+// day-of-week/hour bucket. Stored as running sums so updates are a single atomic $inc.
+// Segments are keyed by their stop pair, so history survives reordered stops and new route versions.
+const SegmentStatSchema = new mongoose.Schema(
+  {
+    routeId: { type: String, required: true },
+    direction: { type: String, enum: ['up', 'down'], default: 'up' },
+    fromStopId: { type: String, required: true },
+    toStopId: { type: String, required: true },
+    fromIndex: { type: Number, default: null }, // index of the departure stop in the trip's stop order when last seen
+    dayOfWeek: { type: Number, required: true, min: 0, max: 6 }, // 0 = Sunday (agency time zone, GTFS_AGENCY_TIMEZONE)
+    hour: { type: Number, required: true, min: 0, max: 23 },
+    count: { type: Number, default: 0 },
+    sumSeconds: { type: Number, default: 0 },
+    sumSquares: { type: Number, default: 0 },
+  },
+  { timestamps: true, collection: 'segmentStats' }
+);
+
+SegmentStatSchema.index(
+  { routeId: 1, direction: 1, fromStopId: 1, toStopId: 1, dayOfWeek: 1, hour: 1 },
+  { unique: true }
+);
+
+module.exports = mongoose.model('SegmentStat', SegmentStatSchema);
@@ -0,0 +1,21 @@
+const mongoose = require('mongoose');
+
+// Shift: one duty of the roster - a driver driving a bus on a route from startsAt to endsAt.
+// A driver or bus is never on two overlapping shifts (checked in controllers/shiftController).
+const ShiftSchema = new mongoose.Schema(
+  {
+    driverId: { type: mongoose.Schema.Types.ObjectId, ref: 'Driver', required: true },
+    busId: { type: String, required: true, trim: true }, // Bus.busId
+    routeId: { type: mongoose.Schema.Types.ObjectId, ref: 'Route', required: true },
+    startsAt: { type: Date, required: true },
+    endsAt: { type: Date, required: true },
+    notes: { type: String, default: '', trim: true },
+  },
+  { timestamps: true, collection: 'shifts' }
+);
+
+ShiftSchema.index({ driverId: 1, startsAt: 1 });
+ShiftSchema.index({ busId: 1, startsAt: 1 });
+ShiftSchema.index({ startsAt: 1, endsAt: 1 });
+
+module.exports = mongoose.model('Shift', ShiftSchema);
@@ -0,0 +1,26 @@
+const mongoose = require('mongoose');
+
+// Stop registry: one document per physical stop, shared by every route that serves it.
+// Routes copy stopId/name/coordinates into their versions when saved (see routeService.resolveRegistryStops).
+const StopSchema = new mongoose.Schema(
+  {
+    stopId: { type: String, required: true, unique: true, trim: true },
+    name: { type: String, required: true, trim: true },
+    // Names in other languages by language code, e.g. { hi: '...', mr: '...' }
+    names: { type: Map, of: String, default: {} },
+    latitude: { type: Number, required: true, min: -90, max: 90 },
+    longitude: { type: Number, required: true, min: -180, max: 180 },
+    accessibility: {
+      // Same meaning as GTFS wheelchair_boarding
+      wheelchairBoarding: { type: String, enum: ['unknown', 'accessible', 'not_accessible'], default: 'unknown' },
+      shelter: { type: Boolean, default: false },
+      tactilePaving: { type: Boolean, default: false },
+      audioAnnouncements: { type: Boolean, default: false },
+    },
+  },
+  { timestamps: true, collection: 'stops' }
+);
+
+StopSchema.index({ name: 1 });
+
+module.exports = mongoose.model('Stop', StopSchema);
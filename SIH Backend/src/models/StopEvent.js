@@ -0,0 +1,29 @@
+const mongoose = require('mongoose');
+
+// StopEvent: a bus on a scheduled trip run (utils/schedule) leaving the run's first stop or reaching
+// a later stop, with the scheduled and actual time (see utils/performance)
+const StopEventSchema = new mongoose.Schema(
+  {
+    busId: { type: String, required: true },
+    driverId: { type: mongoose.Schema.Types.ObjectId, ref: 'Driver', default: null }, // driver reporting the position
+    routeId: { type: String, required: true },
+    direction: { type: String, enum: ['up', 'down'], default: 'up' },
+    timetableId: { type: mongoose.Schema.Types.ObjectId, ref: 'Timetable', required: true },
+    tripId: { type: mongoose.Schema.Types.ObjectId, ref: 'Trip', required: true },
+    serviceDate: { type: String, required: true }, // YYYY-MM-DD in the agency time zone
+    runDeparture: { type: Date, required: true }, // scheduled first departure; tells the runs of a headway-based trip apart
+    stopId: { type: String, required: true },
+    stopName: { type: String, default: null },
+    stopSequence: { type: Number, required: true }, // 0-based position in the run's stop times
+    event: { type: String, enum: ['arrival', 'departure'], required: true },
+    scheduledAt: { type: Date, required: true },
+    actualAt: { type: Date, required: true },
+    deviationSecs: { type: Number, required: true }, // actual - scheduled; positive when late
+  },
+  { timestamps: true, collection: 'stopEvents' }
+);
+
+StopEventSchema.index({ busId: 1, tripId: 1, runDeparture: 1, stopId: 1, event: 1 }, { unique: true });
+StopEventSchema.index({ serviceDate: 1 });
+
+module.exports = mongoose.model('StopEvent', StopEventSchema);
@@ -0,0 +1,32 @@
+const mongoose = require('mongoose');
+
+// Service day added to or removed from the calendar, e.g. a public holiday without service
+const CalendarExceptionSchema = new mongoose.Schema(
+  {
+    date: { type: String, required: true }, // YYYY-MM-DD
+    type: { type: String, enum: ['added', 'removed'], required: true },
+    note: { type: String, default: '', trim: true },
+  },
+  { _id: false }
+);
+
+// Timetable: the scheduled trips of a route (see models/Trip) and the days they run.
+// Dates and trip times are local to the agency time zone (GTFS_AGENCY_TIMEZONE).
+const TimetableSchema = new mongoose.Schema(
+  {
+    routeId: { type: mongoose.Schema.Types.ObjectId, ref: 'Route', required: true },
+    name: { type: String, required: true, trim: true },
+    calendar: {
+      // Days of the week with service: mon, tue, wed, thu, fri, sat, sun
+      days: { type: [String], default: [] },
+      startDate: { type: String, required: true }, // YYYY-MM-DD
+      endDate: { type: String, default: null }, // YYYY-MM-DD (inclusive), null = open-ended
+      exceptions: { type: [CalendarExceptionSchema], default: [] },
+    },
+  },
+  { timestamps: true, collection: 'timetables' }
+);
+
+TimetableSchema.index({ routeId: 1 });
+
+module.exports = mongoose.model('Timetable', TimetableSchema);
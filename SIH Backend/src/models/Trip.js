@@ -0,0 +1,31 @@
+const mongoose = require('mongoose');
+
+// Planned arrival/departure at a stop, as HH:MM:SS after midnight of the service day (may exceed 24:00:00)
+const StopTimeSchema = new mongoose.Schema(
+  {
+    stopId: { type: String, required: true },
+    arrivalTime: { type: String, required: true },
+    departureTime: { type: String, required: true },
+  },
+  { _id: false }
+);
+
+// Scheduled trip of a timetable through some or all of the route's stops in driving order.
+// With headwayMinutes it is a headway-based service: stopTimes are the first departure, repeated
+// every headwayMinutes while the first stop's departure is not after endTime.
+const TripSchema = new mongoose.Schema(
+  {
+    timetableId: { type: mongoose.Schema.Types.ObjectId, ref: 'Timetable', required: true },
+    routeId: { type: mongoose.Schema.Types.ObjectId, ref: 'Route', required: true },
+    direction: { type: String, enum: ['up', 'down'], default: 'up' },
+    stopTimes: { type: [StopTimeSchema], required: true },
+    headwayMinutes: { type: Number, default: null, min: 1 },
+    endTime: { type: String, default: null },
+  },
+  { timestamps: true, collection: 'trips' }
+);
+
+TripSchema.index({ timetableId: 1 });
+TripSchema.index({ routeId: 1, direction: 1 });
+
+module.exports = mongoose.model('Trip', TripSchema);
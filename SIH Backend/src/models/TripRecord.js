@@ -0,0 +1,52 @@
+const mongoose = require('mongoose');
+
+// Scheduled trip run the driven trip was last matched to (utils/schedule)
+const ScheduledRunSchema = new mongoose.Schema(
+  {
+    timetableId: { type: mongoose.Schema.Types.ObjectId, ref: 'Timetable', required: true },
+    tripId: { type: mongoose.Schema.Types.ObjectId, ref: 'Trip', required: true },
+    serviceDate: { type: String, required: true },
+    departure: { type: Date, required: true },
+  },
+  { _id: false }
+);
+
+const ServedStopSchema = new mongoose.Schema(
+  {
+    stopId: { type: String, required: true },
+    name: { type: String, default: null },
+    arrivedAt: { type: Date, required: true },
+  },
+  { _id: false }
+);
+
+// TripRecord: a trip driven by a driver, from starting to ending it in the driver app, or until
+// its pings stop (utils/tripRecords). Not a timetable trip: those are Trip documents.
+const TripRecordSchema = new mongoose.Schema(
+  {
+    busId: { type: String, required: true },
+    driverId: { type: mongoose.Schema.Types.ObjectId, ref: 'Driver', required: true },
+    routeId: { type: String, required: true },
+    direction: { type: String, enum: ['up', 'down'], default: 'up' },
+    routeVersion: { type: Number, default: null },
+    scheduledTrip: { type: ScheduledRunSchema, default: null },
+    status: { type: String, enum: ['active', 'completed'], default: 'active' },
+    // driver: ended in the app; timeout: no pings for TRIP_AUTO_CLOSE_MINUTES; replaced: a new trip started
+    endReason: { type: String, enum: ['driver', 'timeout', 'replaced', null], default: null },
+    startedAt: { type: Date, required: true },
+    endedAt: { type: Date, default: null },
+    lastPingAt: { type: Date, default: null },
+    lastPoint: { type: { lat: Number, lng: Number }, default: null, _id: false },
+    pingCount: { type: Number, default: 0 },
+    distanceKm: { type: Number, default: 0 },
+    stopsServed: { type: [ServedStopSchema], default: [] },
+  },
+  { timestamps: true, collection: 'tripRecords' }
+);
+
+// At most one active trip per bus
+TripRecordSchema.index({ busId: 1 }, { unique: true, partialFilterExpression: { status: 'active' } });
+TripRecordSchema.index({ driverId: 1, startedAt: -1 });
+TripRecordSchema.index({ status: 1, lastPingAt: 1 });
+
+module.exports = mongoose.model('TripRecord', TripRecordSchema);
@@ -1,8 +1,69 @@
 // Socket.IO initialization and helpers
+//
+// Protocol (see README "Realtime Socket Protocol"):
+//   client -> server
+//     subscribe:bus     { busId }    join room  bus:<busId>
+//     unsubscribe:bus   { busId }    leave room bus:<busId>
+//     subscribe:route   { routeId }  join room  route:<routeId>
+//     unsubscribe:route { routeId }  leave room route:<routeId>
+//     subscribe:stop    { stopId }   join room  stop:<stopId>
+//     unsubscribe:stop  { stopId }   leave room stop:<stopId>
+//     subscribe:fleet   { token? }   join room  fleet (admin access token, or handshake auth.token)
+//     unsubscribe:fleet              leave room fleet
+//   Every subscribe/unsubscribe accepts an optional ack callback -> { ok, room } or { ok: false, message }
+//   server -> client
+//     bus:update  payload from liveController (busId, routeId, snappedLocation, etaStops, ...)
+//                 also sent to the fleet room for every bus
+// Rooms are not restored by the server after a reconnect; clients re-subscribe on 'connect'.
 const { Server } = require('socket.io');
+const { verifyAccessToken } = require('../utils/tokens');
 
 let io;
 
+// Room name builders shared by subscriptions and emitters
+const busRoom = (busId) => `bus:${busId}`;
+const routeRoom = (routeId) => `route:${routeId}`;
+const stopRoom = (stopId) => `stop:${stopId}`;
+// Fleet-wide admin room: receives every bus:update
+const FLEET_ROOM = 'fleet';
+
+// Registers subscribe:<kind>/unsubscribe:<kind> handlers for one room kind
+function registerRoomHandlers(socket, kind, field, toRoom) {
+  const handle = (join) => (data, ack) => {
+    const id = data && typeof data === 'object' ? data[field] : null;
+    const reply = typeof ack === 'function' ? ack : () => {};
+    if (!id || typeof id !== 'string') {
+      return reply({ ok: false, message: `${field} is required` });
+    }
+    const room = toRoom(id);
+    if (join) socket.join(room);
+    else socket.leave(room);
+    return reply({ ok: true, room });
+  };
+
+  socket.on(`subscribe:${kind}`, handle(true));
+  socket.on(`unsubscribe:${kind}`, handle(false));
+}
+
+// subscribe:fleet is limited to admins; the token may come with the event or the handshake
+function registerFleetHandlers(socket) {
+  socket.on('subscribe:fleet', (data, ack) => {
+    const reply = typeof ack === 'function' ? ack : () => {};
+    const token = (data && typeof data === 'object' && data.token) || socket.handshake.auth?.token;
+    const claims = verifyAccessToken(token);
+    if (!claims || claims.role !== 'admin') {
+      return reply({ ok: false, message: 'Admin access token required' });
+    }
+    socket.join(FLEET_ROOM);
+    return reply({ ok: true, room: FLEET_ROOM });
+  });
+
+  socket.on('unsubscribe:fleet', (_data, ack) => {
+    socket.leave(FLEET_ROOM);
+    if (typeof ack === 'function') ack({ ok: true, room: FLEET_ROOM });
+  });
+}
+
 function initSocket(server) {
   io = new Server(server, {
     cors: {
@@ -12,14 +73,10 @@ function initSocket(server) {
   });
 
   io.on('connection', (socket) => {
-    // Client subscribes to a specific route room to receive bus updates
-    socket.on('subscribe:route', ({ routeId }) => {
-      if (routeId) socket.join(`route:${routeId}`);
-    });
-
-    socket.on('unsubscribe:route', ({ routeId }) => {
-      if (routeId) socket.leave(`route:${routeId}`);
-    });
+    registerRoomHandlers(socket, 'bus', 'busId', busRoom);
+    registerRoomHandlers(socket, 'route', 'routeId', routeRoom);
+    registerRoomHandlers(socket, 'stop', 'stopId', stopRoom);
+    registerFleetHandlers(socket);
   });
 
   return io;
@@ -30,11 +87,17 @@ function getIO() {
   return io;
 }
 
-function emitBusUpdate(routeId, payload) {
-  if (!io) return;
-  const room = routeId ? `route:${routeId}` : undefined;
-  if (room) io.to(room).emit('bus:update', payload);
-  else io.emit('bus:update', payload);
+// Fan out a bus update to its bus room, its route room, the room of every stop on the route
+// and the admin fleet room.
+// Socket.IO delivers once per socket even when a client sits in several of these rooms.
+function emitBusUpdate(payload) {
+  if (!io || !payload || !payload.busId) return;
+  const rooms = [busRoom(payload.busId), FLEET_ROOM];
+  if (payload.routeId) rooms.push(routeRoom(payload.routeId));
+  for (const stop of payload.etaStops || []) {
+    if (stop && stop.stopId) rooms.push(stopRoom(stop.stopId));
+  }
+  io.to(rooms).emit('bus:update', payload);
 }
 
-module.exports = { initSocket, getIO, emitBusUpdate };
\ No newline at end of file
+module.exports = { initSocket, getIO, emitBusUpdate, busRoom, routeRoom, stopRoom, FLEET_ROOM };
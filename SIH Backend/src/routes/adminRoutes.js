@@ -1,31 +1,24 @@
 const express = require('express');
 const bcrypt = require('bcrypt');
 const Admin = require('../models/Admin');
+const { requireAdmin } = require('../middleware/auth');
+const { issueTokenPair, verifyRefreshToken } = require('../utils/tokens');
 
 const router = express.Router();
 
+// Accept JSON body OR text/plain containing JSON
+function readBody(req) {
+  if (typeof req.body === 'string') {
+    try { return JSON.parse(req.body) || {}; } catch (e) { return {}; }
+  }
+  return req.body && typeof req.body === 'object' ? req.body : {};
+}
+
 // POST /api/admin/login
 // Body: { email, password }
 router.post('/login', async (req, res) => {
   try {
-    // Debug log to diagnose empty body issues
-    // Note: remove or reduce in production
-    console.log('Login headers:', req.headers);
-    console.log('Login body:', req.body);
-
-    // Accept JSON body OR text/plain containing JSON
-    let email, password;
-    if (typeof req.body === 'string') {
-      try {
-        const parsed = JSON.parse(req.body);
-        email = parsed?.email;
-        password = parsed?.password;
-      } catch (e) {
-        // fall through; will trigger validation error below
-      }
-    } else if (req.body && typeof req.body === 'object') {
-      ({ email, password } = req.body);
-    }
+    const { email, password } = readBody(req);
 
     // Basic validation
     if (!email || !password) {
@@ -38,23 +31,63 @@ router.post('/login', async (req, res) => {
     // Find admin by email
     const admin = await Admin.findOne({ email: normalizedEmail });
     if (!admin) {
-      console.log('Login debug: admin not found for email:', normalizedEmail);
       return res.status(200).json({ loginSuccess: false, message: 'Invalid credentials' });
     }
 
     // Compare password using bcrypt
     const isMatch = await bcrypt.compare(String(password), admin.password);
-    console.log('Login debug: adminId:', String(admin._id), 'isMatch:', isMatch);
     if (!isMatch) {
       return res.status(200).json({ loginSuccess: false, message: 'Invalid credentials' });
     }
 
-    // Success: return adminId
-    return res.status(200).json({ loginSuccess: true, adminId: admin._id });
+    // Success: return adminId + signed access/refresh tokens
+    const tokens = issueTokenPair({ sub: admin._id, role: 'admin', ver: admin.tokenVersion || 0 });
+    return res.status(200).json({ loginSuccess: true, adminId: admin._id, ...tokens });
   } catch (err) {
     console.error('Login error:', err);
     return res.status(500).json({ loginSuccess: false, message: 'Server error' });
   }
 });
 
+// POST /api/admin/refresh
+// Body: { refreshToken } -> new access token + rotated refresh token
+router.post('/refresh', async (req, res) => {
+  try {
+    const { refreshToken } = readBody(req);
+    const claims = verifyRefreshToken(refreshToken);
+    if (!claims || claims.role !== 'admin') {
+      return res.status(401).json({ success: false, message: 'Invalid or expired refresh token' });
+    }
+
+    // Rotation: bumping tokenVersion makes this refresh token (and any issued before the last
+    // logout or refresh) invalid; only a token with the current version matches
+    const admin = await Admin.findOneAndUpdate(
+      { _id: claims.sub, tokenVersion: claims.ver === 0 ? { $in: [0, null] } : claims.ver },
+      { $inc: { tokenVersion: 1 } },
+      { new: true }
+    ).lean();
+    if (!admin) {
+      return res.status(401).json({ success: false, message: 'Invalid or expired refresh token' });
+    }
+
+    const tokens = issueTokenPair({ sub: admin._id, role: 'admin', ver: admin.tokenVersion });
+    return res.status(200).json({ success: true, adminId: admin._id, ...tokens });
+  } catch (err) {
+    console.error('Refresh error:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// POST /api/admin/logout (protected)
+// Revokes every refresh token issued to this admin
+router.post('/logout', requireAdmin, async (req, res) => {
+  try {
+    await Admin.updateOne({ _id: req.auth.id }, { $inc: { tokenVersion: 1 } });
+    return res.status(200).json({ success: true });
+  } catch (err) {
+    console.error('Logout error:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
 module.exports = router;
\ No newline at end of file
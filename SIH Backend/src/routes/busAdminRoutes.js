@@ -1,12 +1,18 @@
 const express = require('express');
-const { addBus } = require('../controllers/busController');
+const { addBus, getBusHistory } = require('../controllers/busController');
+const { getFleetLive } = require('../controllers/liveController');
 
 const router = express.Router();
 
-// NOTE: Plug your admin auth middleware here if not applied globally on /api/admin
-// router.use(require('../middleware/auth'));
+// Admin auth (requireAdmin) is applied to /api/admin in server.js
 
 // POST /api/admin/buses - Create a new bus (protected)
 router.post('/buses', addBus);
 
+// GET /api/admin/buses/live - Live state of the whole fleet (protected)
+router.get('/buses/live', getFleetLive);
+
+// GET /api/admin/buses/:busId/history?from&to&zoom - Recorded location history (protected)
+router.get('/buses/:busId/history', getBusHistory);
+
 module.exports = router;
\ No newline at end of file
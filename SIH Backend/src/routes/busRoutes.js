@@ -1,14 +1,18 @@
 const express = require('express');
 const { getAllBuses } = require('../controllers/busController');
-const { updateBusLocation, getLiveBus } = require('../controllers/liveController');
+const { updateBusLocation, updateBusLocationBatch, getLiveBus } = require('../controllers/liveController');
+const { requireDriver } = require('../middleware/auth');
 
 const router = express.Router();
 
 // GET /api/buses - Public endpoint to get all buses (cached)
 router.get('/buses', getAllBuses);
 
-// POST /api/bus/update-location - Driver pushes live location
-router.post('/bus/update-location', updateBusLocation);
+// POST /api/bus/update-location - Driver pushes live location (driver token required)
+router.post('/bus/update-location', requireDriver, updateBusLocation);
+
+// POST /api/bus/update-location/batch - Driver uploads queued, timestamped points (driver token required)
+router.post('/bus/update-location/batch', requireDriver, updateBusLocationBatch);
 
 // GET /api/bus/:id/live - Last known location + ETA
 router.get('/bus/:id/live', getLiveBus);
@@ -3,21 +3,45 @@ const {
   loginDriver,
   getAssignedBusForDriver,
   getDriverProfile,
+  getDriverDuties,
 } = require('../controllers/driverController');
+const { startTrip, endTrip, getActiveTrip } = require('../controllers/liveController');
+const { requireDriver } = require('../middleware/auth');
 
 const router = express.Router();
 
+// Drivers may only read their own data: :username must match the session token
+function requireSameDriver(req, res, next) {
+  const username = String(req.params.username || '').toLowerCase().trim();
+  if (!req.auth || req.auth.username !== username) {
+    return res.status(403).json({ success: false, message: 'Forbidden' });
+  }
+  return next();
+}
+
 // Tolerant body parsing for driver app (accept any content-type as text)
 router.use(express.text({ type: '*/*' }));
 
 // Driver App APIs
-// POST /api/driver/login
+// POST /api/driver/login - returns { token, driver }
 router.post('/login', loginDriver);
 
-// GET /api/driver/:username/bus
-router.get('/:username/bus', getAssignedBusForDriver);
+// POST /api/driver/trips/start - Start a trip on the assigned bus (driver token required)
+router.post('/trips/start', requireDriver, startTrip);
+
+// POST /api/driver/trips/end - End the driver's active trip (driver token required)
+router.post('/trips/end', requireDriver, endTrip);
+
+// GET /api/driver/trips/active - The driver's active trip, or null (driver token required)
+router.get('/trips/active', requireDriver, getActiveTrip);
+
+// GET /api/driver/:username/bus (driver token required)
+router.get('/:username/bus', requireDriver, requireSameDriver, getAssignedBusForDriver);
+
+// GET /api/driver/:username/duties?days=7 - Today's and upcoming roster shifts (driver token required)
+router.get('/:username/duties', requireDriver, requireSameDriver, getDriverDuties);
 
-// GET /api/driver/:username/profile
-router.get('/:username/profile', getDriverProfile);
+// GET /api/driver/:username/profile (driver token required)
+router.get('/:username/profile', requireDriver, requireSameDriver, getDriverProfile);
 
 module.exports = router;
\ No newline at end of file
@@ -3,8 +3,7 @@ const { addDriver, getAllDrivers } = require('../controllers/driverController');
 
 const router = express.Router();
 
-// NOTE: Assuming auth/session middleware exists and is applied at a higher level
-// If needed, plug it here: router.use(require('../middleware/auth'));
+// Admin auth (requireAdmin) is applied to /api/admin in server.js
 
 // POST /api/admin/drivers - Add driver (protected)
 router.post('/drivers', addDriver);
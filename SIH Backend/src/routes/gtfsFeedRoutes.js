@@ -0,0 +1,16 @@
+const express = require('express');
+const { exportGtfs } = require('../controllers/gtfsController');
+const { getVehiclePositionsFeed, getTripUpdatesFeed } = require('../controllers/liveController');
+
+const router = express.Router();
+
+// Public feeds for journey planners; mounted under /api only (the admin GTFS endpoints are in gtfsRoutes)
+
+// Public: GET /api/gtfs/static.zip - GTFS static feed for journey planners
+router.get('/gtfs/static.zip', exportGtfs);
+
+// Public: GET /api/gtfs/realtime/vehicle-positions and /trip-updates - GTFS-Realtime protobuf (?format=json to debug)
+router.get('/gtfs/realtime/vehicle-positions', getVehiclePositionsFeed);
+router.get('/gtfs/realtime/trip-updates', getTripUpdatesFeed);
+
+module.exports = router;
@@ -0,0 +1,20 @@
+const express = require('express');
+const { importGtfs, validateGtfs } = require('../controllers/gtfsController');
+
+const router = express.Router();
+
+// Admin auth (requireAdmin) is applied to /api/admin in server.js
+
+// Feed zips are sent as the raw request body
+const zipBody = express.raw({
+  type: ['application/zip', 'application/x-zip-compressed', 'application/octet-stream'],
+  limit: '50mb',
+});
+
+// POST /api/admin/gtfs/import - Import routes from a GTFS static feed zip, ?dryRun=true to preview (protected)
+router.post('/gtfs/import', zipBody, importGtfs);
+
+// GET /api/admin/gtfs/validate - Errors and warnings of the GTFS feed before it is published (protected)
+router.get('/gtfs/validate', validateGtfs);
+
+module.exports = router;
@@ -4,6 +4,7 @@ const { getRoutesWithPolyline } = require('../controllers/routeController');
 const router = express.Router();
 
 // Public: GET /api/routes-with-polyline - All routes with polyline, distance, duration
+// Also mounted under /api/admin ahead of the admin auth middleware for existing clients
 router.get('/routes-with-polyline', getRoutesWithPolyline);
 
 module.exports = router;
\ No newline at end of file
@@ -0,0 +1,11 @@
+const express = require('express');
+const { getPerformance } = require('../controllers/reportController');
+
+const router = express.Router();
+
+// Admin auth (requireAdmin) is applied to /api/admin in server.js
+
+// GET /api/admin/reports/performance - On-time performance per day and per route, driver, stop or trip (protected)
+router.get('/reports/performance', getPerformance);
+
+module.exports = router;
@@ -1,18 +1,61 @@
 const express = require('express');
-const { addRoute, getAllRoutes, getRoutesWithPolyline } = require('../controllers/routeController');
+const { addRoute, updateRoute, previewRoute, deleteRoute, getAllRoutes } = require('../controllers/routeController');
+const { createDiversion, listDiversions, endDiversion } = require('../controllers/diversionController');
+const {
+  listTimetables,
+  createTimetable,
+  getTimetable,
+  updateTimetable,
+  deleteTimetable,
+} = require('../controllers/timetableController');
+const { rebuildSegmentStats } = require('../controllers/liveController');
 
 const router = express.Router();
 
-// NOTE: Plug your admin auth middleware here if not applied globally on /api/admin
-// router.use(require('../middleware/auth'));
+// Admin auth (requireAdmin) is applied to /api/admin in server.js
 
 // POST /api/admin/routes - Create a new route (protected)
 router.post('/routes', addRoute);
 
+// POST /api/admin/routes/preview - Road geometry and per-segment distance/duration without saving (protected)
+router.post('/routes/preview', previewRoute);
+
 // GET /api/admin/routes - Get all routes (protected)
 router.get('/routes', getAllRoutes);
 
-// Public: GET /api/admin/routes-with-polyline - All routes with polyline, distance, duration
-router.get('/routes-with-polyline', getRoutesWithPolyline);
+// PUT /api/admin/routes/:id - Update name, stops or bidirectional; recomputes the polyline when stops change (protected)
+router.put('/routes/:id', updateRoute);
+
+// DELETE /api/admin/routes/:id - Delete a route without buses (protected)
+router.delete('/routes/:id', deleteRoute);
+
+// POST /api/admin/routes/:id/diversions - Close stops and/or reroute between two dates (protected)
+router.post('/routes/:id/diversions', createDiversion);
+
+// GET /api/admin/routes/:id/diversions - Current and upcoming diversions, ?all=true for ended ones too (protected)
+router.get('/routes/:id/diversions', listDiversions);
+
+// DELETE /api/admin/routes/:id/diversions/:diversionId - End a diversion now or cancel an upcoming one (protected)
+router.delete('/routes/:id/diversions/:diversionId', endDiversion);
+
+// GET /api/admin/routes/:id/timetables - Timetables of a route with their trips (protected)
+router.get('/routes/:id/timetables', listTimetables);
+
+// POST /api/admin/routes/:id/timetables - Create a timetable (calendar + trips) (protected)
+router.post('/routes/:id/timetables', createTimetable);
+
+// GET /api/admin/routes/:id/timetables/:timetableId - One timetable with its trips (protected)
+router.get('/routes/:id/timetables/:timetableId', getTimetable);
+
+// PUT /api/admin/routes/:id/timetables/:timetableId - Update name/calendar, or replace the trips (protected)
+router.put('/routes/:id/timetables/:timetableId', updateTimetable);
+
+// DELETE /api/admin/routes/:id/timetables/:timetableId - Delete a timetable and its trips (protected)
+router.delete('/routes/:id/timetables/:timetableId', deleteTimetable);
+
+// POST /api/admin/routes/:id/segment-stats/rebuild - Relearn segment times from the stored ping history (protected)
+router.post('/routes/:id/segment-stats/rebuild', rebuildSegmentStats);
+
+// GET /api/admin/routes-with-polyline stays public and is served by publicRoutes
 
 module.exports = router;
\ No newline at end of file
@@ -0,0 +1,20 @@
+const express = require('express');
+const { listShifts, createShift, updateShift, deleteShift } = require('../controllers/shiftController');
+
+const router = express.Router();
+
+// Admin auth (requireAdmin) is applied to /api/admin in server.js
+
+// GET /api/admin/shifts?from&to&driverId&busId - Duty roster shifts in a period, with conflicts (protected)
+router.get('/shifts', listShifts);
+
+// POST /api/admin/shifts - Add a shift; 409 when it double-books the driver or the bus (protected)
+router.post('/shifts', createShift);
+
+// PUT /api/admin/shifts/:shiftId - Change driver, bus, route, times or notes (protected)
+router.put('/shifts/:shiftId', updateShift);
+
+// DELETE /api/admin/shifts/:shiftId - Remove a shift from the roster (protected)
+router.delete('/shifts/:shiftId', deleteShift);
+
+module.exports = router;
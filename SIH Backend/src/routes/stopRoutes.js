@@ -0,0 +1,23 @@
+const express = require('express');
+const { listStops, createStop, updateStop, deleteStop, importStops } = require('../controllers/stopController');
+
+const router = express.Router();
+
+// Admin auth (requireAdmin) is applied to /api/admin in server.js
+
+// GET /api/admin/stops - Stop registry with the routes serving each stop, ?q= to search by name (protected)
+router.get('/stops', listStops);
+
+// POST /api/admin/stops - Add a stop to the registry (protected)
+router.post('/stops', createStop);
+
+// POST /api/admin/stops/import - Add many stops at once, skipping ones already registered (protected)
+router.post('/stops/import', importStops);
+
+// PUT /api/admin/stops/:stopId - Update name, translations, coordinates or accessibility (protected)
+router.put('/stops/:stopId', updateStop);
+
+// DELETE /api/admin/stops/:stopId - Delete a stop no route serves (protected)
+router.delete('/stops/:stopId', deleteStop);
+
+module.exports = router;
@@ -13,8 +13,18 @@ const routeRoutes = require('./routes/routeRoutes');
 const busRoutes = require('./routes/busRoutes');
 const busAdminRoutes = require('./routes/busAdminRoutes');
 const driverAppRoutes = require('./routes/driverAppRoutes');
+const publicRoutes = require('./routes/publicRoutes');
+const gtfsRoutes = require('./routes/gtfsRoutes');
+const gtfsFeedRoutes = require('./routes/gtfsFeedRoutes');
+const stopRoutes = require('./routes/stopRoutes');
+const reportRoutes = require('./routes/reportRoutes');
+const shiftRoutes = require('./routes/shiftRoutes');
+const { requireAdmin } = require('./middleware/auth');
 const { initSocket } = require('./realtime/socket');
-// const publicRoutes = require('./routes/publicRoutes');
+const Polyline = require('./models/Polyline');
+const SegmentStat = require('./models/SegmentStat');
+const { startDailyAggregation } = require('./utils/performance');
+const { startTripAutoClose } = require('./utils/tripRecords');
 
 const app = express();
 
@@ -44,13 +54,20 @@ app.use((err, req, res, next) => {
 app.get('/health', (req, res) => res.json({ ok: true }));
 
 // Routes
-app.use('/api/admin', adminRoutes);
-app.use('/api/admin', driverRoutes); // protected middleware should be applied at a higher level
-app.use('/api/admin', routeRoutes); // protected middleware should be applied at a higher level
+app.use('/api/admin', adminRoutes); // login/refresh are public, logout checks its own token
+app.use('/api/admin', publicRoutes); // legacy public path for routes-with-polyline (used by userFront)
+app.use('/api/admin', requireAdmin); // everything below on /api/admin requires an admin access token
+app.use('/api/admin', driverRoutes);
+app.use('/api/admin', routeRoutes);
+app.use('/api/admin', stopRoutes); // stop registry
 app.use('/api/admin', busAdminRoutes); // admin buses routes
+app.use('/api/admin', gtfsRoutes); // GTFS feed import
+app.use('/api/admin', reportRoutes); // on-time performance reports
+app.use('/api/admin', shiftRoutes); // duty roster
 app.use('/api', busRoutes); // public buses endpoint
 app.use('/api/driver', driverAppRoutes); // driver app endpoints
-// app.use('/api', publicRoutes); // public endpoints
+app.use('/api', publicRoutes); // public endpoints
+app.use('/api', gtfsFeedRoutes); // public GTFS static and realtime feeds
 
 // Mongo connection
 const MONGO_URI = process.env.MONGO_URI;
@@ -65,6 +82,15 @@ mongoose
   })
   .then(() => {
     console.log('MongoDB connected');
+    // Polylines are stored per route version; drop the old one-polyline-per-route unique index
+    Polyline.collection.dropIndex('routeId_1').catch(() => {});
+    // Segment times are keyed by stop pair; drop the old indexes keyed by stop position
+    SegmentStat.collection.dropIndex('routeId_1_fromIndex_1_dayOfWeek_1_hour_1').catch(() => {});
+    SegmentStat.collection.dropIndex('routeId_1_direction_1_fromIndex_1_dayOfWeek_1_hour_1').catch(() => {});
+    // Daily on-time performance from recorded stop events
+    startDailyAggregation();
+    // Close driven trips whose pings stopped
+    startTripAutoClose();
   })
   .catch((err) => {
     console.error('MongoDB connection error:', err.message);
@@ -0,0 +1,173 @@
+const Polyline = require('../models/Polyline');
+const Stop = require('../models/Stop');
+const { computeRoute } = require('./routingService');
+const { listVersions, findActiveVersion } = require('../utils/routeVersions');
+const { findPolyline, cacheVersionIndex, cacheVersionGeometry } = require('../utils/routeCache');
+
+// Route writes shared by the route admin API and the GTFS import
+
+const plainStop = (s) => ({ stopId: s.stopId, name: s.name, latitude: s.latitude, longitude: s.longitude });
+const plainViaPoint = (v) => ({ segment: v.segment, latitude: v.latitude, longitude: v.longitude });
+
+// Stops whose stopId is in the stop registry take the registry's name and coordinates;
+// other stops (created before the registry, or imported from GTFS) are kept as sent
+async function resolveRegistryStops(stops) {
+  const ids = Array.from(new Set(stops.map((s) => s.stopId)));
+  const registry = await Stop.find({ stopId: { $in: ids } }, { stopId: 1, name: 1, latitude: 1, longitude: 1 }).lean();
+  const byId = new Map(registry.map((r) => [r.stopId, r]));
+  return stops.map((s) => plainStop(byId.get(s.stopId) || s));
+}
+
+// Routing waypoints ([lon, lat]) of the stops with the via points of each segment after its first stop,
+// and the waypoint index of each stop
+function routeWaypoints(stops, viaPoints) {
+  const coords = [];
+  const stopAt = [];
+  stops.forEach((s, i) => {
+    stopAt.push(coords.length);
+    coords.push([s.longitude, s.latitude]);
+    viaPoints.filter((v) => v.segment === i).forEach((v) => coords.push([v.longitude, v.latitude]));
+  });
+  return { coords, stopAt };
+}
+
+// Distance (m) and duration (s) between consecutive stops, summed over the routing legs in between
+function stopSegments(result, stops, stopAt) {
+  const legs = result.legs || [];
+  const complete = legs.length === stopAt[stopAt.length - 1];
+  return stops.slice(1).map((s, i) => {
+    const between = complete ? legs.slice(stopAt[i], stopAt[i + 1]) : [];
+    return {
+      fromStopId: stops[i].stopId,
+      toStopId: s.stopId,
+      distance: complete ? between.reduce((sum, leg) => sum + (leg.distance || 0), 0) : null,
+      duration: complete ? between.reduce((sum, leg) => sum + (leg.duration || 0), 0) : null,
+    };
+  });
+}
+
+// Road geometry for a stop sequence ('down' too for bidirectional routes), each with the distance and
+// duration per stop segment and the routing provider used; throws when routing fails
+async function fetchRouteGeometry(stops, bidirectional, viaPoints = []) {
+  const upWay = routeWaypoints(stops, viaPoints);
+  const upResult = await computeRoute(upWay.coords);
+  const up = { ...upResult, segments: stopSegments(upResult, stops, upWay.stopAt) };
+  if (!bidirectional) return { up, down: null };
+
+  // Bidirectional routes also get the 'down' geometry through the stops (and via points) in reverse
+  const downStops = [...stops].reverse();
+  const last = upWay.coords.length - 1;
+  const downResult = await computeRoute([...upWay.coords].reverse());
+  const downStopAt = [...upWay.stopAt].reverse().map((index) => last - index);
+  const down = { ...downResult, segments: stopSegments(downResult, downStops, downStopAt) };
+  return { up, down };
+}
+
+// Creates or replaces the Polyline document of a route version and refreshes its Redis cache
+async function storeRouteGeometry(route, versionDef, { up, down }) {
+  const saved = await Polyline.findOneAndUpdate(
+    { routeId: route._id, version: versionDef.version === 1 ? { $in: [1, null] } : versionDef.version },
+    {
+      routeId: route._id,
+      routeName: route.routeName,
+      version: versionDef.version,
+      effectiveFrom: versionDef.effectiveFrom,
+      effectiveTo: versionDef.effectiveTo || null,
+      geometry: up.geometry, // encoded polyline string
+      distance: up.distance,
+      duration: up.duration,
+      downGeometry: down ? down.geometry : null,
+      downDistance: down ? down.distance : null,
+      downDuration: down ? down.duration : null,
+      provider: up.provider || null,
+    },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  );
+  try {
+    await cacheVersionGeometry(route._id, versionDef, saved);
+  } catch (e) {
+    console.warn('Redis HSET for route failed:', e?.message || e);
+  }
+  return saved;
+}
+
+// Orchestration to compute and store the polyline of a route version (default: the one active now)
+// Skips versions that already have a polyline unless force is set (stops changed)
+async function computeAndStorePolyline(route, { version, force = false } = {}) {
+  try {
+    const versions = listVersions(route);
+    const versionDef = version ? versions.find((v) => v.version === version) : findActiveVersion(versions);
+    if (!versionDef) return;
+    if (!force) {
+      const exists = await findPolyline(route._id, versionDef.version);
+      if (exists) return;
+    }
+    const geometry = await fetchRouteGeometry(versionDef.stops, versionDef.bidirectional, versionDef.viaPoints || []);
+    return await storeRouteGeometry(route, versionDef, geometry);
+  } catch (err) {
+    console.error('computeAndStorePolyline error:', err.message);
+  }
+}
+
+// Refreshes the cached version index after versions were added or closed
+async function refreshVersionIndex(route) {
+  try {
+    await cacheVersionIndex(route);
+  } catch (e) {
+    console.warn('Redis HSET for route failed:', e?.message || e);
+  }
+}
+
+// Appends a version { stops, bidirectional, viaPoints, effectiveFrom } after the current head, which is closed at
+// effectiveFrom; top-level fields follow the new head. Saves the route (with any other pending changes)
+// and stores the geometry ({ up, down }); without one the new version reuses the previous geometry.
+async function addRouteVersion(route, { stops, bidirectional, viaPoints = [], effectiveFrom }, geometry = null) {
+  const versions = listVersions(route);
+  const head = versions[versions.length - 1];
+  const nextVersion = { version: head.version + 1, stops, bidirectional, viaPoints, effectiveFrom, effectiveTo: null };
+  route.versions = [
+    ...versions.slice(0, -1),
+    {
+      ...head,
+      stops: head.stops.map(plainStop),
+      viaPoints: (head.viaPoints || []).map(plainViaPoint),
+      effectiveTo: effectiveFrom,
+    },
+    nextVersion,
+  ];
+  route.stops = stops;
+  route.bidirectional = bidirectional;
+  route.viaPoints = viaPoints;
+  await route.save();
+
+  await Polyline.updateOne(
+    { routeId: route._id, version: head.version === 1 ? { $in: [1, null] } : head.version },
+    { version: head.version, effectiveTo: effectiveFrom }
+  );
+  let nextGeometry = geometry;
+  if (!nextGeometry) {
+    const previous = await findPolyline(route._id, head.version);
+    if (previous) {
+      nextGeometry = {
+        up: { geometry: previous.geometry, distance: previous.distance, duration: previous.duration },
+        down: previous.downGeometry
+          ? { geometry: previous.downGeometry, distance: previous.downDistance, duration: previous.downDuration }
+          : null,
+      };
+    }
+  }
+  if (nextGeometry) await storeRouteGeometry(route, nextVersion, nextGeometry);
+  await refreshVersionIndex(route);
+  return nextVersion;
+}
+
+module.exports = {
+  plainStop,
+  plainViaPoint,
+  resolveRegistryStops,
+  fetchRouteGeometry,
+  storeRouteGeometry,
+  computeAndStorePolyline,
+  refreshVersionIndex,
+  addRouteVersion,
+};
@@ -0,0 +1,19 @@
+const { straightLineRoute } = require('./straightLine');
+
+// Fake provider for tests and offline development: straight-line geometry at a fixed speed, with every
+// call recorded. failures makes the first n calls throw (Infinity: every call) to exercise retries and fallback.
+// Install one with routingService.setRoutingProvider, or set ROUTING_PROVIDER=fake for the shared instance.
+function createFakeProvider({ speedKmh = 30, failures = 0 } = {}) {
+  const provider = {
+    name: 'fake',
+    calls: [],
+    async route(coords, { profile } = {}) {
+      provider.calls.push({ coords, profile });
+      if (provider.calls.length <= failures) throw new Error('Fake routing failure');
+      return straightLineRoute(coords, speedKmh);
+    },
+  };
+  return provider;
+}
+
+module.exports = { createFakeProvider };
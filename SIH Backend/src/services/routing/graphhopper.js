@@ -0,0 +1,53 @@
+const fetch = require('node-fetch');
+
+// GraphHopper Routing API: a self-hosted server (GRAPHHOPPER_URL) or the hosted API with GRAPHHOPPER_API_KEY.
+// The server needs a profile named like ROUTING_PROFILE, e.g. a "bus" profile with a custom model.
+
+// Per-leg values from a GraphHopper path detail ([[fromIndex, toIndex, value], ...], one entry per leg)
+const legValues = (detail) => (Array.isArray(detail) ? detail.map((entry) => entry[2]) : []);
+
+// coords: array of [lon, lat]
+async function route(coords, { profile }) {
+  const baseUrl = (process.env.GRAPHHOPPER_URL || 'https://graphhopper.com/api/1').replace(/\/+$/, '');
+  const apiKey = process.env.GRAPHHOPPER_API_KEY;
+  if (!apiKey && !process.env.GRAPHHOPPER_URL) throw new Error('Missing GRAPHHOPPER_API_KEY in .env');
+
+  const url = `${baseUrl}/route${apiKey ? `?key=${encodeURIComponent(apiKey)}` : ''}`;
+  const body = {
+    points: coords,
+    profile,
+    points_encoded: true,
+    instructions: false,
+    details: ['leg_distance', 'leg_time'],
+  };
+
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const text = await res.text();
+    throw new Error(`GraphHopper error ${res.status}: ${text}`);
+  }
+
+  const data = await res.json();
+  const path = data && Array.isArray(data.paths) && data.paths[0];
+  if (!path) throw new Error('GraphHopper response missing paths[0]');
+
+  // Leg details need GraphHopper 7+; without them the legs are left empty
+  const distances = legValues(path.details?.leg_distance);
+  const times = legValues(path.details?.leg_time);
+  const legs = distances.length === times.length
+    ? distances.map((distance, i) => ({ distance, duration: times[i] / 1000 }))
+    : [];
+
+  return {
+    geometry: path.points, // encoded polyline, precision 5 like ORS
+    distance: path.distance, // meters
+    duration: path.time / 1000, // ms -> seconds
+    legs,
+  };
+}
+
+module.exports = { name: 'graphhopper', route };
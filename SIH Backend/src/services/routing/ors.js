@@ -0,0 +1,51 @@
+const fetch = require('node-fetch');
+
+// OpenRouteService Directions API (api.openrouteservice.org, or a self-hosted instance via ORS_URL).
+// The bus profile is ORS's heavy-vehicle profile restricted to roads open to buses.
+const PROFILES = {
+  bus: { path: 'driving-hgv', options: { vehicle_type: 'bus' } },
+  car: { path: 'driving-car' },
+};
+
+// coords: array of [lon, lat]
+async function route(coords, { profile }) {
+  const baseUrl = (process.env.ORS_URL || 'https://api.openrouteservice.org').replace(/\/+$/, '');
+  const apiKey = process.env.ORS_API_KEY;
+  // Self-hosted instances usually run without a key
+  if (!apiKey && !process.env.ORS_URL) throw new Error('Missing ORS_API_KEY in .env');
+  const { path, options } = PROFILES[profile];
+
+  // Use JSON endpoint and request encoded polyline geometry
+  const url = `${baseUrl}/v2/directions/${path}/json`;
+
+  const body = {
+    // ORS v9+ ignores/does not support geometry_format in body; default JSON response returns encoded polyline string
+    coordinates: coords,
+  };
+  if (options) body.options = options;
+
+  const headers = { 'Content-Type': 'application/json' };
+  if (apiKey) headers.Authorization = apiKey;
+  const res = await fetch(url, { method: 'POST', headers, body: JSON.stringify(body) });
+
+  if (!res.ok) {
+    const text = await res.text();
+    throw new Error(`ORS error ${res.status}: ${text}`);
+  }
+
+  const data = await res.json();
+  // Expecting data.routes[0] with encoded geometry and summary
+  const result = data && Array.isArray(data.routes) && data.routes[0];
+  if (!result) throw new Error('ORS response missing routes[0]');
+
+  const geometry = result.geometry; // encoded polyline string
+  const summary = result.summary || {};
+  const distance = summary.distance; // meters
+  const duration = summary.duration; // seconds
+  // One leg per pair of consecutive coordinates
+  const legs = (result.segments || []).map((s) => ({ distance: s.distance, duration: s.duration }));
+
+  return { geometry, distance, duration, legs };
+}
+
+module.exports = { name: 'ors', route };
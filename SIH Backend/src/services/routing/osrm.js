@@ -0,0 +1,32 @@
+const fetch = require('node-fetch');
+
+// Self-hosted OSRM route service (OSRM_URL). osrm-routed serves the one profile its data was built with;
+// build it with a bus profile (e.g. car.lua allowing bus-only roads) for ROUTING_PROFILE=bus.
+
+// coords: array of [lon, lat]
+async function route(coords, { profile }) {
+  const baseUrl = (process.env.OSRM_URL || '').replace(/\/+$/, '');
+  if (!baseUrl) throw new Error('Missing OSRM_URL in .env');
+
+  const waypoints = coords.map(([lon, lat]) => `${lon},${lat}`).join(';');
+  const url = `${baseUrl}/route/v1/${profile}/${waypoints}?overview=full&geometries=polyline&steps=false`;
+
+  const res = await fetch(url);
+  const data = await res.json().catch(() => null);
+  if (!res.ok || !data || data.code !== 'Ok') {
+    throw new Error(`OSRM error ${res.status}: ${(data && (data.message || data.code)) || res.statusText}`);
+  }
+  const result = Array.isArray(data.routes) && data.routes[0];
+  if (!result) throw new Error('OSRM response missing routes[0]');
+
+  // geometries=polyline is the same encoding as ORS (precision 5, [lat, lng])
+  return {
+    geometry: result.geometry,
+    distance: result.distance, // meters
+    duration: result.duration, // seconds
+    // One leg per pair of consecutive coordinates
+    legs: (result.legs || []).map((l) => ({ distance: l.distance, duration: l.duration })),
+  };
+}
+
+module.exports = { name: 'osrm', route };
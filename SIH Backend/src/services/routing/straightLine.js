@@ -0,0 +1,26 @@
+const polyline = require('@mapbox/polyline');
+const turf = require('@turf/turf');
+
+// Manual fallback: straight lines between the waypoints, timed at the default bus speed.
+// Needs no network, so admins can still save routes (and fix the geometry with via points) while the
+// road router is down; the stored polyline records that it came from here.
+const DEFAULT_SPEED_KMH = Number(process.env.ETA_DEFAULT_SPEED_KMH) || 20;
+
+// coords: array of [lon, lat]
+function straightLineRoute(coords, speedKmh = DEFAULT_SPEED_KMH) {
+  const legs = coords.slice(1).map((to, i) => {
+    const distance = Math.round(turf.distance(coords[i], to, { units: 'kilometers' }) * 1000);
+    return { distance, duration: Math.round(distance / (speedKmh / 3.6)) };
+  });
+  return {
+    geometry: polyline.encode(coords.map(([lon, lat]) => [lat, lon])),
+    distance: legs.reduce((sum, leg) => sum + leg.distance, 0),
+    duration: legs.reduce((sum, leg) => sum + leg.duration, 0),
+    legs,
+  };
+}
+
+// The profile makes no difference to a straight line
+const route = async (coords) => straightLineRoute(coords);
+
+module.exports = { name: 'straight-line', route, straightLineRoute };
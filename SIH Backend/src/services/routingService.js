@@ -0,0 +1,77 @@
+const ors = require('./routing/ors');
+const osrm = require('./routing/osrm');
+const graphhopper = require('./routing/graphhopper');
+const straightLine = require('./routing/straightLine');
+const { createFakeProvider } = require('./routing/fake');
+
+// Road geometry through route waypoints, from the routing provider chosen by configuration.
+// A provider is { name, route(coords, { profile }) } with coords [lon, lat]; it resolves to
+// { geometry (encoded [lat, lng] polyline, precision 5), distance (m), duration (s), legs } with one
+// { distance, duration } leg per pair of consecutive coordinates (empty when the provider cannot split them).
+
+const PROVIDERS = {
+  ors,
+  osrm,
+  graphhopper,
+  'straight-line': straightLine,
+  fake: createFakeProvider(),
+};
+const PROFILES = ['bus', 'car'];
+
+// ROUTING_PROVIDER (default ors), ROUTING_PROFILE (default bus) and ROUTING_FALLBACK (default none)
+function routingSettings() {
+  const provider = (process.env.ROUTING_PROVIDER || 'ors').trim().toLowerCase();
+  const profile = (process.env.ROUTING_PROFILE || 'bus').trim().toLowerCase();
+  const fallback = (process.env.ROUTING_FALLBACK || 'none').trim().toLowerCase();
+  return { provider, profile: PROFILES.includes(profile) ? profile : 'bus', fallback };
+}
+
+let providerOverride = null;
+
+// Replaces the configured provider, e.g. with routing/fake's createFakeProvider() in tests; null restores it.
+// The fallback is not used while a provider is set this way.
+function setRoutingProvider(provider) {
+  providerOverride = provider;
+}
+
+function resolveProvider(name, setting) {
+  const provider = PROVIDERS[name];
+  if (!provider) throw new Error(`Unknown routing provider "${name}" (${setting})`);
+  return provider;
+}
+
+// Retry wrapper with simple backoff
+async function withRetry(fn, retries = 2) {
+  let attempt = 0;
+  let delay = 500; // ms
+  while (true) {
+    try {
+      return await fn();
+    } catch (err) {
+      if (attempt >= retries) throw err;
+      await new Promise((r) => setTimeout(r, delay));
+      attempt += 1;
+      delay *= 2;
+    }
+  }
+}
+
+// Route through coords ([lon, lat]) with the configured provider, retried; when it still fails the
+// ROUTING_FALLBACK provider is used if set, otherwise the error is thrown.
+// The result names the provider that computed it, and has fallback: true when it came from the fallback.
+async function computeRoute(coords) {
+  const settings = routingSettings();
+  const primary = providerOverride || resolveProvider(settings.provider, 'ROUTING_PROVIDER');
+  try {
+    const result = await withRetry(() => primary.route(coords, { profile: settings.profile }));
+    return { ...result, provider: primary.name, fallback: false };
+  } catch (err) {
+    if (providerOverride || settings.fallback === 'none') throw err;
+    const backup = resolveProvider(settings.fallback, 'ROUTING_FALLBACK');
+    console.warn(`Routing via ${primary.name} failed, falling back to ${backup.name}:`, err.message);
+    const result = await backup.route(coords, { profile: settings.profile });
+    return { ...result, provider: backup.name, fallback: true };
+  }
+}
+
+module.exports = { computeRoute, routingSettings, setRoutingProvider };
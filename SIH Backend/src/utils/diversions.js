@@ -0,0 +1,58 @@
+// Temporary diversions: stop closures and alternate geometry between startsAt and endsAt
+// Works on the cached list from utils/routeCache ({ id, reason, closedStopIds, coords, version, startsAt, endsAt }, epoch ms)
+
+// Diversions in effect at time t (epoch ms)
+function findActiveDiversions(diversions, t = Date.now()) {
+  return (diversions || []).filter((d) => d.startsAt <= t && t < d.endsAt);
+}
+
+// Applies the active diversions to the layout of a route version for one direction
+// layout: { coords, stops, version, direction }; stops in driving order
+// Returns the layout with only the open stops in stops, plus:
+//   allStops: every stop in driving order with { closed, closureReason }
+//   stopIndexes: index in allStops of each open stop
+//   diversion: { id, reason, endsAt, rerouted } summary, or null without active diversions
+function applyDiversions(layout, active) {
+  if (!layout.stops) return { ...layout, allStops: null, stopIndexes: null, diversion: null };
+
+  // A stop closed by several diversions shows the reason of the earliest one
+  const reasons = new Map();
+  for (const d of active) {
+    for (const stopId of d.closedStopIds) {
+      if (!reasons.has(stopId)) reasons.set(stopId, d.reason);
+    }
+  }
+  const allStops = layout.stops.map((s) => ({
+    ...s,
+    closed: reasons.has(s.stopId),
+    closureReason: reasons.get(s.stopId) || null,
+  }));
+  const stops = [];
+  const stopIndexes = [];
+  allStops.forEach((s, i) => {
+    if (s.closed) return;
+    stops.push(layout.stops[i]);
+    stopIndexes.push(i);
+  });
+
+  // Alternate geometry of the most recently started diversion drawn for this version
+  const rerouting = active
+    .filter((d) => d.coords && d.version === layout.version)
+    .sort((a, b) => b.startsAt - a.startsAt)[0];
+  let coords = layout.coords;
+  if (rerouting) coords = layout.direction === 'down' ? [...rerouting.coords].reverse() : rerouting.coords;
+
+  const diversion = active.length
+    ? {
+        // Trip progress restarts when the set of active diversions changes
+        id: active.map((d) => d.id).sort().join(','),
+        reason: active.map((d) => d.reason).join('; '),
+        endsAt: Math.min(...active.map((d) => d.endsAt)),
+        rerouted: !!rerouting,
+      }
+    : null;
+
+  return { ...layout, coords, stops, allStops, stopIndexes, diversion };
+}
+
+module.exports = { findActiveDiversions, applyDiversions };
@@ -0,0 +1,224 @@
+// Segment-based ETA model
+// - Learns stop-to-stop travel times per route segment, day of week and hour in the agency
+//   time zone (SegmentStat)
+//   from the arrivals recorded by utils/tripProgress, live or replayed from stored pings (rebuild)
+// - Predicts ETAs from those times, blended with live speed for nearby stops
+// - Returns an ~80% confidence range per stop
+const SegmentStat = require('../models/SegmentStat');
+const { feedSettings } = require('./gtfsExport');
+const { localTimeParts } = require('./schedule');
+
+// Fallback speed when a segment has no history and the bus is not moving
+const DEFAULT_SPEED_KMH = Number(process.env.ETA_DEFAULT_SPEED_KMH) || 20;
+// Live speed below this is not trusted (bus at a signal or stop)
+const MIN_LIVE_SPEED_KMH = 5;
+// Live speed weighs at most this much, fading with distance to the stop
+const LIVE_WEIGHT_MAX = 0.6;
+const LIVE_DECAY_KM = 2;
+// A bucket needs this many samples before it is used on its own
+const MIN_SAMPLES = 3;
+// Relative spread assumed for estimates without history
+const FALLBACK_SPREAD = 0.3;
+// z-score for the reported range (~80%)
+const RANGE_Z = 1.28;
+// A stop counts as reached this close (km, along the route) before the bus is level with it
+// (same tolerance as utils/tripProgress)
+const ARRIVAL_TOLERANCE_KM = 0.03;
+// Segment durations outside this range are treated as noise (GPS gaps, trips split across days)
+const MIN_SEGMENT_SECONDS = 5;
+const MAX_SEGMENT_SECONDS = 60 * 60;
+
+const MODEL_CACHE_MS = 5 * 60 * 1000;
+const modelCache = new Map(); // routeId:direction -> { loadedAt, model }
+
+function addSums(target, doc) {
+  target.count += doc.count;
+  target.sumSeconds += doc.sumSeconds;
+  target.sumSquares += doc.sumSquares;
+}
+
+// Loads SegmentStat sums for a route direction into lookup maps (exact bucket, same hour any day, any time)
+async function loadSegmentModel(routeId, direction = 'up') {
+  const cacheKey = `${routeId}:${direction}`;
+  const cached = modelCache.get(cacheKey);
+  if (cached && Date.now() - cached.loadedAt < MODEL_CACHE_MS) return cached.model;
+
+  const docs = await SegmentStat.find({ routeId, direction }).lean();
+  const model = { exact: new Map(), byHour: new Map(), overall: new Map() };
+  const bucket = (map, key) => {
+    if (!map.has(key)) map.set(key, { count: 0, sumSeconds: 0, sumSquares: 0 });
+    return map.get(key);
+  };
+  for (const d of docs) {
+    const segment = segmentKey(d.fromStopId, d.toStopId);
+    addSums(bucket(model.exact, `${segment}:${d.dayOfWeek}:${d.hour}`), d);
+    addSums(bucket(model.byHour, `${segment}:${d.hour}`), d);
+    addSums(bucket(model.overall, segment), d);
+  }
+
+  modelCache.set(cacheKey, { loadedAt: Date.now(), model });
+  return model;
+}
+
+// Drops cached models of a route (both directions) when it is deleted
+function clearSegmentModel(routeId) {
+  modelCache.delete(`${routeId}:up`);
+  modelCache.delete(`${routeId}:down`);
+}
+
+const segmentKey = (fromStopId, toStopId) => `${fromStopId}>${toStopId}`;
+
+// Mean/variance (seconds) for the segment (stop pair key) at the given time, or null
+function getSegmentStats(model, segment, time) {
+  if (!model || !segment) return null;
+  const { dayOfWeek, hour } = localTimeParts(new Date(time).getTime(), feedSettings().timezone);
+  const candidates = [
+    model.exact.get(`${segment}:${dayOfWeek}:${hour}`),
+    model.byHour.get(`${segment}:${hour}`),
+    model.overall.get(segment),
+  ];
+  const sums = candidates.find((c) => c && c.count >= MIN_SAMPLES)
+    || candidates.find((c) => c && c.count > 0);
+  if (!sums) return null;
+
+  const mean = sums.sumSeconds / sums.count;
+  const variance = Math.max(0, sums.sumSquares / sums.count - mean * mean);
+  // Few samples say little about spread; keep a floor
+  const floor = sums.count < MIN_SAMPLES ? (FALLBACK_SPREAD * mean) ** 2 : (0.1 * mean) ** 2;
+  return { mean, variance: Math.max(variance, floor) };
+}
+
+// Index of the last stop at or behind the given distance along the route (-1 before the first stop)
+function getReachedStopIndex(stopDistsKm, busDistKm) {
+  let reached = -1;
+  stopDistsKm.forEach((d, i) => {
+    if (d <= busDistKm + ARRIVAL_TOLERANCE_KM) reached = i;
+  });
+  return reached;
+}
+
+// stopDistsKm: distance along the route of each stop; busDistKm: distance of the bus
+// stopIds: stopId of each stop, to look segments up in the model
+// motionState (optional): live speed is ignored unless the bus is moving
+// lastStopIndex (optional): last stop reached on the current trip, from trip progress
+// Returns one { etaMinutes, etaMinMinutes, etaMaxMinutes } per stop (passed stops are 0)
+function estimateEtas({ stopDistsKm, stopIds = [], busDistKm, avgSpeedKmh, model, motionState, lastStopIndex, now = Date.now() }) {
+  const liveTrusted = !motionState || motionState === 'moving';
+  const liveKmh = liveTrusted && Number(avgSpeedKmh) >= MIN_LIVE_SPEED_KMH ? Number(avgSpeedKmh) : null;
+  const fallbackKmh = liveKmh || DEFAULT_SPEED_KMH;
+  const current = Number.isInteger(lastStopIndex) ? lastStopIndex : getReachedStopIndex(stopDistsKm, busDistKm);
+
+  // Walk forward segment by segment, accumulating the modelled time and variance
+  let modelSec = 0;
+  let modelVar = 0;
+  let positionKm = busDistKm;
+
+  return stopDistsKm.map((stopDistKm, j) => {
+    if (stopDistKm <= busDistKm) return { etaMinutes: 0, etaMinMinutes: 0, etaMaxMinutes: 0 };
+
+    // Segment (j-1 -> j), possibly partially driven already
+    const segmentStartKm = j > 0 ? stopDistsKm[j - 1] : 0;
+    const pieceKm = Math.max(0, stopDistKm - positionKm);
+    const segment = j > 0 && stopIds[j - 1] && stopIds[j] ? segmentKey(stopIds[j - 1], stopIds[j]) : null;
+    const stats = segment && j - 1 >= current ? getSegmentStats(model, segment, now + modelSec * 1000) : null;
+    if (stats) {
+      const segmentKm = stopDistKm - segmentStartKm;
+      const fraction = segmentKm > 0 ? Math.min(1, pieceKm / segmentKm) : 1;
+      modelSec += stats.mean * fraction;
+      modelVar += stats.variance * fraction * fraction;
+    } else {
+      const sec = (pieceKm / fallbackKmh) * 3600;
+      modelSec += sec;
+      modelVar += (FALLBACK_SPREAD * sec) ** 2;
+    }
+    positionKm = Math.max(positionKm, stopDistKm);
+
+    // Blend with the live estimate, trusted mostly for nearby stops
+    const remainingKm = stopDistKm - busDistKm;
+    let etaSec = modelSec;
+    let spreadSec = RANGE_Z * Math.sqrt(modelVar);
+    if (liveKmh) {
+      const liveSec = (remainingKm / liveKmh) * 3600;
+      const w = LIVE_WEIGHT_MAX * Math.exp(-remainingKm / LIVE_DECAY_KM);
+      etaSec = w * liveSec + (1 - w) * modelSec;
+      spreadSec = Math.max(spreadSec, w * Math.abs(liveSec - modelSec));
+    }
+
+    return {
+      etaMinutes: Math.round(etaSec / 60),
+      etaMinMinutes: Math.max(0, Math.floor((etaSec - spreadSec) / 60)),
+      etaMaxMinutes: Math.ceil((etaSec + spreadSec) / 60),
+    };
+  });
+}
+
+// Stop-to-stop duration for the stop reached by the latest trip progress update (see utils/tripProgress):
+// { bucket: SegmentStat key fields, fromIndex, seconds }, or null. Durations run from the arrival at the
+// previous stop (departure for the first stop, so layovers are excluded). Updates that reach several
+// stops at once are skipped because their arrival times are not precise.
+function getSegmentSample({ routeId, stops, progress, arrivals }) {
+  if (!progress || !arrivals || arrivals.length !== 1) return null;
+  const to = arrivals[0];
+  const from = to - 1;
+  if (from < 0) return null;
+
+  const start = from === 0 ? progress.stops[0]?.departedAt : progress.stops[from]?.arrivedAt;
+  const end = progress.stops[to]?.arrivedAt;
+  const fromStopId = stops[from]?.stopId;
+  const toStopId = stops[to]?.stopId;
+  if (!Number.isFinite(start) || !Number.isFinite(end) || !fromStopId || !toStopId) return null;
+
+  const seconds = (end - start) / 1000;
+  if (seconds < MIN_SEGMENT_SECONDS || seconds > MAX_SEGMENT_SECONDS) return null;
+
+  return {
+    bucket: {
+      routeId,
+      direction: progress.direction || 'up',
+      fromStopId,
+      toStopId,
+      ...localTimeParts(start, feedSettings().timezone),
+    },
+    fromIndex: from,
+    seconds,
+  };
+}
+
+// Learning: add the duration of the segment just completed (getSegmentSample) to its bucket
+async function recordSegmentTimes(update) {
+  const sample = getSegmentSample(update);
+  if (!sample) return;
+  const { bucket, fromIndex, seconds } = sample;
+  await SegmentStat.updateOne(
+    bucket,
+    {
+      $inc: { count: 1, sumSeconds: seconds, sumSquares: seconds * seconds },
+      $set: { fromIndex },
+    },
+    { upsert: true }
+  );
+}
+
+// Rebuild: replaces the learned times of a route with the given samples (getSegmentSample results).
+// Samples recorded live while the rebuild runs are lost. Returns the number of buckets written.
+async function replaceSegmentStats(routeId, samples) {
+  const buckets = new Map();
+  for (const { bucket, fromIndex, seconds } of samples) {
+    const key = [bucket.direction, bucket.fromStopId, bucket.toStopId, bucket.dayOfWeek, bucket.hour].join(':');
+    if (!buckets.has(key)) buckets.set(key, { ...bucket, fromIndex, count: 0, sumSeconds: 0, sumSquares: 0 });
+    addSums(buckets.get(key), { count: 1, sumSeconds: seconds, sumSquares: seconds * seconds });
+  }
+  await SegmentStat.deleteMany({ routeId });
+  if (buckets.size) await SegmentStat.insertMany([...buckets.values()], { ordered: false });
+  clearSegmentModel(routeId);
+  return buckets.size;
+}
+
+module.exports = {
+  loadSegmentModel,
+  clearSegmentModel,
+  estimateEtas,
+  getSegmentSample,
+  recordSegmentTimes,
+  replaceSegmentStats,
+};
@@ -0,0 +1,182 @@
+// GTFS static feed reading: turns routes.txt, trips.txt, stop_times.txt, stops.txt and shapes.txt
+// of a feed zip into route definitions in our format (stops in driving order, encoded geometry)
+const AdmZip = require('adm-zip');
+const { parse } = require('csv-parse/sync');
+const polyline = require('@mapbox/polyline');
+const turf = require('@turf/turf');
+
+const REQUIRED_FILES = ['routes.txt', 'trips.txt', 'stop_times.txt', 'stops.txt'];
+
+// Rows of a feed file as objects keyed by column name; null when the file is missing
+// Feeds are sometimes zipped with a top-level folder, so entries are matched by file name only
+function readTable(zip, fileName) {
+  const entry = zip.getEntries().find((e) => !e.isDirectory && e.entryName.split('/').pop() === fileName);
+  if (!entry) return null;
+  return parse(entry.getData().toString('utf8'), {
+    columns: true,
+    bom: true,
+    skip_empty_lines: true,
+    trim: true,
+    relax_column_count: true,
+  });
+}
+
+// GTFS time (HH:MM:SS, hours may exceed 24) in seconds after midnight; null when empty
+function parseTime(value) {
+  const match = /^(\d+):(\d{2}):(\d{2})$/.exec(value || '');
+  return match ? Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]) : null;
+}
+
+// Encoded polyline ([lat,lng] like ORS) and length in meters of [lng,lat] coordinates
+function toGeometry(coords, duration) {
+  return {
+    geometry: polyline.encode(coords.map(([lng, lat]) => [lat, lng])),
+    distance: Math.round(turf.length(turf.lineString(coords), { units: 'kilometers' }) * 1000),
+    duration,
+  };
+}
+
+// Most representative trip of one direction: the stop pattern with the most stops (then the most trips),
+// preferring a trip of that pattern with a shape
+function pickTrip(trips, stopTimesByTrip) {
+  const patterns = new Map();
+  for (const trip of trips) {
+    const times = stopTimesByTrip.get(trip.trip_id);
+    if (!times || !times.length) continue;
+    const key = times.map((t) => t.stop_id).join('|');
+    if (!patterns.has(key)) patterns.set(key, { length: times.length, trips: [] });
+    patterns.get(key).trips.push(trip);
+  }
+  const best = [...patterns.values()].sort((a, b) => b.length - a.length || b.trips.length - a.trips.length)[0];
+  if (!best) return null;
+  return best.trips.find((t) => t.shape_id) || best.trips[0];
+}
+
+// Reads a GTFS zip (Buffer). Returns { routes, warnings } or { error } when the feed cannot be read.
+// Each route: { gtfsRouteId, routeName, stops, bidirectional, up, down, shapes, problem, warnings }
+//   up/down: { geometry, distance, duration } from shapes.txt, or null without a shape
+//   shapes: whether every direction has a shape (otherwise the routing provider computes the geometry)
+//   problem: why the route cannot be imported, or null
+function readGtfsFeed(buffer) {
+  let zip;
+  try {
+    zip = new AdmZip(buffer);
+    zip.getEntries();
+  } catch (e) {
+    return { error: 'File is not a valid zip archive' };
+  }
+
+  const tables = {};
+  try {
+    for (const name of [...REQUIRED_FILES, 'shapes.txt']) tables[name] = readTable(zip, name);
+  } catch (e) {
+    return { error: `Could not parse feed: ${e.message}` };
+  }
+  const missing = REQUIRED_FILES.filter((name) => !tables[name]);
+  if (missing.length) return { error: `Feed is missing ${missing.join(', ')}` };
+
+  const warnings = [];
+  const stopsById = new Map();
+  for (const s of tables['stops.txt']) {
+    const latitude = Number(s.stop_lat);
+    const longitude = Number(s.stop_lon);
+    // Stations and entrances (location_type > 0) are not boarding points
+    if (s.location_type && s.location_type !== '0') continue;
+    if (!s.stop_id || !s.stop_lat || !s.stop_lon || !Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+      warnings.push(`stops.txt: stop ${s.stop_id || '(no id)'} has no valid coordinates`);
+      continue;
+    }
+    stopsById.set(s.stop_id, { stopId: s.stop_id, name: s.stop_name || s.stop_id, latitude, longitude });
+  }
+
+  const stopTimesByTrip = new Map();
+  for (const st of tables['stop_times.txt']) {
+    if (!stopTimesByTrip.has(st.trip_id)) stopTimesByTrip.set(st.trip_id, []);
+    stopTimesByTrip.get(st.trip_id).push(st);
+  }
+  for (const times of stopTimesByTrip.values()) {
+    times.sort((a, b) => Number(a.stop_sequence) - Number(b.stop_sequence));
+  }
+
+  const shapes = new Map();
+  for (const pt of tables['shapes.txt'] || []) {
+    if (!shapes.has(pt.shape_id)) shapes.set(pt.shape_id, []);
+    shapes.get(pt.shape_id).push(pt);
+  }
+  const shapeCoords = (shapeId) => {
+    const points = shapes.get(shapeId);
+    if (!points || points.length < 2) return null;
+    return [...points]
+      .sort((a, b) => Number(a.shape_pt_sequence) - Number(b.shape_pt_sequence))
+      .map((p) => [Number(p.shape_pt_lon), Number(p.shape_pt_lat)]);
+  };
+
+  const tripsByRoute = new Map();
+  for (const trip of tables['trips.txt']) {
+    if (!tripsByRoute.has(trip.route_id)) tripsByRoute.set(trip.route_id, []);
+    tripsByRoute.get(trip.route_id).push(trip);
+  }
+
+  const routes = tables['routes.txt'].map((r) => {
+    const result = {
+      gtfsRouteId: r.route_id,
+      routeName: r.route_short_name || r.route_long_name || r.route_id,
+      stops: [],
+      bidirectional: false,
+      up: null,
+      down: null,
+      shapes: false,
+      problem: null,
+      warnings: [],
+    };
+    const trips = tripsByRoute.get(r.route_id) || [];
+    // Direction 0 runs 'up'; a route with only direction 1 trips runs those 'up'
+    const outbound = trips.filter((t) => t.direction_id !== '1');
+    const inbound = trips.filter((t) => t.direction_id === '1');
+    const upTrip = pickTrip(outbound.length ? outbound : inbound, stopTimesByTrip);
+    if (!upTrip) {
+      result.problem = 'No trips with stop times';
+      return result;
+    }
+
+    const times = stopTimesByTrip.get(upTrip.trip_id);
+    const unknown = times.filter((t) => !stopsById.has(t.stop_id)).map((t) => t.stop_id);
+    if (unknown.length) {
+      result.problem = `Unknown or invalid stops: ${[...new Set(unknown)].join(', ')}`;
+      return result;
+    }
+    result.stops = times.map((t) => stopsById.get(t.stop_id));
+    if (result.stops.length < 2) {
+      result.problem = 'Fewer than 2 stops';
+      return result;
+    }
+
+    const tripDuration = (list) => {
+      const start = parseTime(list[0].departure_time || list[0].arrival_time);
+      const end = parseTime(list[list.length - 1].arrival_time || list[list.length - 1].departure_time);
+      return start !== null && end !== null && end >= start ? end - start : null;
+    };
+    const upCoords = upTrip.shape_id ? shapeCoords(upTrip.shape_id) : null;
+    result.up = upCoords ? toGeometry(upCoords, tripDuration(times)) : null;
+
+    // Our 'down' trips run through the same stops in reverse; other return patterns are not imported
+    const downTrip = outbound.length && inbound.length ? pickTrip(inbound, stopTimesByTrip) : null;
+    if (downTrip) {
+      const downTimes = stopTimesByTrip.get(downTrip.trip_id);
+      const reversed = [...times].reverse().map((t) => t.stop_id).join('|');
+      if (downTimes.map((t) => t.stop_id).join('|') === reversed) {
+        result.bidirectional = true;
+        const downCoords = downTrip.shape_id ? shapeCoords(downTrip.shape_id) : null;
+        result.down = downCoords ? toGeometry(downCoords, tripDuration(downTimes)) : null;
+      } else {
+        result.warnings.push('Direction 1 trips do not serve the direction 0 stops in reverse; only direction 0 is imported');
+      }
+    }
+    result.shapes = !!result.up && (!result.bidirectional || !!result.down);
+    return result;
+  });
+
+  return { routes, warnings };
+}
+
+module.exports = { readGtfsFeed };
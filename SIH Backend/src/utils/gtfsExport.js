@@ -0,0 +1,432 @@
+// GTFS static feed export: builds the feed files from routes, their versions and polylines, and
+// reports problems that would make the feed unusable before it is published.
+// IDs only depend on our data, so they stay the same across exports:
+//   route_id    gtfsRouteId of imported routes, else the route's _id
+//   stop_id     stopId of stop registry stops (shared by routes), GTFS stop_id of imported routes,
+//               else <route_id>_<stopId>; a stop whose coordinates differ in a later version gets
+//               _v<version> (_<route_id>_v<version> for registry stops)
+//   shape_id    <route_id>_v<version>_<up|down>
+//   service_id  <route_id>_v<version>_<timetable _id> and trip_id <route_id>_v<version>_<trip _id> for
+//               routes with timetables; else <route_id>_v<version> and a template trip_id like the shape_id
+const crypto = require('crypto');
+const AdmZip = require('adm-zip');
+const polyline = require('@mapbox/polyline');
+const { listVersions } = require('./routeVersions');
+const { buildRouteIndex, placeStops } = require('./routeSnap');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Open-ended versions are published this far ahead
+const HORIZON_DAYS = 365;
+// A stop further than this from its shape is reported (m)
+const MAX_STOP_OFFSET_M = 100;
+// Fixed zip entry time, so the same feed always produces the same bytes (and ETag)
+const ZIP_ENTRY_TIME = new Date(2000, 0, 1);
+
+const COLUMNS = {
+  'agency.txt': ['agency_id', 'agency_name', 'agency_url', 'agency_timezone', 'agency_lang'],
+  'stops.txt': ['stop_id', 'stop_name', 'stop_lat', 'stop_lon', 'wheelchair_boarding'],
+  'routes.txt': ['route_id', 'agency_id', 'route_short_name', 'route_long_name', 'route_type'],
+  'calendar.txt': ['service_id', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday', 'start_date', 'end_date'],
+  'calendar_dates.txt': ['service_id', 'date', 'exception_type'],
+  'trips.txt': ['route_id', 'service_id', 'trip_id', 'direction_id', 'shape_id'],
+  'stop_times.txt': ['trip_id', 'arrival_time', 'departure_time', 'stop_id', 'stop_sequence', 'shape_dist_traveled'],
+  'frequencies.txt': ['trip_id', 'start_time', 'end_time', 'headway_secs', 'exact_times'],
+  'shapes.txt': ['shape_id', 'shape_pt_lat', 'shape_pt_lon', 'shape_pt_sequence', 'shape_dist_traveled'],
+  'translations.txt': ['table_name', 'field_name', 'language', 'translation', 'record_id'],
+  'feed_info.txt': ['feed_publisher_name', 'feed_publisher_url', 'feed_lang', 'feed_version'],
+};
+
+const WHEELCHAIR_BOARDING = { unknown: 0, accessible: 1, not_accessible: 2 };
+// Timetable.calendar.days -> calendar.txt columns
+const WEEKDAY_COLUMNS = {
+  mon: 'monday', tue: 'tuesday', wed: 'wednesday', thu: 'thursday', fri: 'friday', sat: 'saturday', sun: 'sunday',
+};
+// Files left out of the feed when they have no rows
+const OPTIONAL_FILES = ['calendar_dates.txt', 'frequencies.txt', 'translations.txt'];
+
+// "HH:MM" or "HH:MM:SS" in seconds after midnight; fallback when invalid
+function parseClock(value, fallback) {
+  const match = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/.exec(value || '');
+  return match ? Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3] || 0) : fallback;
+}
+
+// Seconds after midnight as GTFS time (hours may exceed 24)
+function formatClock(seconds) {
+  const s = Math.round(seconds);
+  const pad = (n) => String(n).padStart(2, '0');
+  return `${pad(Math.floor(s / 3600))}:${pad(Math.floor((s % 3600) / 60))}:${pad(s % 60)}`;
+}
+
+// Export settings from the environment
+function feedSettings() {
+  return {
+    agencyName: (process.env.GTFS_AGENCY_NAME || '').trim(),
+    agencyUrl: (process.env.GTFS_AGENCY_URL || '').trim(),
+    timezone: process.env.GTFS_AGENCY_TIMEZONE || 'Asia/Kolkata',
+    lang: process.env.GTFS_FEED_LANG || 'en',
+    serviceStart: parseClock(process.env.GTFS_SERVICE_START, 6 * 3600),
+    serviceEnd: parseClock(process.env.GTFS_SERVICE_END, 22 * 3600),
+    headwaySecs: (Number(process.env.GTFS_HEADWAY_MINUTES) || 15) * 60,
+    defaultSpeedKmh: Number(process.env.ETA_DEFAULT_SPEED_KMH) || 20,
+  };
+}
+
+// Feed IDs (see the top of this file); the GTFS-Realtime feeds use the same ones.
+// registryIds: Set of stop registry stopIds
+const gtfsRouteId = (route) => route.gtfsRouteId || String(route._id);
+const gtfsStopId = (route, stopId, registryIds = new Set()) =>
+  route.gtfsRouteId || registryIds.has(stopId) ? stopId : `${gtfsRouteId(route)}_${stopId}`;
+const gtfsTripId = (route, version, direction) => `${gtfsRouteId(route)}_v${version}_${direction}`;
+// Trip of a timetable (models/Trip) on a route version
+const gtfsScheduledTripId = (route, version, tripId) => `${gtfsRouteId(route)}_v${version}_${tripId}`;
+
+function escapeCsv(value) {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(columns, rows) {
+  const lines = [columns.join(',')];
+  for (const row of rows) lines.push(columns.map((c) => escapeCsv(row[c])).join(','));
+  return `${lines.join('\n')}\n`;
+}
+
+// Builds the feed. routes: Route documents (plain or Mongoose); polylines: Polyline documents;
+// registryStops: Stop documents (translations and accessibility of the stops routes use);
+// timetables, trips: Timetable and Trip documents. Routes with timetable trips get those trips on every
+// exported version, the others one template trip per direction running at the default headway.
+// Returns { files: { 'stops.txt': csv, ... }, feedVersion, counts, errors, warnings };
+// a feed with errors must not be published.
+function buildGtfsFeed({ routes, polylines, registryStops = [], timetables = [], trips = [], now = new Date() }) {
+  const settings = feedSettings();
+  const errors = [];
+  const warnings = [];
+  let dateFormat;
+  try {
+    dateFormat = new Intl.DateTimeFormat('en-CA', { timeZone: settings.timezone });
+  } catch (e) {
+    errors.push(`GTFS_AGENCY_TIMEZONE "${settings.timezone}" is not a valid time zone`);
+    dateFormat = new Intl.DateTimeFormat('en-CA', { timeZone: 'UTC' });
+  }
+  // YYYYMMDD in the agency time zone
+  const gtfsDate = (t) => dateFormat.format(new Date(t)).replace(/-/g, '');
+
+  if (!settings.agencyName) errors.push('GTFS_AGENCY_NAME is not set');
+  if (!/^https?:\/\//.test(settings.agencyUrl)) errors.push('GTFS_AGENCY_URL must be set to an http(s) URL');
+  if (settings.serviceEnd <= settings.serviceStart) errors.push('GTFS_SERVICE_END must be after GTFS_SERVICE_START');
+
+  const polylineOf = new Map(polylines.map((p) => [`${p.routeId}:${p.version || 1}`, p]));
+  const rows = Object.fromEntries(Object.keys(COLUMNS).map((name) => [name, []]));
+  const stops = new Map(); // stop_id -> stops.txt row
+  const registry = new Map(registryStops.map((r) => [r.stopId, r]));
+  const registryIds = new Set(registry.keys());
+  const names = new Map(); // routeName -> route_id, to report duplicates
+  let templateTrips = 0;
+
+  // Timetables with trips per route: routeId -> [{ timetable, trips }], trips by first departure
+  const tripsOf = new Map();
+  for (const trip of trips) {
+    if (!trip.stopTimes || !trip.stopTimes.length) continue;
+    const key = String(trip.timetableId);
+    if (!tripsOf.has(key)) tripsOf.set(key, []);
+    tripsOf.get(key).push(trip);
+  }
+  const firstDeparture = (trip) => parseClock(trip.stopTimes[0].departureTime, 0);
+  const timetablesOf = new Map();
+  for (const timetable of [...timetables].sort((a, b) => String(a._id).localeCompare(String(b._id)))) {
+    const timetableTrips = tripsOf.get(String(timetable._id));
+    if (!timetableTrips) continue;
+    timetableTrips.sort((a, b) => firstDeparture(a) - firstDeparture(b) || String(a._id).localeCompare(String(b._id)));
+    const key = String(timetable.routeId);
+    if (!timetablesOf.has(key)) timetablesOf.set(key, []);
+    timetablesOf.get(key).push({ timetable, trips: timetableTrips });
+  }
+
+  // calendar.txt / calendar_dates.txt rows of a timetable calendar, limited to the version's dates
+  // (YYYYMMDD); false when the timetable has no service in them
+  function addService(serviceId, calendar, startDate, endDate) {
+    const compact = (date) => date.replace(/-/g, '');
+    const from = compact(calendar.startDate) > startDate ? compact(calendar.startDate) : startDate;
+    const to = calendar.endDate && compact(calendar.endDate) < endDate ? compact(calendar.endDate) : endDate;
+    const days = calendar.days || [];
+    const exceptions = (calendar.exceptions || [])
+      .map((e) => ({ date: compact(e.date), type: e.type }))
+      .filter((e) => e.date >= startDate && e.date <= endDate)
+      .sort((a, b) => a.date.localeCompare(b.date));
+    const weekly = from <= to && days.length > 0;
+    if (!weekly && !exceptions.some((e) => e.type === 'added')) return false;
+
+    if (weekly) {
+      const row = { service_id: serviceId, start_date: from, end_date: to };
+      for (const [day, column] of Object.entries(WEEKDAY_COLUMNS)) row[column] = days.includes(day) ? 1 : 0;
+      rows['calendar.txt'].push(row);
+    }
+    exceptions.forEach((e) => {
+      rows['calendar_dates.txt'].push({ service_id: serviceId, date: e.date, exception_type: e.type === 'added' ? 1 : 2 });
+    });
+    return true;
+  }
+
+  const sortedRoutes = [...routes].sort((a, b) => String(a._id).localeCompare(String(b._id)));
+  for (const route of sortedRoutes) {
+    const routeKey = gtfsRouteId(route);
+    if (names.has(route.routeName)) {
+      warnings.push(`Routes ${names.get(route.routeName)} and ${routeKey} are both named "${route.routeName}"`);
+    }
+    names.set(route.routeName, routeKey);
+    rows['routes.txt'].push({
+      route_id: routeKey,
+      agency_id: 'agency',
+      // Short names are shown as the bus number, longer ones as the route description
+      route_short_name: route.routeName.length <= 6 ? route.routeName : '',
+      route_long_name: route.routeName.length <= 6 ? '' : route.routeName,
+      route_type: 3, // bus
+    });
+
+    const schedule = timetablesOf.get(String(route._id)) || null;
+    // Versions still in effect today or later; the changeover day belongs to the new version
+    const horizon = now.getTime() + HORIZON_DAYS * DAY_MS;
+    const versions = listVersions(route).filter((v) => !v.effectiveTo || new Date(v.effectiveTo).getTime() > now.getTime());
+    for (const v of versions) {
+      const startDate = gtfsDate(Math.max(new Date(v.effectiveFrom).getTime(), now.getTime()));
+      const endDate = v.effectiveTo ? gtfsDate(new Date(v.effectiveTo).getTime() - DAY_MS) : gtfsDate(horizon);
+      if (endDate < startDate) {
+        warnings.push(`Route ${routeKey} version ${v.version} is in effect for less than a day and is not exported`);
+        continue;
+      }
+      const poly = polylineOf.get(`${route._id}:${v.version}`);
+      if (!poly) {
+        errors.push(`Route ${routeKey} version ${v.version} has no polyline`);
+        continue;
+      }
+      if (v.bidirectional && !poly.downGeometry) {
+        errors.push(`Route ${routeKey} version ${v.version} is bidirectional but has no down geometry`);
+        continue;
+      }
+
+
+      // Stop ids of this version; a stop that moved since an earlier version gets its own id
+      const stopIds = v.stops.map((s) => {
+        const shared = registry.get(s.stopId);
+        let stopId = gtfsStopId(route, s.stopId, registryIds);
+        const known = stops.get(stopId);
+        if (known && (known.stop_lat !== s.latitude || known.stop_lon !== s.longitude)) {
+          stopId = shared ? `${stopId}_${routeKey}_v${v.version}` : `${stopId}_v${v.version}`;
+        }
+        if (!stops.has(stopId)) {
+          stops.set(stopId, {
+            stop_id: stopId,
+            stop_name: s.name,
+            stop_lat: s.latitude,
+            stop_lon: s.longitude,
+            wheelchair_boarding: shared ? WHEELCHAIR_BOARDING[shared.accessibility?.wheelchairBoarding] || 0 : '',
+          });
+          const names = shared && shared.names ? Object.entries(shared.names instanceof Map ? Object.fromEntries(shared.names) : shared.names) : [];
+          names.forEach(([language, translation]) => {
+            rows['translations.txt'].push({ table_name: 'stops', field_name: 'stop_name', language, translation, record_id: stopId });
+          });
+        }
+        return stopId;
+      });
+
+      const directions = [{ name: 'up', geometry: poly.geometry, duration: poly.duration, stops: v.stops, stopIds }];
+      if (v.bidirectional) {
+        directions.push({
+          name: 'down',
+          geometry: poly.downGeometry,
+          duration: poly.downDuration,
+          stops: [...v.stops].reverse(),
+          stopIds: [...stopIds].reverse(),
+        });
+      }
+      // Shapes and stop positions per direction, shared by the trips of the version
+      const shapes = new Map();
+      directions.forEach((d, directionId) => {
+        const shapeId = gtfsTripId(route, v.version, d.name);
+        // Encoded as [lat,lng]; the route index works on [lng,lat]
+        const coords = polyline.decode(d.geometry).map(([lat, lng]) => [lng, lat]);
+        const index = buildRouteIndex(coords);
+        index.cumKm.forEach((km, i) => {
+          rows['shapes.txt'].push({
+            shape_id: shapeId,
+            shape_pt_lat: coords[i][1],
+            shape_pt_lon: coords[i][0],
+            shape_pt_sequence: i + 1,
+            shape_dist_traveled: Math.round(km * 1000),
+          });
+        });
+
+        const placed = placeStops(index, d.stops);
+        placed.forEach((p, i) => {
+          if (p.offsetM > MAX_STOP_OFFSET_M) {
+            warnings.push(`Stop ${d.stopIds[i]} is ${Math.round(p.offsetM)} m from the ${d.name} shape of route ${routeKey}`);
+          }
+        });
+        const totalKm = index.cumKm[index.cumKm.length - 1] || 0;
+        shapes.set(d.name, { ...d, directionId, shapeId, placed, totalKm });
+      });
+
+      if (schedule) {
+        let tripCount = 0;
+        for (const { timetable, trips: timetableTrips } of schedule) {
+          const serviceId = `${routeKey}_v${v.version}_${timetable._id}`;
+          if (!addService(serviceId, timetable.calendar, startDate, endDate)) continue;
+          for (const trip of timetableTrips) {
+            const label = `Trip ${trip._id} of timetable "${timetable.name}"`;
+            const shape = shapes.get(trip.direction);
+            if (!shape) {
+              warnings.push(`${label} runs ${trip.direction} but route ${routeKey} version ${v.version} is one-way; not exported`);
+              continue;
+            }
+            const tripId = gtfsScheduledTripId(route, v.version, trip._id);
+            // The trip's stops are the direction's stops in driving order, some possibly skipped
+            const stopTimes = [];
+            let next = 0;
+            for (const st of trip.stopTimes) {
+              const i = shape.stops.findIndex((s, k) => k >= next && s.stopId === st.stopId);
+              if (i < 0) break;
+              stopTimes.push({
+                trip_id: tripId,
+                arrival_time: formatClock(parseClock(st.arrivalTime, 0)),
+                departure_time: formatClock(parseClock(st.departureTime, 0)),
+                stop_id: shape.stopIds[i],
+                stop_sequence: i + 1,
+                shape_dist_traveled: Math.round(shape.placed[i].distKm * 1000),
+              });
+              next = i + 1;
+            }
+            if (stopTimes.length < trip.stopTimes.length) {
+              warnings.push(`${label} does not follow the ${trip.direction} stops of route ${routeKey} version ${v.version}; not exported`);
+              continue;
+            }
+
+            rows['trips.txt'].push({
+              route_id: routeKey,
+              service_id: serviceId,
+              trip_id: tripId,
+              direction_id: shape.directionId,
+              shape_id: shape.shapeId,
+            });
+            rows['stop_times.txt'].push(...stopTimes);
+            tripCount += 1;
+            if (trip.headwayMinutes) {
+              // Runs leave the first stop every headway while not after endTime (utils/schedule tripRuns);
+              // frequencies.txt end_time is exclusive
+              const first = firstDeparture(trip);
+              const headwaySecs = trip.headwayMinutes * 60;
+              const last = first + Math.max(0, Math.floor((parseClock(trip.endTime, first) - first) / headwaySecs)) * headwaySecs;
+              rows['frequencies.txt'].push({
+                trip_id: tripId,
+                start_time: formatClock(first),
+                end_time: formatClock(last + headwaySecs),
+                headway_secs: headwaySecs,
+                exact_times: 1,
+              });
+            }
+          }
+        }
+        if (!tripCount) warnings.push(`Route ${routeKey} version ${v.version} has timetables but none of their trips is exported`);
+        continue;
+      }
+
+      const serviceId = `${routeKey}_v${v.version}`;
+      rows['calendar.txt'].push({
+        service_id: serviceId,
+        monday: 1, tuesday: 1, wednesday: 1, thursday: 1, friday: 1, saturday: 1, sunday: 1,
+        start_date: startDate,
+        end_date: endDate,
+      });
+      for (const d of shapes.values()) {
+        let durationSecs = Number(d.duration);
+        if (!Number.isFinite(durationSecs) || durationSecs <= 0) {
+          durationSecs = (d.totalKm / settings.defaultSpeedKmh) * 3600;
+        }
+
+        rows['trips.txt'].push({ route_id: routeKey, service_id: serviceId, trip_id: d.shapeId, direction_id: d.directionId, shape_id: d.shapeId });
+        templateTrips += 1;
+        // Template trip: times from the route duration, spread by distance along the shape
+        d.placed.forEach((p, i) => {
+          const time = formatClock(settings.serviceStart + (d.totalKm > 0 ? (p.distKm / d.totalKm) * durationSecs : 0));
+          rows['stop_times.txt'].push({
+            trip_id: d.shapeId,
+            arrival_time: time,
+            departure_time: time,
+            stop_id: d.stopIds[i],
+            stop_sequence: i + 1,
+            shape_dist_traveled: Math.round(p.distKm * 1000),
+          });
+        });
+        rows['frequencies.txt'].push({
+          trip_id: d.shapeId,
+          start_time: formatClock(settings.serviceStart),
+          end_time: formatClock(settings.serviceEnd),
+          headway_secs: settings.headwaySecs,
+          exact_times: 0,
+        });
+      }
+    }
+  }
+
+  if (!rows['routes.txt'].length) errors.push('There are no routes to export');
+  if (templateTrips) {
+    warnings.push(
+      `${templateTrips} trips have no timetable: each runs every ${settings.headwaySecs / 60} min between ` +
+        `${formatClock(settings.serviceStart)} and ${formatClock(settings.serviceEnd)}`
+    );
+  }
+
+  rows['stops.txt'] = [...stops.values()].sort((a, b) => a.stop_id.localeCompare(b.stop_id));
+  rows['translations.txt'].sort((a, b) => a.record_id.localeCompare(b.record_id) || a.language.localeCompare(b.language));
+  rows['agency.txt'] = [{
+    agency_id: 'agency',
+    agency_name: settings.agencyName,
+    agency_url: settings.agencyUrl,
+    agency_timezone: settings.timezone,
+    agency_lang: settings.lang,
+  }];
+
+  const files = {};
+  for (const name of Object.keys(COLUMNS)) {
+    if (name === 'feed_info.txt' || (OPTIONAL_FILES.includes(name) && !rows[name].length)) continue;
+    files[name] = toCsv(COLUMNS[name], rows[name]);
+  }
+  // The feed version is a hash of the content, so it only changes when the feed does
+  const hash = crypto.createHash('sha1');
+  for (const name of Object.keys(files)) hash.update(name).update(files[name]);
+  const feedVersion = hash.digest('hex').slice(0, 12);
+  files['feed_info.txt'] = toCsv(COLUMNS['feed_info.txt'], [{
+    feed_publisher_name: settings.agencyName,
+    feed_publisher_url: settings.agencyUrl,
+    feed_lang: settings.lang,
+    feed_version: feedVersion,
+  }]);
+
+  const counts = {
+    routes: rows['routes.txt'].length,
+    stops: rows['stops.txt'].length,
+    trips: rows['trips.txt'].length,
+  };
+  return { files, feedVersion, counts, errors, warnings };
+}
+
+// Zip of the feed files
+function writeGtfsZip(files) {
+  const zip = new AdmZip();
+  for (const [name, content] of Object.entries(files)) {
+    zip.addFile(name, Buffer.from(content, 'utf8'));
+    zip.getEntry(name).header.time = ZIP_ENTRY_TIME;
+  }
+  return zip.toBuffer();
+}
+
+module.exports = {
+  buildGtfsFeed,
+  writeGtfsZip,
+  feedSettings,
+  parseClock,
+  formatClock,
+  gtfsRouteId,
+  gtfsStopId,
+  gtfsTripId,
+  gtfsScheduledTripId,
+};
@@ -0,0 +1,155 @@
+// GTFS-Realtime VehiclePositions and TripUpdates from the live state of buses
+// IDs match the static feed (utils/gtfsExport), given the same stop registry ids. A trip in progress is the
+// scheduled trip run the bus was matched to (utils/schedule), else the route's template trip, which runs on
+// frequencies and is identified by trip_id plus the start_time/start_date of the bus's trip.
+const { transit_realtime: rt } = require('gtfs-realtime-bindings');
+const { feedSettings, formatClock, gtfsRouteId, gtfsStopId, gtfsTripId, gtfsScheduledTripId } = require('./gtfsExport');
+const { dayStart } = require('./schedule');
+
+const toSeconds = (t) => Math.floor(new Date(t).getTime() / 1000);
+
+// Date (YYYYMMDD) and time (HH:MM:SS) of t in the agency time zone
+function localDateTime(t, timeZone) {
+  const options = {
+    year: 'numeric', month: '2-digit', day: '2-digit',
+    hour: '2-digit', minute: '2-digit', second: '2-digit', hourCycle: 'h23',
+  };
+  let format;
+  try {
+    format = new Intl.DateTimeFormat('en-CA', { ...options, timeZone });
+  } catch (e) {
+    format = new Intl.DateTimeFormat('en-CA', { ...options, timeZone: 'UTC' });
+  }
+  const parts = Object.fromEntries(format.formatToParts(new Date(t)).map((p) => [p.type, p.value]));
+  return { date: `${parts.year}${parts.month}${parts.day}`, time: `${parts.hour}:${parts.minute}:${parts.second}` };
+}
+
+// Trip in progress of a bus; null without trip progress on the route version in effect
+function tripDescriptor(bus, timeZone) {
+  const { trip, layout, scheduledTrip } = bus.state;
+  if (!trip || !layout.version) return null;
+  const route = { routeId: gtfsRouteId(bus.route), directionId: layout.direction === 'down' ? 1 : 0 };
+  if (scheduledTrip) {
+    // Start of the run as GTFS time of its service day (past 24:00:00 after midnight)
+    const startSecs = (new Date(scheduledTrip.departure).getTime() - dayStart(scheduledTrip.serviceDate, timeZone)) / 1000;
+    return {
+      tripId: gtfsScheduledTripId(bus.route, layout.version, scheduledTrip.tripId),
+      ...route,
+      startTime: formatClock(startSecs),
+      startDate: scheduledTrip.serviceDate.replace(/-/g, ''),
+      scheduleRelationship: 'SCHEDULED',
+    };
+  }
+  // Routes with timetables have no template trip in the static feed
+  const start = localDateTime(trip.startedAt, timeZone);
+  return {
+    tripId: gtfsTripId(bus.route, layout.version, layout.direction),
+    ...route,
+    startTime: start.time,
+    startDate: start.date,
+    scheduleRelationship: bus.route.timetabled ? 'ADDED' : 'SCHEDULED',
+  };
+}
+
+// Index in etaStops of the last stop reached on the trip (-1 before the first)
+function lastReachedIndex(etaStops) {
+  let index = -1;
+  etaStops.forEach((s, i) => {
+    if (!s.closed && (s.passed || s.arrivedAt)) index = i;
+  });
+  return index;
+}
+
+function vehiclePositionEntity(bus, timeZone, registryIds) {
+  const { state } = bus;
+  const position = { latitude: state.lastLat, longitude: state.lastLng };
+  if (Number.isFinite(bus.heading)) position.bearing = bus.heading;
+  if (Number.isFinite(state.avgSpeed)) position.speed = state.avgSpeed / 3.6; // m/s
+  const vehicle = {
+    vehicle: { id: bus.busId, label: bus.busNumber },
+    position,
+    timestamp: toSeconds(state.lastUpdated),
+  };
+
+  const trip = tripDescriptor(bus, timeZone);
+  if (trip) {
+    vehicle.trip = trip;
+    const stops = state.etaStops;
+    // At a stop until departing it, otherwise on the way to the next stop not reached yet
+    const reached = lastReachedIndex(stops);
+    const atIndex = stops.findIndex((s) => !s.closed && s.arrivedAt && !s.departedAt);
+    const nextIndex = stops.findIndex((s, i) => !s.closed && i > reached);
+    const index = atIndex >= 0 ? atIndex : nextIndex;
+    if (index >= 0) {
+      vehicle.currentStopSequence = index + 1;
+      vehicle.stopId = gtfsStopId(bus.route, stops[index].stopId, registryIds);
+      vehicle.currentStatus = atIndex >= 0 ? 'STOPPED_AT' : 'IN_TRANSIT_TO';
+    }
+  }
+  return { id: bus.busId, vehicle };
+}
+
+// Predicted arrivals at the stops ahead (from the last fix); closed stops are SKIPPED
+function tripUpdateEntity(bus, timeZone, registryIds) {
+  const trip = tripDescriptor(bus, timeZone);
+  if (!trip) return null;
+  const { state } = bus;
+  const fixTime = new Date(state.lastUpdated).getTime();
+  const reached = lastReachedIndex(state.etaStops);
+
+  const stopTimeUpdate = [];
+  state.etaStops.forEach((s, i) => {
+    if (i <= reached) return;
+    const update = { stopSequence: i + 1, stopId: gtfsStopId(bus.route, s.stopId, registryIds) };
+    if (s.closed) {
+      stopTimeUpdate.push({ ...update, scheduleRelationship: 'SKIPPED' });
+    } else if (s.etaMinutes !== null && s.etaMinutes !== undefined) {
+      const arrival = { time: toSeconds(fixTime + s.etaMinutes * 60 * 1000) };
+      // Half the width of the ETA range, in seconds
+      if (s.etaMinMinutes != null && s.etaMaxMinutes != null) {
+        arrival.uncertainty = Math.round(((s.etaMaxMinutes - s.etaMinMinutes) * 60) / 2);
+      }
+      stopTimeUpdate.push({ ...update, arrival, scheduleRelationship: 'SCHEDULED' });
+    }
+  });
+  if (!stopTimeUpdate.length) return null;
+
+  return {
+    id: bus.busId,
+    tripUpdate: {
+      trip,
+      vehicle: { id: bus.busId, label: bus.busNumber },
+      stopTimeUpdate,
+      timestamp: toSeconds(state.lastUpdated),
+    },
+  };
+}
+
+// buses: [{ busId, busNumber, route: { _id, gtfsRouteId, timetabled }, heading, state }] with state from the live
+// controller (lastLat/lastLng/lastUpdated, avgSpeed, layout, trip, etaStops, scheduledTrip); only online buses with a fix are
+// published. The header timestamp is the newest fix, so an unchanged fleet encodes to the same bytes.
+// registryIds: Set of stop registry stopIds
+function buildFeedMessage(buses, registryIds, toEntity) {
+  const { timezone } = feedSettings();
+  const live = buses.filter((b) => b.route && b.state.hasFix && b.state.status === 'online');
+  const newest = buses.reduce((max, b) => (b.state.lastUpdated ? Math.max(max, toSeconds(b.state.lastUpdated)) : max), 0);
+  return rt.FeedMessage.fromObject({
+    header: {
+      gtfsRealtimeVersion: '2.0',
+      incrementality: 'FULL_DATASET',
+      timestamp: newest || toSeconds(Date.now()),
+    },
+    entity: live.map((b) => toEntity(b, timezone, registryIds)).filter(Boolean),
+  });
+}
+
+const buildVehiclePositions = (buses, registryIds) => buildFeedMessage(buses, registryIds, vehiclePositionEntity);
+const buildTripUpdates = (buses, registryIds) => buildFeedMessage(buses, registryIds, tripUpdateEntity);
+
+// Protobuf bytes of a feed message
+const encodeFeed = (message) => Buffer.from(rt.FeedMessage.encode(message).finish());
+
+// Readable JSON of a feed message (debugging), with enum names and numeric timestamps
+const feedToJson = (message) => rt.FeedMessage.toObject(message, { longs: Number, enums: String });
+
+module.exports = { buildVehiclePositions, buildTripUpdates, encodeFeed, feedToJson };
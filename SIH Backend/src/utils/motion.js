@@ -0,0 +1,48 @@
+// Motion-state classifier for live buses
+// States: moving | dwelling (stationary at a stop) | stopped (stationary between stops)
+//         | idle (still reporting, no movement for IDLE_AFTER_MS) | offline (decided by the caller)
+const turf = require('@turf/turf');
+
+const MOVING_SPEED_KMH = 5;
+// Fixes within this distance of the newest one count as "not moved" (absorbs GPS jitter)
+const STATIONARY_RADIUS_M = 30;
+// A stationary bus this close to a stop is dwelling there
+const DWELL_RADIUS_M = 50;
+const IDLE_AFTER_MS = (Number(process.env.MOTION_IDLE_MINUTES) || 5) * 60 * 1000;
+
+const distanceMeters = (a, b) =>
+  turf.distance(turf.point([a.lng, a.lat]), turf.point([b.lng, b.lat]), { units: 'meters' });
+
+// points: recent fixes { t, lat, lng, speed } sorted by t, newest last
+// stops: route stops { latitude, longitude }
+// Returns { state, stationarySince } (stationarySince is epoch ms, null while moving)
+function classifyMotion(points, stops) {
+  if (!points || !points.length) return { state: 'stopped', stationarySince: null };
+
+  const latest = points[points.length - 1];
+  const previous = points.length > 1 ? points[points.length - 2] : null;
+
+  // Reported speed wins; without it, fall back to displacement since the previous fix
+  const moving = latest.speed !== null && latest.speed !== undefined
+    ? Number(latest.speed) >= MOVING_SPEED_KMH
+    : !!previous && distanceMeters(previous, latest) > STATIONARY_RADIUS_M;
+  if (moving) return { state: 'moving', stationarySince: null };
+
+  // Walk back while the bus stayed put to find when it stopped
+  let stationarySince = latest.t;
+  for (let i = points.length - 2; i >= 0; i--) {
+    const p = points[i];
+    const fast = p.speed !== null && p.speed !== undefined && Number(p.speed) >= MOVING_SPEED_KMH;
+    if (fast || distanceMeters(p, latest) > STATIONARY_RADIUS_M) break;
+    stationarySince = p.t;
+  }
+
+  if (latest.t - stationarySince >= IDLE_AFTER_MS) return { state: 'idle', stationarySince };
+
+  const atStop = (stops || []).some(
+    (s) => distanceMeters({ lat: s.latitude, lng: s.longitude }, latest) <= DWELL_RADIUS_M
+  );
+  return { state: atStop ? 'dwelling' : 'stopped', stationarySince };
+}
+
+module.exports = { classifyMotion, distanceMeters, IDLE_AFTER_MS, MOVING_SPEED_KMH, STATIONARY_RADIUS_M, DWELL_RADIUS_M };
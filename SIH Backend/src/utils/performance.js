@@ -0,0 +1,171 @@
+// Schedule adherence / on-time performance (OTP)
+// - Records a StopEvent when a bus on a scheduled trip run leaves the run's first stop or reaches
+//   a later one; the deviation is actual minus scheduled time, so positive is late
+// - Classifies events against the on-time window (OTP_EARLY_MINUTES / OTP_LATE_MINUTES)
+// - Aggregates each service day per route, driver, stop and trip into PerformanceDaily
+const StopEvent = require('../models/StopEvent');
+const PerformanceDaily = require('../models/PerformanceDaily');
+const { feedSettings } = require('./gtfsExport');
+const { addDays, localDate } = require('./schedule');
+
+const SCOPES = ['route', 'driver', 'stop', 'trip'];
+// Today's and yesterday's figures are rebuilt this often (trips may run past midnight)
+const AGGREGATE_INTERVAL_MS = 60 * 60 * 1000;
+// Days aggregated again on startup, in case the server was down when they ended
+const BACKFILL_DAYS = 7;
+
+// Non-negative minutes from the environment (0 is allowed)
+function envMinutes(value, fallback) {
+  const minutes = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(minutes) && minutes >= 0 ? minutes : fallback;
+}
+
+// On time from earlySecs before to lateSecs after the scheduled time (default -1/+5 min)
+function otpSettings() {
+  return {
+    earlySecs: envMinutes(process.env.OTP_EARLY_MINUTES, 1) * 60,
+    lateSecs: envMinutes(process.env.OTP_LATE_MINUTES, 5) * 60,
+  };
+}
+
+function classify(deviationSecs, settings = otpSettings()) {
+  if (deviationSecs < -settings.earlySecs) return 'early';
+  if (deviationSecs > settings.lateSecs) return 'late';
+  return 'onTime';
+}
+
+// Records the stop events reached since `since` (epoch ms) from etaStops with scheduled times
+// (liveController applySchedule). The first stop of the run counts its departure, later stops their
+// arrival; stops the run skips have no scheduled time. Arrivals are only counted when the bus was seen
+// reaching the stop on its own: the stop the trip opened at (`tripStartedAt`, epoch ms) and stops sharing
+// one arrival time (crossed by a single update) are skipped, like the segment samples of etaModel.
+// Events already recorded are kept as they are. A failed write is logged but does not reject the upload.
+async function recordStopEvents({ busId, driverId = null, routeId, direction, etaStops, scheduledTrip, since, tripStartedAt = null }) {
+  if (!scheduledTrip || !etaStops || !etaStops.length) return;
+  const served = etaStops.filter((s) => s.scheduledArrival);
+  const runDeparture = new Date(scheduledTrip.departure);
+  const arrivalCounts = new Map();
+  etaStops.forEach((s) => {
+    if (s.arrivedAt) arrivalCounts.set(s.arrivedAt, (arrivalCounts.get(s.arrivedAt) || 0) + 1);
+  });
+
+  const events = [];
+  served.forEach((s, i) => {
+    const event = i === 0 ? 'departure' : 'arrival';
+    const actual = Date.parse(i === 0 ? s.departedAt : s.arrivedAt);
+    const scheduled = Date.parse(i === 0 ? s.scheduledDeparture : s.scheduledArrival);
+    if (!Number.isFinite(actual) || !Number.isFinite(scheduled) || actual < since) return;
+    if (event === 'arrival' && (arrivalCounts.get(s.arrivedAt) > 1 || (tripStartedAt !== null && actual <= tripStartedAt))) return;
+    events.push({
+      busId,
+      driverId,
+      routeId,
+      direction,
+      timetableId: scheduledTrip.timetableId,
+      tripId: scheduledTrip.tripId,
+      serviceDate: scheduledTrip.serviceDate,
+      runDeparture,
+      stopId: s.stopId,
+      stopName: s.name || null,
+      stopSequence: i,
+      event,
+      scheduledAt: new Date(scheduled),
+      actualAt: new Date(actual),
+      deviationSecs: Math.round((actual - scheduled) / 1000),
+    });
+  });
+  if (!events.length) return;
+
+  try {
+    await StopEvent.bulkWrite(
+      events.map((e) => ({
+        updateOne: {
+          filter: { busId: e.busId, tripId: e.tripId, runDeparture: e.runDeparture, stopId: e.stopId, event: e.event },
+          update: { $setOnInsert: e },
+          upsert: true,
+        },
+      })),
+      { ordered: false }
+    );
+  } catch (err) {
+    console.error('recordStopEvents error:', err);
+  }
+}
+
+// Group key of an event per scope; null when the event has none (no driver reported it)
+const scopeKey = {
+  route: (e) => e.routeId,
+  driver: (e) => (e.driverId ? String(e.driverId) : null),
+  stop: (e) => e.stopId,
+  trip: (e) => String(e.tripId),
+};
+
+// Rebuilds the PerformanceDaily documents of a service date from its stop events
+async function aggregateDay(date, settings = otpSettings()) {
+  const events = await StopEvent.find(
+    { serviceDate: date },
+    { busId: 1, driverId: 1, routeId: 1, tripId: 1, runDeparture: 1, stopId: 1, stopName: 1, deviationSecs: 1 }
+  ).lean();
+
+  const groups = new Map(); // scope:key -> aggregate
+  for (const e of events) {
+    const run = `${e.busId}|${e.tripId}|${new Date(e.runDeparture).getTime()}`;
+    const status = classify(e.deviationSecs, settings);
+    for (const scope of SCOPES) {
+      const key = scopeKey[scope](e);
+      if (!key) continue;
+      const id = `${scope}:${key}`;
+      if (!groups.has(id)) {
+        groups.set(id, {
+          date,
+          scope,
+          key,
+          routeId: scope === 'route' || scope === 'trip' ? e.routeId : null,
+          label: null,
+          runs: new Set(),
+          events: 0,
+          early: 0,
+          onTime: 0,
+          late: 0,
+          sumDeviationSecs: 0,
+          maxDeviationSecs: null,
+          ...settings,
+        });
+      }
+      const g = groups.get(id);
+      if (scope === 'stop' && e.stopName) g.label = e.stopName;
+      g.runs.add(run);
+      g.events += 1;
+      g[status] += 1;
+      g.sumDeviationSecs += e.deviationSecs;
+      g.maxDeviationSecs = g.maxDeviationSecs === null ? e.deviationSecs : Math.max(g.maxDeviationSecs, e.deviationSecs);
+    }
+  }
+
+  const docs = [...groups.values()].map(({ runs, ...g }) => ({ ...g, trips: runs.size }));
+  await PerformanceDaily.deleteMany({ date });
+  if (docs.length) await PerformanceDaily.insertMany(docs, { ordered: false });
+  return docs.length;
+}
+
+// Aggregates the current and previous service day now and every AGGREGATE_INTERVAL_MS,
+// and the BACKFILL_DAYS before them once
+function startDailyAggregation() {
+  const run = async (days) => {
+    const today = localDate(Date.now(), feedSettings().timezone);
+    for (let i = days - 1; i >= 0; i -= 1) {
+      const date = addDays(today, -i);
+      try {
+        await aggregateDay(date);
+      } catch (err) {
+        console.error(`aggregateDay ${date} error:`, err);
+      }
+    }
+  };
+  run(BACKFILL_DAYS + 1);
+  const timer = setInterval(() => run(2), AGGREGATE_INTERVAL_MS);
+  if (timer.unref) timer.unref();
+  return timer;
+}
+
+module.exports = { SCOPES, otpSettings, classify, recordStopEvents, aggregateDay, startDailyAggregation };
@@ -16,6 +16,12 @@ async function hset(key, obj) {
 async function hgetall(key) {
   return redis.hgetall(key);
 }
+async function hdel(key, ...fields) {
+  return redis.hdel(key, ...fields);
+}
+async function del(...keys) {
+  return redis.del(...keys);
+}
 async function lpush(key, ...values) {
   return redis.lpush(key, ...values);
 }
@@ -33,4 +39,49 @@ async function set(key, value, opts) {
   return redis.set(key, value);
 }
 
-module.exports = { redis, hset, hgetall, lpush, ltrim, lrange, get, set };
\ No newline at end of file
+// Batched reads for fleet-wide views: one pipelined round trip, results in key order
+async function hgetallMany(keys) {
+  if (!keys.length) return [];
+  const pipeline = redis.pipeline();
+  keys.forEach((key) => pipeline.hgetall(key));
+  return pipeline.exec();
+}
+async function lrangeMany(keys, start, stop) {
+  if (!keys.length) return [];
+  const pipeline = redis.pipeline();
+  keys.forEach((key) => pipeline.lrange(key, start, stop));
+  return pipeline.exec();
+}
+
+// Sorted-set helpers (score = epoch ms for time-ordered data)
+// zaddNx adds each { score, member } only if the member is new; resolves to per-entry 1 (added) / 0 (existed)
+async function zaddNx(key, entries) {
+  if (!entries.length) return [];
+  const pipeline = redis.pipeline();
+  entries.forEach((entry) => pipeline.zadd(key, { nx: true }, entry));
+  return pipeline.exec();
+}
+async function zrangeByScore(key, min, max) {
+  return redis.zrange(key, min, max, { byScore: true });
+}
+async function zremrangebyscore(key, min, max) {
+  return redis.zremrangebyscore(key, min, max);
+}
+
+module.exports = {
+  redis,
+  hset,
+  hgetall,
+  hdel,
+  del,
+  lpush,
+  ltrim,
+  lrange,
+  get,
+  set,
+  hgetallMany,
+  lrangeMany,
+  zaddNx,
+  zrangeByScore,
+  zremrangebyscore,
+};
\ No newline at end of file
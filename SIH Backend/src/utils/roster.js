@@ -0,0 +1,73 @@
+// Duty roster (models/Shift): which driver drives which bus, on which route, and when.
+// A driver on duty may report the shift's bus (liveController) and gets it as the assigned bus in
+// the driver app (driverController); outside shifts the static Driver.assignedBus still applies.
+const Shift = require('../models/Shift');
+
+// Drivers are on duty this long before their shift starts and after it ends (sign-in, late arrival)
+const DUTY_GRACE_MS = 30 * 60 * 1000;
+
+// Shifts overlapping [startsAt, endsAt); touching shifts (one ends when the next starts) do not overlap
+const overlapping = (startsAt, endsAt) => ({ startsAt: { $lt: new Date(endsAt) }, endsAt: { $gt: new Date(startsAt) } });
+
+const onDutyAt = (at) => ({
+  startsAt: { $lte: new Date(at + DUTY_GRACE_MS) },
+  endsAt: { $gte: new Date(at - DUTY_GRACE_MS) },
+});
+
+// Other shifts that double-book the driver or the bus of a shift; each with reasons ['driver', 'bus']
+async function findConflicts({ driverId, busId, startsAt, endsAt, excludeId = null }) {
+  const filter = { ...overlapping(startsAt, endsAt), $or: [{ driverId }, { busId }] };
+  if (excludeId) filter._id = { $ne: excludeId };
+  const shifts = await Shift.find(filter).sort({ startsAt: 1 }).lean();
+  return shifts.map((s) => ({
+    shift: s,
+    reasons: [
+      ...(String(s.driverId) === String(driverId) ? ['driver'] : []),
+      ...(s.busId === busId ? ['bus'] : []),
+    ],
+  }));
+}
+
+// Conflicts among the given shifts: shift id -> [{ shiftId, reasons }]
+function listConflicts(shifts) {
+  const conflicts = new Map(shifts.map((s) => [String(s._id), []]));
+  const sorted = [...shifts].sort((a, b) => new Date(a.startsAt) - new Date(b.startsAt));
+  sorted.forEach((a, i) => {
+    for (const b of sorted.slice(i + 1)) {
+      if (new Date(b.startsAt) >= new Date(a.endsAt)) break;
+      const reasons = [
+        ...(String(a.driverId) === String(b.driverId) ? ['driver'] : []),
+        ...(a.busId === b.busId ? ['bus'] : []),
+      ];
+      if (!reasons.length) continue;
+      conflicts.get(String(a._id)).push({ shiftId: String(b._id), reasons });
+      conflicts.get(String(b._id)).push({ shiftId: String(a._id), reasons });
+    }
+  });
+  return conflicts;
+}
+
+// The driver's shift at `at` (epoch ms), within DUTY_GRACE_MS; a shift running at `at` wins over one
+// about to start or just ended, else the nearest one
+async function findDutyShift(driverId, at = Date.now()) {
+  const shifts = await Shift.find({ driverId, ...onDutyAt(at) }).lean();
+  const distance = (s) => Math.max(new Date(s.startsAt).getTime() - at, at - new Date(s.endsAt).getTime(), 0);
+  shifts.sort((a, b) => distance(a) - distance(b) || new Date(a.startsAt) - new Date(b.startsAt));
+  return shifts[0] || null;
+}
+
+// True when the driver has a shift on the bus at `at` (within DUTY_GRACE_MS)
+async function isOnDuty(busId, driverId, at = Date.now()) {
+  return !!(await Shift.exists({ busId, driverId, ...onDutyAt(at) }));
+}
+
+// Drivers on shift at `at` (no grace) per bus: busId -> driverId
+async function findOnDutyDrivers(busIds, at = Date.now()) {
+  const shifts = await Shift.find(
+    { busId: { $in: busIds }, startsAt: { $lte: new Date(at) }, endsAt: { $gt: new Date(at) } },
+    { busId: 1, driverId: 1 }
+  ).lean();
+  return new Map(shifts.map((s) => [s.busId, String(s.driverId)]));
+}
+
+module.exports = { DUTY_GRACE_MS, overlapping, findConflicts, listConflicts, findDutyShift, isOnDuty, findOnDutyDrivers };
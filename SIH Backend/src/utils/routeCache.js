@@ -0,0 +1,167 @@
+// Redis cache of route geometry per route version (Mongo is the source of truth)
+//   route:<routeId>            { versions: JSON [{ version, effectiveFrom, effectiveTo, bidirectional }] } (epoch ms)
+//   route:<routeId>:v<version> { polyline, downPolyline?, stops } (polylines as [lng,lat] JSON)
+//   route:<routeId>:diversions { list: JSON [{ id, reason, closedStopIds, coords, version, startsAt, endsAt }] }
+//                              (current and upcoming diversions, coords as [lng,lat] or null)
+//   route:<routeId>:schedule   { list: JSON [{ id, calendar, trips }] } (timetables, see utils/schedule)
+const polyline = require('@mapbox/polyline');
+const Route = require('../models/Route');
+const Polyline = require('../models/Polyline');
+const Diversion = require('../models/Diversion');
+const Timetable = require('../models/Timetable');
+const Trip = require('../models/Trip');
+const { hset, hgetall, del } = require('./redisClient');
+const { listVersions } = require('./routeVersions');
+const { scheduleEntry } = require('./schedule');
+
+const versionKey = (routeId, version) => `route:${routeId}:v${version}`;
+const diversionsKey = (routeId) => `route:${routeId}:diversions`;
+const scheduleKey = (routeId) => `route:${routeId}:schedule`;
+
+// Decode encoded polyline to array of [lat,lng], then convert to [lng,lat]
+const toLngLat = (encoded) => polyline.decode(encoded).map(([lat, lng]) => [lng, lat]);
+
+// Polyline document of a route version (documents from before versioning have no version and count as 1)
+function findPolyline(routeId, version) {
+  return Polyline.findOne({ routeId, version: version === 1 ? { $in: [1, null] } : version });
+}
+
+const toIndexEntry = (v) => ({
+  version: v.version,
+  effectiveFrom: new Date(v.effectiveFrom).getTime(),
+  effectiveTo: v.effectiveTo ? new Date(v.effectiveTo).getTime() : null,
+  bidirectional: !!v.bidirectional,
+});
+
+// Rewrites the version index of a route (also drops fields cached before versioning)
+async function cacheVersionIndex(route) {
+  const index = listVersions(route).map(toIndexEntry);
+  await del(`route:${route._id}`);
+  await hset(`route:${route._id}`, { versions: JSON.stringify(index) });
+  return index;
+}
+
+// Rewrites the geometry hash of one version from its Polyline document
+async function cacheVersionGeometry(routeId, versionDef, polyDoc) {
+  const cache = {
+    polyline: JSON.stringify(toLngLat(polyDoc.geometry)),
+    stops: JSON.stringify(versionDef.stops || []),
+  };
+  if (polyDoc.downGeometry) cache.downPolyline = JSON.stringify(toLngLat(polyDoc.downGeometry));
+  const key = versionKey(routeId, versionDef.version);
+  await del(key);
+  await hset(key, cache);
+  return cache;
+}
+
+// Rewrites the cached list of current and upcoming diversions of a route from Mongo
+async function cacheDiversions(routeId) {
+  const docs = await Diversion.find({ routeId, endsAt: { $gt: new Date() } }).sort({ startsAt: 1 }).lean();
+  const list = docs.map((d) => ({
+    id: String(d._id),
+    reason: d.reason,
+    closedStopIds: d.closedStopIds || [],
+    coords: d.geometry ? toLngLat(d.geometry) : null,
+    version: d.version,
+    startsAt: new Date(d.startsAt).getTime(),
+    endsAt: new Date(d.endsAt).getTime(),
+  }));
+  await hset(diversionsKey(routeId), { list: JSON.stringify(list) });
+  return list;
+}
+
+// Rewrites the cached timetables of a route (with their trips) from Mongo
+async function cacheSchedule(routeId) {
+  const [timetables, trips] = await Promise.all([
+    Timetable.find({ routeId }).sort({ createdAt: 1 }).lean(),
+    Trip.find({ routeId }).lean(),
+  ]);
+  const list = timetables.map((t) => scheduleEntry(t, trips.filter((trip) => String(trip.timetableId) === String(t._id))));
+  await hset(scheduleKey(routeId), { list: JSON.stringify(list) });
+  return list;
+}
+
+// Removes every cached key of a route
+async function clearRouteCache(routeId, versions) {
+  await del(
+    `route:${routeId}`,
+    diversionsKey(routeId),
+    scheduleKey(routeId),
+    ...versions.map((v) => versionKey(routeId, v.version))
+  );
+}
+
+// Version index of a route from Redis (fallback Mongo, then cached); null for unknown routes
+async function loadVersionIndex(routeId) {
+  const cached = await hgetall(`route:${routeId}`);
+  if (cached && cached.versions) {
+    try {
+      return typeof cached.versions === 'string' ? JSON.parse(cached.versions) : cached.versions;
+    } catch (_) {}
+  }
+  const routeDoc = await Route.findById(routeId);
+  if (!routeDoc) return null;
+  return cacheVersionIndex(routeDoc);
+}
+
+// Geometry + stops of one version: { coords, downCoords, stops } from Redis (fallback Mongo, then cached)
+// coords are null when the polyline has not been computed yet
+async function loadVersionGeometry(routeId, version) {
+  const cached = await hgetall(versionKey(routeId, version));
+  if (cached && cached.polyline && cached.stops) {
+    try {
+      const parse = (v) => (typeof v === 'string' ? JSON.parse(v) : v);
+      return {
+        coords: parse(cached.polyline),
+        downCoords: cached.downPolyline ? parse(cached.downPolyline) : null,
+        stops: parse(cached.stops),
+      };
+    } catch (_) {}
+  }
+  const [polyDoc, routeDoc] = await Promise.all([findPolyline(routeId, version), Route.findById(routeId)]);
+  if (!polyDoc || !routeDoc) return { coords: null, downCoords: null, stops: null };
+  const versionDef = listVersions(routeDoc).find((v) => v.version === version);
+  if (!versionDef) return { coords: null, downCoords: null, stops: null };
+  // Store in Redis for next time
+  const cache = await cacheVersionGeometry(routeId, versionDef, polyDoc);
+  return {
+    coords: JSON.parse(cache.polyline),
+    downCoords: cache.downPolyline ? JSON.parse(cache.downPolyline) : null,
+    stops: versionDef.stops,
+  };
+}
+
+// Current and upcoming diversions of a route from Redis (fallback Mongo, then cached)
+async function loadDiversions(routeId) {
+  const cached = await hgetall(diversionsKey(routeId));
+  if (cached && cached.list) {
+    try {
+      return typeof cached.list === 'string' ? JSON.parse(cached.list) : cached.list;
+    } catch (_) {}
+  }
+  return cacheDiversions(routeId);
+}
+
+// Timetables of a route from Redis (fallback Mongo, then cached)
+async function loadSchedule(routeId) {
+  const cached = await hgetall(scheduleKey(routeId));
+  if (cached && cached.list) {
+    try {
+      return typeof cached.list === 'string' ? JSON.parse(cached.list) : cached.list;
+    } catch (_) {}
+  }
+  return cacheSchedule(routeId);
+}
+
+module.exports = {
+  findPolyline,
+  cacheVersionIndex,
+  cacheVersionGeometry,
+  clearRouteCache,
+  loadVersionIndex,
+  loadVersionGeometry,
+  cacheDiversions,
+  loadDiversions,
+  cacheSchedule,
+  loadSchedule,
+};
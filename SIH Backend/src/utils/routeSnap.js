@@ -0,0 +1,140 @@
+// Route snapping that knows where the bus was
+// On out-and-back and circular routes the same road appears more than once in the polyline, so the
+// geometrically nearest point can be on the wrong leg. Candidates are scored by distance from the
+// route, agreement with the bus heading and closeness to the previous along-route position, and are
+// limited to the distance the bus could plausibly have covered since then.
+const turf = require('@turf/turf');
+
+const KM_PER_DEG_LAT = 110.574;
+const KM_PER_DEG_LNG = 111.32; // at the equator
+// Fastest plausible bus speed, bounds how far along the route a bus can get between fixes
+const MAX_PLAUSIBLE_SPEED_KMH = 80;
+// Allowance around the previous position for GPS jitter (km)
+const WINDOW_SLACK_KM = 0.2;
+// A candidate inside the window further than this from the route is not trusted (m);
+// the bus then snaps anywhere (new trip, detour back onto the route, reassigned route)
+const MAX_OFFSET_M = 100;
+// Score added for driving against a segment's direction (m, at 180°)
+const HEADING_PENALTY_M = 100;
+// Score added per km between a candidate and the previous position (m)
+const DISTANCE_PENALTY_M_PER_KM = 50;
+
+// Cumulative along-route distance (km) of every vertex of a [lng,lat] coordinate list
+function buildRouteIndex(coords) {
+  const cumKm = [0];
+  for (let i = 1; i < coords.length; i++) {
+    cumKm.push(cumKm[i - 1] + turf.distance(coords[i - 1], coords[i], { units: 'kilometers' }));
+  }
+  return { coords, cumKm, lengthKm: cumKm[cumKm.length - 1] };
+}
+
+function angleBetween(a, b) {
+  const d = Math.abs(a - b) % 360;
+  return d > 180 ? 360 - d : d;
+}
+
+// Snaps { lat, lng } to the route; returns { distKm, lat, lng, offsetM }
+// options.previousDistKm: along-route position of the previous fix on this trip
+// options.elapsedMs: time since that fix (bounds the window ahead; unbounded when unknown)
+// options.minDistKm: hard lower bound without fallback (stops are placed in order along the route)
+// options.heading: bus heading in degrees (0 = north), only when the bus is moving
+function snapToRoute(index, point, { previousDistKm, elapsedMs, minDistKm, heading } = {}) {
+  const { coords, cumKm } = index;
+  const kx = KM_PER_DEG_LNG * Math.cos((point.lat * Math.PI) / 180);
+  const ky = KM_PER_DEG_LAT;
+
+  let low = -Infinity;
+  let high = Infinity;
+  let anchor = null;
+  if (Number.isFinite(minDistKm)) {
+    low = minDistKm;
+    anchor = minDistKm;
+  } else if (Number.isFinite(previousDistKm)) {
+    const reachKm = Number.isFinite(elapsedMs) ? (Math.max(0, elapsedMs) / 3600000) * MAX_PLAUSIBLE_SPEED_KMH : Infinity;
+    low = previousDistKm - WINDOW_SLACK_KM;
+    high = previousDistKm + reachKm + WINDOW_SLACK_KM;
+    anchor = previousDistKm;
+  }
+  const useHeading = heading !== null && heading !== undefined && Number.isFinite(Number(heading));
+
+  // Nearest point of segment i with u (0..1 along the segment) limited to [uMin, uMax]
+  const project = (i, uMin, uMax) => {
+    const [aLng, aLat] = coords[i];
+    const [bLng, bLat] = coords[i + 1];
+    // Local plane around the bus (km)
+    const ax = (aLng - point.lng) * kx;
+    const ay = (aLat - point.lat) * ky;
+    const dx = (bLng - aLng) * kx;
+    const dy = (bLat - aLat) * ky;
+    const len2 = dx * dx + dy * dy;
+    const u = Math.min(uMax, Math.max(uMin, len2 > 0 ? -(ax * dx + ay * dy) / len2 : 0));
+    const offsetM = Math.hypot(ax + u * dx, ay + u * dy) * 1000;
+
+    let score = offsetM;
+    if (useHeading && len2 > 0) {
+      const bearing = (Math.atan2(dx, dy) * 180) / Math.PI;
+      const diff = (angleBetween(bearing, Number(heading)) * Math.PI) / 180;
+      score += (HEADING_PENALTY_M * (1 - Math.cos(diff))) / 2;
+    }
+    return {
+      distKm: cumKm[i] + u * (cumKm[i + 1] - cumKm[i]),
+      lat: aLat + u * (bLat - aLat),
+      lng: aLng + u * (bLng - aLng),
+      offsetM,
+      score,
+    };
+  };
+
+  let best = null;
+  let bestInWindow = null;
+  for (let i = 0; i < coords.length - 1; i++) {
+    const candidate = project(i, 0, 1);
+    if (!best || candidate.score < best.score) best = candidate;
+
+    // Same segment limited to the window
+    if (cumKm[i + 1] < low || cumKm[i] > high) continue;
+    const segmentKm = cumKm[i + 1] - cumKm[i];
+    const uMin = segmentKm > 0 ? Math.max(0, (low - cumKm[i]) / segmentKm) : 0;
+    const uMax = segmentKm > 0 ? Math.min(1, (high - cumKm[i]) / segmentKm) : 1;
+    const inWindow = project(i, uMin, uMax);
+    if (anchor !== null) inWindow.score += DISTANCE_PENALTY_M_PER_KM * Math.abs(inWindow.distKm - anchor);
+    if (!bestInWindow || inWindow.score < bestInWindow.score) bestInWindow = inWindow;
+  }
+
+  let chosen = bestInWindow || best;
+  if (!Number.isFinite(minDistKm) && chosen.offsetM > MAX_OFFSET_M) chosen = best;
+  return { distKm: chosen.distKm, lat: chosen.lat, lng: chosen.lng, offsetM: chosen.offsetM };
+}
+
+// Along-route position of every stop: [{ distKm, offsetM }]
+// Stops are placed in order, so on out-and-back and circular routes a stop on the return leg is
+// not projected onto the outbound leg running along the same road
+function placeStops(index, stops) {
+  const placed = [];
+  for (const s of stops || []) {
+    const minDistKm = placed.length ? placed[placed.length - 1].distKm : 0;
+    const { distKm, offsetM } = snapToRoute(index, { lat: s.latitude, lng: s.longitude }, { minDistKm });
+    placed.push({ distKm, offsetM });
+  }
+  return placed;
+}
+
+// Point at the given along-route distance (km)
+function pointAlong(index, distKm) {
+  const { coords, cumKm } = index;
+  if (distKm <= 0 || coords.length < 2) return { lat: coords[0][1], lng: coords[0][0] };
+  for (let i = 1; i < coords.length; i++) {
+    if (cumKm[i] >= distKm) {
+      const segmentKm = cumKm[i] - cumKm[i - 1];
+      const u = segmentKm > 0 ? (distKm - cumKm[i - 1]) / segmentKm : 0;
+      return {
+        lat: coords[i - 1][1] + u * (coords[i][1] - coords[i - 1][1]),
+        lng: coords[i - 1][0] + u * (coords[i][0] - coords[i - 1][0]),
+      };
+    }
+  }
+  const last = coords[coords.length - 1];
+  return { lat: last[1], lng: last[0] };
+}
+
+module.exports = { buildRouteIndex, snapToRoute, placeStops, pointAlong };
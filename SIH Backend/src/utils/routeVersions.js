@@ -0,0 +1,40 @@
+// Route versions: which definition of a route's stops is in effect at a given time
+// Routes created before versioning have no versions array and are treated as a single
+// open-ended version 1 built from their top-level stops.
+
+// Plain list of a route's versions, ordered by version
+function listVersions(route) {
+  if (route.versions && route.versions.length) {
+    return [...route.versions]
+      .map((v) => (typeof v.toObject === 'function' ? v.toObject() : v))
+      .sort((a, b) => a.version - b.version);
+  }
+  return [
+    {
+      version: 1,
+      stops: route.stops || [],
+      bidirectional: !!route.bidirectional,
+      viaPoints: route.viaPoints || [],
+      effectiveFrom: route.createdAt ? new Date(route.createdAt) : new Date(0),
+      effectiveTo: null,
+    },
+  ];
+}
+
+// Version in effect at time t (epoch ms or Date). Before the first version the first one applies,
+// so late points from before a route was created still resolve.
+// Works on full versions and on the cached index ({ version, effectiveFrom, effectiveTo } as epoch ms).
+function findActiveVersion(versions, t = Date.now()) {
+  if (!versions || !versions.length) return null;
+  const at = new Date(t).getTime();
+  const active = versions.find((v) => {
+    const from = new Date(v.effectiveFrom).getTime();
+    const to = v.effectiveTo === null || v.effectiveTo === undefined ? Infinity : new Date(v.effectiveTo).getTime();
+    return from <= at && at < to;
+  });
+  if (active) return active;
+  const first = versions[0];
+  return at < new Date(first.effectiveFrom).getTime() ? first : versions[versions.length - 1];
+}
+
+module.exports = { listVersions, findActiveVersion };
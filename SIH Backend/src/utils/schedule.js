@@ -0,0 +1,132 @@
+// Scheduled service from timetables (models/Timetable, models/Trip): the days a timetable runs, the runs
+// of its trips, and the scheduled trip run a live bus is on.
+// Service days are dates in the agency time zone (GTFS_AGENCY_TIMEZONE); trip times are seconds after
+// the start of the service day (see dayStart), so a trip at 24:30:00 runs after midnight of the next date.
+//
+// schedule = [{                          // cached per route (utils/routeCache.loadSchedule)
+//   id, calendar: { days, startDate, endDate, exceptions: [{ date, type }] },
+//   trips: [{ id, direction, stopTimes: [{ stopId, arrival, departure }],   // seconds
+//             headwaySecs, endTime }]                                       // null unless headway-based
+// }]
+const { feedSettings, parseClock } = require('./gtfsExport');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+// A bus is matched to the scheduled departure nearest its own, at most this far apart
+const MATCH_WINDOW_MS = 30 * 60 * 1000;
+
+// Valid YYYY-MM-DD date
+const isDate = (value) =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && new Date(`${value}T00:00:00Z`).toISOString().startsWith(value);
+
+const addDays = (date, days) => new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+// Offset (ms) of the time zone from UTC at t; invalid zones count as UTC
+function zoneOffset(t, timeZone) {
+  const options = {
+    year: 'numeric', month: '2-digit', day: '2-digit',
+    hour: '2-digit', minute: '2-digit', second: '2-digit', hourCycle: 'h23',
+  };
+  let format;
+  try {
+    format = new Intl.DateTimeFormat('en-CA', { ...options, timeZone });
+  } catch (e) {
+    return 0;
+  }
+  const p = Object.fromEntries(format.formatToParts(new Date(t)).map((part) => [part.type, part.value]));
+  const local = Date.UTC(Number(p.year), Number(p.month) - 1, Number(p.day), Number(p.hour), Number(p.minute), Number(p.second));
+  return local - Math.floor(t / 1000) * 1000;
+}
+
+// Date (YYYY-MM-DD) of t in the time zone
+const localDate = (t, timeZone) => new Date(t + zoneOffset(t, timeZone)).toISOString().slice(0, 10);
+
+// Day of week (0 = Sunday) and hour of t in the time zone
+function localTimeParts(t, timeZone) {
+  const local = new Date(t + zoneOffset(t, timeZone));
+  return { dayOfWeek: local.getUTCDay(), hour: local.getUTCHours() };
+}
+
+// Epoch ms trip times of the date count from: noon minus 12h in the time zone, as in GTFS
+// (midnight, except on days the clocks change)
+function dayStart(date, timeZone) {
+  const noon = Date.parse(`${date}T12:00:00Z`);
+  return noon - zoneOffset(noon - zoneOffset(noon, timeZone), timeZone) - DAY_MS / 2;
+}
+
+// Whether a calendar has service on the date; exceptions win over the days of the week
+function runsOn(calendar, date) {
+  const exception = (calendar.exceptions || []).find((e) => e.date === date);
+  if (exception) return exception.type === 'added';
+  if (date < calendar.startDate || (calendar.endDate && date > calendar.endDate)) return false;
+  // getUTCDay counts from Sunday
+  return (calendar.days || []).includes(WEEKDAYS[(new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7]);
+}
+
+// Cache entry of a timetable and its trips (Mongo documents)
+function scheduleEntry(timetable, trips) {
+  const { days, startDate, endDate, exceptions } = timetable.calendar;
+  return {
+    id: String(timetable._id),
+    calendar: { days, startDate, endDate, exceptions: (exceptions || []).map((e) => ({ date: e.date, type: e.type })) },
+    trips: trips.map((t) => ({
+      id: String(t._id),
+      direction: t.direction,
+      stopTimes: t.stopTimes.map((s) => ({
+        stopId: s.stopId,
+        arrival: parseClock(s.arrivalTime, 0),
+        departure: parseClock(s.departureTime, 0),
+      })),
+      headwaySecs: t.headwayMinutes ? t.headwayMinutes * 60 : null,
+      endTime: t.headwayMinutes ? parseClock(t.endTime, 0) : null,
+    })),
+  };
+}
+
+// Shifts (s) of the runs of a trip from its stopTimes: 0, then every headway while departing by endTime
+function tripRuns(trip) {
+  if (!trip.headwaySecs) return [0];
+  const first = trip.stopTimes[0].departure;
+  const runs = [];
+  for (let shift = 0; first + shift <= trip.endTime; shift += trip.headwaySecs) runs.push(shift);
+  return runs;
+}
+
+// Scheduled trip run of a bus trip in direction: the run whose departure from its first stop is nearest
+// the bus's departure from that stop (departures: Map stopId -> epoch ms), or fallbackAt when the bus has
+// not departed it; runs further than MATCH_WINDOW_MS away never match.
+// Returns { timetableId, tripId, serviceDate, departure, stopTimes: [{ stopId, arrival, departure }] }
+// with times in epoch ms, or null.
+function matchScheduledTrip(schedule, { direction, departures, fallbackAt, timeZone = feedSettings().timezone }) {
+  let best = null;
+  const today = localDate(fallbackAt, timeZone);
+  // Yesterday's service day for trips running past midnight, tomorrow's for early departures
+  for (const date of [addDays(today, -1), today, addDays(today, 1)]) {
+    const start = dayStart(date, timeZone);
+    for (const timetable of schedule) {
+      if (!runsOn(timetable.calendar, date)) continue;
+      for (const trip of timetable.trips) {
+        if (trip.direction !== direction || !trip.stopTimes.length) continue;
+        const first = trip.stopTimes[0];
+        const actual = departures.has(first.stopId) ? departures.get(first.stopId) : fallbackAt;
+        for (const shift of tripRuns(trip)) {
+          const departure = start + (first.departure + shift) * 1000;
+          const gap = Math.abs(departure - actual);
+          if (gap <= MATCH_WINDOW_MS && (!best || gap < best.gap)) best = { gap, timetable, trip, date, start, shift, departure };
+        }
+      }
+    }
+  }
+  if (!best) return null;
+
+  const at = (secs) => best.start + (secs + best.shift) * 1000;
+  return {
+    timetableId: best.timetable.id,
+    tripId: best.trip.id,
+    serviceDate: best.date,
+    departure: best.departure,
+    stopTimes: best.trip.stopTimes.map((s) => ({ stopId: s.stopId, arrival: at(s.arrival), departure: at(s.departure) })),
+  };
+}
+
+module.exports = { WEEKDAYS, isDate, addDays, localDate, localTimeParts, dayStart, runsOn, scheduleEntry, tripRuns, matchScheduledTrip };
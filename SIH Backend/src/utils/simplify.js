@@ -0,0 +1,65 @@
+// Ramer-Douglas-Peucker simplification for time-ordered points ({ lat, lng, ... })
+// Keeps the original point objects (timestamps, speeds) instead of bare coordinates.
+
+// Squared distance from p to segment a-b in degree space (lng scaled by cos(lat))
+function segmentDistanceSq(p, a, b) {
+  const k = Math.cos((a.lat * Math.PI) / 180);
+  const ax = a.lng * k, ay = a.lat;
+  const bx = b.lng * k, by = b.lat;
+  const px = p.lng * k, py = p.lat;
+  let dx = bx - ax;
+  let dy = by - ay;
+  let x = ax;
+  let y = ay;
+  if (dx !== 0 || dy !== 0) {
+    const t = ((px - ax) * dx + (py - ay) * dy) / (dx * dx + dy * dy);
+    if (t > 1) {
+      x = bx;
+      y = by;
+    } else if (t > 0) {
+      x += dx * t;
+      y += dy * t;
+    }
+  }
+  dx = px - x;
+  dy = py - y;
+  return dx * dx + dy * dy;
+}
+
+// tolerance in degrees; returns a new array that always keeps the first and last point
+function simplifyPoints(points, tolerance) {
+  if (!Array.isArray(points) || points.length <= 2 || !(tolerance > 0)) return points || [];
+
+  const sqTolerance = tolerance * tolerance;
+  const keep = new Uint8Array(points.length);
+  keep[0] = 1;
+  keep[points.length - 1] = 1;
+
+  // Iterative stack avoids recursion limits on long traces
+  const stack = [[0, points.length - 1]];
+  while (stack.length) {
+    const [first, last] = stack.pop();
+    let maxSq = 0;
+    let index = -1;
+    for (let i = first + 1; i < last; i++) {
+      const sq = segmentDistanceSq(points[i], points[first], points[last]);
+      if (sq > maxSq) {
+        maxSq = sq;
+        index = i;
+      }
+    }
+    if (index !== -1 && maxSq > sqTolerance) {
+      keep[index] = 1;
+      stack.push([first, index], [index, last]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i]);
+}
+
+// Roughly one screen pixel (256px tiles) at the given web-map zoom level, in degrees
+function toleranceForZoom(zoom) {
+  return 360 / (256 * Math.pow(2, zoom));
+}
+
+module.exports = { simplifyPoints, toleranceForZoom };
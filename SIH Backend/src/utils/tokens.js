@@ -0,0 +1,61 @@
+const jwt = require('jsonwebtoken');
+
+// Signed session tokens (HS256 JWT)
+// - Access tokens are short-lived and verified without a DB lookup
+// - Refresh tokens carry the subject's tokenVersion so logout and rotation can revoke them
+const ACCESS_TTL = process.env.JWT_ACCESS_TTL || '15m';
+const REFRESH_TTL = process.env.JWT_REFRESH_TTL || '7d';
+
+function getSecret(type) {
+  const secret = type === 'refresh'
+    ? process.env.JWT_REFRESH_SECRET || process.env.JWT_SECRET
+    : process.env.JWT_SECRET;
+  if (!secret) throw new Error('Missing JWT_SECRET in .env');
+  return secret;
+}
+
+// payload: { sub, role, ...extra claims }; options.expiresIn overrides the default TTL
+function signAccessToken({ sub, role, ...claims }, { expiresIn = ACCESS_TTL } = {}) {
+  return jwt.sign({ ...claims, role, type: 'access' }, getSecret('access'), {
+    subject: String(sub),
+    expiresIn,
+  });
+}
+
+function signRefreshToken({ sub, role, ver = 0 }) {
+  return jwt.sign({ role, ver, type: 'refresh' }, getSecret('refresh'), {
+    subject: String(sub),
+    expiresIn: REFRESH_TTL,
+  });
+}
+
+// Issues both tokens; expiresIn is the access token lifetime in seconds
+function issueTokenPair({ sub, role, ver = 0 }) {
+  const accessToken = signAccessToken({ sub, role });
+  const refreshToken = signRefreshToken({ sub, role, ver });
+  const { exp, iat } = jwt.decode(accessToken);
+  return { accessToken, refreshToken, expiresIn: exp - iat };
+}
+
+// Returns decoded claims or null when the token is invalid, expired or of the wrong type
+function verifyToken(token, type) {
+  if (!token || typeof token !== 'string') return null;
+  try {
+    const claims = jwt.verify(token, getSecret(type));
+    if (!claims || claims.type !== type) return null;
+    return claims;
+  } catch (_) {
+    return null;
+  }
+}
+
+const verifyAccessToken = (token) => verifyToken(token, 'access');
+const verifyRefreshToken = (token) => verifyToken(token, 'refresh');
+
+module.exports = {
+  signAccessToken,
+  signRefreshToken,
+  issueTokenPair,
+  verifyAccessToken,
+  verifyRefreshToken,
+};
@@ -0,0 +1,121 @@
+// Trip progress along a route: furthest distance reached, last visited stop and
+// actual arrival/departure times per stop on the current trip.
+//
+// progress = {
+//   routeId, direction,              // 'up' | 'down'
+//   version,                         // route version the trip runs on
+//   diversion,                       // id of the active diversions (utils/diversions) or null
+//   startedAt, updatedAt,            // epoch ms
+//   distKm,                          // furthest snapped distance along the route (never decreases within a trip)
+//   lastStopIndex,                   // last stop reached (-1 before the first stop)
+//   stops: [{ arrivedAt, departedAt, passed }] // epoch ms or null, one per open route stop; passed is
+//                                              // true for stops left behind without being seen at them
+// }
+// A stop only gets arrival/departure times when the bus was seen reaching it: stops behind the bus
+// when its trip starts, and stops crossed together by one update after a GPS gap, are passed without times.
+
+// A stop is reached this close (km, along the route) before the bus is level with it
+const ARRIVAL_TOLERANCE_KM = 0.03;
+// ...and left once the bus is this far past it
+const DEPARTURE_TOLERANCE_KM = 0.03;
+// After the last stop, driving back this far starts a new trip
+const TRIP_RESET_KM = 0.5;
+// Progress older than this belongs to a finished/abandoned trip
+const TRIP_STALE_MS = 2 * 60 * 60 * 1000;
+
+function newTrip(routeId, direction, version, diversion, stopCount, t) {
+  return {
+    routeId,
+    direction,
+    version,
+    diversion,
+    startedAt: t,
+    updatedAt: t,
+    distKm: 0,
+    lastStopIndex: -1,
+    stops: Array.from({ length: stopCount }, () => ({ arrivedAt: null, departedAt: null, passed: false })),
+  };
+}
+
+// Bus hash stores progress as JSON; the Upstash client may already have parsed it
+function parseTripProgress(value) {
+  if (!value) return null;
+  if (typeof value === 'object') return value;
+  try {
+    return JSON.parse(value);
+  } catch (_) {
+    return null;
+  }
+}
+
+function startsNewTrip(progress, { routeId, direction, version, diversion, stopDistsKm, busDistKm, t }) {
+  if (!progress || progress.routeId !== routeId || (progress.direction || 'up') !== direction) return true;
+  // The stops and geometry change with the route version and with diversions
+  if ((progress.version || 1) !== version || (progress.diversion || null) !== diversion) return true;
+  if (!Array.isArray(progress.stops) || progress.stops.length !== stopDistsKm.length) return true;
+  if (t - progress.updatedAt > TRIP_STALE_MS) return true;
+  const lastIndex = stopDistsKm.length - 1;
+  // Back at the first stop after visiting others
+  if (progress.lastStopIndex > 0 && busDistKm <= stopDistsKm[0] + ARRIVAL_TOLERANCE_KM) return true;
+  // Finished the route and heading back
+  if (progress.lastStopIndex === lastIndex && busDistKm < progress.distKm - TRIP_RESET_KM) return true;
+  return false;
+}
+
+// Moves progress forward with a new snapped position (points must arrive in time order).
+// Jitter that snaps the bus behind its furthest point is ignored, so the bus never moves backwards.
+// Returns { progress, arrivals: [stop index, ...] reached at t by this update, passed: [stop index, ...]
+// left behind by it without times (see the top of this file) }
+function advanceTripProgress({ routeId, direction = 'up', version = 1, diversion = null, stopDistsKm, busDistKm, t, progress }) {
+  let trip = progress;
+  const started = startsNewTrip(progress, { routeId, direction, version, diversion, stopDistsKm, busDistKm, t });
+  if (started) {
+    trip = newTrip(routeId, direction, version, diversion, stopDistsKm.length, t);
+    trip.distKm = busDistKm;
+  } else {
+    trip = { ...trip, stops: trip.stops.map((s) => ({ ...s })) };
+    trip.distKm = Math.max(trip.distKm, busDistKm);
+  }
+  trip.updatedAt = t;
+
+  const reached = [];
+  stopDistsKm.forEach((stopDistKm, i) => {
+    if (i > trip.lastStopIndex && stopDistKm <= trip.distKm + ARRIVAL_TOLERANCE_KM) reached.push(i);
+  });
+  // A new trip is at the stops level with where it starts; a running one at the stop it reached alone
+  const arrivals = started
+    ? reached.filter((i) => stopDistsKm[i] >= busDistKm - ARRIVAL_TOLERANCE_KM)
+    : reached.length === 1 ? reached : [];
+  const passed = reached.filter((i) => !arrivals.includes(i));
+  arrivals.forEach((i) => {
+    trip.stops[i].arrivedAt = t;
+  });
+  passed.forEach((i) => {
+    trip.stops[i].passed = true;
+  });
+  stopDistsKm.forEach((stopDistKm, i) => {
+    const stop = trip.stops[i];
+    if (stop.arrivedAt !== null && stop.departedAt === null && trip.distKm > stopDistKm + DEPARTURE_TOLERANCE_KM) {
+      stop.departedAt = t;
+    }
+  });
+  if (reached.length) trip.lastStopIndex = reached[reached.length - 1];
+
+  return { progress: trip, arrivals, passed };
+}
+
+// Per-stop fields for etaStops: { passed, arrivedAt, departedAt } (ISO strings)
+function describeStops(progress, stopCount) {
+  const iso = (ms) => (Number.isFinite(ms) ? new Date(ms).toISOString() : null);
+  return Array.from({ length: stopCount }, (_, i) => {
+    const s = progress?.stops?.[i];
+    if (!s) return { passed: false, arrivedAt: null, departedAt: null };
+    return {
+      passed: s.passed === true || s.departedAt !== null || i < progress.lastStopIndex,
+      arrivedAt: iso(s.arrivedAt),
+      departedAt: iso(s.departedAt),
+    };
+  });
+}
+
+module.exports = { advanceTripProgress, parseTripProgress, describeStops };
@@ -0,0 +1,163 @@
+// Driven trips (models/TripRecord): started and ended by the driver app, closed automatically
+// once their pings stop. Pings, distance, served stops and the matched scheduled run are added
+// to the bus's active trip as points arrive (controllers/liveController).
+const TripRecord = require('../models/TripRecord');
+const { distanceMeters } = require('./motion');
+
+// An active trip without pings for this long is closed (as of its last ping)
+const TRIP_AUTO_CLOSE_MS = (Number(process.env.TRIP_AUTO_CLOSE_MINUTES) || 30) * 60 * 1000;
+const AUTO_CLOSE_CHECK_MS = 60 * 1000;
+// Hops shorter than this (or than the fix accuracy) are GPS jitter and add no distance
+const MIN_HOP_M = 10;
+
+const findActiveTrip = (busId) => TripRecord.findOne({ busId, status: 'active' }).lean();
+
+// Active trips of the given buses: busId -> trip
+async function findActiveTrips(busIds) {
+  const trips = await TripRecord.find({ busId: { $in: busIds }, status: 'active' }).lean();
+  return new Map(trips.map((t) => [t.busId, t]));
+}
+
+// The bus as it runs now: on the route of its active trip, which may differ from Bus.routeId
+// for the trip only (a roster shift on another route, see liveController startTrip)
+const withTripRoute = (busDoc, trip) =>
+  trip && trip.routeId && String(trip.routeId) !== String(busDoc.routeId) ? { ...busDoc, routeId: String(trip.routeId) } : busDoc;
+
+// Ends the active trips of the bus and of the driver, then opens a new one on routeId
+async function openTrip({ busDoc, driverId, routeId, direction, routeVersion, t }) {
+  await TripRecord.updateMany(
+    { status: 'active', $or: [{ busId: busDoc.busId }, { driverId }] },
+    { $set: { status: 'completed', endReason: 'replaced', endedAt: new Date(t) } }
+  );
+  return TripRecord.create({
+    busId: busDoc.busId,
+    driverId,
+    routeId,
+    direction,
+    routeVersion,
+    startedAt: new Date(t),
+  });
+}
+
+// Ends a trip; reason as in TripRecord.endReason. Returns the updated trip, or null when it already ended
+function closeTrip(tripId, { reason, at }) {
+  return TripRecord.findOneAndUpdate(
+    { _id: tripId, status: 'active' },
+    { $set: { status: 'completed', endReason: reason, endedAt: new Date(at) } },
+    { new: true }
+  ).lean();
+}
+
+// Adds accepted points (any order) to the trip. Distance only grows with points newer than the
+// trip's last ping; points from before the trip started are not counted.
+// A failed write is logged but does not reject the upload.
+async function addTripPoints(trip, points) {
+  const lastPingAt = trip.lastPingAt ? new Date(trip.lastPingAt).getTime() : null;
+  const startedAt = new Date(trip.startedAt).getTime();
+  const counted = points.filter((p) => p.t >= startedAt);
+  if (!counted.length) return;
+
+  let lastPoint = trip.lastPoint;
+  let distanceM = 0;
+  let newest = lastPingAt;
+  const newer = counted.filter((p) => lastPingAt === null || p.t > lastPingAt).sort((a, b) => a.t - b.t);
+  for (const p of newer) {
+    if (lastPoint) {
+      const hop = distanceMeters(lastPoint, p);
+      if (hop >= Math.max(MIN_HOP_M, p.accuracy || 0)) {
+        distanceM += hop;
+        lastPoint = { lat: p.lat, lng: p.lng };
+      }
+    } else {
+      lastPoint = { lat: p.lat, lng: p.lng };
+    }
+    newest = p.t;
+  }
+
+  const update = { $inc: { pingCount: counted.length, distanceKm: distanceM / 1000 } };
+  if (newer.length) update.$set = { lastPingAt: new Date(newest), lastPoint };
+  try {
+    await TripRecord.updateOne({ _id: trip._id, status: 'active' }, update);
+  } catch (err) {
+    console.error('addTripPoints error:', err);
+  }
+}
+
+// Records stops reached (route stops { stopId, name } with arrivedAt epoch ms), the route version and
+// the scheduled run the bus is matched to (liveController applySchedule; null keeps the previous one).
+// A failed write is logged like in addTripPoints.
+async function updateTripProgress(tripId, { reached, routeVersion, scheduledTrip }) {
+  const update = { $set: { routeVersion } };
+  if (scheduledTrip) {
+    update.$set.scheduledTrip = { ...scheduledTrip, departure: new Date(scheduledTrip.departure) };
+  }
+  if (reached.length) {
+    update.$push = {
+      stopsServed: { $each: reached.map((s) => ({ stopId: s.stopId, name: s.name || null, arrivedAt: new Date(s.arrivedAt) })) },
+    };
+  }
+  try {
+    await TripRecord.updateOne({ _id: tripId, status: 'active' }, update);
+  } catch (err) {
+    console.error('updateTripProgress error:', err);
+  }
+}
+
+// Closes active trips whose pings stopped TRIP_AUTO_CLOSE_MS before now; they end at their last ping
+async function closeStaleTrips(now = Date.now()) {
+  const cutoff = new Date(now - TRIP_AUTO_CLOSE_MS);
+  const result = await TripRecord.updateMany(
+    { status: 'active', $or: [{ lastPingAt: { $lt: cutoff } }, { lastPingAt: null, startedAt: { $lt: cutoff } }] },
+    [{ $set: { status: 'completed', endReason: 'timeout', endedAt: { $ifNull: ['$lastPingAt', '$startedAt'] } } }]
+  );
+  return result.modifiedCount || 0;
+}
+
+// Runs closeStaleTrips every AUTO_CLOSE_CHECK_MS
+function startTripAutoClose() {
+  const timer = setInterval(() => {
+    closeStaleTrips().catch((err) => console.error('closeStaleTrips error:', err));
+  }, AUTO_CLOSE_CHECK_MS);
+  if (timer.unref) timer.unref();
+  return timer;
+}
+
+// Trip as returned to the driver app
+const tripResponse = (trip) => ({
+  tripRecordId: String(trip._id),
+  busId: trip.busId,
+  driverId: String(trip.driverId),
+  routeId: trip.routeId,
+  direction: trip.direction,
+  routeVersion: trip.routeVersion,
+  scheduledTrip: trip.scheduledTrip
+    ? {
+        timetableId: String(trip.scheduledTrip.timetableId),
+        tripId: String(trip.scheduledTrip.tripId),
+        serviceDate: trip.scheduledTrip.serviceDate,
+        departure: new Date(trip.scheduledTrip.departure).toISOString(),
+      }
+    : null,
+  status: trip.status,
+  endReason: trip.endReason,
+  startedAt: new Date(trip.startedAt).toISOString(),
+  endedAt: trip.endedAt ? new Date(trip.endedAt).toISOString() : null,
+  lastPingAt: trip.lastPingAt ? new Date(trip.lastPingAt).toISOString() : null,
+  pingCount: trip.pingCount,
+  distanceKm: Math.round(trip.distanceKm * 100) / 100,
+  stopsServed: trip.stopsServed.map((s) => ({ stopId: s.stopId, name: s.name, arrivedAt: new Date(s.arrivedAt).toISOString() })),
+});
+
+module.exports = {
+  TRIP_AUTO_CLOSE_MS,
+  findActiveTrip,
+  findActiveTrips,
+  withTripRoute,
+  openTrip,
+  closeTrip,
+  addTripPoints,
+  updateTripProgress,
+  closeStaleTrips,
+  startTripAutoClose,
+  tripResponse,
+};
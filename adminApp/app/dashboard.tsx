@@ -15,13 +15,18 @@ import { router, useFocusEffect } from 'expo-router';
 import * as SecureStore from 'expo-secure-store';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Ionicons } from '@expo/vector-icons';
-import { getDriverBus, Bus } from '../services/api';
+import { getDriverBus, getDriverDuties, isUnauthorizedError, isNotAssignedError, Bus, Duty } from '../services/api';
+import { clearDriverSession } from '../services/session';
 import { requestLocationPermissions } from '../utils/permissions';
 import { isLocationTaskRunning } from '../services/locationTask';
 
 const USERNAME_KEY = 'driver_username';
 const BUS_ID_KEY = 'current_bus_id';
 
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+const formatDay = (iso: string) => new Date(iso).toLocaleDateString([], { weekday: 'short', day: 'numeric', month: 'short' });
+const isToday = (iso: string) => new Date(iso).toDateString() === new Date().toDateString();
+
 export default function DashboardScreen() {
   const [username, setUsername] = useState('');
   const [bus, setBus] = useState<Bus | null>(null);
@@ -30,6 +35,8 @@ export default function DashboardScreen() {
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [isStartingJourney, setIsStartingJourney] = useState(false);
   const [isJourneyActive, setIsJourneyActive] = useState(false);
+  const [duties, setDuties] = useState<Duty[]>([]);
+  const [onDutyShift, setOnDutyShift] = useState(false);
 
   useFocusEffect(
     React.useCallback(() => {
@@ -47,7 +54,7 @@ export default function DashboardScreen() {
       }
 
       setUsername(storedUsername);
-      await fetchBusData(storedUsername);
+      await Promise.all([fetchBusData(storedUsername), fetchDuties(storedUsername)]);
     } catch (error) {
       console.error('Error loading dashboard data:', error);
       Alert.alert('Error', 'Failed to load dashboard data');
@@ -64,14 +71,16 @@ export default function DashboardScreen() {
       
       if (response.success && response.bus) {
         setBus(response.bus);
-        
-        // Use a consistent bus ID that matches the backend expectations
-        // Based on your backend example, we'll use a predefined bus ID
-        const consistentBusId = 'bud-aYNRWfwvM'; // This should match your backend's registered bus ID
-        setBusId(consistentBusId);
+        setOnDutyShift(!!response.shift);
+
+        // Only a genuine assignment from the backend identifies this bus
+        if (!response.bus.busId) {
+          throw new Error('Assigned bus has no busId');
+        }
+        setBusId(response.bus.busId);
         
         // Store busId for location tracking
-        await AsyncStorage.setItem(BUS_ID_KEY, consistentBusId);
+        await AsyncStorage.setItem(BUS_ID_KEY, response.bus.busId);
         
         console.log('Bus data loaded successfully:', response.bus);
       } else {
@@ -79,6 +88,24 @@ export default function DashboardScreen() {
       }
     } catch (error) {
       console.error('Error fetching bus data:', error);
+
+      // Session expired or revoked: sign in again
+      if (isUnauthorizedError(error)) {
+        await clearDriverSession();
+        Alert.alert('Session Expired', 'Please sign in again.');
+        router.replace('/');
+        return;
+      }
+
+      // Never keep tracking under a stale or guessed bus id
+      setBusId(null);
+      await AsyncStorage.removeItem(BUS_ID_KEY);
+
+      if (isNotAssignedError(error)) {
+        setBus(null);
+        setOnDutyShift(false);
+        return;
+      }
       
       let errorMessage = 'Failed to fetch bus information.\n\n';
       
@@ -97,6 +124,16 @@ export default function DashboardScreen() {
     }
   };
 
+  // Roster shifts: today's and upcoming duties (session errors are handled by fetchBusData)
+  const fetchDuties = async (driverUsername: string) => {
+    try {
+      const response = await getDriverDuties(driverUsername);
+      setDuties(response.duties || []);
+    } catch (error) {
+      console.error('Error fetching duties:', error);
+    }
+  };
+
   const checkJourneyStatus = async () => {
     try {
       const isRunning = await isLocationTaskRunning();
@@ -148,8 +185,7 @@ export default function DashboardScreen() {
           style: 'destructive',
           onPress: async () => {
             try {
-              await SecureStore.deleteItemAsync(USERNAME_KEY);
-              await AsyncStorage.removeItem(BUS_ID_KEY);
+              await clearDriverSession();
               router.replace('/');
             } catch (error) {
               console.error('Error logging out:', error);
@@ -206,12 +242,50 @@ export default function DashboardScreen() {
           )}
         </View>
 
+        {/* Duties from the roster */}
+        <View style={styles.busCard}>
+          <View style={styles.cardHeader}>
+            <Ionicons name="calendar" size={24} color="#007AFF" />
+            <Text style={styles.cardTitle}>My Duties</Text>
+          </View>
+          {duties.length === 0 ? (
+            <Text style={styles.busInfoLabel}>No duties in the next 7 days.</Text>
+          ) : (
+            [
+              { title: 'Today', list: duties.filter(d => d.status === 'current' || isToday(d.startsAt)) },
+              { title: 'Upcoming', list: duties.filter(d => d.status !== 'current' && !isToday(d.startsAt)) },
+            ]
+              .filter(group => group.list.length > 0)
+              .map(group => (
+                <View key={group.title} style={styles.dutyGroup}>
+                  <Text style={styles.routeTitle}>{group.title}</Text>
+                  {group.list.map(duty => (
+                    <View key={duty.shiftId} style={styles.dutyRow}>
+                      <View style={styles.dutyTimes}>
+                        {group.title === 'Upcoming' && <Text style={styles.busInfoLabel}>{formatDay(duty.startsAt)}</Text>}
+                        <Text style={styles.busInfoValue}>
+                          {formatTime(duty.startsAt)} – {formatTime(duty.endsAt)}
+                        </Text>
+                      </View>
+                      <View style={styles.dutyDetails}>
+                        <Text style={styles.busInfoValue}>{duty.busNumber || duty.busId}</Text>
+                        {duty.routeName && <Text style={styles.busInfoLabel}>{duty.routeName}</Text>}
+                        {!!duty.notes && <Text style={styles.busInfoLabel}>{duty.notes}</Text>}
+                      </View>
+                      {duty.status === 'current' && <Text style={styles.onDutyBadge}>ON DUTY</Text>}
+                    </View>
+                  ))}
+                </View>
+              ))
+          )}
+        </View>
+
         {/* Bus Information */}
         {bus && (
           <View style={styles.busCard}>
             <View style={styles.cardHeader}>
               <Ionicons name="bus" size={24} color="#007AFF" />
-              <Text style={styles.cardTitle}>Assigned Bus</Text>
+              <Text style={styles.cardTitle}>{onDutyShift ? 'Bus for Current Duty' : 'Assigned Bus'}</Text>
             </View>
             
             <View style={styles.busInfo}>
@@ -219,6 +293,12 @@ export default function DashboardScreen() {
                 <Text style={styles.busInfoLabel}>Bus Number</Text>
                 <Text style={styles.busInfoValue}>{bus.busNumber}</Text>
               </View>
+              {bus.routeName && (
+                <View style={styles.busInfoRow}>
+                  <Text style={styles.busInfoLabel}>Route</Text>
+                  <Text style={styles.busInfoValue}>{bus.routeName}</Text>
+                </View>
+              )}
               <View style={styles.busInfoRow}>
                 <Text style={styles.busInfoLabel}>Capacity</Text>
                 <Text style={styles.busInfoValue}>{bus.capacity} passengers</Text>
@@ -253,11 +333,11 @@ export default function DashboardScreen() {
         <TouchableOpacity
           style={[
             styles.actionButton,
-            (!bus || bus.status !== 'active' || isStartingJourney) && styles.actionButtonDisabled,
+            (!bus || !busId || bus.status !== 'active' || isStartingJourney) && styles.actionButtonDisabled,
             isJourneyActive && styles.activeJourneyButton
           ]}
           onPress={isJourneyActive ? () => router.push('/journey') : handleStartJourney}
-          disabled={!bus || bus.status !== 'active' || isStartingJourney}
+          disabled={!bus || !busId || bus.status !== 'active' || isStartingJourney}
         >
           {isStartingJourney ? (
             <ActivityIndicator color="#FFFFFF" />
@@ -276,6 +356,17 @@ export default function DashboardScreen() {
           )}
         </TouchableOpacity>
 
+        {!bus && (
+          <View style={styles.warningCard}>
+            <Ionicons name="warning" size={20} color="#FF9500" />
+            <Text style={styles.warningText}>
+              {duties.length > 0
+                ? `No duty right now. Your next duty starts ${formatDay(duties[0].startsAt)} at ${formatTime(duties[0].startsAt)}.`
+                : 'No bus is assigned to you. Contact dispatch to get an assignment.'}
+            </Text>
+          </View>
+        )}
+
         {bus && bus.status !== 'active' && (
           <View style={styles.warningCard}>
             <Ionicons name="warning" size={20} color="#FF9500" />
@@ -430,6 +521,27 @@ const styles = StyleSheet.create({
     color: '#FFFFFF',
     fontSize: 14,
   },
+  dutyGroup: {
+    marginBottom: 8,
+  },
+  dutyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#333333',
+  },
+  dutyTimes: {
+    width: 130,
+  },
+  dutyDetails: {
+    flex: 1,
+  },
+  onDutyBadge: {
+    color: '#34C759',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
   actionButton: {
     backgroundColor: '#007AFF',
     marginHorizontal: 24,
@@ -14,11 +14,13 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
 import * as SecureStore from 'expo-secure-store';
 import { Ionicons } from '@expo/vector-icons';
-
-const USERNAME_KEY = 'driver_username';
+import { loginDriver } from '../services/api';
+import { USERNAME_KEY, getDriverToken, saveDriverSession } from '../services/session';
 
 export default function LoginScreen() {
   const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [isCheckingStoredUser, setIsCheckingStoredUser] = useState(true);
 
@@ -29,9 +31,12 @@ export default function LoginScreen() {
   const checkStoredUsername = async () => {
     try {
       const storedUsername = await SecureStore.getItemAsync(USERNAME_KEY);
+      const storedToken = await getDriverToken();
       if (storedUsername) {
         setUsername(storedUsername);
-        // Auto-navigate to dashboard if username exists
+      }
+      if (storedUsername && storedToken) {
+        // Auto-navigate to dashboard if a session exists (expired tokens bounce back here)
         router.replace('/dashboard');
       }
     } catch (error) {
@@ -42,21 +47,30 @@ export default function LoginScreen() {
   };
 
   const handleLogin = async () => {
-    if (!username.trim()) {
-      Alert.alert('Error', 'Please enter your username');
+    if (!username.trim() || !password) {
+      Alert.alert('Error', 'Please enter your username and password');
       return;
     }
 
     setIsLoading(true);
     try {
-      // Store username securely
-      await SecureStore.setItemAsync(USERNAME_KEY, username.trim());
-      
+      const response = await loginDriver(username.trim(), password);
+      if (!response.success || !response.token) {
+        throw new Error(response.message || 'Login failed');
+      }
+
+      // Store the verified username + session token securely
+      await saveDriverSession(response.driver.username, response.token);
+      setPassword('');
+
       // Navigate to dashboard
       router.replace('/dashboard');
-    } catch (error) {
-      console.error('Error storing username:', error);
-      Alert.alert('Error', 'Failed to save username. Please try again.');
+    } catch (error: any) {
+      console.error('Error logging in:', error);
+      const message = error?.response?.data?.message
+        || (error?.message === 'Network Error' ? 'Cannot connect to backend server.' : error?.message)
+        || 'Login failed. Please try again.';
+      Alert.alert('Login Failed', message);
     } finally {
       setIsLoading(false);
     }
@@ -83,25 +97,49 @@ export default function LoginScreen() {
           <View style={styles.header}>
             <Ionicons name="bus" size={60} color="#007AFF" />
             <Text style={styles.title}>Driver App</Text>
-            <Text style={styles.subtitle}>Enter your username to continue</Text>
+            <Text style={styles.subtitle}>Sign in with your driver credentials</Text>
           </View>
 
           <View style={styles.inputContainer}>
-            <Text style={styles.inputLabel}>Username</Text>
+            <Text style={styles.inputLabel}>Username or Email</Text>
             <TextInput
               style={styles.input}
               value={username}
               onChangeText={setUsername}
-              placeholder="Enter your username"
+              placeholder="Enter your username or email"
               placeholderTextColor="#666"
               autoCapitalize="none"
               autoCorrect={false}
-              returnKeyType="go"
-              onSubmitEditing={handleLogin}
+              returnKeyType="next"
               editable={!isLoading}
             />
           </View>
 
+          <View style={styles.inputContainer}>
+            <Text style={styles.inputLabel}>Password</Text>
+            <View style={styles.passwordRow}>
+              <TextInput
+                style={[styles.input, styles.passwordInput]}
+                value={password}
+                onChangeText={setPassword}
+                placeholder="Enter your password"
+                placeholderTextColor="#666"
+                secureTextEntry={!showPassword}
+                autoCapitalize="none"
+                autoCorrect={false}
+                returnKeyType="go"
+                onSubmitEditing={handleLogin}
+                editable={!isLoading}
+              />
+              <TouchableOpacity
+                style={styles.passwordToggle}
+                onPress={() => setShowPassword(!showPassword)}
+              >
+                <Ionicons name={showPassword ? 'eye-off' : 'eye'} size={22} color="#888888" />
+              </TouchableOpacity>
+            </View>
+          </View>
+
           <TouchableOpacity
             style={[styles.loginButton, isLoading && styles.loginButtonDisabled]}
             onPress={handleLogin}
@@ -110,13 +148,13 @@ export default function LoginScreen() {
             {isLoading ? (
               <ActivityIndicator color="#FFFFFF" />
             ) : (
-              <Text style={styles.loginButtonText}>Continue</Text>
+              <Text style={styles.loginButtonText}>Sign In</Text>
             )}
           </TouchableOpacity>
 
           <View style={styles.footer}>
             <Text style={styles.footerText}>
-              No password required. Just enter your assigned username.
+              Use the username and password emailed to you when your driver account was created.
             </Text>
           </View>
         </View>
@@ -165,7 +203,7 @@ const styles = StyleSheet.create({
     textAlign: 'center',
   },
   inputContainer: {
-    marginBottom: 32,
+    marginBottom: 24,
   },
   inputLabel: {
     fontSize: 16,
@@ -183,6 +221,17 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#333333',
   },
+  passwordRow: {
+    position: 'relative',
+    justifyContent: 'center',
+  },
+  passwordInput: {
+    paddingRight: 48,
+  },
+  passwordToggle: {
+    position: 'absolute',
+    right: 16,
+  },
   loginButton: {
     backgroundColor: '#007AFF',
     borderRadius: 12,
@@ -15,7 +15,8 @@ import * as SecureStore from 'expo-secure-store';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as Location from 'expo-location';
 import { Ionicons } from '@expo/vector-icons';
-import { getDriverBus, updateBusLocation, Bus } from '../services/api';
+import { getDriverBus, updateBusLocation, startTrip, endTrip, getApiErrorMessage, isUnauthorizedError, isNotAssignedError, Bus } from '../services/api';
+import { clearDriverSession } from '../services/session';
 import { startBackgroundLocationUpdates, stopBackgroundLocationUpdates, isLocationTaskRunning } from '../services/locationTask';
 import { flushQueue, getQueueLength, addToQueue } from '../services/queue';
 import { requestLocationPermissions, checkLocationPermissions } from '../utils/permissions';
@@ -79,21 +80,24 @@ export default function JourneyScreen() {
   const loadJourneyData = async () => {
     try {
       const storedUsername = await SecureStore.getItemAsync(USERNAME_KEY);
-      const storedBusId = await AsyncStorage.getItem(BUS_ID_KEY);
-      
+
       if (!storedUsername) {
         router.replace('/');
         return;
       }
 
-      if (!storedBusId) {
-        Alert.alert('Error', 'No bus ID found. Please go back to dashboard.');
+      // Always resolve the bus from the backend assignment, never from a cached or default id
+      const response = await getDriverBus(storedUsername);
+      if (!response.bus?.busId) {
+        await AsyncStorage.removeItem(BUS_ID_KEY);
+        Alert.alert('No Bus Assigned', 'You need a bus assignment before starting a journey.');
+        router.back();
         return;
       }
 
-      const response = await getDriverBus(storedUsername);
       setBus(response.bus);
-      setBusId(storedBusId);
+      setBusId(response.bus.busId);
+      await AsyncStorage.setItem(BUS_ID_KEY, response.bus.busId);
 
       // Check if journey is already active
       const isRunning = await isLocationTaskRunning();
@@ -108,6 +112,18 @@ export default function JourneyScreen() {
       updateQueueLength();
     } catch (error) {
       console.error('Error loading journey data:', error);
+      if (isUnauthorizedError(error)) {
+        await clearDriverSession();
+        Alert.alert('Session Expired', 'Please sign in again.');
+        router.replace('/');
+        return;
+      }
+      if (isNotAssignedError(error)) {
+        await AsyncStorage.removeItem(BUS_ID_KEY);
+        Alert.alert('No Bus Assigned', 'You need a bus assignment before starting a journey.');
+        router.back();
+        return;
+      }
       Alert.alert('Error', 'Failed to load journey data. Please ensure your Node.js backend is running.');
     } finally {
       setIsLoading(false);
@@ -146,8 +162,8 @@ export default function JourneyScreen() {
   };
 
   const handleStartJourney = async () => {
-    if (!bus || !busId) {
-      Alert.alert('Error', 'No bus information available');
+    if (!bus || !busId || bus.busId !== busId) {
+      Alert.alert('No Bus Assigned', 'Cannot start a journey without a bus assignment from dispatch.');
       return;
     }
 
@@ -194,6 +210,15 @@ export default function JourneyScreen() {
         accuracy: currentLocation.coords.accuracy
       });
 
+      // Open the trip record on the server; pings sent from now on are attached to it
+      try {
+        await startTrip(busId);
+      } catch (error) {
+        console.error('Error starting trip:', error);
+        Alert.alert('Error', getApiErrorMessage(error) || 'Failed to start the trip on the server. Please try again.');
+        return;
+      }
+
       // Start background location updates
       console.log('Starting background location updates...');
       const success = await startBackgroundLocationUpdates(busId);
@@ -203,6 +228,7 @@ export default function JourneyScreen() {
         await startForegroundLocationTracking();
         Alert.alert('Journey Started', 'Location tracking is now active. Data will be sent to your Node.js backend every 30 seconds.');
       } else {
+        await endTrip(busId).catch((error) => console.error('Error ending trip:', error));
         Alert.alert('Error', 'Failed to start location tracking. Please check permissions and try again.');
       }
     } catch (error) {
@@ -243,6 +269,15 @@ export default function JourneyScreen() {
               // Flush any remaining queue items
               await flushPendingUpdates();
 
+              // Close the trip record; if this fails the server closes it once pings stop
+              if (busId) {
+                try {
+                  await endTrip(busId);
+                } catch (error) {
+                  console.error('Error ending trip:', error);
+                }
+              }
+
               setIsJourneyActive(false);
               setCurrentLocation(null);
               setLastUpdateTime(null);
@@ -279,10 +314,15 @@ export default function JourneyScreen() {
   };
 
   const testBackendConnection = async () => {
+    if (!busId) {
+      Alert.alert('No Bus Assigned', 'Cannot test the connection without a bus assignment.');
+      return;
+    }
+
     try {
       console.log('Testing backend connection...');
       const testLocation = {
-        busId: busId || 'bud-aYNRWfwvM', // Use the known working bus ID
+        busId,
         lat: 18.9338,
         lng: 72.8302,
         speed: 20
@@ -340,6 +380,9 @@ export default function JourneyScreen() {
         {bus && busId && (
           <View style={styles.busInfoCard}>
             <Text style={styles.busNumber}>{bus.busNumber}</Text>
+            {bus.routeName && (
+              <Text style={styles.busDetails}>Route: {bus.routeName}</Text>
+            )}
             <Text style={styles.busDetails}>Capacity: {bus.capacity} passengers</Text>
             <Text style={styles.busIdText}>Bus ID: {busId}</Text>
           </View>
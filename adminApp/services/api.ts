@@ -1,5 +1,6 @@
 import axios from 'axios';
 import Constants from 'expo-constants';
+import { getDriverToken } from './session';
 
 // Get the appropriate API URL based on platform
 const getApiBaseUrl = () => {
@@ -40,9 +41,13 @@ export const api = axios.create({
   },
 });
 
-// Add request interceptor for debugging
+// Add request interceptor: attach the driver session token and log for debugging
 api.interceptors.request.use(
-  (config) => {
+  async (config) => {
+    const token = await getDriverToken();
+    if (token) {
+      config.headers.Authorization = `Bearer ${token}`;
+    }
     console.log(`API Request: ${config.method?.toUpperCase()} ${config.url}`);
     if (config.data) {
       console.log('Request Data:', JSON.stringify(config.data, null, 2));
@@ -69,6 +74,21 @@ api.interceptors.response.use(
 );
 
 // API Types
+export interface DriverInfo {
+  username: string;
+  name: string;
+  email: string;
+  phone: string;
+  assignedBus: string;
+}
+
+export interface LoginResponse {
+  success: boolean;
+  message: string;
+  token: string;
+  driver: DriverInfo;
+}
+
 export interface RouteStop {
   stopName: string;
   lat: number;
@@ -76,15 +96,39 @@ export interface RouteStop {
 }
 
 export interface Bus {
+  busId: string;
   busNumber: string;
   capacity: number;
   status: string;
+  routeId: string | null;
+  routeName: string | null;
   route: RouteStop[];
 }
 
 export interface BusResponse {
   success: boolean;
   bus: Bus;
+  // Roster shift the bus comes from; null for the static assignment
+  shift: { shiftId: string; startsAt: string; endsAt: string } | null;
+}
+
+// Duty roster shift of the driver; current once it runs or is about to start
+export interface Duty {
+  shiftId: string;
+  busId: string;
+  busNumber: string | null;
+  routeId: string;
+  routeName: string | null;
+  startsAt: string;
+  endsAt: string;
+  notes: string;
+  status: 'current' | 'upcoming';
+}
+
+export interface DutiesResponse {
+  success: boolean;
+  generatedAt: string;
+  duties: Duty[];
 }
 
 export interface LocationUpdate {
@@ -92,6 +136,29 @@ export interface LocationUpdate {
   lat: number;
   lng: number;
   speed: number;
+  recordedAt?: number; // device fix time (epoch ms)
+  accuracy?: number | null;
+  heading?: number | null;
+}
+
+export interface LocationPoint {
+  lat: number;
+  lng: number;
+  speed: number;
+  recordedAt: number;
+  accuracy?: number | null;
+  heading?: number | null;
+}
+
+export interface LocationBatchResponse {
+  success: boolean;
+  busId: string;
+  received: number;
+  rejected: number;
+  accepted: number;
+  duplicates: number;
+  late: number;
+  live: LocationResponse | null;
 }
 
 export interface LocationResponse {
@@ -105,12 +172,55 @@ export interface LocationResponse {
   status: string;
 }
 
+export interface DriverTrip {
+  tripRecordId: string;
+  busId: string;
+  driverId: string;
+  routeId: string;
+  direction: 'up' | 'down';
+  routeVersion: number | null;
+  scheduledTrip: { timetableId: string; tripId: string; serviceDate: string; departure: string } | null;
+  status: 'active' | 'completed';
+  endReason: 'driver' | 'timeout' | 'replaced' | null;
+  startedAt: string;
+  endedAt: string | null;
+  lastPingAt: string | null;
+  pingCount: number;
+  distanceKm: number;
+  stopsServed: { stopId: string; name: string | null; arrivedAt: string }[];
+}
+
+export interface DriverTripResponse {
+  success: boolean;
+  trip: DriverTrip | null;
+}
+
 // API Functions for Node.js/Express backend
+export const loginDriver = async (emailOrUsername: string, password: string): Promise<LoginResponse> => {
+  const response = await api.post('/api/driver/login', { emailOrUsername, password });
+  return response.data;
+};
+
+// True when the backend rejected the driver session token
+export const isUnauthorizedError = (error: any): boolean => error?.response?.status === 401;
+
+// True when the backend has no bus assigned to this driver
+export const isNotAssignedError = (error: any): boolean => error?.response?.status === 404;
+
+// Message the backend sent with a failed request, if any
+export const getApiErrorMessage = (error: any): string | undefined => error?.response?.data?.message;
+
 export const getDriverBus = async (username: string): Promise<BusResponse> => {
   const response = await api.get(`/api/driver/${username}/bus`);
   return response.data;
 };
 
+// Shifts still running or starting within `days` days, earliest first
+export const getDriverDuties = async (username: string, days = 7): Promise<DutiesResponse> => {
+  const response = await api.get(`/api/driver/${username}/duties`, { params: { days } });
+  return response.data;
+};
+
 export const updateBusLocation = async (locationData: LocationUpdate): Promise<LocationResponse> => {
   try {
     console.log('API: Sending location update to:', `${API_BASE_URL}/api/bus/update-location`);
@@ -133,6 +243,29 @@ export const updateBusLocation = async (locationData: LocationUpdate): Promise<L
   }
 };
 
+// Upload queued points for one bus, oldest first
+export const uploadLocationBatch = async (busId: string, points: LocationPoint[]): Promise<LocationBatchResponse> => {
+  const response = await api.post('/api/bus/update-location/batch', { busId, points });
+  return response.data;
+};
+
+// Start a trip on the assigned bus (ends any trip still active for the bus or driver)
+export const startTrip = async (busId: string, direction?: 'up' | 'down'): Promise<DriverTripResponse> => {
+  const response = await api.post('/api/driver/trips/start', { busId, direction });
+  return response.data;
+};
+
+// End the driver's active trip; 404 when none is active
+export const endTrip = async (busId: string): Promise<DriverTripResponse> => {
+  const response = await api.post('/api/driver/trips/end', { busId });
+  return response.data;
+};
+
+export const getActiveTrip = async (): Promise<DriverTripResponse> => {
+  const response = await api.get('/api/driver/trips/active');
+  return response.data;
+};
+
 export const getBusLiveData = async (busId: string) => {
   const response = await api.get(`/api/bus/${busId}/live`);
   return response.data;
@@ -1,7 +1,7 @@
 import * as TaskManager from 'expo-task-manager';
 import * as Location from 'expo-location';
 import { updateBusLocation } from './api';
-import { addToQueue } from './queue';
+import { addToQueue, flushQueue, getQueueLength } from './queue';
 
 export const BACKGROUND_LOCATION_TASK = 'BACKGROUND_LOCATION_TASK';
 
@@ -48,7 +48,10 @@ TaskManager.defineTask(BACKGROUND_LOCATION_TASK, async ({ data, error }) => {
         busId,
         lat: location.coords.latitude,
         lng: location.coords.longitude,
-        speed: Math.max(0, location.coords.speed || 0) // Ensure speed is not negative
+        speed: Math.max(0, location.coords.speed || 0), // Ensure speed is not negative
+        recordedAt: location.timestamp, // device fix time, so replayed points keep their real time
+        accuracy: location.coords.accuracy,
+        heading: location.coords.heading,
       };
 
       try {
@@ -56,6 +59,11 @@ TaskManager.defineTask(BACKGROUND_LOCATION_TASK, async ({ data, error }) => {
         console.log('Background task: Sending location update to backend:', locationUpdate);
         const response = await updateBusLocation(locationUpdate);
         console.log('Background task: Location update sent successfully:', response);
+
+        // Back online: upload anything queued while offline
+        if ((await getQueueLength()) > 0) {
+          await flushQueue();
+        }
       } catch (error) {
         console.error('Background task: Failed to send location update to backend:', error);
         console.error('Background task: Adding to queue for retry...');
@@ -1,21 +1,43 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { LocationUpdate, updateBusLocation } from './api';
+import { LocationUpdate, LocationPoint, uploadLocationBatch } from './api';
 
 const QUEUE_KEY = 'pendingLocationUpdates';
+// Points per batch upload request (backend accepts up to 500)
+const BATCH_SIZE = 50;
 
 export interface QueuedLocationUpdate extends LocationUpdate {
-  timestamp: number;
-  retryCount: number;
+  timestamp: number; // device fix time (epoch ms), also the queue item identity per bus
+  retryCount: number; // informational only; items are never dropped for retrying
 }
 
+// Identity of a queued point: one fix per bus per timestamp
+const queueItemKey = (item: QueuedLocationUpdate) => `${item.busId}:${item.timestamp}`;
+
+const toLocationPoint = (item: QueuedLocationUpdate): LocationPoint => ({
+  lat: item.lat,
+  lng: item.lng,
+  speed: item.speed,
+  recordedAt: item.recordedAt ?? item.timestamp,
+  accuracy: item.accuracy ?? null,
+  heading: item.heading ?? null,
+});
+
+// Prevent overlapping flushes (app foreground + manual sync)
+let isFlushing = false;
+
 export const addToQueue = async (locationUpdate: LocationUpdate): Promise<void> => {
   try {
     const existingQueue = await getQueue();
     const queuedUpdate: QueuedLocationUpdate = {
       ...locationUpdate,
-      timestamp: Date.now(),
+      timestamp: locationUpdate.recordedAt ?? Date.now(),
       retryCount: 0
     };
+
+    if (existingQueue.some(item => queueItemKey(item) === queueItemKey(queuedUpdate))) {
+      console.log('Location update already queued:', queuedUpdate.timestamp);
+      return;
+    }
     
     const updatedQueue = [...existingQueue, queuedUpdate];
     await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(updatedQueue));
@@ -46,7 +68,12 @@ export const removeFromQueue = async (timestamp: number): Promise<void> => {
   }
 };
 
+// Upload queued points in timestamped chunks, oldest first. The backend de-duplicates
+// re-sent points and keeps late points as history, so a chunk can be retried safely.
 export const flushQueue = async (): Promise<void> => {
+  if (isFlushing) return;
+  isFlushing = true;
+
   try {
     const queue = await getQueue();
     console.log(`Flushing queue with ${queue.length} items`);
@@ -55,47 +82,53 @@ export const flushQueue = async (): Promise<void> => {
       return;
     }
 
-    const successfulUpdates: number[] = [];
-    const failedUpdates: QueuedLocationUpdate[] = [];
-
-    // Process each queued update
-    for (const queuedUpdate of queue) {
-      try {
-        // Try to send the location update
-        await updateBusLocation({
-          busId: queuedUpdate.busId,
-          lat: queuedUpdate.lat,
-          lng: queuedUpdate.lng,
-          speed: queuedUpdate.speed
-        });
-        
-        // If successful, mark for removal
-        successfulUpdates.push(queuedUpdate.timestamp);
-        console.log('Successfully sent queued location update:', queuedUpdate.timestamp);
-      } catch (error) {
-        console.error('Failed to send queued update:', error);
-        
-        // Increment retry count
-        const updatedItem = {
-          ...queuedUpdate,
-          retryCount: queuedUpdate.retryCount + 1
-        };
-        
-        // Only keep items that haven't exceeded max retries (5 attempts)
-        if (updatedItem.retryCount < 5) {
-          failedUpdates.push(updatedItem);
-        } else {
-          console.log('Max retries exceeded for item:', queuedUpdate.timestamp);
+    // Group by bus, oldest first
+    const byBus = new Map<string, QueuedLocationUpdate[]>();
+    [...queue]
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .forEach(item => {
+        byBus.set(item.busId, [...(byBus.get(item.busId) || []), item]);
+      });
+
+    const done = new Set<string>();
+    const failed = new Set<string>();
+    let networkDown = false;
+
+    for (const [busId, items] of byBus) {
+      for (let i = 0; i < items.length && !networkDown; i += BATCH_SIZE) {
+        const chunk = items.slice(i, i + BATCH_SIZE);
+        try {
+          const result = await uploadLocationBatch(busId, chunk.map(toLocationPoint));
+          chunk.forEach(item => done.add(queueItemKey(item)));
+          console.log(`Uploaded ${chunk.length} queued points for ${busId}:`, result);
+        } catch (error: any) {
+          const status = error?.response?.status;
+          if (status === 400) {
+            // The backend rejected every point in the chunk as invalid; retrying cannot help
+            console.error('Queued points rejected by backend:', error.response.data);
+            chunk.forEach(item => done.add(queueItemKey(item)));
+          } else {
+            console.error('Failed to upload queued chunk:', error);
+            chunk.forEach(item => failed.add(queueItemKey(item)));
+            // No response means we are offline; keep the rest for the next flush
+            if (!error?.response) networkDown = true;
+          }
         }
       }
     }
 
-    // Update the queue with only failed items (that haven't exceeded retries)
-    await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(failedUpdates));
+    // Re-read: the background task may have queued new points while uploading
+    const latestQueue = await getQueue();
+    const remaining = latestQueue
+      .filter(item => !done.has(queueItemKey(item)))
+      .map(item => (failed.has(queueItemKey(item)) ? { ...item, retryCount: item.retryCount + 1 } : item));
+    await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(remaining));
     
-    console.log(`Queue flush complete. Sent: ${successfulUpdates.length}, Failed: ${failedUpdates.length}`);
+    console.log(`Queue flush complete. Sent: ${done.size}, Remaining: ${remaining.length}`);
   } catch (error) {
     console.error('Error flushing queue:', error);
+  } finally {
+    isFlushing = false;
   }
 };
 
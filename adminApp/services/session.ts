@@ -0,0 +1,31 @@
+import * as SecureStore from 'expo-secure-store';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+export const USERNAME_KEY = 'driver_username';
+export const TOKEN_KEY = 'driver_token';
+export const BUS_ID_KEY = 'current_bus_id';
+
+// The background location task reads the token while the phone may be locked
+const secureOptions: SecureStore.SecureStoreOptions = {
+  keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK,
+};
+
+export const saveDriverSession = async (username: string, token: string): Promise<void> => {
+  await SecureStore.setItemAsync(USERNAME_KEY, username, secureOptions);
+  await SecureStore.setItemAsync(TOKEN_KEY, token, secureOptions);
+};
+
+export const getDriverToken = async (): Promise<string | null> => {
+  try {
+    return await SecureStore.getItemAsync(TOKEN_KEY, secureOptions);
+  } catch (error) {
+    console.error('Error reading driver token:', error);
+    return null;
+  }
+};
+
+export const clearDriverSession = async (): Promise<void> => {
+  await SecureStore.deleteItemAsync(USERNAME_KEY);
+  await SecureStore.deleteItemAsync(TOKEN_KEY);
+  await AsyncStorage.removeItem(BUS_ID_KEY);
+};
@@ -4,7 +4,7 @@ import { MapContainer, TileLayer, Polyline, Marker, useMap, Popup } from 'react-
 import { decode } from '@mapbox/polyline';
 import { io, Socket } from 'socket.io-client';
 import axios from 'axios';
-import { ArrowLeft, Bus, Clock, Route, MapPin, Wifi, WifiOff, Navigation, RefreshCw, ChevronDown, ChevronUp } from 'lucide-react';
+import { ArrowLeft, Bus, Clock, Route, MapPin, Wifi, WifiOff, Navigation, RefreshCw, ChevronDown, ChevronUp, AlertTriangle } from 'lucide-react';
 import 'leaflet/dist/leaflet.css';
 import type { LatLngBounds } from 'leaflet';
 import L from 'leaflet';
@@ -26,10 +26,29 @@ interface Stop {
   stopId?: string;
   name: string;
   etaMinutes?: number;
+  etaMinMinutes?: number;
+  etaMaxMinutes?: number;
+  passed?: boolean;
+  arrivedAt?: string | null;
+  departedAt?: string | null;
+  // Closed by a diversion: no ETA, the bus does not stop
+  closed?: boolean;
+  closureReason?: string | null;
+  // Timetable times (ISO) of the scheduled trip the bus is on; null when it skips the stop
+  scheduledArrival?: string | null;
+  scheduledDeparture?: string | null;
   lat?: number;
   lng?: number;
 }
 
+interface DiversionInfo {
+  reason: string;
+  endsAt: string;
+  rerouted?: boolean;
+  closedStopIds?: string[];
+  geometry?: string | null;
+}
+
 interface BusLocation {
   lat: number;
   lng: number;
@@ -43,6 +62,7 @@ interface BusUpdate {
   lastUpdated: string;
   etaStops: Stop[];
   status: 'online' | 'offline';
+  diversion?: DiversionInfo | null;
 }
 
 interface RouteData {
@@ -52,6 +72,7 @@ interface RouteData {
   distance: number;
   duration: number;
   stops?: Stop[];
+  diversion?: DiversionInfo | null;
 }
 
 interface BusInfo {
@@ -215,6 +236,7 @@ const BusDetailPage: React.FC = () => {
   const [busInfo, setBusInfo] = useState<BusInfo | null>(null);
   const [loading, setLoading] = useState(true);
   const [coordinates, setCoordinates] = useState<[number, number][]>([]);
+  const [diversionCoordinates, setDiversionCoordinates] = useState<[number, number][]>([]);
   const [mapBounds, setMapBounds] = useState<LatLngBounds | null>(null);
 
   // State for live tracking
@@ -248,6 +270,42 @@ const BusDetailPage: React.FC = () => {
     }
   }, []);
 
+  // Polling fallback - calls the live API every 30 seconds
+  const startPolling = useCallback(() => {
+    if (pollingIntervalRef.current || !busId) return;
+
+    console.log('Starting polling for bus:', busId);
+
+    const poll = async () => {
+      try {
+        console.log(`Fetching live data from: ${API_BASE}/api/bus/${busId}/live`);
+        const response = await axios.get(`${API_BASE}/api/bus/${busId}/live`, {
+          timeout: 10000
+        });
+        
+        console.log('Received live data via polling:', response.data);
+        throttledUpdate(response.data);
+      } catch (error) {
+        console.error('Polling error:', error);
+        // Don't stop polling on error, just log it
+      }
+    };
+
+    // Initial poll
+    poll();
+    // Set up interval for every 30 seconds
+    pollingIntervalRef.current = setInterval(poll, 30000);
+  }, [busId, throttledUpdate]);
+
+  // Stop polling
+  const stopPolling = useCallback(() => {
+    if (pollingIntervalRef.current) {
+      console.log('Stopping polling');
+      clearInterval(pollingIntervalRef.current);
+      pollingIntervalRef.current = null;
+    }
+  }, []);
+
   // Initialize socket connection
   const initializeSocket = useCallback(() => {
     if (socketRef.current || !busId) return;
@@ -262,12 +320,21 @@ const BusDetailPage: React.FC = () => {
         reconnectionDelay: 2000
       });
 
+      // Fires on the first connect and after every reconnect; the server does not
+      // remember rooms across connections, so (re)subscribe to this bus each time
       socket.on('connect', () => {
         console.log('Socket connected successfully');
         setIsConnected(true);
-        // Join room for this specific bus
-        socket.emit('joinBus', busId);
-        console.log('Joined bus room:', busId);
+        socket.emit('subscribe:bus', { busId }, (ack: { ok: boolean; room?: string; message?: string }) => {
+          if (ack?.ok) {
+            console.log('Subscribed to bus room:', ack.room);
+            // Live updates arrive over the socket now; polling is no longer needed
+            stopPolling();
+          } else {
+            console.warn('Bus subscription rejected:', ack?.message);
+            startPolling();
+          }
+        });
       });
 
       socket.on('disconnect', (reason) => {
@@ -297,43 +364,7 @@ const BusDetailPage: React.FC = () => {
       setIsConnected(false);
       startPolling();
     }
-  }, [busId, throttledUpdate]);
-
-  // Polling fallback - calls the live API every 30 seconds
-  const startPolling = useCallback(() => {
-    if (pollingIntervalRef.current || !busId) return;
-
-    console.log('Starting polling for bus:', busId);
-
-    const poll = async () => {
-      try {
-        console.log(`Fetching live data from: ${API_BASE}/api/bus/${busId}/live`);
-        const response = await axios.get(`${API_BASE}/api/bus/${busId}/live`, {
-          timeout: 10000
-        });
-        
-        console.log('Received live data via polling:', response.data);
-        throttledUpdate(response.data);
-      } catch (error) {
-        console.error('Polling error:', error);
-        // Don't stop polling on error, just log it
-      }
-    };
-
-    // Initial poll
-    poll();
-    // Set up interval for every 30 seconds
-    pollingIntervalRef.current = setInterval(poll, 30000);
-  }, [busId, throttledUpdate]);
-
-  // Stop polling
-  const stopPolling = useCallback(() => {
-    if (pollingIntervalRef.current) {
-      console.log('Stopping polling');
-      clearInterval(pollingIntervalRef.current);
-      pollingIntervalRef.current = null;
-    }
-  }, []);
+  }, [busId, throttledUpdate, startPolling, stopPolling]);
 
   // Fetch bus info and route data
   const fetchBusAndRouteData = async () => {
@@ -412,9 +443,9 @@ const BusDetailPage: React.FC = () => {
         // Try to initialize socket connection
         initializeSocket();
         
-        // Also start polling as backup
+        // Fall back to polling if the socket has not connected shortly
         setTimeout(() => {
-          if (!isConnected) {
+          if (!socketRef.current?.connected) {
             console.log('Socket not connected, using polling only');
             startPolling();
           }
@@ -467,6 +498,9 @@ const BusDetailPage: React.FC = () => {
     return () => {
       console.log('Cleaning up connections');
       if (socketRef.current) {
+        if (socketRef.current.connected) {
+          socketRef.current.emit('unsubscribe:bus', { busId });
+        }
         socketRef.current.disconnect();
         socketRef.current = null;
       }
@@ -493,6 +527,17 @@ const BusDetailPage: React.FC = () => {
     return () => clearInterval(interval);
   }, [busData, lastUpdateTime]);
 
+  // Alternate path of an active diversion, drawn over the regular route
+  useEffect(() => {
+    const geometry = routeData?.diversion?.geometry;
+    try {
+      setDiversionCoordinates(geometry ? decode(geometry) : []);
+    } catch (error) {
+      console.error('Error processing diversion polyline:', error);
+      setDiversionCoordinates([]);
+    }
+  }, [routeData]);
+
   const processPolyline = (geometry: string) => {
     try {
       const decodedCoordinates = decode(geometry);
@@ -541,6 +586,18 @@ const BusDetailPage: React.FC = () => {
     return `${diffHours}h ${diffMins % 60}m ago`;
   };
 
+  const formatClockTime = (dateString: string) =>
+    new Date(dateString).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+  // Trip progress from the server when available; older payloads only have ETAs
+  const isStopReached = (stop: Stop) =>
+    !stop.closed && (stop.passed !== undefined ? stop.passed || !!stop.arrivedAt : stop.etaMinutes === 0);
+
+  // Live payload first; the route data covers the time before the first update
+  const diversion = busData?.diversion || routeData?.diversion || null;
+  const isRouteStopClosed = (stop: Stop) =>
+    !!stop.stopId && !!routeData?.diversion?.closedStopIds?.includes(stop.stopId);
+
   const getStatusColor = (status: string) => {
     switch (status.toLowerCase()) {
       case 'active':
@@ -726,6 +783,22 @@ const BusDetailPage: React.FC = () => {
         </div>
       </div>
 
+      {/* Active diversion */}
+      {diversion && (
+        <div className="bg-amber-50 border-b border-amber-200">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex items-start space-x-3">
+            <AlertTriangle className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
+            <div className="text-sm">
+              <p className="font-semibold text-amber-800">Diversion in effect: {diversion.reason}</p>
+              <p className="text-amber-700">
+                Until {new Date(diversion.endsAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+                {diversion.rerouted ? ' · The bus is following an alternate route' : ''}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Live Stops List - Show if we have live ETA data */}
       {busData && busData.etaStops && busData.etaStops.length > 0 && (
         <div className="bg-white border-b border-gray-100 shadow-sm sticky top-20 z-30">
@@ -759,26 +832,51 @@ const BusDetailPage: React.FC = () => {
                 {busData.etaStops.map((stop, index) => (
                   <div
                     key={stop.stopId || index}
-                    className="flex items-center justify-between p-4 bg-white border border-gray-200 rounded-xl shadow-sm hover:shadow-md transition-shadow"
+                    className={`flex items-center justify-between p-4 border rounded-xl shadow-sm transition-shadow ${
+                      stop.closed ? 'bg-gray-50 border-gray-200 opacity-60' : 'bg-white border-gray-200 hover:shadow-md'
+                    }`}
                   >
                     <div className="flex items-center space-x-3">
                       <div className={`w-4 h-4 rounded-full border-2 border-white shadow-sm ${
-                        stop.etaMinutes === 0 ? 'bg-green-500 animate-pulse' : 'bg-red-500'
+                        stop.closed || stop.passed ? 'bg-gray-400' : isStopReached(stop) ? 'bg-green-500 animate-pulse' : 'bg-red-500'
                       }`}></div>
                       <div>
-                        <p className="font-medium text-gray-900">{stop.name}</p>
-                        <p className="text-sm text-gray-500">Stop {index + 1}</p>
+                        <p className={`font-medium ${stop.closed ? 'text-gray-500 line-through' : 'text-gray-900'}`}>{stop.name}</p>
+                        <p className="text-sm text-gray-500">
+                          {stop.closed ? `Closed${stop.closureReason ? `: ${stop.closureReason}` : ''}` : `Stop ${index + 1}`}
+                        </p>
+                        {!stop.closed && stop.scheduledArrival && (
+                          <p className="text-xs text-gray-400">Scheduled {formatClockTime(stop.scheduledArrival)}</p>
+                        )}
                       </div>
                     </div>
                     <div className="text-right">
-                      {stop.etaMinutes === 0 ? (
+                      {stop.closed ? (
+                        <span className="px-3 py-1 bg-gray-200 text-gray-600 text-xs rounded-full font-medium">
+                          Closed
+                        </span>
+                      ) : stop.passed ? (
+                        <span className="px-3 py-1 bg-gray-100 text-gray-600 text-xs rounded-full font-medium">
+                          {stop.departedAt || stop.arrivedAt
+                            ? `Departed ${formatClockTime((stop.departedAt || stop.arrivedAt) as string)}`
+                            : 'Passed'}
+                        </span>
+                      ) : isStopReached(stop) ? (
+                        <span className="px-3 py-1 bg-gradient-to-r from-green-400 to-emerald-500 text-white text-xs rounded-full font-medium shadow-sm">
+                          {stop.arrivedAt ? 'At stop' : 'Arrived'}
+                        </span>
+                      ) : stop.etaMinutes === 0 ? (
                         <span className="px-3 py-1 bg-gradient-to-r from-green-400 to-emerald-500 text-white text-xs rounded-full font-medium shadow-sm">
-                          Arrived
+                          Arriving
                         </span>
                       ) : (
                         <div>
                           <p className="text-lg font-bold text-gray-900">{stop.etaMinutes}m</p>
-                          <p className="text-xs text-gray-500">ETA</p>
+                          <p className="text-xs text-gray-500">
+                            {stop.etaMinMinutes !== undefined && stop.etaMaxMinutes !== undefined && stop.etaMinMinutes !== stop.etaMaxMinutes
+                              ? `${stop.etaMinMinutes}–${stop.etaMaxMinutes}m`
+                              : 'ETA'}
+                          </p>
                         </div>
                       )}
                     </div>
@@ -823,18 +921,22 @@ const BusDetailPage: React.FC = () => {
                 {routeStops.map((stop, index) => (
                   <div
                     key={index}
-                    className="flex items-center justify-between p-4 bg-white border border-gray-200 rounded-xl shadow-sm"
+                    className={`flex items-center justify-between p-4 border rounded-xl shadow-sm ${
+                      isRouteStopClosed(stop) ? 'bg-gray-50 border-gray-200 opacity-60' : 'bg-white border-gray-200'
+                    }`}
                   >
                     <div className="flex items-center space-x-3">
                       <div className="w-4 h-4 bg-gray-400 rounded-full border-2 border-white shadow-sm"></div>
                       <div>
-                        <p className="font-medium text-gray-900">{stop.name}</p>
-                        <p className="text-sm text-gray-500">Stop {index + 1}</p>
+                        <p className={`font-medium ${isRouteStopClosed(stop) ? 'text-gray-500 line-through' : 'text-gray-900'}`}>{stop.name}</p>
+                        <p className="text-sm text-gray-500">
+                          {isRouteStopClosed(stop) ? `Closed: ${routeData.diversion?.reason}` : `Stop ${index + 1}`}
+                        </p>
                       </div>
                     </div>
                     <div className="text-right">
                       <span className="px-3 py-1 bg-gray-100 text-gray-600 text-xs rounded-full font-medium">
-                        No ETA
+                        {isRouteStopClosed(stop) ? 'Closed' : 'No ETA'}
                       </span>
                     </div>
                   </div>
@@ -881,8 +983,19 @@ const BusDetailPage: React.FC = () => {
                 positions={coordinates}
                 color="#2563eb"
                 weight={4}
-                opacity={0.8}
+                opacity={diversionCoordinates.length > 0 ? 0.35 : 0.8}
               />
+
+              {/* Diversion path */}
+              {diversionCoordinates.length > 0 && (
+                <Polyline
+                  positions={diversionCoordinates}
+                  color="#d97706"
+                  weight={4}
+                  opacity={0.9}
+                  dashArray="8 8"
+                />
+              )}
               
               {/* Bus Marker - Only show if we have live location */}
               {busData?.snappedLocation && (
@@ -908,13 +1021,19 @@ const BusDetailPage: React.FC = () => {
                       <Marker
                         key={stop.stopId || index}
                         position={[stop.lat, stop.lng]}
-                        icon={createStopIcon(stop.etaMinutes === 0, true)}
+                        icon={createStopIcon(isStopReached(stop) && !stop.passed, !stop.passed && !stop.closed)}
                       >
                         <Popup>
                           <div className="text-center">
                             <h3 className="font-bold text-gray-900">{stop.name}</h3>
                             <p className="text-sm text-gray-600">
-                              {stop.etaMinutes === 0 ? 'Bus has arrived' : `ETA: ${stop.etaMinutes} minutes`}
+                              {stop.closed
+                                ? `Stop closed${stop.closureReason ? `: ${stop.closureReason}` : ''}`
+                                : stop.passed
+                                ? 'Bus has departed'
+                                : isStopReached(stop)
+                                  ? 'Bus has arrived'
+                                  : `ETA: ${stop.etaMinutes} minutes`}
                             </p>
                           </div>
                         </Popup>